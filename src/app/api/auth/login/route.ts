@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { MISSING_APP_URL_ERROR, readSignInAppUrl } from "@/server/app-url";
+import { LoginLinkError, sendLoginLink } from "@/server/auth";
+import { SmtpError } from "@/server/notify/smtp";
+import { instrument, log } from "@/server/observability";
+import { enforceRateLimit } from "@/server/rate-limit";
+import { MAX_JSON_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import { emailSchema } from "@/shared/account";
+
+const loginSchema = z.object({
+  email: emailSchema
+});
+
+/** Emails a sign-in link. Accounts are created on first sign-in. */
+export const POST = instrument(async (request: Request) => {
+  const limited = await enforceRateLimit(request, "login");
+  if (limited) return limited;
+
+  const body = await readJsonBody(request, MAX_JSON_BODY_BYTES);
+  if (!body.ok) return body.response;
+
+  const parsed = loginSchema.safeParse(body.json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Request validation failed.", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const appUrl = readSignInAppUrl();
+  if (!appUrl) {
+    log.error("Sign-in link requested without APP_URL");
+    return NextResponse.json({ error: MISSING_APP_URL_ERROR }, { status: 500 });
+  }
+
+  try {
+    await sendLoginLink(parsed.data.email, appUrl);
+    return NextResponse.json({ status: "sent", email: parsed.data.email });
+  } catch (error) {
+    log.error("Sending sign-in link failed", { error });
+    if (error instanceof LoginLinkError) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    return NextResponse.json(
+      { error: "Unable to send the sign-in email." },
+      { status: error instanceof SmtpError ? 502 : 500 }
+    );
+  }
+});
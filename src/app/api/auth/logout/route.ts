@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { clearSessionCookie, endSession } from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+
+export const POST = instrument(async (request: Request) => {
+  try {
+    await endSession(request);
+  } catch (error) {
+    // The cookie is cleared either way; the session expires on its own.
+    log.error("Ending the session failed", { error });
+  }
+  const response = NextResponse.json({ status: "signed-out" });
+  clearSessionCookie(response);
+  return response;
+});
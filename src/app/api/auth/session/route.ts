@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { getSessionUser } from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+import type { SessionResponse } from "@/shared/account";
+
+export const dynamic = "force-dynamic";
+
+/** The signed-in user, or `{ user: null }`; never a 401. */
+export const GET = instrument(async (request: Request) => {
+  try {
+    return NextResponse.json<SessionResponse>({
+      user: await getSessionUser(request)
+    });
+  } catch (error) {
+    log.error("Loading the session failed", { error });
+    return NextResponse.json(
+      { error: "Unable to load your session." },
+      { status: 500 }
+    );
+  }
+});
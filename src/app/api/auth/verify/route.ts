@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { MISSING_APP_URL_ERROR, readSignInAppUrl } from "@/server/app-url";
+import { hashToken, setSessionCookie, startSession } from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+import { getAccountStore } from "@/server/storage";
+
+export const dynamic = "force-dynamic";
+
+/** Target of the emailed link: signs the user in and returns them home. */
+export const GET = instrument(async (request: Request) => {
+  const appUrl = readSignInAppUrl();
+  if (!appUrl) {
+    return NextResponse.json({ error: MISSING_APP_URL_ERROR }, { status: 500 });
+  }
+  const token = new URL(request.url).searchParams.get("token");
+
+  try {
+    const store = getAccountStore();
+    const email = token
+      ? await store.consumeLoginToken(hashToken(token))
+      : null;
+    if (!email) {
+      return NextResponse.redirect(`${appUrl}/?signin=expired`);
+    }
+
+    const user = await store.findOrCreate(email);
+    const response = NextResponse.redirect(`${appUrl}/`);
+    setSessionCookie(response, await startSession(user.id));
+    return response;
+  } catch (error) {
+    log.error("Signing in failed", { error });
+    return NextResponse.redirect(`${appUrl}/?signin=failed`);
+  }
+});
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+import { getContactStore } from "@/server/storage";
+
+type RouteContext = {
+  params: { id: string };
+};
+
+export const DELETE = instrument<RouteContext>(async (request, { params }) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const removed = await getContactStore(auth.user.id).removeContact(
+      params.id
+    );
+    return removed
+      ? NextResponse.json({ status: "deleted" })
+      : NextResponse.json({ error: "Contact not found." }, { status: 404 });
+  } catch (error) {
+    log.error("Deleting contact failed", { error });
+    return NextResponse.json(
+      { error: "Unable to delete the contact." },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+import { MAX_JSON_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import { getContactStore } from "@/server/storage";
+import { contactGroupSchema } from "@/shared/contacts";
+
+export const POST = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const body = await readJsonBody(request, MAX_JSON_BODY_BYTES);
+  if (!body.ok) return body.response;
+
+  const parsed = contactGroupSchema.safeParse(body.json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Request validation failed.", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const group = await getContactStore(auth.user.id).createGroup(parsed.data);
+    return NextResponse.json(group, { status: 201 });
+  } catch (error) {
+    log.error("Creating contact group failed", { error });
+    return NextResponse.json(
+      { error: "Unable to create the group." },
+      { status: 500 }
+    );
+  }
+});
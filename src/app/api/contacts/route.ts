@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+import { MAX_JSON_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import { ContactBookFullError, getContactStore } from "@/server/storage";
+import { readWhatsAppEnv } from "@/server/whatsapp/config";
+import { contactNameSchema } from "@/shared/contacts";
+import { countryCodeSchema, normalizePhoneNumber } from "@/shared/phone";
+
+export const dynamic = "force-dynamic";
+
+const contactSchema = z.object({
+  name: contactNameSchema,
+  phoneNumber: z.string().min(1).max(40),
+  /** Country for numbers typed without a country code. */
+  country: countryCodeSchema.optional()
+});
+
+export const GET = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    return NextResponse.json(await getContactStore(auth.user.id).list());
+  } catch (error) {
+    log.error("Loading contacts failed", { error });
+    return NextResponse.json(
+      { error: "Unable to load contacts." },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const body = await readJsonBody(request, MAX_JSON_BODY_BYTES);
+  if (!body.ok) return body.response;
+
+  const parsed = contactSchema.safeParse(body.json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Request validation failed.", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const phone = normalizePhoneNumber(
+    parsed.data.phoneNumber,
+    parsed.data.country ?? readWhatsAppEnv().defaultCountry
+  );
+  if (!phone.ok) {
+    return NextResponse.json({ error: phone.error }, { status: 400 });
+  }
+
+  try {
+    const contact = await getContactStore(auth.user.id).saveContact({
+      name: parsed.data.name,
+      phoneNumber: phone.e164
+    });
+    return NextResponse.json(contact, { status: 201 });
+  } catch (error) {
+    if (error instanceof ContactBookFullError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    log.error("Saving contact failed", { error });
+    return NextResponse.json(
+      { error: "Unable to save the contact." },
+      { status: 500 }
+    );
+  }
+});
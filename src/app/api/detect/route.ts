@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/server/auth";
+import { coerceDetectPayload } from "@/server/coerce";
+import {
+  describeModelError,
+  ModelOutputError,
+  parseModelJson
+} from "@/server/model-json";
+import { completeModelJson } from "@/server/model-repair";
+import { instrument, log } from "@/server/observability";
+import { resolveModelProvider, type ModelProvider } from "@/server/providers";
+import { enforceRateLimit } from "@/server/rate-limit";
+import { MAX_IMAGE_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import { detectedIngredientsJsonSchema } from "@/server/response-schemas";
+import type { ModelErrorBody } from "@/shared/errors";
+import {
+  defaultLocale,
+  languageNames,
+  localeSchema,
+  type Locale
+} from "@/shared/i18n";
+import { imageDataUrlsSchema } from "@/shared/image";
+import { detectResponseSchema } from "@/shared/ingredients";
+
+const requestSchema = z.object({
+  imageDataUrls: imageDataUrlsSchema,
+  /** The language to name ingredients in; English when absent. */
+  locale: localeSchema.optional()
+});
+
+const detectPrompt = `
+You are Kitchen Remix, a culinary assistant. A user uploads one or more photos of leftover ingredients from their kitchen (fridge, pantry, counter).
+- List every distinct food ingredient you can see. Ignore containers, appliances and non-food items.
+- The photos may overlap: list an ingredient once even if it appears in several shots, and sum quantities only when the shots clearly show different items.
+- For each ingredient provide:
+  - name (common grocery name, lowercase, e.g. "cherry tomatoes")
+  - quantity (your best visual estimate, e.g. "about 2 cups", "3", "half a block")
+  - confidence (0 to 1, how sure you are the item is what you named)
+  - freshness ("fresh", "use-soon", "past-prime", or "unknown" when you cannot tell)
+- Output valid JSON following this TypeScript type:
+  type Payload = {
+    ingredients: {
+      name: string;
+      quantity: string;
+      confidence: number;
+      freshness: "fresh" | "use-soon" | "past-prime" | "unknown";
+    }[];
+  };
+- JSON only. No markdown, no code fences.
+`;
+
+function buildDetectPrompt(locale: Locale) {
+  if (locale === defaultLocale) return detectPrompt;
+  return `${detectPrompt}\nWrite each name and quantity in ${languageNames[locale]}; keep the JSON keys and freshness values in English.\n`;
+}
+
+export const POST = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  let provider: ModelProvider;
+  try {
+    provider = resolveModelProvider();
+  } catch (error) {
+    return NextResponse.json<ModelErrorBody>(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Recipe provider is misconfigured.",
+        code: "provider_misconfigured"
+      },
+      { status: 500 }
+    );
+  }
+
+  const limited = await enforceRateLimit(request, "detect", auth.user.id);
+  if (limited) return limited;
+
+  const body = await readJsonBody(request, MAX_IMAGE_BODY_BYTES);
+  if (!body.ok) return body.response;
+
+  const parsed = requestSchema.safeParse(body.json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Request validation failed.", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const detected = await completeModelJson(
+      provider,
+      {
+        task: "detect",
+        maxOutputTokens: 600,
+        prompt: buildDetectPrompt(parsed.data.locale ?? defaultLocale),
+        images: parsed.data.imageDataUrls.map((dataUrl) => ({
+          dataUrl,
+          detail: "high" as const
+        })),
+        responseSchema: detectedIngredientsJsonSchema,
+        signal: request.signal
+      },
+      (raw) => parseModelJson(raw, detectResponseSchema, coerceDetectPayload)
+    );
+    detected.ingredients.sort((a, b) => b.confidence - a.confidence);
+    return NextResponse.json(detected);
+  } catch (error) {
+    log.error("Ingredient detection failed", { error });
+    return NextResponse.json<ModelErrorBody>(
+      describeModelError(error, "Ingredient detection failed unexpectedly."),
+      { status: error instanceof ModelOutputError ? 502 : 500 }
+    );
+  }
+});
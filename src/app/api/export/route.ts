@@ -0,0 +1,153 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { resolveAppUrl } from "@/server/app-url";
+import { requireUser } from "@/server/auth";
+import { PdfTextError, renderMenuExport } from "@/server/export";
+import { instrument, log } from "@/server/observability";
+import { MAX_JSON_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import { getMenuStore } from "@/server/storage";
+import {
+  exportFileTypes,
+  exportFormats,
+  type ExportFormat
+} from "@/shared/export";
+import {
+  defaultLocale,
+  localeSchema,
+  translate,
+  type Locale
+} from "@/shared/i18n";
+import { menuPath, type MenuRecord } from "@/shared/menu";
+import type { SharedMenu } from "@/shared/notify";
+import { recipeSchema } from "@/shared/recipe";
+
+export const dynamic = "force-dynamic";
+
+const formatSchema = z.enum(exportFormats);
+
+const exportSchema = z.object({
+  format: formatSchema,
+  summary: z.string().max(2000).nullable(),
+  /** The recipes as shown, already scaled and converted. */
+  recipes: z.array(recipeSchema).min(1).max(5),
+  /** Saved menu to link to and name the file after. */
+  menuSlug: z.string().optional(),
+  /** Language for the headings; English when absent. */
+  locale: localeSchema.optional()
+});
+
+function download(
+  menu: SharedMenu,
+  format: ExportFormat,
+  name: string,
+  createdAt: string | null
+) {
+  const { extension, contentType } = exportFileTypes[format];
+  return new NextResponse(renderMenuExport(menu, format, createdAt), {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${name}.${extension}"`,
+      "Cache-Control": "no-store"
+    }
+  });
+}
+
+function exportFailed(error: unknown, locale: Locale = defaultLocale) {
+  if (error instanceof PdfTextError) {
+    return NextResponse.json(
+      { error: translate(locale, "export.pdfUnsupported"), locale },
+      { status: 422 }
+    );
+  }
+  log.error("Menu export failed", { error });
+  return NextResponse.json(
+    { error: "Unable to export the menu." },
+    { status: 500 }
+  );
+}
+
+/** Exports a saved menu: `/api/export?slug=…&format=pdf`. */
+export const GET = instrument(async (request: Request) => {
+  const params = new URL(request.url).searchParams;
+  const format = formatSchema.safeParse(params.get("format"));
+  const slug = params.get("slug");
+  if (!format.success || !slug) {
+    return NextResponse.json(
+      {
+        error: "Request validation failed.",
+        details: `Pass a menu slug and a format (${exportFormats.join(", ")}).`
+      },
+      { status: 400 }
+    );
+  }
+
+  let menu: MenuRecord | null;
+  try {
+    menu = await getMenuStore().getBySlug(slug);
+  } catch (error) {
+    return exportFailed(error);
+  }
+  if (!menu) {
+    return NextResponse.json({ error: "Menu not found." }, { status: 404 });
+  }
+  try {
+    return download(
+      {
+        summary: menu.payload.summary,
+        recipes: menu.payload.recipes,
+        permalink: `${resolveAppUrl(request)}${menuPath(menu.slug)}`,
+        locale: menu.payload.locale
+      },
+      format.data,
+      `kitchen-remix-${menu.slug}`,
+      menu.createdAt
+    );
+  } catch (error) {
+    return exportFailed(error, menu.payload.locale);
+  }
+});
+
+/** Exports the menu as currently displayed, with servings and units applied. */
+export const POST = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const body = await readJsonBody(request, MAX_JSON_BODY_BYTES);
+  if (!body.ok) return body.response;
+
+  const parsed = exportSchema.safeParse(body.json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Request validation failed.", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  // Only a menu that exists names the file, never the slug as sent.
+  let menu: MenuRecord | null = null;
+  if (parsed.data.menuSlug) {
+    try {
+      menu = await getMenuStore().getBySlug(parsed.data.menuSlug);
+    } catch (error) {
+      log.error("Loading menu for export failed", { error });
+    }
+  }
+
+  try {
+    return download(
+      {
+        summary: parsed.data.summary,
+        recipes: parsed.data.recipes,
+        permalink: menu
+          ? `${resolveAppUrl(request)}${menuPath(menu.slug)}`
+          : null,
+        locale: parsed.data.locale
+      },
+      parsed.data.format,
+      menu ? `kitchen-remix-${menu.slug}` : "kitchen-remix-menu",
+      null
+    );
+  } catch (error) {
+    return exportFailed(error, parsed.data.locale);
+  }
+});
@@ -1,62 +1,84 @@
 import { NextResponse } from "next/server";
-import OpenAI from "openai";
 import { z } from "zod";
+import { requireUser } from "@/server/auth";
+import {
+  addConfirmedToPantry,
+  buildRecipeRequest,
+  createRecipeReviewer,
+  generateMenu,
+  loadPantry,
+  saveToHistory
+} from "@/server/generate";
+import {
+  cacheMenu,
+  finishedGeneration,
+  generateCacheKey,
+  joinGeneration,
+  readCachedMenu,
+  type GenerationJob,
+  type RunGeneration
+} from "@/server/generate-cache";
+import { describeModelError, ModelOutputError } from "@/server/model-json";
+import { instrument, log } from "@/server/observability";
+import { resolveModelProvider, type ModelProvider } from "@/server/providers";
+import { enforceRateLimit } from "@/server/rate-limit";
+import { createRecipeStream, streamRecipes } from "@/server/recipes";
+import { MAX_IMAGE_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import { dietaryProfileSchema } from "@/shared/dietary";
+import type { ModelErrorBody } from "@/shared/errors";
+import { localeSchema } from "@/shared/i18n";
+import { imageDataUrlsSchema, thumbnailDataUrlSchema } from "@/shared/image";
+import { detectedIngredientSchema } from "@/shared/ingredients";
+import {
+  GENERATE_STREAM_CONTENT_TYPE,
+  type GenerateCacheStatus
+} from "@/shared/recipe";
 
-const requestSchema = z.object({
-  imageDataUrl: z
-    .string()
-    .min(10, "Image payload missing.")
-    .regex(/^data:image\/[a-zA-Z+]+;base64,/, "Image data URL expected."),
-  notes: z.string().optional()
-});
+const requestSchema = z
+  .object({
+    imageDataUrls: imageDataUrlsSchema.optional(),
+    ingredients: z.array(detectedIngredientSchema).min(1).max(40).optional(),
+    notes: z.string().optional(),
+    dietaryProfile: dietaryProfileSchema.optional(),
+    thumbnailDataUrl: thumbnailDataUrlSchema.optional(),
+    /** The language to write the menu in; English when absent. */
+    locale: localeSchema.optional(),
+    /** Skips recent results and asks the model again. */
+    regenerate: z.boolean().optional(),
+    /** Set to false to cook from the photo alone. */
+    usePantry: z.boolean().optional()
+  })
+  .refine((data) => data.imageDataUrls || data.ingredients, {
+    message: "Provide imageDataUrls, a confirmed ingredients list, or both."
+  });
 
-const systemPrompt = `
-You are Kitchen Remix, a culinary assistant. A user uploads a photo of leftover ingredients from their kitchen.
-- First, inspect the image and infer the primary ingredients visible.
-- Blend that understanding with the provided notes (dietary needs, missing staples, equipment).
-- Produce a short summary that explains what you saw and the culinary direction you're taking.
-- Generate AT LEAST 3 distinct recipes (max 4). For each recipe provide:
-  - name (catchy but clear)
-  - description (1-2 sentences)
-  - ingredients (bullet array, include quantities using the leftovers plus a few common pantry items)
-  - steps (sequential array, concise but actionable)
-- Stay within normal home kitchen constraints. Note substitutions for missing items.
-- Output valid JSON following this TypeScript type:
-  type Payload = {
-    summary: string;
-    recipes: {
-      name: string;
-      description: string;
-      ingredients: string[];
-      steps: string[];
-    }[];
-  };
-- JSON only. No markdown, no code fences.
-`;
+export const POST = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
 
-export async function POST(request: Request) {
-  if (!process.env.OPENAI_API_KEY) {
-    return NextResponse.json(
-      { error: "OPENAI_API_KEY is not set on the server." },
+  let provider: ModelProvider;
+  try {
+    provider = resolveModelProvider();
+  } catch (error) {
+    return NextResponse.json<ModelErrorBody>(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Recipe provider is misconfigured.",
+        code: "provider_misconfigured"
+      },
       { status: 500 }
     );
   }
 
-  const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY
-  });
+  const limited = await enforceRateLimit(request, "generate", auth.user.id);
+  if (limited) return limited;
 
-  let body: unknown;
-  try {
-    body = await request.json();
-  } catch (error) {
-    return NextResponse.json(
-      { error: "Invalid JSON body.", details: String(error) },
-      { status: 400 }
-    );
-  }
+  const body = await readJsonBody(request, MAX_IMAGE_BODY_BYTES);
+  if (!body.ok) return body.response;
 
-  const parsed = requestSchema.safeParse(body);
+  const parsed = requestSchema.safeParse(body.json);
   if (!parsed.success) {
     return NextResponse.json(
       { error: "Request validation failed.", details: parsed.error.flatten() },
@@ -64,75 +86,84 @@ export async function POST(request: Request) {
     );
   }
 
-  try {
-    const response = await openai.responses.create({
-      model: "gpt-4o-mini",
-      max_output_tokens: 1400,
-      input: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "input_text",
-              text: [
-                systemPrompt,
-                parsed.data.notes
-                  ? `Notes from the cook: ${parsed.data.notes}`
-                  : "No additional notes provided."
-              ].join("\n\n")
-            },
-            {
-              type: "input_image",
-              image_url: parsed.data.imageDataUrl,
-              detail: "high"
-            }
-          ]
-        }
-      ]
-    });
-
-    const raw = response.output_text ?? "";
-    if (!raw) {
-      throw new Error("Model response was empty.");
-    }
-
-    let payload: unknown;
-    try {
-      payload = JSON.parse(raw);
-    } catch (error) {
-      throw new Error(
-        "Model response was not valid JSON. Please retake the photo and try again."
-      );
-    }
+  // Clients that send no profile get the one saved on the account.
+  const { regenerate, usePantry, ...fields } = parsed.data;
+  const userId = auth.user.id;
+  // Only what the cook confirmed joins the pantry, not every guess detection
+  // made.
+  if (fields.ingredients) {
+    await addConfirmedToPantry(userId, fields.ingredients);
+  }
+  const input = {
+    ...fields,
+    dietaryProfile:
+      fields.dietaryProfile ?? auth.user.profile.dietaryProfile ?? undefined,
+    pantry: usePantry === false ? undefined : await loadPantry(userId)
+  };
+  const streaming = request.headers
+    .get("accept")
+    ?.includes(GENERATE_STREAM_CONTENT_TYPE);
 
-    const payloadSchema = z.object({
-      summary: z.string().min(10),
-      recipes: z
-        .array(
-          z.object({
-            name: z.string().min(3),
-            description: z.string().min(10),
-            ingredients: z.array(z.string().min(2)).min(3),
-            steps: z.array(z.string().min(5)).min(3)
-          })
-        )
-        .min(3)
-        .max(5)
-    });
+  const cacheKey = generateCacheKey(userId, provider.name, input);
+  const cached = regenerate ? null : await readCachedMenu(cacheKey);
+  let job: GenerationJob;
+  let cache: GenerateCacheStatus = "hit";
+  if (cached) {
+    job = finishedGeneration(cached);
+  } else {
+    // A regenerate must not join the run it means to replace, but repeated
+    // regenerates still share one.
+    const joinKey = regenerate ? `${cacheKey}:regenerate` : cacheKey;
+    const run: RunGeneration = async (signal, report) => {
+      try {
+        const result = streaming
+          ? await streamRecipes(provider, buildRecipeRequest(input), report, {
+              signal,
+              locale: input.locale,
+              review: createRecipeReviewer(input.dietaryProfile, input.locale),
+              save: (payload) =>
+                saveToHistory(payload, {
+                  userId,
+                  notes: input.notes,
+                  thumbnailDataUrl: input.thumbnailDataUrl
+                })
+            })
+          : await generateMenu(provider, input, { userId, signal });
+        await cacheMenu(cacheKey, result);
+        return result;
+      } catch (error) {
+        if (!signal.aborted) log.error("Recipe generation failed", { error });
+        throw error;
+      }
+    };
+    const joined = joinGeneration(joinKey, run);
+    job = joined.job;
+    cache = joined.joined ? "shared" : "miss";
+  }
 
-    const parsedPayload = payloadSchema.parse(payload);
+  if (streaming) {
+    return new Response(
+      createRecipeStream(job, { cache, signal: request.signal }),
+      {
+        headers: {
+          "Content-Type": `${GENERATE_STREAM_CONTENT_TYPE}; charset=utf-8`,
+          "Cache-Control": "no-cache, no-transform"
+        }
+      }
+    );
+  }
 
-    return NextResponse.json(parsedPayload);
+  const leave = job.follow(() => undefined);
+  request.signal.addEventListener("abort", leave);
+  try {
+    const { payload, menu } = await job.result;
+    return NextResponse.json({ ...payload, menu, cache });
   } catch (error) {
-    console.error("Recipe generation failed", error);
-    return NextResponse.json(
-      {
-        error:
-          error instanceof Error
-            ? error.message
-            : "Recipe generation failed unexpectedly."
-      },
-      { status: 500 }
+    return NextResponse.json<ModelErrorBody>(
+      describeModelError(error, "Recipe generation failed unexpectedly."),
+      { status: error instanceof ModelOutputError ? 502 : 500 }
     );
+  } finally {
+    leave();
   }
-}
+});
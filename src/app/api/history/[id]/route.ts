@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+import { MAX_JSON_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import { getMenuStore } from "@/server/storage";
+
+type RouteContext = {
+  params: { id: string };
+};
+
+const updateSchema = z.object({
+  favorite: z.boolean()
+});
+
+function notFound() {
+  return NextResponse.json({ error: "Menu not found." }, { status: 404 });
+}
+
+/** Someone else's menu is reported as missing rather than forbidden. */
+async function findOwnMenu(id: string, userId: string) {
+  const menu = await getMenuStore().get(id);
+  return menu?.userId === userId ? menu : null;
+}
+
+function storageError(action: string, error: unknown) {
+  log.error(`Menu history ${action} failed`, { error });
+  return NextResponse.json(
+    { error: `Unable to ${action} the menu.` },
+    { status: 500 }
+  );
+}
+
+export const GET = instrument<RouteContext>(async (request, { params }) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const menu = await findOwnMenu(params.id, auth.user.id);
+    return menu ? NextResponse.json(menu) : notFound();
+  } catch (error) {
+    return storageError("load", error);
+  }
+});
+
+export const PATCH = instrument<RouteContext>(async (request, { params }) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const body = await readJsonBody(request, MAX_JSON_BODY_BYTES);
+  if (!body.ok) return body.response;
+
+  const parsed = updateSchema.safeParse(body.json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Request validation failed.", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (!(await findOwnMenu(params.id, auth.user.id))) return notFound();
+    const menu = await getMenuStore().setFavorite(
+      params.id,
+      parsed.data.favorite
+    );
+    return menu ? NextResponse.json(menu) : notFound();
+  } catch (error) {
+    return storageError("update", error);
+  }
+});
+
+export const DELETE = instrument<RouteContext>(async (request, { params }) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    if (!(await findOwnMenu(params.id, auth.user.id))) return notFound();
+    const removed = await getMenuStore().remove(params.id);
+    return removed ? NextResponse.json({ status: "deleted" }) : notFound();
+  } catch (error) {
+    return storageError("delete", error);
+  }
+});
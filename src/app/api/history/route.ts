@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+import { getMenuStore } from "@/server/storage";
+
+export const dynamic = "force-dynamic";
+
+export const GET = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const menus = await getMenuStore().list(auth.user.id);
+    return NextResponse.json({ menus });
+  } catch (error) {
+    log.error("Listing menu history failed", { error });
+    return NextResponse.json(
+      { error: "Unable to load menu history." },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,41 @@
+import { timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+import { renderMetrics } from "@/server/observability";
+
+export const dynamic = "force-dynamic";
+
+function hasToken(header: string | null, token: string) {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const received = Buffer.from(header ?? "");
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+}
+
+/**
+ * Request, model and WhatsApp metrics in the Prometheus text format. With
+ * `METRICS_TOKEN` set, scrapers send it as a bearer token; without one the
+ * endpoint only answers outside production.
+ */
+export async function GET(request: Request) {
+  const token = process.env.METRICS_TOKEN;
+  if (!token && process.env.NODE_ENV === "production") {
+    return NextResponse.json(
+      { error: "Metrics are disabled. Set METRICS_TOKEN to enable them." },
+      { status: 404 }
+    );
+  }
+  if (token && !hasToken(request.headers.get("authorization"), token)) {
+    return NextResponse.json(
+      { error: "A valid metrics token is required." },
+      { status: 401 }
+    );
+  }
+
+  return new Response(renderMetrics(), {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store"
+    }
+  });
+}
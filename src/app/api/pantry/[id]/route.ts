@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+import { MAX_JSON_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import { getPantryStore } from "@/server/storage";
+import { pantryItemSchema } from "@/shared/pantry";
+
+type RouteContext = {
+  params: { id: string };
+};
+
+const updateSchema = pantryItemSchema.partial();
+
+function notFound() {
+  return NextResponse.json(
+    { error: "Pantry item not found." },
+    { status: 404 }
+  );
+}
+
+function storageError(action: string, error: unknown) {
+  log.error(`Pantry item ${action} failed`, { error });
+  return NextResponse.json(
+    { error: `Unable to ${action} the pantry item.` },
+    { status: 500 }
+  );
+}
+
+export const PATCH = instrument<RouteContext>(async (request, { params }) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const body = await readJsonBody(request, MAX_JSON_BODY_BYTES);
+  if (!body.ok) return body.response;
+
+  const parsed = updateSchema.safeParse(body.json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Request validation failed.", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const item = await getPantryStore(auth.user.id).updateItem(
+      params.id,
+      parsed.data
+    );
+    return item ? NextResponse.json(item) : notFound();
+  } catch (error) {
+    return storageError("update", error);
+  }
+});
+
+export const DELETE = instrument<RouteContext>(async (request, { params }) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const removed = await getPantryStore(auth.user.id).removeItem(params.id);
+    return removed ? NextResponse.json({ status: "deleted" }) : notFound();
+  } catch (error) {
+    return storageError("delete", error);
+  }
+});
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+import { MAX_JSON_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import { getPantryStore } from "@/server/storage";
+import type { CookResponse } from "@/shared/pantry";
+import { recipeIngredientSchema } from "@/shared/recipe";
+
+const requestSchema = z.object({
+  /** As cooked: scaled to the servings made, in any units. */
+  ingredients: z.array(recipeIngredientSchema).min(1).max(60)
+});
+
+/** Marks a recipe as cooked, counting down the pantry items it used. */
+export const POST = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const body = await readJsonBody(request, MAX_JSON_BODY_BYTES);
+  if (!body.ok) return body.response;
+
+  const parsed = requestSchema.safeParse(body.json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Request validation failed.", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const store = getPantryStore(auth.user.id);
+    const used = await store.useIngredients(parsed.data.ingredients);
+    return NextResponse.json<CookResponse>({
+      pantry: await store.get(),
+      used
+    });
+  } catch (error) {
+    log.error("Updating pantry after cooking failed", { error });
+    return NextResponse.json(
+      { error: "Unable to update the pantry." },
+      { status: 500 }
+    );
+  }
+});
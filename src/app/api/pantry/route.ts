@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+import { MAX_JSON_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import { getPantryStore, PantryFullError } from "@/server/storage";
+import { pantryItemSchema } from "@/shared/pantry";
+
+export const dynamic = "force-dynamic";
+
+const addSchema = z.object({
+  items: z.array(pantryItemSchema).min(1).max(50)
+});
+
+export const GET = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    return NextResponse.json(await getPantryStore(auth.user.id).get());
+  } catch (error) {
+    log.error("Loading pantry failed", { error });
+    return NextResponse.json(
+      { error: "Unable to load the pantry." },
+      { status: 500 }
+    );
+  }
+});
+
+/** Adds items; an item already in the pantry has the amounts summed. */
+export const POST = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const body = await readJsonBody(request, MAX_JSON_BODY_BYTES);
+  if (!body.ok) return body.response;
+
+  const parsed = addSchema.safeParse(body.json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Request validation failed.", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const items = await getPantryStore(auth.user.id).addItems(
+      parsed.data.items,
+      "sum"
+    );
+    return NextResponse.json({ items }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PantryFullError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    log.error("Saving pantry items failed", { error });
+    return NextResponse.json(
+      { error: "Unable to save the pantry items." },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+import { MAX_JSON_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import { getPantryStore } from "@/server/storage";
+import { staplesSchema } from "@/shared/pantry";
+
+const requestSchema = z.object({
+  staples: staplesSchema
+});
+
+/** Replaces the list of staples the cook always has. */
+export const PUT = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const body = await readJsonBody(request, MAX_JSON_BODY_BYTES);
+  if (!body.ok) return body.response;
+
+  const parsed = requestSchema.safeParse(body.json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Request validation failed.", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const staples = await getPantryStore(auth.user.id).setStaples(
+      parsed.data.staples
+    );
+    return NextResponse.json({ staples });
+  } catch (error) {
+    log.error("Saving staples failed", { error });
+    return NextResponse.json(
+      { error: "Unable to save the staples." },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+import { MAX_JSON_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import { getPlanStore } from "@/server/storage";
+import { plannedMealUpdateSchema } from "@/shared/planner";
+
+type RouteContext = {
+  params: { id: string };
+};
+
+function notFound() {
+  return NextResponse.json(
+    { error: "Planned meal not found." },
+    { status: 404 }
+  );
+}
+
+function storageError(action: string, error: unknown) {
+  log.error(`Planned meal ${action} failed`, { error });
+  return NextResponse.json(
+    { error: `Unable to ${action} the planned meal.` },
+    { status: 500 }
+  );
+}
+
+/** Moves a meal to another day or meal, or changes its servings. */
+export const PATCH = instrument<RouteContext>(async (request, { params }) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const body = await readJsonBody(request, MAX_JSON_BODY_BYTES);
+  if (!body.ok) return body.response;
+
+  const parsed = plannedMealUpdateSchema.safeParse(body.json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Request validation failed.", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const planned = await getPlanStore(auth.user.id).update(
+      params.id,
+      parsed.data
+    );
+    return planned ? NextResponse.json(planned) : notFound();
+  } catch (error) {
+    return storageError("update", error);
+  }
+});
+
+export const DELETE = instrument<RouteContext>(async (request, { params }) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const removed = await getPlanStore(auth.user.id).remove(params.id);
+    return removed ? NextResponse.json({ status: "deleted" }) : notFound();
+  } catch (error) {
+    return storageError("delete", error);
+  }
+});
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+import { MAX_JSON_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import { getPlanStore, PlanFullError } from "@/server/storage";
+import { plannedMealSchema } from "@/shared/planner";
+
+export const dynamic = "force-dynamic";
+
+export const GET = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    return NextResponse.json(await getPlanStore(auth.user.id).get());
+  } catch (error) {
+    log.error("Loading meal plan failed", { error });
+    return NextResponse.json(
+      { error: "Unable to load the meal plan." },
+      { status: 500 }
+    );
+  }
+});
+
+/** Places a copy of a recipe on a day and meal. */
+export const POST = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  // A whole recipe rides along, so the body is read with the usual cap.
+  const body = await readJsonBody(request, MAX_JSON_BODY_BYTES);
+  if (!body.ok) return body.response;
+
+  const parsed = plannedMealSchema.safeParse(body.json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Request validation failed.", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const planned = await getPlanStore(auth.user.id).add(parsed.data);
+    return NextResponse.json(planned, { status: 201 });
+  } catch (error) {
+    if (error instanceof PlanFullError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    log.error("Saving planned meal failed", { error });
+    return NextResponse.json(
+      { error: "Unable to save the planned meal." },
+      { status: 500 }
+    );
+  }
+});
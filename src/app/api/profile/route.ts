@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+import { MAX_JSON_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import { getAccountStore, type UserProfile } from "@/server/storage";
+import { profileUpdateSchema } from "@/shared/account";
+
+export const dynamic = "force-dynamic";
+
+export const GET = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+  return NextResponse.json(auth.user.profile);
+});
+
+export const PATCH = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const body = await readJsonBody(request, MAX_JSON_BODY_BYTES);
+  if (!body.ok) return body.response;
+
+  const parsed = profileUpdateSchema.safeParse(body.json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Request validation failed.", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const change: Partial<UserProfile> = {};
+  // A new number is set by `/api/profile/whatsapp` once its code checks out.
+  const { whatsappNumber, dietaryProfile, locale } = parsed.data;
+  if (whatsappNumber !== undefined) change.whatsappNumber = null;
+  if (dietaryProfile !== undefined) change.dietaryProfile = dietaryProfile;
+  if (locale !== undefined) change.locale = locale;
+
+  try {
+    const user = await getAccountStore().updateProfile(auth.user.id, change);
+    return user
+      ? NextResponse.json(user.profile)
+      : NextResponse.json({ error: "Account not found." }, { status: 404 });
+  } catch (error) {
+    log.error("Updating the profile failed", { error });
+    return NextResponse.json(
+      { error: "Unable to update your profile." },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import {
+  PhoneVerificationError,
+  requireUser,
+  sendPhoneVerification
+} from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+import { enforceRateLimit } from "@/server/rate-limit";
+import { MAX_JSON_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import { WhatsAppApiError } from "@/server/whatsapp/client";
+import { readWhatsAppEnv } from "@/server/whatsapp/config";
+import { phoneVerificationSchema } from "@/shared/account";
+import { defaultLocale } from "@/shared/i18n";
+import { normalizePhoneNumber } from "@/shared/phone";
+
+export const dynamic = "force-dynamic";
+
+/** Texts a code to the number the cook wants on their profile. */
+export const POST = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const limited = await enforceRateLimit(request, "whatsapp", auth.user.id);
+  if (limited) return limited;
+
+  const body = await readJsonBody(request, MAX_JSON_BODY_BYTES);
+  if (!body.ok) return body.response;
+
+  const parsed = phoneVerificationSchema.safeParse(body.json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Request validation failed.", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const phone = normalizePhoneNumber(
+    parsed.data.whatsappNumber,
+    parsed.data.country ?? readWhatsAppEnv().defaultCountry
+  );
+  if (!phone.ok) {
+    return NextResponse.json({ error: phone.error }, { status: 400 });
+  }
+
+  try {
+    await sendPhoneVerification(
+      auth.user.id,
+      phone.e164,
+      parsed.data.locale ?? defaultLocale
+    );
+    return NextResponse.json({ status: "sent", whatsappNumber: phone.e164 });
+  } catch (error) {
+    if (error instanceof PhoneVerificationError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    log.error("Sending the WhatsApp code failed", { error });
+    return NextResponse.json(
+      {
+        error:
+          error instanceof WhatsAppApiError
+            ? "WhatsApp did not deliver the code. Message the bot once, then try again."
+            : "Unable to send the code."
+      },
+      { status: 502 }
+    );
+  }
+});
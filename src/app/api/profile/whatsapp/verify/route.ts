@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { confirmPhoneVerification, requireUser } from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+import { MAX_JSON_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import { phoneCodeSchema } from "@/shared/account";
+
+export const dynamic = "force-dynamic";
+
+/** Saves the number a code was sent to, once the cook types the code back. */
+export const POST = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const body = await readJsonBody(request, MAX_JSON_BODY_BYTES);
+  if (!body.ok) return body.response;
+
+  const parsed = phoneCodeSchema.safeParse(body.json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Request validation failed.", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const user = await confirmPhoneVerification(auth.user.id, parsed.data.code);
+    return user
+      ? NextResponse.json(user.profile)
+      : NextResponse.json(
+          { error: "That code is wrong or has expired." },
+          { status: 400 }
+        );
+  } catch (error) {
+    log.error("Verifying the WhatsApp number failed", { error });
+    return NextResponse.json(
+      { error: "Unable to verify the number." },
+      { status: 500 }
+    );
+  }
+});
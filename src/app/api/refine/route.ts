@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/server/auth";
+import { describeModelError, ModelOutputError } from "@/server/model-json";
+import { instrument, log } from "@/server/observability";
+import { resolveModelProvider, type ModelProvider } from "@/server/providers";
+import { enforceRateLimit } from "@/server/rate-limit";
+import { refineRecipe, saveRefinedRecipe } from "@/server/refine";
+import { MAX_JSON_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import { dietaryProfileSchema } from "@/shared/dietary";
+import type { ModelErrorBody } from "@/shared/errors";
+import { localeSchema } from "@/shared/i18n";
+import { detectedIngredientSchema } from "@/shared/ingredients";
+import { recipeSchema } from "@/shared/recipe";
+import {
+  MAX_REFINE_INSTRUCTION_LENGTH,
+  refineActions,
+  type RefineResponse
+} from "@/shared/refine";
+
+const requestSchema = z
+  .object({
+    summary: z.string().min(1).max(2000),
+    /** The whole menu as generated, before any scaling or unit changes. */
+    recipes: z.array(recipeSchema).min(1).max(5),
+    index: z.number().int().min(0),
+    action: z.enum(refineActions),
+    instruction: z
+      .string()
+      .trim()
+      .min(3)
+      .max(MAX_REFINE_INSTRUCTION_LENGTH)
+      .optional(),
+    ingredients: z.array(detectedIngredientSchema).min(1).max(40).optional(),
+    notes: z.string().optional(),
+    dietaryProfile: dietaryProfileSchema.optional(),
+    /** The language the menu is written in; English when absent. */
+    locale: localeSchema.optional(),
+    /** Saved menu to update with the replacement. */
+    menuId: z.string().optional()
+  })
+  .refine((data) => data.index < data.recipes.length, {
+    message: "index must point at one of the recipes.",
+    path: ["index"]
+  })
+  .refine((data) => data.action !== "custom" || data.instruction, {
+    message: "Describe the change you want.",
+    path: ["instruction"]
+  });
+
+export const POST = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  let provider: ModelProvider;
+  try {
+    provider = resolveModelProvider();
+  } catch (error) {
+    return NextResponse.json<ModelErrorBody>(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Recipe provider is misconfigured.",
+        code: "provider_misconfigured"
+      },
+      { status: 500 }
+    );
+  }
+
+  const limited = await enforceRateLimit(request, "refine", auth.user.id);
+  if (limited) return limited;
+
+  const body = await readJsonBody(request, MAX_JSON_BODY_BYTES);
+  if (!body.ok) return body.response;
+
+  const parsed = requestSchema.safeParse(body.json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Request validation failed.", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { menuId, ...fields } = parsed.data;
+  const input = {
+    ...fields,
+    dietaryProfile:
+      fields.dietaryProfile ?? auth.user.profile.dietaryProfile ?? undefined
+  };
+
+  try {
+    const recipe = await refineRecipe(provider, input, request.signal);
+    if (menuId) {
+      await saveRefinedRecipe(menuId, auth.user.id, input.index, recipe);
+    }
+    return NextResponse.json<RefineResponse>({ recipe });
+  } catch (error) {
+    log.error("Recipe refinement failed", { error });
+    return NextResponse.json<ModelErrorBody>(
+      describeModelError(error, "Recipe refinement failed unexpectedly."),
+      { status: error instanceof ModelOutputError ? 502 : 500 }
+    );
+  }
+});
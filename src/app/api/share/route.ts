@@ -0,0 +1,155 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { resolveAppUrl } from "@/server/app-url";
+import { requireUser } from "@/server/auth";
+import {
+  isShareRecipientAllowed,
+  listShareChannels,
+  NotifierError,
+  resolveNotifier
+} from "@/server/notify";
+import { instrument, log } from "@/server/observability";
+import { enforceRateLimit } from "@/server/rate-limit";
+import { MAX_JSON_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import { getMenuStore } from "@/server/storage";
+import { flagRecipe } from "@/shared/dietary";
+import { localeSchema } from "@/shared/i18n";
+import { menuPath } from "@/shared/menu";
+import { shareChannels } from "@/shared/notify";
+import { recipeSchema } from "@/shared/recipe";
+
+export const dynamic = "force-dynamic";
+
+const shareSchema = z.object({
+  channel: z.enum(shareChannels),
+  to: z.string().min(1).max(320),
+  summary: z.string().max(2000).nullable(),
+  /** The recipes as shown, already scaled and converted. */
+  recipes: z.array(recipeSchema).min(1).max(5),
+  /** Saved menu to link to. */
+  menuSlug: z.string().optional(),
+  asLink: z.boolean().optional(),
+  /** The language to write the message in; English when absent. */
+  locale: localeSchema.optional()
+});
+
+/** Which channels are configured, so the share panel can offer them. */
+export const GET = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  return NextResponse.json({ channels: listShareChannels() });
+});
+
+export const POST = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const limited = await enforceRateLimit(request, "share", auth.user.id);
+  if (limited) return limited;
+
+  const body = await readJsonBody(request, MAX_JSON_BODY_BYTES);
+  if (!body.ok) return body.response;
+
+  const parsed = shareSchema.safeParse(body.json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Request validation failed.", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const resolved = resolveNotifier(parsed.data.channel);
+  if (!resolved.ok) {
+    return NextResponse.json({ error: resolved.error }, { status: 500 });
+  }
+  const { notifier } = resolved;
+
+  const recipient = notifier.parseRecipient(parsed.data.to);
+  if (!recipient.ok) {
+    return NextResponse.json({ error: recipient.error }, { status: 400 });
+  }
+
+  let allowed: boolean;
+  try {
+    allowed = await isShareRecipientAllowed(
+      auth.user,
+      notifier.channel,
+      recipient.address
+    );
+  } catch (error) {
+    log.error("Loading contacts for sharing failed", { error });
+    return NextResponse.json(
+      { error: "Unable to load contacts." },
+      { status: 500 }
+    );
+  }
+  if (!allowed) {
+    return NextResponse.json(
+      {
+        error: `Share only to yourself, contacts with a verified number or addresses on the allowlist; ${recipient.address} is none of these.`
+      },
+      { status: 403 }
+    );
+  }
+
+  // Recipes that break the cook's dietary profile are never shared. The
+  // flags are checked here again, since the client could drop them.
+  const recipes = parsed.data.recipes
+    .map((recipe) =>
+      flagRecipe(
+        recipe,
+        auth.user.profile.dietaryProfile ?? undefined,
+        parsed.data.locale
+      )
+    )
+    .filter((recipe) => !recipe.violations?.length);
+  if (!recipes.length) {
+    return NextResponse.json(
+      {
+        error: "Every recipe breaks the dietary profile, so none can be shared."
+      },
+      { status: 400 }
+    );
+  }
+
+  let permalink: string | null = null;
+  if (parsed.data.menuSlug) {
+    try {
+      const menu = await getMenuStore().getBySlug(parsed.data.menuSlug);
+      if (menu) permalink = `${resolveAppUrl(request)}${menuPath(menu.slug)}`;
+    } catch (error) {
+      log.error("Loading menu for sharing failed", { error });
+    }
+  }
+
+  try {
+    const ids = await notifier.send(
+      recipient.address,
+      {
+        summary: parsed.data.summary,
+        recipes,
+        permalink,
+        locale: parsed.data.locale
+      },
+      { asLink: parsed.data.asLink ?? false }
+    );
+    return NextResponse.json({
+      status: "sent",
+      channel: notifier.channel,
+      to: recipient.address,
+      ids
+    });
+  } catch (error) {
+    log.error(`Sharing by ${notifier.channel} failed`, { error });
+    return NextResponse.json(
+      {
+        error:
+          error instanceof NotifierError
+            ? error.message
+            : "Sharing failed unexpectedly."
+      },
+      { status: 502 }
+    );
+  }
+});
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+import { enforceRateLimit } from "@/server/rate-limit";
+import { getDeliveryStore, summarizeDelivery } from "@/server/storage";
+import { createWhatsAppClient } from "@/server/whatsapp/client";
+import { readWhatsAppEnv } from "@/server/whatsapp/config";
+import { sendDelivery } from "@/server/whatsapp/deliveries";
+
+type RouteContext = {
+  params: { id: string };
+};
+
+// Resends the failed message and everything queued after it, in order.
+export const POST = instrument<RouteContext>(async (request, { params }) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const env = readWhatsAppEnv();
+  if (!env.token || !env.phoneId) {
+    return NextResponse.json(
+      {
+        error:
+          "WhatsApp credentials are not configured. Set WHATSAPP_ACCESS_TOKEN and WHATSAPP_PHONE_NUMBER_ID."
+      },
+      { status: 500 }
+    );
+  }
+
+  const limited = await enforceRateLimit(request, "whatsapp", auth.user.id);
+  if (limited) return limited;
+
+  try {
+    const existing = await getDeliveryStore().get(params.id);
+    if (existing?.userId !== auth.user.id) {
+      return NextResponse.json(
+        { error: "Delivery not found." },
+        { status: 404 }
+      );
+    }
+    const delivery = await sendDelivery(
+      createWhatsAppClient({
+        token: env.token,
+        phoneId: env.phoneId,
+        graphUrl: env.graphUrl
+      }),
+      params.id
+    );
+    return delivery
+      ? NextResponse.json(summarizeDelivery(delivery))
+      : NextResponse.json({ error: "Delivery not found." }, { status: 404 });
+  } catch (error) {
+    log.error("Retrying WhatsApp delivery failed", { error });
+    return NextResponse.json(
+      { error: "Unable to retry the delivery." },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/server/auth";
+import { instrument, log } from "@/server/observability";
+import { getDeliveryStore, summarizeDelivery } from "@/server/storage";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: { id: string };
+};
+
+export const GET = instrument<RouteContext>(async (request, { params }) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const delivery = await getDeliveryStore().get(params.id);
+    return delivery?.userId === auth.user.id
+      ? NextResponse.json(summarizeDelivery(delivery))
+      : NextResponse.json({ error: "Delivery not found." }, { status: 404 });
+  } catch (error) {
+    log.error("Loading WhatsApp delivery failed", { error });
+    return NextResponse.json(
+      { error: "Unable to load the delivery." },
+      { status: 500 }
+    );
+  }
+});
@@ -1,27 +1,168 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
+import { resolveAppUrl } from "@/server/app-url";
+import { requireUser } from "@/server/auth";
+import { isShareRecipientAllowed } from "@/server/notify";
+import { instrument, log } from "@/server/observability";
+import { enforceRateLimit } from "@/server/rate-limit";
+import { MAX_JSON_BODY_BYTES, readJsonBody } from "@/server/request-body";
+import {
+  getContactStore,
+  getMenuStore,
+  type ContactBook
+} from "@/server/storage";
+import {
+  broadcast,
+  MAX_BROADCAST_RECIPIENTS,
+  type BroadcastRecipient
+} from "@/server/whatsapp/broadcast";
+import { chunkMessage } from "@/server/whatsapp/chunk";
+import {
+  createWhatsAppClient,
+  type OutboundMessage,
+  type TemplateMessage
+} from "@/server/whatsapp/client";
+import {
+  isRecipientAllowed,
+  readWhatsAppEnv,
+  type WhatsAppEnv
+} from "@/server/whatsapp/config";
+import { buildRecipeList } from "@/server/whatsapp/messages";
+import type { User } from "@/shared/account";
+import { menuPath, type MenuRecord } from "@/shared/menu";
+import {
+  countryCodeSchema,
+  normalizePhoneNumber,
+  type CountryCode
+} from "@/shared/phone";
+
+const idListSchema = z
+  .array(z.string().min(1))
+  .max(MAX_BROADCAST_RECIPIENTS)
+  .default([]);
 
 const whatsappSchema = z.object({
   message: z.string().min(10),
-  phoneNumber: z.string().optional()
+  /** Phone numbers as typed; read with `country` when they lack a "+". */
+  recipients: z
+    .array(z.string().min(1).max(40))
+    .max(MAX_BROADCAST_RECIPIENTS)
+    .default([]),
+  contactIds: idListSchema,
+  groupIds: idListSchema,
+  country: countryCodeSchema.optional(),
+  /** Saved menu to offer as an interactive list of recipes. */
+  menuSlug: z.string().optional(),
+  /** Send the approved template instead, for recipients who never wrote in. */
+  firstContact: z.boolean().optional(),
+  templateParameters: z.array(z.string().min(1).max(1024)).max(10).optional()
 });
 
-type WhatsAppEnv = {
-  token: string | undefined;
-  phoneId: string | undefined;
-  defaultRecipient: string | undefined;
-};
+type RecipientRequest = Pick<
+  z.infer<typeof whatsappSchema>,
+  "recipients" | "contactIds" | "groupIds"
+>;
+
+type RecipientResolution =
+  | { ok: true; recipients: BroadcastRecipient[] }
+  | { ok: false; status: 400 | 403; error: string; details?: unknown };
+
+/**
+ * Expands contacts and groups and normalizes typed numbers, dropping
+ * duplicates so nobody in two groups gets the menu twice. Like sharing,
+ * a broadcast reaches only the cook, their contacts and the allowlist.
+ */
+async function resolveRecipients(
+  request: RecipientRequest,
+  user: User,
+  country: CountryCode | undefined,
+  env: WhatsAppEnv
+): Promise<RecipientResolution> {
+  const invalid: { input: string; error: string }[] = [];
+  const numbers: string[] = [];
+  for (const input of request.recipients) {
+    const phone = normalizePhoneNumber(input, country);
+    if (phone.ok) numbers.push(phone.e164);
+    else invalid.push({ input, error: phone.error });
+  }
+  if (invalid.length) {
+    return {
+      ok: false,
+      status: 400,
+      error: "Some phone numbers are invalid.",
+      details: { invalid }
+    };
+  }
 
-function readEnv(): WhatsAppEnv {
+  const book: ContactBook =
+    request.contactIds.length || request.groupIds.length || numbers.length
+      ? await getContactStore(user.id).list()
+      : { contacts: [], groups: [] };
+  const groups = request.groupIds.map((id) =>
+    book.groups.find((group) => group.id === id)
+  );
+  const contactIds = [
+    ...request.contactIds,
+    ...groups.flatMap((group) => group?.contactIds ?? [])
+  ];
+  const contacts = contactIds.map((id) =>
+    book.contacts.find((contact) => contact.id === id)
+  );
+  if (groups.includes(undefined) || contacts.includes(undefined)) {
+    return {
+      ok: false,
+      status: 400,
+      error: "Some contacts or groups no longer exist."
+    };
+  }
+
+  const names = new Map(
+    book.contacts.map((contact) => [contact.phoneNumber, contact.name])
+  );
+  const phoneNumbers = new Set([
+    ...contacts.flatMap((contact) => (contact ? [contact.phoneNumber] : [])),
+    ...numbers
+  ]);
+  if (phoneNumbers.size > MAX_BROADCAST_RECIPIENTS) {
+    return {
+      ok: false,
+      status: 400,
+      error: `Send to at most ${MAX_BROADCAST_RECIPIENTS} recipients at once.`
+    };
+  }
+  const allowed = await Promise.all(
+    Array.from(phoneNumbers, async (phoneNumber) =>
+      isRecipientAllowed(env, phoneNumber)
+        ? isShareRecipientAllowed(user, "whatsapp", phoneNumber)
+        : false
+    )
+  );
+  const notAllowed = Array.from(phoneNumbers).filter(
+    (_, index) => !allowed[index]
+  );
+  if (notAllowed.length) {
+    return {
+      ok: false,
+      status: 403,
+      error:
+        "Send only to yourself, contacts with a verified number or numbers on the allowlist.",
+      details: { notAllowed }
+    };
+  }
   return {
-    token: process.env.WHATSAPP_ACCESS_TOKEN,
-    phoneId: process.env.WHATSAPP_PHONE_NUMBER_ID,
-    defaultRecipient: process.env.WHATSAPP_RECIPIENT
+    ok: true,
+    recipients: Array.from(phoneNumbers, (phoneNumber) => ({
+      phoneNumber,
+      name: names.get(phoneNumber) ?? null
+    }))
   };
 }
 
-export async function POST(request: Request) {
-  const env = readEnv();
+export const POST = instrument(async (request: Request) => {
+  const auth = await requireUser(request);
+  if (!auth.ok) return auth.response;
+
+  const env = readWhatsAppEnv();
 
   if (!env.token || !env.phoneId) {
     return NextResponse.json(
@@ -33,17 +174,10 @@ export async function POST(request: Request) {
     );
   }
 
-  let json: unknown;
-  try {
-    json = await request.json();
-  } catch (error) {
-    return NextResponse.json(
-      { error: "Invalid JSON body.", details: String(error) },
-      { status: 400 }
-    );
-  }
+  const body = await readJsonBody(request, MAX_JSON_BODY_BYTES);
+  if (!body.ok) return body.response;
 
-  const parsed = whatsappSchema.safeParse(json);
+  const parsed = whatsappSchema.safeParse(body.json);
   if (!parsed.success) {
     return NextResponse.json(
       { error: "Request validation failed.", details: parsed.error.flatten() },
@@ -51,62 +185,126 @@ export async function POST(request: Request) {
     );
   }
 
-  const recipient = parsed.data.phoneNumber ?? env.defaultRecipient;
-  if (!recipient) {
+  const country = parsed.data.country ?? env.defaultCountry;
+  let resolved: RecipientResolution;
+  try {
+    const hasRecipients =
+      parsed.data.recipients.length ||
+      parsed.data.contactIds.length ||
+      parsed.data.groupIds.length;
+    // With nobody chosen, the menu goes to the sender's own number.
+    const ownNumber = auth.user.profile.whatsappNumber;
+    resolved = await resolveRecipients(
+      hasRecipients || !ownNumber
+        ? parsed.data
+        : { recipients: [ownNumber], contactIds: [], groupIds: [] },
+      auth.user,
+      country,
+      env
+    );
+  } catch (error) {
+    log.error("Loading WhatsApp contacts failed", { error });
+    return NextResponse.json(
+      { error: "Unable to load contacts." },
+      { status: 500 }
+    );
+  }
+  if (!resolved.ok) {
+    return NextResponse.json(
+      { error: resolved.error, details: resolved.details },
+      { status: resolved.status }
+    );
+  }
+  if (!resolved.recipients.length) {
     return NextResponse.json(
       {
         error:
-          "Provide a phoneNumber in the request or configure WHATSAPP_RECIPIENT."
+          "Choose at least one recipient or save your WhatsApp number in your profile."
       },
       { status: 400 }
     );
   }
 
-  try {
-    const whatsappResponse = await fetch(
-      `https://graph.facebook.com/v19.0/${env.phoneId}/messages`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${env.token}`
-        },
-        body: JSON.stringify({
-          messaging_product: "whatsapp",
-          to: recipient,
-          type: "text",
-          text: {
-            preview_url: false,
-            body: parsed.data.message
-          }
-        })
+  const limited = await enforceRateLimit(
+    request,
+    "whatsapp",
+    auth.user.id,
+    resolved.recipients.length
+  );
+  if (limited) return limited;
+
+  let menu: MenuRecord | null = null;
+  if (parsed.data.menuSlug) {
+    try {
+      menu = await getMenuStore().getBySlug(parsed.data.menuSlug);
+    } catch (error) {
+      log.error("Loading menu for WhatsApp failed", { error });
+    }
+    if (!menu) {
+      return NextResponse.json({ error: "Menu not found." }, { status: 404 });
+    }
+  }
+
+  const template: TemplateMessage | null = env.templateName
+    ? {
+        name: env.templateName,
+        language: env.templateLanguage,
+        parameters:
+          parsed.data.templateParameters ??
+          (menu ? [`${resolveAppUrl(request)}${menuPath(menu.slug)}`] : [])
       }
+    : null;
+  if (parsed.data.firstContact && !template) {
+    return NextResponse.json(
+      {
+        error:
+          "Set WHATSAPP_TEMPLATE_NAME to an approved template to message first-time recipients."
+      },
+      { status: 400 }
     );
+  }
 
-    if (!whatsappResponse.ok) {
-      const errorPayload = await whatsappResponse.json().catch(() => ({}));
-      const statusText = JSON.stringify(errorPayload);
-      throw new Error(
-        `WhatsApp API error (${whatsappResponse.status}): ${statusText}`
-      );
-    }
+  const messages: OutboundMessage[] =
+    parsed.data.firstContact && template
+      ? [{ kind: "template", template }]
+      : [
+          ...chunkMessage(parsed.data.message).map((body) => ({
+            kind: "text" as const,
+            body
+          })),
+          ...(menu
+            ? [{ kind: "list" as const, list: buildRecipeList(menu) }]
+            : [])
+        ];
 
-    const responseBody = await whatsappResponse.json().catch(() => ({}));
+  const client = createWhatsAppClient({
+    token: env.token,
+    phoneId: env.phoneId,
+    graphUrl: env.graphUrl
+  });
+  const results = await broadcast(client, resolved.recipients, {
+    userId: auth.user.id,
+    menuId: menu?.id ?? null,
+    messages,
+    template
+  });
 
-    return NextResponse.json({
-      status: responseBody?.messages ? "queued" : "sent",
-      id: responseBody?.messages?.[0]?.id ?? null
-    });
-  } catch (error) {
-    console.error("WhatsApp send failed", error);
+  const failed = results.filter((result) => result.status === "failed");
+  if (failed.length === results.length) {
     return NextResponse.json(
       {
         error:
-          error instanceof Error
-            ? error.message
-            : "WhatsApp delivery failed unexpectedly."
+          results.length === 1
+            ? `WhatsApp delivery failed: ${failed[0].error}`
+            : "WhatsApp delivery failed for every recipient.",
+        status: "failed",
+        results
       },
       { status: 502 }
     );
   }
-}
+  return NextResponse.json({
+    status: failed.length ? "partial" : "sent",
+    results
+  });
+});
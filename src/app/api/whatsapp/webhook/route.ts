@@ -0,0 +1,139 @@
+import { NextResponse } from "next/server";
+import { resolveAppUrl } from "@/server/app-url";
+import { instrument, log } from "@/server/observability";
+import { resolveModelProvider, type ModelProvider } from "@/server/providers";
+import { MAX_JSON_BODY_BYTES, readTextBody } from "@/server/request-body";
+import { createWhatsAppClient } from "@/server/whatsapp/client";
+import { readWhatsAppEnv } from "@/server/whatsapp/config";
+import { applyStatusCallback } from "@/server/whatsapp/deliveries";
+import { verifyWebhookSignature } from "@/server/whatsapp/signature";
+import {
+  extractInboundMessages,
+  extractStatusCallbacks,
+  handleInboundMessage,
+  isFirstDelivery,
+  webhookPayloadSchema
+} from "@/server/whatsapp/webhook";
+
+export const dynamic = "force-dynamic";
+
+// Meta's subscription handshake: echo the challenge when the token matches.
+export const GET = instrument(async (request: Request) => {
+  const env = readWhatsAppEnv();
+  const params = new URL(request.url).searchParams;
+
+  if (
+    env.verifyToken &&
+    params.get("hub.mode") === "subscribe" &&
+    params.get("hub.verify_token") === env.verifyToken
+  ) {
+    return new Response(params.get("hub.challenge") ?? "", {
+      headers: { "Content-Type": "text/plain" }
+    });
+  }
+  return NextResponse.json(
+    { error: "Webhook verification failed." },
+    { status: 403 }
+  );
+});
+
+export const POST = instrument(async (request: Request) => {
+  const env = readWhatsAppEnv();
+  if (!env.token || !env.phoneId || !env.appSecret) {
+    return NextResponse.json(
+      {
+        error:
+          "WhatsApp webhook is not configured. Set WHATSAPP_ACCESS_TOKEN, WHATSAPP_PHONE_NUMBER_ID and WHATSAPP_APP_SECRET."
+      },
+      { status: 500 }
+    );
+  }
+
+  // The signature covers the exact bytes Meta sent, so read the raw text.
+  const raw = await readTextBody(request, MAX_JSON_BODY_BYTES);
+  if (!raw.ok) return raw.response;
+  const rawBody = raw.text;
+  if (
+    !verifyWebhookSignature(
+      rawBody,
+      request.headers.get("x-hub-signature-256"),
+      env.appSecret
+    )
+  ) {
+    return NextResponse.json(
+      { error: "Invalid webhook signature." },
+      { status: 401 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(rawBody);
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Invalid JSON body.", details: String(error) },
+      { status: 400 }
+    );
+  }
+
+  const parsed = webhookPayloadSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Request validation failed.", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  // Status callbacks are cheap to record, so they are stored before the
+  // acknowledgement and a failure here makes Meta redeliver them.
+  try {
+    for (const callback of extractStatusCallbacks(parsed.data)) {
+      await applyStatusCallback(callback);
+    }
+  } catch (error) {
+    log.error("Recording WhatsApp status callbacks failed", { error });
+    return NextResponse.json(
+      { error: "Unable to record delivery statuses." },
+      { status: 500 }
+    );
+  }
+
+  const messages = extractInboundMessages(parsed.data).filter((message) =>
+    isFirstDelivery(message.id)
+  );
+  if (!messages.length) {
+    return NextResponse.json({ status: "accepted", messages: 0 });
+  }
+
+  let provider: ModelProvider;
+  try {
+    provider = resolveModelProvider();
+  } catch (error) {
+    log.error("WhatsApp webhook cannot resolve a provider", { error });
+    return NextResponse.json(
+      { error: "Recipe provider is misconfigured." },
+      { status: 500 }
+    );
+  }
+
+  const context = {
+    provider,
+    client: createWhatsAppClient({
+      token: env.token,
+      phoneId: env.phoneId,
+      graphUrl: env.graphUrl
+    }),
+    env,
+    appUrl: resolveAppUrl(request)
+  };
+
+  // Generation takes longer than Meta waits for an acknowledgement, so the
+  // replies are sent after this response returns.
+  for (const message of messages) {
+    handleInboundMessage(message, context).catch((error) =>
+      log.error("WhatsApp inbound message failed", { error })
+    );
+  }
+
+  return NextResponse.json({ status: "accepted", messages: messages.length });
+});
@@ -0,0 +1,16 @@
+import { renderAppIcon } from "@/server/pwa/icon";
+
+export const contentType = "image/png";
+
+// One icon per size the web app manifest lists, at /icon/192 and /icon/512.
+export function generateImageMetadata() {
+  return [192, 512].map((size) => ({
+    id: String(size),
+    size: { width: size, height: size },
+    contentType
+  }));
+}
+
+export default function Icon({ id }: { id: string }) {
+  return renderAppIcon(Number(id));
+}
@@ -1,13 +1,26 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Inter } from "next/font/google";
+import { I18nProvider } from "@/components/i18n-provider";
+import { ServiceWorker } from "@/components/service-worker";
+import { readRequestLocale } from "@/server/i18n";
+import { localeDirection, translate } from "@/shared/i18n";
 import "@/app/globals.css";
 
 const inter = Inter({ subsets: ["latin"] });
 
-export const metadata: Metadata = {
-  title: "Kitchen Remix AI",
-  description:
-    "Upload a photo of your leftovers and get AI-crafted recipes you can send on WhatsApp."
+export function generateMetadata(): Metadata {
+  const locale = readRequestLocale();
+  return {
+    // Needed so permalink pages can publish absolute OpenGraph URLs.
+    metadataBase: new URL(process.env.APP_URL ?? "http://localhost:3000"),
+    title: translate(locale, "app.name"),
+    description: translate(locale, "app.description"),
+    appleWebApp: { capable: true, title: "Kitchen Remix" }
+  };
+}
+
+export const viewport: Viewport = {
+  themeColor: "#020617"
 };
 
 export default function RootLayout({
@@ -15,9 +28,13 @@ export default function RootLayout({
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = readRequestLocale();
   return (
-    <html lang="en">
-      <body className={inter.className}>{children}</body>
+    <html lang={locale} dir={localeDirection(locale)}>
+      <body className={inter.className}>
+        <I18nProvider initialLocale={locale}>{children}</I18nProvider>
+        <ServiceWorker />
+      </body>
     </html>
   );
 }
@@ -0,0 +1,26 @@
+import type { MetadataRoute } from "next";
+import { defaultLocale, translate } from "@/shared/i18n";
+
+/** Lets phones install the app and open it full screen from the home screen. */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: translate(defaultLocale, "app.name"),
+    short_name: "Kitchen Remix",
+    description: translate(defaultLocale, "app.description"),
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: "#020617",
+    theme_color: "#020617",
+    icons: [
+      { src: "/icon/192", sizes: "192x192", type: "image/png" },
+      { src: "/icon/512", sizes: "512x512", type: "image/png" },
+      {
+        src: "/icon/512",
+        sizes: "512x512",
+        type: "image/png",
+        purpose: "maskable"
+      }
+    ]
+  };
+}
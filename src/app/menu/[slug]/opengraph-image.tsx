@@ -0,0 +1,57 @@
+import { ImageResponse } from "next/og";
+import { getMenuStore } from "@/server/storage";
+
+export const runtime = "nodejs";
+export const alt = "Kitchen Remix AI menu";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+type ImageProps = {
+  params: { slug: string };
+};
+
+export default async function MenuOpenGraphImage({ params }: ImageProps) {
+  const menu = await getMenuStore().getBySlug(params.slug);
+  const names = menu?.payload.recipes.map((recipe) => recipe.name) ?? [];
+
+  return new ImageResponse(
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "space-between",
+        padding: 72,
+        background: "#020617",
+        color: "#f1f5f9"
+      }}
+    >
+      <div
+        style={{
+          fontSize: 28,
+          letterSpacing: 8,
+          textTransform: "uppercase",
+          color: "#60a5fa"
+        }}
+      >
+        Kitchen Remix AI
+      </div>
+      <div style={{ display: "flex", flexDirection: "column", gap: 20 }}>
+        {names.length ? (
+          names.slice(0, 4).map((name, index) => (
+            <div key={name} style={{ fontSize: 54, fontWeight: 600 }}>
+              {`${index + 1}. ${name}`}
+            </div>
+          ))
+        ) : (
+          <div style={{ fontSize: 54, fontWeight: 600 }}>Menu not found</div>
+        )}
+      </div>
+      <div style={{ fontSize: 26, color: "#94a3b8" }}>
+        Recipes remixed from a photo of leftovers
+      </div>
+    </div>,
+    size
+  );
+}
@@ -0,0 +1,156 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { RecipeCard } from "@/components/recipe-card";
+import { buildMenuJsonLd } from "@/server/export";
+import { readRequestLocale } from "@/server/i18n";
+import { getMenuStore } from "@/server/storage";
+import {
+  availableExportFormats,
+  exportFormatLabels,
+  exportPath
+} from "@/shared/export";
+import {
+  defaultLocale,
+  localeTags,
+  translate,
+  type Locale
+} from "@/shared/i18n";
+import { menuPath, type MenuRecord } from "@/shared/menu";
+
+export const dynamic = "force-dynamic";
+
+type MenuPageProps = {
+  params: { slug: string };
+};
+
+function describeMenu(menu: MenuRecord, locale: Locale) {
+  const names = menu.payload.recipes.map((recipe) => recipe.name);
+  const summary = menu.payload.summary;
+  const shown = names.slice(0, 2).join(" & ");
+  return {
+    title: `${
+      names.length > 2
+        ? translate(locale, "menuPage.more", {
+            names: shown,
+            count: names.length - 2
+          })
+        : shown
+    } · ${translate(locale, "app.name")}`,
+    description:
+      summary.length > 200 ? `${summary.slice(0, 197).trimEnd()}…` : summary
+  };
+}
+
+export async function generateMetadata({
+  params
+}: MenuPageProps): Promise<Metadata> {
+  const locale = readRequestLocale();
+  const menu = await getMenuStore().getBySlug(params.slug);
+  if (!menu) {
+    return {
+      title: `${translate(locale, "menuPage.notFound")} · ${translate(locale, "app.name")}`
+    };
+  }
+
+  const { title, description } = describeMenu(menu, locale);
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: "article",
+      url: menuPath(menu.slug),
+      siteName: translate(locale, "app.name"),
+      publishedTime: menu.createdAt
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description
+    }
+  };
+}
+
+export default async function MenuPage({ params }: MenuPageProps) {
+  const locale = readRequestLocale();
+  const menu = await getMenuStore().getBySlug(params.slug);
+  if (!menu) {
+    notFound();
+  }
+
+  // Lets recipe managers such as Paprika and Mealie import straight from the
+  // page URL. "<" is escaped so recipe text cannot close the script tag.
+  const jsonLd = JSON.stringify(
+    buildMenuJsonLd(
+      {
+        summary: menu.payload.summary,
+        recipes: menu.payload.recipes,
+        // The importer already has the page URL.
+        permalink: null
+      },
+      menu.createdAt
+    )
+  ).replace(/</g, "\\u003c");
+
+  return (
+    <main className="flex flex-col gap-10 px-6 pb-16 pt-12 sm:px-10 md:px-16 lg:px-24">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: jsonLd }}
+      />
+      <header className="mx-auto flex w-full max-w-5xl flex-col gap-4 rounded-3xl bg-slate-900/60 px-6 py-10 shadow-lg shadow-blue-500/10 ring-1 ring-slate-800 md:px-10">
+        <span className="text-xs font-semibold uppercase tracking-[0.4em] text-blue-400">
+          {translate(locale, "app.name")}
+        </span>
+        <h1 className="text-3xl font-semibold sm:text-4xl">
+          {translate(locale, "menuPage.title")}
+        </h1>
+        <p
+          lang={menu.payload.locale ?? defaultLocale}
+          className="text-sm text-slate-300 sm:text-base"
+        >
+          {menu.payload.summary}
+        </p>
+        <p className="text-xs text-slate-500">
+          {translate(locale, "menuPage.created", {
+            date: new Date(menu.createdAt).toLocaleDateString(
+              localeTags[locale],
+              { dateStyle: "long" }
+            )
+          })}
+        </p>
+        <nav className="flex flex-wrap gap-2 text-xs">
+          {availableExportFormats(menu.payload).map((format) => (
+            <a
+              key={format}
+              href={exportPath(menu.slug, format)}
+              className="rounded-full border border-slate-700 px-3 py-1 font-semibold text-slate-300 transition hover:border-blue-400 hover:text-white"
+            >
+              {translate(locale, "export.downloadFormat", {
+                format: exportFormatLabels[format]
+              })}
+            </a>
+          ))}
+        </nav>
+      </header>
+
+      <section className="mx-auto grid w-full max-w-5xl gap-6 md:grid-cols-2">
+        {menu.payload.recipes.map((recipe, index) => (
+          <RecipeCard key={recipe.name} recipe={recipe} index={index} />
+        ))}
+      </section>
+
+      <footer className="mx-auto text-center text-sm text-slate-400">
+        {translate(locale, "menuPage.cta")}{" "}
+        <Link
+          href="/"
+          className="font-semibold text-blue-300 hover:text-blue-200"
+        >
+          {translate(locale, "menuPage.ctaLink")}
+        </Link>
+      </footer>
+    </main>
+  );
+}
@@ -1,121 +1,578 @@
 "use client";
 
-import { FormEvent, useMemo, useState } from "react";
+import {
+  FormEvent,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState
+} from "react";
+import { describeApiError } from "@/client/api-error";
+import {
+  createThumbnail,
+  prepareImage,
+  type PreparedImage
+} from "@/client/image";
+import { onReplayed } from "@/client/offline";
+import { AccountPanel } from "@/components/account-panel";
+import { ChannelShareForm } from "@/components/channel-share-form";
+import { CookedButton } from "@/components/cooked-button";
+import { DeliveryStatus } from "@/components/delivery-status";
+import { DietaryForm } from "@/components/dietary-form";
+import { useI18n } from "@/components/i18n-provider";
+import { IngredientChips } from "@/components/ingredient-chips";
+import { LocaleSwitcher } from "@/components/locale-switcher";
+import { MealPlanner, type PlannerRecipe } from "@/components/meal-planner";
+import { MenuExport } from "@/components/menu-export";
+import { MenuHistory } from "@/components/menu-history";
+import { PantryPanel } from "@/components/pantry-panel";
+import { RecipeCard } from "@/components/recipe-card";
+import { RecipeRefine } from "@/components/recipe-refine";
+import {
+  emptyRecipientSelection,
+  RecipientPicker,
+  type RecipientSelection
+} from "@/components/recipient-picker";
+import { SignInForm } from "@/components/sign-in-form";
+import type { SessionResponse, User } from "@/shared/account";
+import type { DeliverySummary, RecipientResult } from "@/shared/delivery";
+import {
+  dietaryProfileSchema,
+  emptyDietaryProfile,
+  type DietaryProfile
+} from "@/shared/dietary";
+import { defaultLocale, type Locale } from "@/shared/i18n";
+import { MAX_IMAGES } from "@/shared/image";
+import type { DetectedIngredient, DetectResponse } from "@/shared/ingredients";
+import { menuPath, type MenuRecord, type MenuRef } from "@/shared/menu";
+import {
+  shareChannels,
+  type ShareChannel,
+  type ShareChannelStatus
+} from "@/shared/notify";
+import {
+  isOfflineError,
+  isQueuedResponse,
+  type ReplayedMenu
+} from "@/shared/offline";
+import type { Pantry } from "@/shared/pantry";
+import { splitPhoneNumbers } from "@/shared/phone";
+import {
+  GENERATE_STREAM_CONTENT_TYPE,
+  type GenerateCacheStatus,
+  type GenerateResponse,
+  type GenerateStreamEvent,
+  type Recipe
+} from "@/shared/recipe";
+import { formatMenuLinkMessage, formatMenuMessage } from "@/shared/share";
+import { adaptRecipe, unitSystems, type UnitSystem } from "@/shared/units";
 
-type Recipe = {
-  name: string;
-  description: string;
-  ingredients: string[];
-  steps: string[];
-};
+const DIETARY_PROFILE_KEY = "kitchen-remix:dietary-profile";
+const UNIT_SYSTEM_KEY = "kitchen-remix:unit-system";
 
-type GenerateResponse = {
-  recipes: Recipe[];
-  summary: string;
-};
+async function* readStreamEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<GenerateStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.trim()) {
+        yield JSON.parse(line) as GenerateStreamEvent;
+      }
+    }
+    if (done) return;
+  }
+}
 
 export default function HomePage() {
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [imageDataUrl, setImageDataUrl] = useState<string | null>(null);
+  const { locale, t, rich } = useI18n();
+  // Undefined until the session has loaded.
+  const [account, setAccount] = useState<User | null | undefined>(undefined);
+  const [photos, setPhotos] = useState<PreparedImage[]>([]);
+  const [preparingPhotos, setPreparingPhotos] = useState(false);
+  const [thumbnailDataUrl, setThumbnailDataUrl] = useState<string | null>(null);
   const [notes, setNotes] = useState("");
+  const [ingredients, setIngredients] = useState<DetectedIngredient[] | null>(
+    null
+  );
+  const [detecting, setDetecting] = useState(false);
+  const [dietaryProfile, setDietaryProfile] =
+    useState<DietaryProfile>(emptyDietaryProfile);
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [summary, setSummary] = useState<string | null>(null);
+  // The language the menu on the page was written in, which stays put when
+  // the interface language changes.
+  const [menuLocale, setMenuLocale] = useState<Locale>(locale);
+  // Keyed by recipe index; recipes without an override keep their servings.
+  const [servingsOverrides, setServingsOverrides] = useState<
+    Record<number, number>
+  >({});
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>("metric");
+  const [savedMenu, setSavedMenu] = useState<MenuRef | null>(null);
+  const [pantry, setPantry] = useState<Pantry | null>(null);
+  const [usePantry, setUsePantry] = useState(true);
+  const [cacheStatus, setCacheStatus] = useState<GenerateCacheStatus | null>(
+    null
+  );
+  const [shareAsLink, setShareAsLink] = useState(true);
+  const [shareChannel, setShareChannel] = useState<ShareChannel>("whatsapp");
+  const [channelStatuses, setChannelStatuses] = useState<
+    ShareChannelStatus[] | null
+  >(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [sendPhone, setSendPhone] = useState("");
+  const [recipientSelection, setRecipientSelection] =
+    useState<RecipientSelection>(emptyRecipientSelection);
+  const [sendRecipeList, setSendRecipeList] = useState(true);
+  const [sendFirstContact, setSendFirstContact] = useState(false);
   const [sendingToWhatsApp, setSendingToWhatsApp] = useState(false);
   const [whatsAppResult, setWhatsAppResult] = useState<string | null>(null);
+  const [sendResults, setSendResults] = useState<RecipientResult[]>([]);
+  const [online, setOnline] = useState(true);
+  // What happened to sends queued while offline, and the menu a replayed
+  // generation made, until it is opened.
+  const [offlineNotice, setOfflineNotice] = useState<string | null>(null);
+  const [replayedMenu, setReplayedMenu] = useState<ReplayedMenu | null>(null);
+  const generateController = useRef<AbortController | null>(null);
+  const profileSaveTimer = useRef<number | null>(null);
+
+  const saveDietaryProfile = useCallback(async (profile: DietaryProfile) => {
+    const parsed = dietaryProfileSchema.safeParse(profile);
+    if (!parsed.success) return;
+    // Best effort: the profile in use on this page is already up to date.
+    await fetch("/api/profile", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ dietaryProfile: parsed.data })
+    }).catch(() => null);
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/auth/session", { cache: "no-store" })
+      .then((response) => response.json() as Promise<SessionResponse>)
+      .then(({ user }) => {
+        setAccount(user);
+        if (!user) return;
+        if (user.profile.dietaryProfile) {
+          setDietaryProfile(user.profile.dietaryProfile);
+          return;
+        }
+        // Profiles used to live only in this browser; carry one over once.
+        const stored = window.localStorage.getItem(DIETARY_PROFILE_KEY);
+        if (!stored) return;
+        window.localStorage.removeItem(DIETARY_PROFILE_KEY);
+        try {
+          const parsed = dietaryProfileSchema.safeParse(JSON.parse(stored));
+          if (parsed.success) {
+            setDietaryProfile(parsed.data);
+            void saveDietaryProfile(parsed.data);
+          }
+        } catch {
+          // A corrupt entry is dropped.
+        }
+      })
+      .catch(() => setAccount(null));
+  }, [saveDietaryProfile]);
+
+  useEffect(() => {
+    const stored = window.localStorage.getItem(UNIT_SYSTEM_KEY);
+    if (stored === "metric" || stored === "imperial") setUnitSystem(stored);
+  }, []);
+
+  // Unconfigured channels stay visible but disabled; default to one that works.
+  const signedIn = Boolean(account);
+  useEffect(() => {
+    if (!signedIn) return;
+    fetch("/api/share", { cache: "no-store" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((body: { channels: ShareChannelStatus[] } | null) => {
+        if (!body) return;
+        setChannelStatuses(body.channels);
+        const configured = body.channels.filter((status) => status.configured);
+        setShareChannel((current) =>
+          configured.length &&
+          !configured.some((status) => status.channel === current)
+            ? configured[0].channel
+            : current
+        );
+      })
+      .catch(() => setChannelStatuses(null));
+  }, [signedIn]);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    update();
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  useEffect(
+    () =>
+      onReplayed((message) => {
+        if (message.kind === "whatsapp") {
+          setOfflineNotice(
+            t(message.ok ? "offline.whatsAppSent" : "offline.whatsAppFailed")
+          );
+          return;
+        }
+        setReplayedMenu(message.result ?? null);
+        setOfflineNotice(
+          t(
+            message.result
+              ? "offline.generateReplayed"
+              : "offline.generateFailed"
+          )
+        );
+      }),
+    [t]
+  );
+
+  const loadPantry = useCallback(async () => {
+    const response = await fetch("/api/pantry", { cache: "no-store" });
+    if (response.ok) setPantry((await response.json()) as Pantry);
+  }, []);
+
+  useEffect(() => {
+    if (signedIn) loadPantry().catch(() => setPantry(null));
+  }, [signedIn, loadPantry]);
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) {
-      setImageDataUrl(null);
-      setImagePreview(null);
+  const handleUnitSystemChange = (system: UnitSystem) => {
+    setUnitSystem(system);
+    window.localStorage.setItem(UNIT_SYSTEM_KEY, system);
+  };
+
+  const handleDietaryProfileChange = (profile: DietaryProfile) => {
+    setDietaryProfile(profile);
+    // The form reports every keystroke; save once the cook pauses.
+    if (profileSaveTimer.current) window.clearTimeout(profileSaveTimer.current);
+    profileSaveTimer.current = window.setTimeout(
+      () => void saveDietaryProfile(profile),
+      800
+    );
+  };
+
+  const coverPhoto = photos[0]?.dataUrl ?? null;
+  useEffect(() => {
+    if (!coverPhoto) {
+      setThumbnailDataUrl(null);
       return;
     }
+    createThumbnail(coverPhoto)
+      .then(setThumbnailDataUrl)
+      .catch(() => setThumbnailDataUrl(null));
+  }, [coverPhoto]);
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const input = event.target;
+    const files = Array.from(input.files ?? []);
+    // Reset so picking the same shot again still fires a change event.
+    input.value = "";
+    if (!files.length) return;
 
-    if (!file.type.startsWith("image/")) {
-      setError("Please choose an image file.");
+    if (files.some((file) => !file.type.startsWith("image/"))) {
+      setError(t("home.error.imagesOnly"));
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = () => {
-      const result = reader.result;
-      if (typeof result === "string") {
-        setImagePreview(result);
-        setImageDataUrl(result);
+    const room = MAX_IMAGES - photos.length;
+    if (files.length > room) {
+      setError(t("home.error.tooManyPhotos", { max: MAX_IMAGES }));
+    } else {
+      setError(null);
+    }
+    if (room <= 0) return;
+
+    setPreparingPhotos(true);
+    try {
+      const prepared = await Promise.all(
+        files.slice(0, room).map((file) => prepareImage(file))
+      );
+      setPhotos((current) => [...current, ...prepared].slice(0, MAX_IMAGES));
+      setIngredients(null);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : t("home.error.preparePhoto")
+      );
+    } finally {
+      setPreparingPhotos(false);
+    }
+  };
+
+  const handleRemovePhoto = (index: number) => {
+    setPhotos((current) => current.filter((_, position) => position !== index));
+    setIngredients(null);
+  };
+
+  const handleDetect = async () => {
+    if (!photos.length) return;
+    setDetecting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/detect", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          imageDataUrls: photos.map((photo) => photo.dataUrl),
+          locale
+        })
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(
+          isOfflineError(body)
+            ? t("offline.detect")
+            : describeApiError(response, body, t("home.error.detect"), locale)
+        );
       }
-    };
-    reader.readAsDataURL(file);
+
+      const data = (await response.json()) as DetectResponse;
+      setIngredients(data.ingredients);
+    } catch (err) {
+      if (err instanceof Error) {
+        setError(err.message);
+      } else {
+        setError(t("home.error.detectUnexpected"));
+      }
+    } finally {
+      setDetecting(false);
+    }
   };
 
-  const handleGenerate = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    if (!imageDataUrl) {
-      setError("Upload a photo of your leftovers first.");
+  const generate = async (regenerate: boolean) => {
+    if (!photos.length) {
+      setError(t("home.error.noPhoto"));
+      return;
+    }
+
+    const profile = dietaryProfileSchema.safeParse(dietaryProfile);
+    if (!profile.success) {
+      setError(t("home.error.profile"));
       return;
     }
 
     setLoading(true);
     setError(null);
     setRecipes([]);
+    setServingsOverrides({});
     setSummary(null);
+    setSavedMenu(null);
+    setMenuLocale(locale);
+    setCacheStatus(null);
     setWhatsAppResult(null);
+    setSendResults([]);
+    setOfflineNotice(null);
+
+    const controller = new AbortController();
+    generateController.current = controller;
 
     try {
       const response = await fetch("/api/generate", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          Accept: GENERATE_STREAM_CONTENT_TYPE
+        },
+        // A confirmed ingredient list replaces the photo, so the model
+        // cooks with what the user approved rather than re-inspecting it.
         body: JSON.stringify({
-          imageDataUrl,
-          notes: notes.trim()
-        })
+          ...(ingredients?.length
+            ? { ingredients }
+            : { imageDataUrls: photos.map((photo) => photo.dataUrl) }),
+          notes: notes.trim(),
+          dietaryProfile: profile.data,
+          thumbnailDataUrl: thumbnailDataUrl ?? undefined,
+          regenerate,
+          usePantry,
+          locale
+        }),
+        signal: controller.signal
       });
 
-      if (!response.ok) {
+      // Offline, the service worker holds the request and answers for it.
+      if (response.status === 202) {
+        const body = await response.json().catch(() => null);
+        if (isQueuedResponse(body)) {
+          setOfflineNotice(t("offline.generateQueued"));
+          return;
+        }
+      }
+
+      if (!response.ok || !response.body) {
         const body = await response.json().catch(() => ({}));
-        throw new Error(body?.error ?? "Unable to generate recipes.");
+        throw new Error(
+          describeApiError(response, body, t("home.error.generate"), locale)
+        );
       }
 
-      const data = (await response.json()) as GenerateResponse;
-      setRecipes(data.recipes);
-      setSummary(data.summary);
+      for await (const streamEvent of readStreamEvents(response.body)) {
+        switch (streamEvent.type) {
+          case "summary":
+            setSummary(streamEvent.summary);
+            break;
+          case "recipe":
+            setRecipes((current) => [...current, streamEvent.recipe]);
+            break;
+          case "done":
+            setRecipes(streamEvent.payload.recipes);
+            setSummary(streamEvent.payload.summary);
+            setMenuLocale(streamEvent.payload.locale ?? defaultLocale);
+            setSavedMenu(streamEvent.menu);
+            setCacheStatus(streamEvent.cache);
+            // Confirmed ingredients joined the pantry on the server.
+            if (ingredients?.length) void loadPantry().catch(() => null);
+            break;
+          case "error":
+            throw new Error(streamEvent.error);
+        }
+      }
     } catch (err) {
-      if (err instanceof Error) {
+      if (controller.signal.aborted) {
+        setError(t("home.error.cancelled"));
+      } else if (err instanceof Error) {
         setError(err.message);
       } else {
-        setError("Something went wrong while generating recipes.");
+        setError(t("home.error.generateUnexpected"));
       }
     } finally {
+      generateController.current = null;
       setLoading(false);
     }
   };
 
-  const combinedMessage = useMemo(() => {
-    if (!recipes.length) return "";
-    const lines: string[] = [
-      "🍳 *Kitchen Remix AI Recipes*",
-      summary ? `${summary}\n` : ""
-    ];
-    recipes.forEach((recipe, index) => {
-      lines.push(`*${index + 1}. ${recipe.name}*`);
-      lines.push(recipe.description);
-      lines.push("_Ingredients_:");
-      recipe.ingredients.forEach((ingredient) => lines.push(`• ${ingredient}`));
-      lines.push("_Steps_:");
-      recipe.steps.forEach((step, stepIndex) =>
-        lines.push(`${stepIndex + 1}. ${step}`)
-      );
-      lines.push("");
+  const handleGenerate = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    generate(false);
+  };
+
+  const handleCancelGenerate = () => {
+    generateController.current?.abort();
+  };
+
+  // Only the refined card changes; the other recipes keep their servings.
+  const handleRefined = (index: number, refined: Recipe) => {
+    setRecipes((current) =>
+      current.map((recipe, position) => (position === index ? refined : recipe))
+    );
+    setServingsOverrides((current) => {
+      const { [index]: _replaced, ...rest } = current;
+      return rest;
     });
-    return lines.join("\n").trim();
-  }, [recipes, summary]);
+  };
+
+  const showMenu = (payload: GenerateResponse, menu: MenuRef | null) => {
+    setRecipes(payload.recipes);
+    setServingsOverrides({});
+    setSummary(payload.summary);
+    setMenuLocale(payload.locale ?? defaultLocale);
+    setSavedMenu(menu);
+    setCacheStatus(null);
+    setError(null);
+    setWhatsAppResult(null);
+    setSendResults([]);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const handleOpenMenu = (menu: MenuRecord) => {
+    showMenu(menu.payload, { id: menu.id, slug: menu.slug });
+  };
+
+  const handleOpenReplayedMenu = () => {
+    if (!replayedMenu) return;
+    const { menu, cache: _cache, ...payload } = replayedMenu;
+    showMenu(payload, menu);
+    setReplayedMenu(null);
+    setOfflineNotice(null);
+  };
+
+  const displayedRecipes = useMemo(
+    () =>
+      recipes.map((recipe, index) =>
+        adaptRecipe(recipe, {
+          servings: servingsOverrides[index],
+          system: unitSystem
+        })
+      ),
+    [recipes, servingsOverrides, unitSystem]
+  );
+
+  const plannerRecipes = useMemo<PlannerRecipe[]>(
+    () =>
+      loading
+        ? []
+        : recipes.map((recipe, index) => ({
+            recipe,
+            servings: servingsOverrides[index] ?? null,
+            menuId: savedMenu?.id ?? null
+          })),
+    [loading, recipes, savedMenu, servingsOverrides]
+  );
+
+  // Recipes that break the dietary profile stay visible on the page with a
+  // warning, but are never forwarded to someone who cannot see it.
+  const shareableRecipes = useMemo(
+    () => displayedRecipes.filter((recipe) => !recipe.violations?.length),
+    [displayedRecipes]
+  );
+  const flaggedCount = recipes.length - shareableRecipes.length;
+
+  const combinedMessage = useMemo(
+    () => formatMenuMessage(summary, shareableRecipes, menuLocale),
+    [menuLocale, shareableRecipes, summary]
+  );
+
+  const permalink = savedMenu
+    ? `${window.location.origin}${menuPath(savedMenu.slug)}`
+    : null;
+
+  // A link keeps chats readable; the full text is the fallback when the
+  // menu could not be saved.
+  const shareMessage = useMemo(() => {
+    if (!shareAsLink || !permalink || !shareableRecipes.length) {
+      return combinedMessage;
+    }
+    return formatMenuLinkMessage(
+      summary,
+      shareableRecipes,
+      permalink,
+      menuLocale
+    );
+  }, [
+    combinedMessage,
+    menuLocale,
+    permalink,
+    shareableRecipes,
+    shareAsLink,
+    summary
+  ]);
+
+  const updateDelivery = useCallback((delivery: DeliverySummary) => {
+    setSendResults((current) =>
+      current.map((result) =>
+        result.delivery?.id === delivery.id ? { ...result, delivery } : result
+      )
+    );
+  }, []);
 
   const handleSendToWhatsApp = async () => {
-    if (!combinedMessage) return;
+    if (!shareMessage) return;
     setSendingToWhatsApp(true);
     setWhatsAppResult(null);
+    setSendResults([]);
     setError(null);
 
     try {
@@ -123,53 +580,103 @@ export default function HomePage() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          message: combinedMessage,
-          phoneNumber: sendPhone.trim() || undefined
+          message: shareMessage,
+          recipients: splitPhoneNumbers(recipientSelection.numbers),
+          contactIds: recipientSelection.contactIds,
+          groupIds: recipientSelection.groupIds,
+          country: recipientSelection.country || undefined,
+          menuSlug: savedMenu && sendRecipeList ? savedMenu.slug : undefined,
+          firstContact: sendFirstContact || undefined
         })
       });
 
+      const body = await response.json().catch(() => ({}));
+      if (isQueuedResponse(body)) {
+        setWhatsAppResult(t("offline.whatsAppQueued"));
+        return;
+      }
+      // Failed sends still report their deliveries, so they can be retried.
+      const results: RecipientResult[] = body?.results ?? [];
+      setSendResults(results);
       if (!response.ok) {
-        const body = await response.json().catch(() => ({}));
-        throw new Error(body?.error ?? "Failed to send WhatsApp message.");
+        throw new Error(
+          describeApiError(response, body, t("home.error.whatsApp"), locale)
+        );
       }
 
-      const data = await response.json();
+      const failed = results.filter((result) => result.status === "failed");
       setWhatsAppResult(
-        data.status === "queued"
-          ? "WhatsApp message queued successfully!"
-          : "WhatsApp message sent."
+        failed.length
+          ? t("common.sentToSome", {
+              sent: results.length - failed.length,
+              total: results.length
+            })
+          : results.every((result) => result.status === "template")
+            ? t("home.sent.template")
+            : results.length > 1
+              ? t("home.sent.recipients", { count: results.length })
+              : t("home.sent.single")
       );
     } catch (err) {
       const message =
-        err instanceof Error
-          ? err.message
-          : "Something went wrong while sending WhatsApp message.";
+        err instanceof Error ? err.message : t("home.error.whatsAppUnexpected");
       setError(message);
     } finally {
       setSendingToWhatsApp(false);
     }
   };
 
+  const header = (
+    <header className="mx-auto flex max-w-4xl flex-col gap-6 rounded-3xl bg-slate-900/60 px-6 py-10 shadow-lg shadow-blue-500/10 ring-1 ring-slate-800 md:px-10">
+      <div className="flex justify-end">
+        <LocaleSwitcher />
+      </div>
+      <div className="flex flex-col gap-4 text-center">
+        <span className="text-xs font-semibold uppercase tracking-[0.4em] text-blue-400">
+          {t("app.name")}
+        </span>
+        <h1 className="text-4xl font-semibold sm:text-5xl">
+          {rich("home.headline", {
+            accent: (
+              <span className="bg-gradient-to-r from-blue-400 via-cyan-400 to-green-400 bg-clip-text text-transparent">
+                {t("home.headlineAccent")}
+              </span>
+            )
+          })}
+        </h1>
+        <p className="text-sm text-slate-300 sm:text-base">{t("home.intro")}</p>
+      </div>
+      {account && (
+        <AccountPanel
+          user={account}
+          onChange={setAccount}
+          onSignOut={() => window.location.assign("/")}
+        />
+      )}
+    </header>
+  );
+
+  if (!account) {
+    return (
+      <main className="flex flex-col gap-10 px-6 pb-16 pt-12 sm:px-10 md:px-16 lg:px-24">
+        {header}
+        {account === null && <SignInForm />}
+      </main>
+    );
+  }
+
   return (
     <main className="flex flex-col gap-10 px-6 pb-16 pt-12 sm:px-10 md:px-16 lg:px-24">
-      <header className="mx-auto max-w-4xl rounded-3xl bg-slate-900/60 px-6 py-10 shadow-lg shadow-blue-500/10 ring-1 ring-slate-800 md:px-10">
-        <div className="flex flex-col gap-4 text-center">
-          <span className="text-xs font-semibold uppercase tracking-[0.4em] text-blue-400">
-            Kitchen Remix AI
-          </span>
-          <h1 className="text-4xl font-semibold sm:text-5xl">
-            Turn leftovers into{" "}
-            <span className="bg-gradient-to-r from-blue-400 via-cyan-400 to-green-400 bg-clip-text text-transparent">
-              chef-crafted recipes
-            </span>
-          </h1>
-          <p className="text-sm text-slate-300 sm:text-base">
-            Upload a photo of what&apos;s left in your fridge. We&apos;ll detect
-            the ingredients, generate at least three tasty recipes, and share
-            them straight to WhatsApp.
-          </p>
-        </div>
-      </header>
+      {header}
+
+      {!online && (
+        <p
+          role="status"
+          className="mx-auto w-full max-w-5xl rounded-2xl border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm text-amber-100"
+        >
+          {t("offline.banner")}
+        </p>
+      )}
 
       <section className="mx-auto flex w-full max-w-5xl flex-col gap-8 rounded-3xl border border-slate-800 bg-slate-900/60 p-6 sm:p-10">
         <form className="flex flex-col gap-6" onSubmit={handleGenerate}>
@@ -179,19 +686,22 @@ export default function HomePage() {
                 htmlFor="image"
                 className="text-sm font-semibold uppercase tracking-wide text-slate-300"
               >
-                1. Snap your leftovers
+                {t("home.photoLabel")}
               </label>
               <input
                 id="image"
                 name="image"
                 type="file"
-                required
+                multiple
                 accept="image/*"
+                disabled={preparingPhotos || photos.length >= MAX_IMAGES}
                 onChange={handleFileChange}
-                className="block w-full cursor-pointer rounded-xl border border-slate-700 bg-slate-950/80 px-4 py-3 text-sm text-slate-100 transition hover:border-blue-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+                className="block w-full cursor-pointer rounded-xl border border-slate-700 bg-slate-950/80 px-4 py-3 text-sm text-slate-100 transition hover:border-blue-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400 disabled:cursor-not-allowed disabled:opacity-60"
               />
               <p className="text-xs text-slate-500">
-                Clear, well-lit photos give the best results.
+                {preparingPhotos
+                  ? t("home.preparingPhotos")
+                  : t("home.photoHint", { max: MAX_IMAGES })}
               </p>
             </div>
 
@@ -200,55 +710,126 @@ export default function HomePage() {
                 htmlFor="notes"
                 className="text-sm font-semibold uppercase tracking-wide text-slate-300"
               >
-                2. Add kitchen notes (optional)
+                {t("home.notesLabel")}
               </label>
               <textarea
                 id="notes"
                 name="notes"
                 value={notes}
                 onChange={(event) => setNotes(event.target.value)}
-                placeholder="Tell the chef about dietary preferences, missing pantry staples, or equipment limits."
+                placeholder={t("home.notesPlaceholder")}
                 className="min-h-[140px] rounded-xl border border-slate-700 bg-slate-950/80 px-4 py-3 text-sm text-slate-100 transition hover:border-blue-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
               />
             </div>
           </div>
 
-          {imagePreview && (
+          <DietaryForm
+            profile={dietaryProfile}
+            onChange={handleDietaryProfileChange}
+            disabled={loading}
+          />
+
+          {pantry && (pantry.items.length > 0 || pantry.staples.length > 0) && (
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={usePantry}
+                onChange={(event) => setUsePantry(event.target.checked)}
+                disabled={loading}
+                className="h-4 w-4 rounded border-slate-600 bg-slate-950 accent-blue-500"
+              />
+              {t("home.usePantry", { count: pantry.items.length })}
+            </label>
+          )}
+
+          {photos.length > 0 && (
             <div className="grid gap-4 sm:grid-cols-[1fr_auto] sm:items-center">
-              <div className="rounded-2xl border border-slate-800 bg-slate-950/80 p-2">
-                {/* eslint-disable-next-line @next/next/no-img-element */}
-                <img
-                  src={imagePreview}
-                  alt="Leftover ingredients preview"
-                  className="max-h-64 w-full rounded-xl object-cover"
-                />
-              </div>
-              <div className="flex flex-col gap-2 text-sm text-slate-300">
+              <ul className="grid grid-cols-2 gap-2 rounded-2xl border border-slate-800 bg-slate-950/80 p-2">
+                {photos.map((photo, index) => (
+                  <li
+                    key={`${index}-${photo.dataUrl.length}`}
+                    className={`relative ${photos.length === 1 ? "col-span-2" : ""}`}
+                  >
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                      src={photo.dataUrl}
+                      alt={t("home.photoAlt", { number: index + 1 })}
+                      className="max-h-64 w-full rounded-xl object-cover"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleRemovePhoto(index)}
+                      disabled={loading || detecting}
+                      aria-label={t("home.removePhoto", { number: index + 1 })}
+                      className="absolute end-2 top-2 rounded-full bg-slate-950/80 px-2 py-1 text-xs text-slate-200 transition hover:text-red-300 disabled:opacity-50"
+                    >
+                      ✕
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex flex-col gap-3 text-sm text-slate-300 sm:max-w-md">
                 <span className="font-semibold text-slate-100">
-                  Ingredient recognition
+                  {t("home.recognition")}
                 </span>
-                <p>
-                  The AI will detect items in your photo and blend them with
-                  your notes to engineer recipes tailored to your kitchen.
-                </p>
+                {ingredients ? (
+                  <>
+                    <p>{t("home.recognitionEdit")}</p>
+                    <IngredientChips
+                      ingredients={ingredients}
+                      onChange={setIngredients}
+                      disabled={loading}
+                    />
+                  </>
+                ) : (
+                  <>
+                    <p>{t("home.recognitionIntro")}</p>
+                    <button
+                      type="button"
+                      onClick={handleDetect}
+                      disabled={detecting || loading}
+                      className="inline-flex items-center justify-center gap-2 self-start rounded-full border border-blue-400/60 px-4 py-2 text-xs font-semibold text-blue-100 transition hover:border-blue-300 hover:text-white disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      {detecting ? (
+                        <>
+                          <span className="h-3 w-3 animate-spin rounded-full border-[2px] border-blue-200/60 border-t-transparent" />
+                          {t("home.detecting")}
+                        </>
+                      ) : (
+                        t("home.detect")
+                      )}
+                    </button>
+                  </>
+                )}
               </div>
             </div>
           )}
 
-          <button
-            type="submit"
-            disabled={loading}
-            className="inline-flex items-center justify-center gap-2 rounded-full bg-blue-500 px-6 py-3 text-sm font-semibold text-white shadow-lg shadow-blue-500/30 transition hover:bg-blue-400 disabled:cursor-not-allowed disabled:bg-blue-500/60"
-          >
-            {loading ? (
-              <>
-                <span className="h-3 w-3 animate-spin rounded-full border-[2px] border-white/50 border-t-transparent" />
-                Generating recipes…
-              </>
-            ) : (
-              "Generate 3+ recipes"
+          <div className="flex flex-col gap-3 sm:flex-row">
+            <button
+              type="submit"
+              disabled={loading}
+              className="inline-flex flex-1 items-center justify-center gap-2 rounded-full bg-blue-500 px-6 py-3 text-sm font-semibold text-white shadow-lg shadow-blue-500/30 transition hover:bg-blue-400 disabled:cursor-not-allowed disabled:bg-blue-500/60"
+            >
+              {loading ? (
+                <>
+                  <span className="h-3 w-3 animate-spin rounded-full border-[2px] border-white/50 border-t-transparent" />
+                  {t("home.generating")}
+                </>
+              ) : (
+                t("home.generate")
+              )}
+            </button>
+            {loading && (
+              <button
+                type="button"
+                onClick={handleCancelGenerate}
+                className="inline-flex items-center justify-center rounded-full border border-slate-600 px-6 py-3 text-sm font-semibold text-slate-200 transition hover:border-red-400 hover:text-red-200"
+              >
+                {t("common.cancel")}
+              </button>
             )}
-          </button>
+          </div>
         </form>
 
         {error && (
@@ -257,132 +838,325 @@ export default function HomePage() {
           </div>
         )}
 
-        {recipes.length > 0 && (
+        {offlineNotice && (
+          <div
+            role="status"
+            className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-blue-500/40 bg-blue-500/10 px-4 py-3 text-sm text-blue-100"
+          >
+            <span>{offlineNotice}</span>
+            {replayedMenu && (
+              <button
+                type="button"
+                onClick={handleOpenReplayedMenu}
+                className="rounded-full border border-blue-400/60 px-3 py-1 text-xs font-semibold text-blue-100 transition hover:border-blue-300 hover:text-white"
+              >
+                {t("offline.openMenu")}
+              </button>
+            )}
+          </div>
+        )}
+
+        {(summary || recipes.length > 0) && (
           <div className="flex flex-col gap-8">
             <div className="flex flex-col gap-3">
-              <h2 className="text-2xl font-semibold text-white">
-                Your remix menu
-              </h2>
-              {summary && (
-                <p className="text-sm text-slate-300">{summary}</p>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <h2 className="text-2xl font-semibold text-white">
+                  {t("home.menuTitle")}
+                </h2>
+                <div
+                  role="group"
+                  aria-label={t("home.units")}
+                  className="inline-flex rounded-full border border-slate-700 p-0.5 text-xs font-semibold"
+                >
+                  {unitSystems.map((system) => (
+                    <button
+                      key={system}
+                      type="button"
+                      aria-pressed={unitSystem === system}
+                      onClick={() => handleUnitSystemChange(system)}
+                      className={`rounded-full px-3 py-1 transition ${
+                        unitSystem === system
+                          ? "bg-blue-500/20 text-blue-100"
+                          : "text-slate-400 hover:text-slate-200"
+                      }`}
+                    >
+                      {t(`home.unit.${system}`)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {summary && <p className="text-sm text-slate-300">{summary}</p>}
+              {cacheStatus === "hit" && !loading && (
+                <p className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+                  {t("home.cacheHit")}
+                  <button
+                    type="button"
+                    onClick={() => generate(true)}
+                    className="rounded-full border border-slate-600 px-3 py-1 font-semibold text-slate-200 transition hover:border-blue-400 hover:text-blue-100"
+                  >
+                    {t("home.regenerate")}
+                  </button>
+                </p>
               )}
             </div>
 
             <div className="grid gap-6 md:grid-cols-2">
-              {recipes.map((recipe, index) => (
-                <article
+              {displayedRecipes.map((recipe, index) => (
+                <RecipeCard
                   key={recipe.name}
-                  className="flex flex-col gap-4 rounded-2xl border border-slate-800 bg-slate-950/80 p-6 shadow-lg shadow-slate-950/40"
-                >
-                  <div className="flex items-start justify-between gap-4">
-                    <div>
-                      <p className="text-xs uppercase tracking-wide text-blue-400">
-                        Recipe {index + 1}
-                      </p>
-                      <h3 className="mt-1 text-xl font-semibold text-white">
-                        {recipe.name}
-                      </h3>
-                    </div>
-                  </div>
-                  <p className="text-sm text-slate-300">{recipe.description}</p>
-                  <div className="flex flex-col gap-4 text-sm text-slate-200">
-                    <div>
-                      <h4 className="font-semibold uppercase tracking-wide text-slate-400">
-                        Ingredients
-                      </h4>
-                      <ul className="mt-1 space-y-1 text-slate-300">
-                        {recipe.ingredients.map((ingredient) => (
-                          <li key={ingredient} className="leading-relaxed">
-                            • {ingredient}
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                    <div>
-                      <h4 className="font-semibold uppercase tracking-wide text-slate-400">
-                        Steps
-                      </h4>
-                      <ol className="mt-1 space-y-1 text-slate-300">
-                        {recipe.steps.map((step) => (
-                          <li key={step} className="leading-relaxed">
-                            {step}
-                          </li>
-                        ))}
-                      </ol>
-                    </div>
-                  </div>
-                </article>
+                  recipe={recipe}
+                  index={index}
+                  onServingsChange={(servings) =>
+                    setServingsOverrides((current) => ({
+                      ...current,
+                      [index]: servings
+                    }))
+                  }
+                  actions={
+                    !loading && (
+                      <>
+                        <RecipeRefine
+                          summary={summary}
+                          recipes={recipes}
+                          index={index}
+                          ingredients={ingredients}
+                          notes={notes}
+                          dietaryProfile={dietaryProfile}
+                          menuLocale={menuLocale}
+                          menuId={savedMenu?.id ?? null}
+                          onRefined={(refined) => handleRefined(index, refined)}
+                        />
+                        <CookedButton
+                          recipe={recipe}
+                          onCooked={(cooked) => setPantry(cooked.pantry)}
+                        />
+                      </>
+                    )
+                  }
+                />
               ))}
+              {loading && (
+                <div className="flex min-h-[12rem] items-center justify-center gap-3 rounded-2xl border border-dashed border-slate-700 bg-slate-950/40 p-6 text-sm text-slate-400">
+                  <span className="h-3 w-3 animate-spin rounded-full border-[2px] border-slate-400/60 border-t-transparent" />
+                  {t("home.nextRecipe")}
+                </div>
+              )}
             </div>
 
-            <div className="flex flex-col gap-4 rounded-2xl border border-emerald-500/30 bg-emerald-500/10 p-6">
-              <div className="flex flex-col gap-2">
-                <h3 className="text-lg font-semibold text-emerald-200">
-                  Share on WhatsApp
-                </h3>
-                <p className="text-sm text-emerald-100/80">
-                  Send the complete menu to friends, family, or yourself.
-                </p>
-              </div>
-              <div className="grid gap-4 md:grid-cols-[minmax(0,1fr),auto] md:items-end">
-                <label className="flex flex-col gap-2 text-sm text-emerald-100/80">
-                  WhatsApp number (international format)
-                  <input
-                    type="tel"
-                    value={sendPhone}
-                    onChange={(event) => setSendPhone(event.target.value)}
-                    placeholder="+14155551212"
-                    className="rounded-xl border border-emerald-400/50 bg-emerald-950/40 px-4 py-3 text-sm text-white placeholder:text-emerald-200/60 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-400"
+            {!loading && recipes.length > 0 && (
+              <div className="flex flex-col gap-4 rounded-2xl border border-emerald-500/30 bg-emerald-500/10 p-6">
+                <div className="flex flex-col gap-2">
+                  <h3 className="text-lg font-semibold text-emerald-200">
+                    {t("home.shareTitle")}
+                  </h3>
+                  <p className="text-sm text-emerald-100/80">
+                    {t("home.shareIntro")}
+                  </p>
+                  <div
+                    role="tablist"
+                    aria-label={t("home.shareChannel")}
+                    className="flex flex-wrap gap-2"
+                  >
+                    {shareChannels.map((channel) => {
+                      const configured =
+                        channelStatuses?.find(
+                          (status) => status.channel === channel
+                        )?.configured ?? true;
+                      return (
+                        <button
+                          key={channel}
+                          type="button"
+                          role="tab"
+                          aria-selected={shareChannel === channel}
+                          disabled={!configured}
+                          title={
+                            configured ? undefined : t("home.notConfigured")
+                          }
+                          onClick={() => setShareChannel(channel)}
+                          className={`rounded-full border px-3 py-1 text-xs font-semibold transition disabled:cursor-not-allowed disabled:opacity-50 ${
+                            shareChannel === channel
+                              ? "border-emerald-300 bg-emerald-400/20 text-white"
+                              : "border-emerald-400/40 text-emerald-100/80 hover:border-emerald-300"
+                          }`}
+                        >
+                          {t(`channel.${channel}`)}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  {flaggedCount > 0 && (
+                    <p className="text-sm text-amber-200">
+                      {t.plural("home.flagged", flaggedCount)}
+                    </p>
+                  )}
+                  {permalink && (
+                    <label className="flex items-center gap-2 text-sm text-emerald-100/80">
+                      <input
+                        type="checkbox"
+                        checked={shareAsLink}
+                        onChange={(event) =>
+                          setShareAsLink(event.target.checked)
+                        }
+                        className="h-4 w-4 rounded border-emerald-400/60 accent-emerald-500"
+                      />
+                      {t("home.shareAsLink")}
+                    </label>
+                  )}
+                  {permalink && shareChannel === "whatsapp" && (
+                    <label className="flex items-center gap-2 text-sm text-emerald-100/80">
+                      <input
+                        type="checkbox"
+                        checked={sendRecipeList}
+                        onChange={(event) =>
+                          setSendRecipeList(event.target.checked)
+                        }
+                        className="h-4 w-4 rounded border-emerald-400/60 accent-emerald-500"
+                      />
+                      {t("home.sendRecipeList")}
+                    </label>
+                  )}
+                  {shareChannel === "whatsapp" && (
+                    <label className="flex items-center gap-2 text-sm text-emerald-100/80">
+                      <input
+                        type="checkbox"
+                        checked={sendFirstContact}
+                        onChange={(event) =>
+                          setSendFirstContact(event.target.checked)
+                        }
+                        className="h-4 w-4 rounded border-emerald-400/60 accent-emerald-500"
+                      />
+                      {t("home.firstContact")}
+                    </label>
+                  )}
+                </div>
+                {shareChannel === "whatsapp" ? (
+                  <>
+                    <RecipientPicker
+                      selection={recipientSelection}
+                      onChange={setRecipientSelection}
+                    />
+                    <div className="flex justify-end">
+                      <button
+                        type="button"
+                        onClick={handleSendToWhatsApp}
+                        disabled={sendingToWhatsApp || !shareMessage}
+                        className="inline-flex items-center justify-center gap-2 rounded-full bg-emerald-500 px-6 py-3 text-sm font-semibold text-emerald-950 shadow-lg shadow-emerald-500/40 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-emerald-500/60"
+                      >
+                        {sendingToWhatsApp ? (
+                          <>
+                            <span className="h-3 w-3 animate-spin rounded-full border-[2px] border-emerald-900/60 border-t-transparent" />
+                            {t("common.sending")}
+                          </>
+                        ) : (
+                          t("home.sendToWhatsApp")
+                        )}
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <ChannelShareForm
+                    key={shareChannel}
+                    channel={shareChannel}
+                    summary={summary}
+                    recipes={shareableRecipes}
+                    menuSlug={savedMenu?.slug ?? null}
+                    asLink={shareAsLink && Boolean(permalink)}
+                    menuLocale={menuLocale}
                   />
-                </label>
-                <button
-                  type="button"
-                  onClick={handleSendToWhatsApp}
-                  disabled={sendingToWhatsApp || !combinedMessage}
-                  className="inline-flex items-center justify-center gap-2 rounded-full bg-emerald-500 px-6 py-3 text-sm font-semibold text-emerald-950 shadow-lg shadow-emerald-500/40 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-emerald-500/60"
-                >
-                  {sendingToWhatsApp ? (
+                )}
+
+                <div className="flex flex-wrap items-center gap-3 text-xs text-emerald-100/70">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      navigator.clipboard
+                        .writeText(combinedMessage)
+                        .then(() => setWhatsAppResult(t("home.copiedRecipes")))
+                        .catch(() => setError(t("home.copyRecipesFailed")));
+                    }}
+                    className="rounded-full border border-emerald-400/60 px-3 py-1 font-semibold text-emerald-100 transition hover:border-emerald-300 hover:text-white"
+                  >
+                    {t("home.copyRecipes")}
+                  </button>
+                  {permalink && (
                     <>
-                      <span className="h-3 w-3 animate-spin rounded-full border-[2px] border-emerald-900/60 border-t-transparent" />
-                      Sending…
+                      <button
+                        type="button"
+                        onClick={() => {
+                          navigator.clipboard
+                            .writeText(permalink)
+                            .then(() => setWhatsAppResult(t("home.copiedLink")))
+                            .catch(() => setError(t("home.copyLinkFailed")));
+                        }}
+                        className="rounded-full border border-emerald-400/60 px-3 py-1 font-semibold text-emerald-100 transition hover:border-emerald-300 hover:text-white"
+                      >
+                        {t("home.copyLink")}
+                      </button>
+                      <a
+                        href={permalink}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="rounded-full border border-emerald-400/60 px-3 py-1 font-semibold text-emerald-100 transition hover:border-emerald-300 hover:text-white"
+                      >
+                        {t("home.openMenuPage")}
+                      </a>
                     </>
-                  ) : (
-                    "Send to WhatsApp"
                   )}
-                </button>
-              </div>
+                  <a
+                    href={`https://wa.me/?text=${encodeURIComponent(shareMessage)}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="rounded-full border border-emerald-400/60 px-3 py-1 font-semibold text-emerald-100 transition hover:border-emerald-300 hover:text-white"
+                  >
+                    {t("home.whatsAppWeb")}
+                  </a>
+                  {whatsAppResult && (
+                    <span className="font-medium text-emerald-200">
+                      {whatsAppResult}
+                    </span>
+                  )}
+                </div>
 
-              <div className="flex flex-wrap items-center gap-3 text-xs text-emerald-100/70">
-                <button
-                  type="button"
-                  onClick={() => {
-                    navigator.clipboard
-                      .writeText(combinedMessage)
-                      .then(() => setWhatsAppResult("Copied recipes to clipboard."))
-                      .catch(() => setError("Unable to copy recipes to clipboard."));
-                  }}
-                  className="rounded-full border border-emerald-400/60 px-3 py-1 font-semibold text-emerald-100 transition hover:border-emerald-300 hover:text-white"
-                >
-                  Copy recipes
-                </button>
-                <a
-                  href={`https://wa.me/?text=${encodeURIComponent(combinedMessage)}`}
-                  target="_blank"
-                  rel="noreferrer"
-                  className="rounded-full border border-emerald-400/60 px-3 py-1 font-semibold text-emerald-100 transition hover:border-emerald-300 hover:text-white"
-                >
-                  Share via WhatsApp Web
-                </a>
-                {whatsAppResult && (
-                  <span className="font-medium text-emerald-200">
-                    {whatsAppResult}
-                  </span>
+                <MenuExport
+                  summary={summary}
+                  recipes={shareableRecipes}
+                  menuSlug={savedMenu?.slug ?? null}
+                  locale={menuLocale}
+                />
+
+                {sendResults.map((result) =>
+                  result.delivery ? (
+                    <DeliveryStatus
+                      key={result.recipient}
+                      delivery={result.delivery}
+                      label={result.name}
+                      onChange={updateDelivery}
+                    />
+                  ) : (
+                    <p key={result.recipient} className="text-xs text-rose-200">
+                      {result.name ?? result.recipient}: {result.error}
+                    </p>
+                  )
                 )}
               </div>
-            </div>
+            )}
           </div>
         )}
       </section>
+
+      <PantryPanel pantry={pantry} onReload={loadPantry} />
+
+      <MealPlanner
+        menuRecipes={plannerRecipes}
+        pantry={pantry}
+        unitSystem={unitSystem}
+        refreshToken={savedMenu?.id ?? null}
+      />
+
+      <MenuHistory
+        refreshToken={replayedMenu?.menu?.id ?? savedMenu?.id ?? null}
+        onOpen={handleOpenMenu}
+      />
     </main>
   );
 }
@@ -0,0 +1,14 @@
+import { serviceWorkerSource } from "@/server/pwa/service-worker";
+
+/**
+ * The service worker, served from the root so its scope covers the whole
+ * app. Browsers check it for updates on every visit, so it is never cached.
+ */
+export function GET() {
+  return new Response(serviceWorkerSource(), {
+    headers: {
+      "Content-Type": "application/javascript; charset=utf-8",
+      "Cache-Control": "no-cache"
+    }
+  });
+}
@@ -0,0 +1,35 @@
+import { defaultLocale, type Locale } from "@/shared/i18n";
+import { rateLimitMessage } from "@/shared/rate-limit";
+
+function retryAfterSeconds(header: string | null) {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds;
+  // The header may also be an HTTP date.
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : (date - Date.now()) / 1000;
+}
+
+/**
+ * The message to show for a failed API response, in `locale`. Rate-limited
+ * responses are described from `Retry-After`, so the wait shows even when a
+ * proxy sent the 429 without our JSON body. Routes write their errors in
+ * English unless the body names another `locale`; an error in any language
+ * but the reader's gives way to `fallback`.
+ */
+export function describeApiError(
+  response: Response,
+  body: unknown,
+  fallback: string,
+  locale: Locale
+) {
+  if (response.status === 429) {
+    const seconds = retryAfterSeconds(response.headers.get("Retry-After"));
+    if (seconds !== null && seconds > 0) {
+      return rateLimitMessage(seconds, locale);
+    }
+  }
+  const { error, locale: written = defaultLocale } =
+    (body as { error?: unknown; locale?: unknown } | null) ?? {};
+  return typeof error === "string" && written === locale ? error : fallback;
+}
@@ -0,0 +1,145 @@
+import { UPLOAD_IMAGE_DIMENSION } from "@/shared/image";
+
+export type PreparedImage = {
+  dataUrl: string;
+  width: number;
+  height: number;
+};
+
+function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Unable to read the image."));
+    image.src = src;
+  });
+}
+
+/**
+ * Reads the EXIF orientation tag (1-8) from a JPEG, or 1 when there is none.
+ */
+export function readExifOrientation(buffer: ArrayBuffer): number {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 < view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      const entries = view.getUint16(ifd, little);
+      for (let index = 0; index < entries; index += 1) {
+        const entry = ifd + 2 + index * 12;
+        if (entry + 10 > view.byteLength) break;
+        if (view.getUint16(entry, little) === 0x0112) {
+          return view.getUint16(entry + 8, little);
+        }
+      }
+      return 1;
+    }
+    if ((marker & 0xff00) !== 0xff00) break;
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+// Browsers that support `image-orientation` already rotate decoded images,
+// so drawing them as-is is correct and rotating again would double-apply it.
+function browserAppliesOrientation() {
+  return (
+    typeof CSS !== "undefined" &&
+    CSS.supports("image-orientation", "from-image")
+  );
+}
+
+function applyOrientation(
+  context: CanvasRenderingContext2D,
+  orientation: number,
+  width: number,
+  height: number
+) {
+  switch (orientation) {
+    case 2:
+      context.transform(-1, 0, 0, 1, width, 0);
+      break;
+    case 3:
+      context.transform(-1, 0, 0, -1, width, height);
+      break;
+    case 4:
+      context.transform(1, 0, 0, -1, 0, height);
+      break;
+    case 5:
+      context.transform(0, 1, 1, 0, 0, 0);
+      break;
+    case 6:
+      context.transform(0, 1, -1, 0, height, 0);
+      break;
+    case 7:
+      context.transform(0, -1, -1, 0, height, width);
+      break;
+    case 8:
+      context.transform(0, -1, 1, 0, 0, width);
+      break;
+  }
+}
+
+/**
+ * Uprights and downscales a photo in a canvas so uploads stay small and the
+ * model never sees a sideways fridge.
+ */
+export async function prepareImage(
+  file: File,
+  maxDimension = UPLOAD_IMAGE_DIMENSION
+): Promise<PreparedImage> {
+  const orientation = browserAppliesOrientation()
+    ? 1
+    : readExifOrientation(await file.arrayBuffer());
+  const objectUrl = URL.createObjectURL(file);
+
+  try {
+    const image = await loadImage(objectUrl);
+    const scale = Math.min(
+      1,
+      maxDimension / Math.max(image.naturalWidth, image.naturalHeight)
+    );
+    const width = Math.max(1, Math.round(image.naturalWidth * scale));
+    const height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const swapsAxes = orientation >= 5 && orientation <= 8;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = swapsAxes ? height : width;
+    canvas.height = swapsAxes ? width : height;
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Canvas is not supported in this browser.");
+    }
+    applyOrientation(context, orientation, width, height);
+    context.drawImage(image, 0, 0, width, height);
+
+    return {
+      dataUrl: canvas.toDataURL("image/jpeg", 0.85),
+      width: canvas.width,
+      height: canvas.height
+    };
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+}
+
+/** Draws a small JPEG copy of the photo for the menu history list. */
+export async function createThumbnail(dataUrl: string, maxSize = 160) {
+  const image = await loadImage(dataUrl);
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas is not supported in this browser.");
+  }
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", 0.7);
+}
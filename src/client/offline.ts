@@ -0,0 +1,36 @@
+import {
+  SERVICE_WORKER_PATH,
+  type ReplayedMessage,
+  type ReplayRequestMessage
+} from "@/shared/offline";
+
+/**
+ * Installs the service worker. Development builds skip it: their chunks are
+ * not content-hashed, so cached copies would shadow every edit.
+ */
+export async function registerServiceWorker() {
+  if (process.env.NODE_ENV !== "production") return;
+  if (!("serviceWorker" in navigator)) return;
+  await navigator.serviceWorker.register(SERVICE_WORKER_PATH, { scope: "/" });
+}
+
+/** Asks the service worker to send what it queued while offline. */
+export async function requestReplay() {
+  if (!("serviceWorker" in navigator)) return;
+  const registration = await navigator.serviceWorker.ready;
+  const message: ReplayRequestMessage = { type: "replay" };
+  registration.active?.postMessage(message);
+}
+
+/** Calls `listener` for each queued send the service worker replays. */
+export function onReplayed(listener: (message: ReplayedMessage) => void) {
+  if (!("serviceWorker" in navigator)) return () => {};
+  const handleMessage = (event: MessageEvent) => {
+    if ((event.data as { type?: unknown } | null)?.type === "replayed") {
+      listener(event.data as ReplayedMessage);
+    }
+  };
+  navigator.serviceWorker.addEventListener("message", handleMessage);
+  return () =>
+    navigator.serviceWorker.removeEventListener("message", handleMessage);
+}
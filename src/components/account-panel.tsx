@@ -0,0 +1,180 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { describeApiError } from "@/client/api-error";
+import { useI18n } from "@/components/i18n-provider";
+import type { User, UserProfile } from "@/shared/account";
+
+type AccountPanelProps = {
+  user: User;
+  onChange: (user: User) => void;
+  onSignOut: () => void;
+};
+
+/**
+ * Who is signed in, their own WhatsApp number, and sign-out. A new number
+ * is texted a code and saved once the code is typed back. Saving also
+ * stores the app's language, which the bot then replies in.
+ */
+export function AccountPanel({ user, onChange, onSignOut }: AccountPanelProps) {
+  const { locale, t, rich } = useI18n();
+  const [whatsappNumber, setWhatsappNumber] = useState(
+    user.profile.whatsappNumber ?? ""
+  );
+  const [code, setCode] = useState("");
+  /** The number a code went to, while it waits to be typed back. */
+  const [pendingNumber, setPendingNumber] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const postJson = async (url: string, method: string, payload: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload)
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(
+        describeApiError(response, body, t("account.saveFailed"), locale)
+      );
+    }
+    return body;
+  };
+
+  const handleSave = async (event: FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const typed = whatsappNumber.trim();
+      const profile = (await postJson("/api/profile", "PATCH", {
+        locale,
+        ...(typed ? {} : { whatsappNumber: null })
+      })) as UserProfile;
+      onChange({ ...user, profile });
+      if (!typed || typed === profile.whatsappNumber) {
+        setMessage(typed ? t("account.saved") : t("account.removed"));
+        return;
+      }
+      const sent = (await postJson("/api/profile/whatsapp", "POST", {
+        whatsappNumber: typed,
+        locale
+      })) as { whatsappNumber: string };
+      setPendingNumber(sent.whatsappNumber);
+      setCode("");
+      setMessage(t("account.codeSent", { number: sent.whatsappNumber }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("account.saveFailed"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleVerify = async (event: FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const profile = (await postJson("/api/profile/whatsapp/verify", "POST", {
+        code
+      })) as UserProfile;
+      setPendingNumber(null);
+      setWhatsappNumber(profile.whatsappNumber ?? "");
+      setMessage(t("account.saved"));
+      onChange({ ...user, profile });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("account.verifyFailed"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => null);
+    onSignOut();
+  };
+
+  return (
+    <div className="flex flex-col gap-3 border-t border-slate-800 pt-4 text-xs text-slate-400 sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex items-center gap-3">
+        <span>
+          {rich("account.signedInAs", {
+            email: (
+              <span className="font-semibold text-slate-200">{user.email}</span>
+            )
+          })}
+        </span>
+        <button
+          type="button"
+          onClick={handleSignOut}
+          className="rounded-full border border-slate-700 px-3 py-1 font-semibold text-slate-300 transition hover:border-blue-400 hover:text-white"
+        >
+          {t("account.signOut")}
+        </button>
+      </div>
+      <form
+        onSubmit={pendingNumber ? handleVerify : handleSave}
+        className="flex items-center gap-2"
+      >
+        {pendingNumber ? (
+          <>
+            <label htmlFor="own-whatsapp-code">{t("account.code")}</label>
+            <input
+              id="own-whatsapp-code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+              placeholder="123456"
+              className="w-24 rounded-xl border border-slate-700 bg-slate-950/80 px-3 py-2 text-xs text-slate-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+            />
+          </>
+        ) : (
+          <>
+            <label htmlFor="own-whatsapp">{t("account.whatsApp")}</label>
+            <input
+              id="own-whatsapp"
+              type="tel"
+              value={whatsappNumber}
+              onChange={(event) => setWhatsappNumber(event.target.value)}
+              placeholder="+14155551212"
+              className="w-40 rounded-xl border border-slate-700 bg-slate-950/80 px-3 py-2 text-xs text-slate-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+            />
+          </>
+        )}
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-full border border-slate-700 px-3 py-1 font-semibold text-slate-300 transition hover:border-blue-400 hover:text-white disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {pendingNumber
+            ? saving
+              ? t("account.verifying")
+              : t("account.verify")
+            : saving
+              ? t("common.saving")
+              : t("common.save")}
+        </button>
+        {pendingNumber && (
+          <button
+            type="button"
+            onClick={() => {
+              setPendingNumber(null);
+              setMessage(null);
+            }}
+            className="text-slate-400 underline-offset-2 hover:text-white hover:underline"
+          >
+            {t("common.cancel")}
+          </button>
+        )}
+        {message && <span className="text-emerald-300">{message}</span>}
+        {error && <span className="text-rose-300">{error}</span>}
+      </form>
+    </div>
+  );
+}
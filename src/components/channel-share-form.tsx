@@ -0,0 +1,117 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { describeApiError } from "@/client/api-error";
+import { useI18n } from "@/components/i18n-provider";
+import type { Locale } from "@/shared/i18n";
+import { shareRecipientPlaceholders, type ShareChannel } from "@/shared/notify";
+import type { Recipe } from "@/shared/recipe";
+
+type ChannelShareFormProps = {
+  channel: Exclude<ShareChannel, "whatsapp">;
+  summary: string | null;
+  recipes: Recipe[];
+  menuSlug: string | null;
+  asLink: boolean;
+  /** The language the menu is written in, for the message around it. */
+  menuLocale: Locale;
+};
+
+/** Sends the menu through `/api/share` by email, Telegram or SMS. */
+export function ChannelShareForm({
+  channel,
+  summary,
+  recipes,
+  menuSlug,
+  asLink,
+  menuLocale
+}: ChannelShareFormProps) {
+  const { locale, t } = useI18n();
+  const [to, setTo] = useState("");
+  const [sending, setSending] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const label = t(`channel.${channel}`);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSending(true);
+    setResult(null);
+    setError(null);
+    try {
+      const response = await fetch("/api/share", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          channel,
+          to,
+          summary,
+          recipes,
+          menuSlug: menuSlug ?? undefined,
+          asLink,
+          locale: menuLocale
+        })
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          describeApiError(
+            response,
+            body,
+            t("channel.failed", { channel: label }),
+            locale
+          )
+        );
+      }
+      setResult(t("channel.sent", { to: body.to, channel: label }));
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : t("channel.failed", { channel: label })
+      );
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+      <div className="grid gap-4 md:grid-cols-[minmax(0,1fr),auto] md:items-end">
+        <label className="flex flex-col gap-2 text-sm text-emerald-100/80">
+          {t(`channel.recipient.${channel}`)}
+          <input
+            type={
+              channel === "email" ? "email" : channel === "sms" ? "tel" : "text"
+            }
+            value={to}
+            onChange={(event) => setTo(event.target.value)}
+            placeholder={shareRecipientPlaceholders[channel]}
+            className="rounded-xl border border-emerald-400/50 bg-emerald-950/40 px-4 py-3 text-sm text-white placeholder:text-emerald-200/60 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-400"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={sending || !to.trim() || !recipes.length}
+          className="inline-flex items-center justify-center gap-2 rounded-full bg-emerald-500 px-6 py-3 text-sm font-semibold text-emerald-950 shadow-lg shadow-emerald-500/40 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-emerald-500/60"
+        >
+          {sending ? (
+            <>
+              <span className="h-3 w-3 animate-spin rounded-full border-[2px] border-emerald-900/60 border-t-transparent" />
+              {t("common.sending")}
+            </>
+          ) : (
+            t("channel.send", { channel: label })
+          )}
+        </button>
+      </div>
+      {channel === "email" && (
+        <p className="text-xs text-emerald-100/70">{t("channel.emailNote")}</p>
+      )}
+      {result && (
+        <p className="text-xs font-medium text-emerald-200">{result}</p>
+      )}
+      {error && <p className="text-xs text-rose-200">{error}</p>}
+    </form>
+  );
+}
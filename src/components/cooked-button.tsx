@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import { describeApiError } from "@/client/api-error";
+import { useI18n } from "@/components/i18n-provider";
+import type { CookResponse } from "@/shared/pantry";
+import type { Recipe } from "@/shared/recipe";
+
+type CookedButtonProps = {
+  /** The recipe as cooked, scaled to the servings made. */
+  recipe: Recipe;
+  onCooked: (response: CookResponse) => void;
+};
+
+/** Marks a recipe as cooked, counting its ingredients out of the pantry. */
+export function CookedButton({ recipe, onCooked }: CookedButtonProps) {
+  const { locale, t } = useI18n();
+  const [cooking, setCooking] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClick = async () => {
+    setCooking(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/pantry/cook", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ingredients: recipe.ingredients })
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          describeApiError(response, body, t("cooked.failed"), locale)
+        );
+      }
+      const cooked = body as CookResponse;
+      setResult(
+        cooked.used.length
+          ? t("cooked.updated", {
+              items: cooked.used
+                .map((use) =>
+                  use.usedUp ? t("cooked.usedUp", { name: use.name }) : use.name
+                )
+                .join(", ")
+            })
+          : t("cooked.nothing")
+      );
+      onCooked(cooked);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("cooked.failed"));
+    } finally {
+      setCooking(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs">
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={cooking || result !== null}
+        className="rounded-full border border-emerald-500/50 px-3 py-1 font-semibold text-emerald-200 transition hover:border-emerald-300 hover:text-white disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        {result !== null
+          ? t("cooked.done")
+          : cooking
+            ? t("cooked.updating")
+            : t("cooked.mark")}
+      </button>
+      {result && <span className="text-slate-400">{result}</span>}
+      {error && <span className="text-rose-300">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { describeApiError } from "@/client/api-error";
+import { useI18n } from "@/components/i18n-provider";
+import {
+  canRetryDelivery,
+  isDeliverySettled,
+  OUTSIDE_SESSION_WINDOW_CODE,
+  type DeliveryStatus as Status,
+  type DeliverySummary
+} from "@/shared/delivery";
+
+type DeliveryStatusProps = {
+  delivery: DeliverySummary;
+  /** Shown instead of the number, e.g. the contact's name. */
+  label?: string | null;
+  onChange: (delivery: DeliverySummary) => void;
+};
+
+const POLL_INTERVAL_MS = 3000;
+// Read receipts may never come (the recipient can turn them off), so polling
+// stops after a while instead of running for as long as the page is open.
+const POLL_LIMIT_MS = 2 * 60 * 1000;
+
+const statusClasses: Record<Status, string> = {
+  pending: "border-slate-500/60 text-slate-300",
+  accepted: "border-emerald-400/40 text-emerald-200/80",
+  sent: "border-emerald-400/60 text-emerald-100",
+  delivered: "border-emerald-300 text-emerald-100",
+  read: "border-sky-300 text-sky-100",
+  failed: "border-rose-400/70 text-rose-200"
+};
+
+export function DeliveryStatus({
+  delivery,
+  label,
+  onChange
+}: DeliveryStatusProps) {
+  const { locale, t } = useI18n();
+  const [retrying, setRetrying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pollStartedAt, setPollStartedAt] = useState(() => Date.now());
+  const settled = isDeliverySettled(delivery);
+
+  useEffect(() => {
+    if (settled) return;
+    const timer = window.setTimeout(async () => {
+      if (Date.now() - pollStartedAt > POLL_LIMIT_MS) return;
+      try {
+        const response = await fetch(
+          `/api/whatsapp/deliveries/${delivery.id}`,
+          { cache: "no-store" }
+        );
+        if (response.ok) {
+          onChange((await response.json()) as DeliverySummary);
+        }
+      } catch {
+        // Polling is best effort; the next tick tries again.
+      }
+    }, POLL_INTERVAL_MS);
+    return () => window.clearTimeout(timer);
+  }, [delivery, onChange, pollStartedAt, settled]);
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/whatsapp/deliveries/${delivery.id}/retry`,
+        { method: "POST" }
+      );
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          describeApiError(response, body, t("delivery.retryFailed"), locale)
+        );
+      }
+      setPollStartedAt(Date.now());
+      onChange(body as DeliverySummary);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("delivery.retryFailed"));
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const failure = delivery.messages.find(
+    (message) => message.status === "failed"
+  );
+
+  return (
+    <div className="flex flex-col gap-2 rounded-2xl border border-emerald-400/30 bg-emerald-950/30 p-4 text-xs text-emerald-100/80">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold uppercase tracking-wide text-emerald-200">
+          {t("delivery.to", { recipient: label ?? delivery.recipient })}
+        </span>
+        {!settled && (
+          <span className="h-3 w-3 animate-spin rounded-full border-[2px] border-emerald-300/60 border-t-transparent" />
+        )}
+      </div>
+      <ul className="flex flex-wrap gap-2">
+        {delivery.messages.map((message, index) => (
+          <li
+            key={`${message.kind}-${index}`}
+            className={`rounded-full border px-3 py-1 font-semibold ${statusClasses[message.status]}`}
+          >
+            {t(`delivery.kind.${message.kind}`)}
+            {delivery.messages.length > 1 ? ` ${index + 1}` : ""}:{" "}
+            {t(`delivery.status.${message.status}`)}
+          </li>
+        ))}
+      </ul>
+      {failure?.error && (
+        <p className="text-rose-200">
+          {failure.error.title}
+          {failure.error.code === OUTSIDE_SESSION_WINDOW_CODE &&
+            ` ${t("delivery.outsideWindow")}`}
+        </p>
+      )}
+      {error && <p className="text-rose-200">{error}</p>}
+      {canRetryDelivery(delivery) && (
+        <button
+          type="button"
+          onClick={handleRetry}
+          disabled={retrying}
+          className="self-start rounded-full border border-emerald-400/60 px-3 py-1 font-semibold text-emerald-100 transition hover:border-emerald-300 hover:text-white disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {retrying ? t("delivery.retrying") : t("delivery.retry")}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useI18n } from "@/components/i18n-provider";
+import {
+  allergens,
+  dietTypes,
+  equipmentOptions,
+  type DietaryProfile,
+  type DietType
+} from "@/shared/dietary";
+import type { Translate } from "@/shared/i18n";
+
+type DietaryFormProps = {
+  profile: DietaryProfile;
+  onChange: (profile: DietaryProfile) => void;
+  disabled?: boolean;
+};
+
+function toggle<T>(values: T[], value: T) {
+  return values.includes(value)
+    ? values.filter((current) => current !== value)
+    : [...values, value];
+}
+
+function parseList(value: string) {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length >= 2);
+}
+
+function parsePositiveInt(value: string) {
+  const number = Number.parseInt(value, 10);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+function summarize(profile: DietaryProfile, t: Translate) {
+  const parts: string[] = [];
+  if (profile.diet !== "omnivore") parts.push(t(`diet.${profile.diet}`));
+  if (profile.allergens.length) {
+    parts.push(
+      t("dietaryForm.summary.allergens", {
+        allergens: profile.allergens
+          .map((allergen) => t(`allergen.${allergen}`).toLowerCase())
+          .join(", ")
+      })
+    );
+  }
+  if (profile.excludedIngredients.length) {
+    parts.push(
+      t("dietaryForm.summary.excluded", {
+        count: profile.excludedIngredients.length
+      })
+    );
+  }
+  if (profile.maxCookMinutes) {
+    parts.push(
+      t("dietaryForm.summary.minutes", { minutes: profile.maxCookMinutes })
+    );
+  }
+  if (profile.servings) {
+    parts.push(t.plural("dietaryForm.summary.servings", profile.servings));
+  }
+  if (profile.equipment.length) {
+    parts.push(
+      t.plural("dietaryForm.summary.appliances", profile.equipment.length)
+    );
+  }
+  return parts.length ? parts.join(" · ") : t("dietaryForm.none");
+}
+
+const pillClass = (active: boolean) =>
+  `rounded-full border px-3 py-1 text-xs font-semibold transition disabled:cursor-not-allowed disabled:opacity-60 ${
+    active
+      ? "border-blue-400 bg-blue-500/20 text-blue-100"
+      : "border-slate-700 text-slate-300 hover:border-slate-500"
+  }`;
+
+const inputClass =
+  "rounded-xl border border-slate-700 bg-slate-950/80 px-3 py-2 text-sm text-slate-100 transition hover:border-blue-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400";
+
+export function DietaryForm({ profile, onChange, disabled }: DietaryFormProps) {
+  const { t } = useI18n();
+  const [excludedDraft, setExcludedDraft] = useState(
+    profile.excludedIngredients.join(", ")
+  );
+
+  // Keep the free-text draft when it already matches, so typing a trailing
+  // comma is not undone; replace it when the profile changes from outside.
+  useEffect(() => {
+    const joined = profile.excludedIngredients.join(", ");
+    setExcludedDraft((draft) =>
+      parseList(draft).join(", ") === joined ? draft : joined
+    );
+  }, [profile.excludedIngredients]);
+
+  const update = (changes: Partial<DietaryProfile>) =>
+    onChange({ ...profile, ...changes });
+
+  return (
+    <details className="rounded-2xl border border-slate-800 bg-slate-950/60 p-4">
+      <summary className="flex cursor-pointer list-none flex-wrap items-center justify-between gap-2">
+        <span className="text-sm font-semibold uppercase tracking-wide text-slate-300">
+          {t("dietaryForm.title")}
+        </span>
+        <span className="text-xs text-slate-400">{summarize(profile, t)}</span>
+      </summary>
+
+      <div className="mt-4 grid gap-5 text-sm text-slate-300 md:grid-cols-2">
+        <label className="flex flex-col gap-2">
+          {t("dietaryForm.diet")}
+          <select
+            value={profile.diet}
+            disabled={disabled}
+            onChange={(event) =>
+              update({ diet: event.target.value as DietType })
+            }
+            className={inputClass}
+          >
+            {dietTypes.map((diet) => (
+              <option key={diet} value={diet}>
+                {t(`diet.${diet}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-2">
+          {t("dietaryForm.excluded")}
+          <input
+            value={excludedDraft}
+            disabled={disabled}
+            onChange={(event) => {
+              setExcludedDraft(event.target.value);
+              update({ excludedIngredients: parseList(event.target.value) });
+            }}
+            placeholder={t("dietaryForm.excludedPlaceholder")}
+            className={inputClass}
+          />
+        </label>
+
+        <fieldset className="flex flex-col gap-2 md:col-span-2">
+          <legend className="mb-2">{t("dietaryForm.allergies")}</legend>
+          <div className="flex flex-wrap gap-2">
+            {allergens.map((allergen) => (
+              <button
+                key={allergen}
+                type="button"
+                disabled={disabled}
+                aria-pressed={profile.allergens.includes(allergen)}
+                onClick={() =>
+                  update({ allergens: toggle(profile.allergens, allergen) })
+                }
+                className={pillClass(profile.allergens.includes(allergen))}
+              >
+                {t(`allergen.${allergen}`)}
+              </button>
+            ))}
+          </div>
+        </fieldset>
+
+        <label className="flex flex-col gap-2">
+          {t("dietaryForm.maxMinutes")}
+          <input
+            type="number"
+            min={5}
+            max={600}
+            step={5}
+            value={profile.maxCookMinutes ?? ""}
+            disabled={disabled}
+            onChange={(event) =>
+              update({ maxCookMinutes: parsePositiveInt(event.target.value) })
+            }
+            placeholder={t("dietaryForm.any")}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="flex flex-col gap-2">
+          {t("dietaryForm.servings")}
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={profile.servings ?? ""}
+            disabled={disabled}
+            onChange={(event) =>
+              update({ servings: parsePositiveInt(event.target.value) })
+            }
+            placeholder={t("dietaryForm.any")}
+            className={inputClass}
+          />
+        </label>
+
+        <fieldset className="flex flex-col gap-2 md:col-span-2">
+          <legend className="mb-2">
+            {t("dietaryForm.equipment")}{" "}
+            <span className="text-xs text-slate-500">
+              {t("dietaryForm.equipmentHint")}
+            </span>
+          </legend>
+          <div className="flex flex-wrap gap-2">
+            {equipmentOptions.map((equipment) => (
+              <button
+                key={equipment}
+                type="button"
+                disabled={disabled}
+                aria-pressed={profile.equipment.includes(equipment)}
+                onClick={() =>
+                  update({ equipment: toggle(profile.equipment, equipment) })
+                }
+                className={pillClass(profile.equipment.includes(equipment))}
+              >
+                {t(`equipment.${equipment}`)}
+              </button>
+            ))}
+          </div>
+        </fieldset>
+      </div>
+    </details>
+  );
+}
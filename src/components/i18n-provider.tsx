@@ -0,0 +1,95 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import {
+  createContext,
+  Fragment,
+  useCallback,
+  useContext,
+  useMemo,
+  useState,
+  type ReactNode
+} from "react";
+import {
+  createTranslator,
+  defaultLocale,
+  LOCALE_COOKIE,
+  localeDirection,
+  translate,
+  type Locale,
+  type MessageKey,
+  type Translate
+} from "@/shared/i18n";
+
+type I18nContextValue = {
+  locale: Locale;
+  t: Translate;
+  /**
+   * Like `t`, for messages with markup inside: `{name}` placeholders are
+   * replaced by the matching element.
+   */
+  rich: (key: MessageKey, elements: Record<string, ReactNode>) => ReactNode;
+  setLocale: (locale: Locale) => void;
+};
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+function createContextValue(
+  locale: Locale,
+  setLocale: (locale: Locale) => void
+): I18nContextValue {
+  return {
+    locale,
+    t: createTranslator(locale),
+    rich: (key, elements) =>
+      translate(locale, key)
+        .split(/(\{\w+\})/)
+        .map((part, index) => {
+          const name = part.match(/^\{(\w+)\}$/)?.[1];
+          return (
+            <Fragment key={index}>
+              {name && name in elements ? elements[name] : part}
+            </Fragment>
+          );
+        }),
+    setLocale
+  };
+}
+
+type I18nProviderProps = {
+  /** Negotiated on the server, so the first render is already translated. */
+  initialLocale: Locale;
+  children: ReactNode;
+};
+
+export function I18nProvider({ initialLocale, children }: I18nProviderProps) {
+  const router = useRouter();
+  const [locale, setLocaleState] = useState(initialLocale);
+
+  const setLocale = useCallback(
+    (next: Locale) => {
+      document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+      document.documentElement.lang = next;
+      document.documentElement.dir = localeDirection(next);
+      setLocaleState(next);
+      // Server-rendered pages pick the cookie up on their next render.
+      router.refresh();
+    },
+    [router]
+  );
+
+  const value = useMemo(
+    () => createContextValue(locale, setLocale),
+    [locale, setLocale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+/** The page's language and its translator; English outside a provider. */
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext);
+  return context ?? createContextValue(defaultLocale, () => undefined);
+}
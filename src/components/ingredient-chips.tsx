@@ -0,0 +1,174 @@
+"use client";
+
+import { KeyboardEvent, useState } from "react";
+import { useI18n } from "@/components/i18n-provider";
+import type { DetectedIngredient, FreshnessHint } from "@/shared/ingredients";
+
+const freshnessStyles: Record<FreshnessHint, string> = {
+  fresh: "border-emerald-400/50 bg-emerald-500/10 text-emerald-100",
+  "use-soon": "border-amber-400/50 bg-amber-500/10 text-amber-100",
+  "past-prime": "border-red-400/50 bg-red-500/10 text-red-100",
+  unknown: "border-slate-600 bg-slate-800/60 text-slate-200"
+};
+
+type IngredientChipsProps = {
+  ingredients: DetectedIngredient[];
+  onChange: (ingredients: DetectedIngredient[]) => void;
+  disabled?: boolean;
+};
+
+export function IngredientChips({
+  ingredients,
+  onChange,
+  disabled
+}: IngredientChipsProps) {
+  const { t } = useI18n();
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [draftQuantity, setDraftQuantity] = useState("");
+  const [newName, setNewName] = useState("");
+
+  const startEditing = (index: number) => {
+    setEditingIndex(index);
+    setDraftName(ingredients[index].name);
+    setDraftQuantity(ingredients[index].quantity);
+  };
+
+  const saveEdit = () => {
+    if (editingIndex === null) return;
+    const name = draftName.trim();
+    if (name.length < 2) return;
+    onChange(
+      ingredients.map((ingredient, index) =>
+        index === editingIndex
+          ? {
+              ...ingredient,
+              name,
+              quantity: draftQuantity.trim() || "some",
+              confidence: 1
+            }
+          : ingredient
+      )
+    );
+    setEditingIndex(null);
+  };
+
+  const removeAt = (index: number) => {
+    onChange(ingredients.filter((_, current) => current !== index));
+    setEditingIndex(null);
+  };
+
+  const addIngredient = () => {
+    const name = newName.trim();
+    if (name.length < 2) return;
+    onChange([
+      ...ingredients,
+      { name, quantity: "some", confidence: 1, freshness: "unknown" }
+    ]);
+    setNewName("");
+  };
+
+  // These inputs live inside the page's generate form, so Enter must not submit it.
+  const onEnter = (action: () => void) => (event: KeyboardEvent) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      action();
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <ul className="flex flex-wrap gap-2">
+        {ingredients.map((ingredient, index) =>
+          editingIndex === index ? (
+            <li key={`${ingredient.name}-${index}`}>
+              <div
+                onKeyDown={onEnter(saveEdit)}
+                className="flex flex-wrap items-center gap-2 rounded-2xl border border-blue-400/60 bg-slate-950/80 px-3 py-2 text-sm"
+              >
+                <input
+                  aria-label={t("chips.name")}
+                  value={draftName}
+                  onChange={(event) => setDraftName(event.target.value)}
+                  className="w-32 rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 text-slate-100"
+                  autoFocus
+                />
+                <input
+                  aria-label={t("chips.quantity")}
+                  value={draftQuantity}
+                  onChange={(event) => setDraftQuantity(event.target.value)}
+                  className="w-28 rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 text-slate-100"
+                />
+                <button
+                  type="button"
+                  onClick={saveEdit}
+                  className="rounded-full bg-blue-500 px-3 py-1 text-xs font-semibold text-white"
+                >
+                  {t("common.save")}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEditingIndex(null)}
+                  className="text-xs text-slate-400 hover:text-slate-200"
+                >
+                  {t("common.cancel")}
+                </button>
+              </div>
+            </li>
+          ) : (
+            <li
+              key={`${ingredient.name}-${index}`}
+              className={`flex items-center gap-2 rounded-full border px-3 py-1 text-sm ${freshnessStyles[ingredient.freshness]}`}
+              title={t("chips.confidence", {
+                freshness: t(`chips.${ingredient.freshness}`),
+                percent: Math.round(ingredient.confidence * 100)
+              })}
+            >
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => startEditing(index)}
+                className="flex items-center gap-2 disabled:cursor-not-allowed"
+              >
+                <span className="font-medium">{ingredient.name}</span>
+                <span className="text-xs opacity-70">
+                  {ingredient.quantity}
+                </span>
+                {ingredient.confidence < 0.7 && (
+                  <span className="text-xs opacity-70">?</span>
+                )}
+              </button>
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => removeAt(index)}
+                aria-label={t("common.remove", { name: ingredient.name })}
+                className="text-xs opacity-60 hover:opacity-100 disabled:cursor-not-allowed"
+              >
+                ✕
+              </button>
+            </li>
+          )
+        )}
+      </ul>
+      <div className="flex gap-2">
+        <input
+          value={newName}
+          onKeyDown={onEnter(addIngredient)}
+          disabled={disabled}
+          onChange={(event) => setNewName(event.target.value)}
+          placeholder={t("chips.addPlaceholder")}
+          className="flex-1 rounded-xl border border-slate-700 bg-slate-950/80 px-3 py-2 text-sm text-slate-100 transition hover:border-blue-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+        />
+        <button
+          type="button"
+          onClick={addIngredient}
+          disabled={disabled || newName.trim().length < 2}
+          className="rounded-full border border-slate-600 px-4 py-2 text-xs font-semibold text-slate-200 transition hover:border-blue-400 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {t("common.add")}
+        </button>
+      </div>
+    </div>
+  );
+}
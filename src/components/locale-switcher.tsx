@@ -0,0 +1,28 @@
+"use client";
+
+import { useI18n } from "@/components/i18n-provider";
+import { isLocale, localeNames, locales } from "@/shared/i18n";
+
+/** Picks the interface language; recipes follow it from the next menu on. */
+export function LocaleSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="flex items-center gap-2 text-xs text-slate-400">
+      {t("language.label")}
+      <select
+        value={locale}
+        onChange={(event) => {
+          if (isLocale(event.target.value)) setLocale(event.target.value);
+        }}
+        className="rounded-full border border-slate-700 bg-slate-950/80 px-3 py-1 text-xs text-slate-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+      >
+        {locales.map((option) => (
+          <option key={option} value={option} lang={option}>
+            {localeNames[option]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,565 @@
+"use client";
+
+import { DragEvent, useCallback, useEffect, useMemo, useState } from "react";
+import { describeApiError } from "@/client/api-error";
+import { useI18n } from "@/components/i18n-provider";
+import {
+  emptyRecipientSelection,
+  RecipientPicker,
+  type RecipientSelection
+} from "@/components/recipient-picker";
+import type { RecipientResult } from "@/shared/delivery";
+import { localeTags } from "@/shared/i18n";
+import type { MenuRecord, MenuSummary } from "@/shared/menu";
+import type { Pantry } from "@/shared/pantry";
+import { splitPhoneNumbers } from "@/shared/phone";
+import {
+  addDays,
+  meals,
+  mealsBetween,
+  startOfWeek,
+  weekDates,
+  type Meal,
+  type MealPlan,
+  type PlannedMeal
+} from "@/shared/planner";
+import type { Recipe } from "@/shared/recipe";
+import { formatShoppingListMessage } from "@/shared/share";
+import {
+  buildShoppingList,
+  formatShoppingItem,
+  shoppingSources
+} from "@/shared/shopping";
+import { adaptRecipe, type UnitSystem } from "@/shared/units";
+
+/** A recipe that can be placed on the planner. */
+export type PlannerRecipe = {
+  recipe: Recipe;
+  servings: number | null;
+  menuId: string | null;
+};
+
+type MealPlannerProps = {
+  /** The menu on the page, with the servings chosen for each card. */
+  menuRecipes: PlannerRecipe[];
+  pantry: Pantry | null;
+  unitSystem: UnitSystem;
+  /** Changes whenever a new menu is saved, so past menus reload. */
+  refreshToken: string | null;
+};
+
+// What is being dragged: a recipe from the tray or a meal already planned.
+type Dragged =
+  { kind: "recipe"; item: PlannerRecipe } | { kind: "planned"; id: string };
+
+const DRAG_TYPE = "application/x-kitchen-remix-plan";
+
+function formatDay(date: string, formatter: Intl.DateTimeFormat) {
+  const [year, month, day] = date.split("-").map(Number);
+  return formatter.format(new Date(year, month - 1, day));
+}
+
+const pillClass =
+  "rounded-full border border-slate-600 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-blue-400 hover:text-blue-100 disabled:cursor-not-allowed disabled:opacity-50";
+
+/**
+ * A week of breakfasts, lunches and dinners. Recipes are dragged from the
+ * current menu or a past one onto a slot (or picked, then placed with a
+ * click), and the week's shopping list follows from what is planned.
+ */
+export function MealPlanner({
+  menuRecipes,
+  pantry,
+  unitSystem,
+  refreshToken
+}: MealPlannerProps) {
+  const { locale, t } = useI18n();
+  const dayFormatter = useMemo(
+    () =>
+      new Intl.DateTimeFormat(localeTags[locale], {
+        weekday: "short",
+        day: "numeric",
+        month: "short"
+      }),
+    [locale]
+  );
+  const [plan, setPlan] = useState<MealPlan | null>(null);
+  const [weekStart, setWeekStart] = useState(() => startOfWeek());
+  const [history, setHistory] = useState<MenuSummary[]>([]);
+  const [pastMenu, setPastMenu] = useState<MenuRecord | null>(null);
+  const [picked, setPicked] = useState<PlannerRecipe | null>(null);
+  const [dragged, setDragged] = useState<Dragged | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sharing, setSharing] = useState(false);
+  const [recipientSelection, setRecipientSelection] =
+    useState<RecipientSelection>(emptyRecipientSelection);
+  const [sending, setSending] = useState(false);
+  const [shareResult, setShareResult] = useState<string | null>(null);
+
+  const loadPlan = useCallback(async () => {
+    try {
+      const response = await fetch("/api/plan", { cache: "no-store" });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          describeApiError(response, body, t("planner.error.load"), locale)
+        );
+      }
+      setPlan(body as MealPlan);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("planner.error.load"));
+    }
+  }, [locale, t]);
+
+  useEffect(() => {
+    void loadPlan();
+  }, [loadPlan]);
+
+  useEffect(() => {
+    fetch("/api/history", { cache: "no-store" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((body: { menus: MenuSummary[] } | null) =>
+        setHistory(body?.menus ?? [])
+      )
+      .catch(() => setHistory([]));
+  }, [refreshToken]);
+
+  const run = async (
+    request: () => Promise<Response>,
+    fallbackError: string
+  ) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await request();
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          describeApiError(response, body, fallbackError, locale)
+        );
+      }
+      await loadPlan();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const placeRecipe = (item: PlannerRecipe, date: string, meal: Meal) =>
+    run(
+      () =>
+        fetch("/api/plan", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            date,
+            meal,
+            recipe: item.recipe,
+            servings: item.servings,
+            menuId: item.menuId
+          })
+        }),
+      t("planner.error.place")
+    );
+
+  const moveMeal = (id: string, date: string, meal: Meal) =>
+    run(
+      () =>
+        fetch(`/api/plan/${id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ date, meal })
+        }),
+      t("planner.error.move")
+    );
+
+  const removeMeal = (planned: PlannedMeal) =>
+    run(
+      () => fetch(`/api/plan/${planned.id}`, { method: "DELETE" }),
+      t("planner.error.remove")
+    );
+
+  const openPastMenu = async (id: string) => {
+    setPastMenu(null);
+    if (!id) return;
+    try {
+      const response = await fetch(`/api/history/${id}`, { cache: "no-store" });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          describeApiError(response, body, t("history.error.open"), locale)
+        );
+      }
+      setPastMenu(body as MenuRecord);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("history.error.open"));
+    }
+  };
+
+  const startDrag = (event: DragEvent, item: Dragged) => {
+    // Firefox only starts a drag that carries some data.
+    event.dataTransfer.setData(DRAG_TYPE, "");
+    event.dataTransfer.effectAllowed = "move";
+    setDragged(item);
+  };
+
+  const handleDrop = (event: DragEvent, date: string, meal: Meal) => {
+    event.preventDefault();
+    const item = dragged;
+    setDragged(null);
+    if (!item) return;
+    if (item.kind === "recipe") void placeRecipe(item.item, date, meal);
+    else void moveMeal(item.id, date, meal);
+  };
+
+  const handlePlace = (date: string, meal: Meal) => {
+    if (!picked) return;
+    setPicked(null);
+    void placeRecipe(picked, date, meal);
+  };
+
+  const dates = useMemo(() => weekDates(weekStart), [weekStart]);
+  const weekMeals = useMemo(
+    () => (plan ? mealsBetween(plan, dates[0], dates[6]) : []),
+    [dates, plan]
+  );
+
+  const shoppingList = useMemo(
+    () =>
+      buildShoppingList(
+        weekMeals.map((planned) =>
+          adaptRecipe(planned.recipe, {
+            servings: planned.servings,
+            system: unitSystem
+          })
+        ),
+        pantry,
+        { system: unitSystem }
+      ),
+    [pantry, unitSystem, weekMeals]
+  );
+
+  const period = `${formatDay(dates[0], dayFormatter)} – ${formatDay(dates[6], dayFormatter)}`;
+  const shoppingMessage = formatShoppingListMessage(
+    shoppingList,
+    period,
+    locale
+  );
+
+  const handleSendList = async () => {
+    setSending(true);
+    setShareResult(null);
+    setError(null);
+    try {
+      const response = await fetch("/api/whatsapp", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          message: shoppingMessage,
+          recipients: splitPhoneNumbers(recipientSelection.numbers),
+          contactIds: recipientSelection.contactIds,
+          groupIds: recipientSelection.groupIds,
+          country: recipientSelection.country || undefined
+        })
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          describeApiError(response, body, t("planner.error.send"), locale)
+        );
+      }
+      const results: RecipientResult[] = body?.results ?? [];
+      const failed = results.filter((result) => result.status === "failed");
+      setShareResult(
+        failed.length
+          ? t("common.sentToSome", {
+              sent: results.length - failed.length,
+              total: results.length
+            })
+          : t("planner.listSent")
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("planner.error.send"));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const trayGroups = [
+    {
+      id: "current",
+      title: t("planner.currentMenu"),
+      empty: t("planner.currentMenuEmpty"),
+      items: menuRecipes
+    },
+    {
+      id: "history",
+      title: t("planner.fromHistory"),
+      empty: t("planner.pastMenuEmpty"),
+      items: (pastMenu?.payload.recipes ?? []).map((recipe) => ({
+        recipe,
+        servings: null,
+        menuId: pastMenu?.id ?? null
+      }))
+    }
+  ];
+
+  return (
+    <section className="mx-auto flex w-full max-w-5xl flex-col gap-6 rounded-3xl border border-slate-800 bg-slate-900/60 p-6 sm:p-10">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-col gap-1">
+          <h2 className="text-2xl font-semibold text-white">
+            {t("planner.title")}
+          </h2>
+          <p className="text-sm text-slate-400">{t("planner.intro")}</p>
+        </div>
+        <div className="flex items-center gap-2 text-xs">
+          <button
+            type="button"
+            onClick={() => setWeekStart((current) => addDays(current, -7))}
+            aria-label={t("planner.previousWeek")}
+            className={pillClass}
+          >
+            ←
+          </button>
+          <span className="font-semibold text-slate-200">{period}</span>
+          <button
+            type="button"
+            onClick={() => setWeekStart((current) => addDays(current, 7))}
+            aria-label={t("planner.nextWeek")}
+            className={pillClass}
+          >
+            →
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-3 rounded-2xl border border-slate-800 bg-slate-950/60 p-4">
+        {trayGroups.map(({ id, title, empty, items }) => (
+          <div key={id} className="flex flex-col gap-2">
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+                {title}
+              </span>
+              {id === "history" && (
+                <select
+                  value={pastMenu?.id ?? ""}
+                  onChange={(event) => void openPastMenu(event.target.value)}
+                  aria-label={t("planner.pastMenu")}
+                  className="max-w-xs rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 text-xs text-slate-200"
+                >
+                  <option value="">{t("planner.choosePastMenu")}</option>
+                  {history.map((menu) => (
+                    <option key={menu.id} value={menu.id}>
+                      {menu.recipeNames.join(" · ")}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            {items.length === 0 ? (
+              <p className="text-xs text-slate-500">{empty}</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {items.map((item) => (
+                  <button
+                    key={`${item.menuId}-${item.recipe.name}`}
+                    type="button"
+                    draggable
+                    onDragStart={(event) =>
+                      startDrag(event, { kind: "recipe", item })
+                    }
+                    onDragEnd={() => setDragged(null)}
+                    onClick={() =>
+                      setPicked((current) =>
+                        current?.recipe === item.recipe ? null : item
+                      )
+                    }
+                    aria-pressed={picked?.recipe === item.recipe}
+                    className={`cursor-grab rounded-full border px-3 py-1 text-xs transition ${
+                      picked?.recipe === item.recipe
+                        ? "border-blue-300 bg-blue-500/20 text-white"
+                        : "border-slate-700 text-slate-200 hover:border-blue-400"
+                    }`}
+                  >
+                    {item.recipe.name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {!plan ? (
+        <p className="text-sm text-slate-400">{t("planner.loading")}</p>
+      ) : (
+        <div className="grid gap-3 md:grid-cols-7">
+          {dates.map((date) => (
+            <div key={date} className="flex flex-col gap-2">
+              <p className="text-xs font-semibold uppercase tracking-wide text-blue-400">
+                {formatDay(date, dayFormatter)}
+              </p>
+              {meals.map((meal) => (
+                <div
+                  key={meal}
+                  onDragOver={(event) => {
+                    if (dragged) event.preventDefault();
+                  }}
+                  onDrop={(event) => handleDrop(event, date, meal)}
+                  className="flex min-h-[4.5rem] flex-col gap-1 rounded-xl border border-dashed border-slate-700 bg-slate-950/60 p-2"
+                >
+                  <span className="text-[10px] uppercase tracking-wide text-slate-500">
+                    {t(`planner.meal.${meal}`)}
+                  </span>
+                  {weekMeals
+                    .filter(
+                      (planned) =>
+                        planned.date === date && planned.meal === meal
+                    )
+                    .map((planned) => (
+                      <div
+                        key={planned.id}
+                        draggable
+                        onDragStart={(event) =>
+                          startDrag(event, { kind: "planned", id: planned.id })
+                        }
+                        onDragEnd={() => setDragged(null)}
+                        className="flex cursor-grab items-start gap-1 rounded-lg bg-slate-800/80 px-2 py-1 text-xs text-slate-100"
+                      >
+                        <span className="min-w-0 flex-1 break-words">
+                          {planned.recipe.name}
+                          {planned.servings && (
+                            <span className="text-slate-400">
+                              {" "}
+                              · {planned.servings}
+                            </span>
+                          )}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => removeMeal(planned)}
+                          disabled={busy}
+                          aria-label={t("common.remove", {
+                            name: planned.recipe.name
+                          })}
+                          className="text-slate-500 hover:text-red-300 disabled:opacity-50"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    ))}
+                  {picked && (
+                    <button
+                      type="button"
+                      onClick={() => handlePlace(date, meal)}
+                      disabled={busy}
+                      className="mt-auto rounded-lg border border-blue-400/50 px-2 py-1 text-[10px] font-semibold text-blue-100 hover:bg-blue-500/20 disabled:opacity-50"
+                    >
+                      {t("planner.addHere")}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-4 border-t border-slate-800 pt-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-lg font-semibold text-white">
+            {t("share.shoppingList")}
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                navigator.clipboard
+                  .writeText(shoppingMessage)
+                  .then(() => setShareResult(t("planner.copied")))
+                  .catch(() => setError(t("planner.copyFailed")));
+              }}
+              disabled={!weekMeals.length}
+              className={pillClass}
+            >
+              {t("planner.copyList")}
+            </button>
+            <button
+              type="button"
+              onClick={() => setSharing((current) => !current)}
+              disabled={!weekMeals.length}
+              aria-expanded={sharing}
+              className={pillClass}
+            >
+              {t("home.sendToWhatsApp")}
+            </button>
+          </div>
+        </div>
+
+        {!weekMeals.length ? (
+          <p className="text-sm text-slate-400">{t("planner.planSomeMeals")}</p>
+        ) : (
+          <>
+            {shoppingList.items.length ? (
+              <ul className="grid gap-1 text-sm text-slate-200 md:grid-cols-2">
+                {shoppingList.items.map((item) => (
+                  <li key={item.name} title={item.recipes.join(", ")}>
+                    • {formatShoppingItem(item)}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-slate-400">
+                {t("share.nothingToBuy")}
+              </p>
+            )}
+            {shoppingSources.map((source) => {
+              const covered = shoppingList.covered.filter(
+                (item) => item.coveredBy === source
+              );
+              return covered.length ? (
+                <p key={source} className="text-xs text-slate-500">
+                  <span className="font-semibold text-slate-400">
+                    {t(`planner.covered.${source}`)}:
+                  </span>{" "}
+                  {covered.map((item) => item.name).join(", ")}
+                </p>
+              ) : null;
+            })}
+          </>
+        )}
+
+        {sharing && weekMeals.length > 0 && (
+          <div className="flex flex-col gap-4 rounded-2xl border border-emerald-500/30 bg-emerald-500/10 p-6">
+            <RecipientPicker
+              selection={recipientSelection}
+              onChange={setRecipientSelection}
+            />
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={handleSendList}
+                disabled={sending}
+                className="inline-flex items-center justify-center gap-2 rounded-full bg-emerald-500 px-6 py-3 text-sm font-semibold text-emerald-950 shadow-lg shadow-emerald-500/40 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-emerald-500/60"
+              >
+                {sending ? t("common.sending") : t("planner.sendList")}
+              </button>
+            </div>
+          </div>
+        )}
+        {shareResult && (
+          <p className="text-xs font-medium text-emerald-200">{shareResult}</p>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from "react";
+import { describeApiError } from "@/client/api-error";
+import { useI18n } from "@/components/i18n-provider";
+import {
+  availableExportFormats,
+  exportFileTypes,
+  exportFormatLabels,
+  type ExportFormat
+} from "@/shared/export";
+import type { Locale } from "@/shared/i18n";
+import type { Recipe } from "@/shared/recipe";
+
+type MenuExportProps = {
+  summary: string | null;
+  recipes: Recipe[];
+  menuSlug: string | null;
+  /** The language the recipes were written in. */
+  locale: Locale;
+};
+
+function filenameFrom(response: Response, fallback: string) {
+  const disposition = response.headers.get("Content-Disposition") ?? "";
+  return /filename="([^"]+)"/.exec(disposition)?.[1] ?? fallback;
+}
+
+/** Downloads the menu as displayed, with servings and units applied. */
+export function MenuExport({
+  summary,
+  recipes,
+  menuSlug,
+  locale
+}: MenuExportProps) {
+  const { t, locale: uiLocale } = useI18n();
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    setError(null);
+    try {
+      const response = await fetch("/api/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          format,
+          summary,
+          recipes,
+          menuSlug: menuSlug ?? undefined,
+          locale
+        })
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(
+          describeApiError(response, body, t("export.failed"), uiLocale)
+        );
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filenameFrom(
+        response,
+        `kitchen-remix-menu.${exportFileTypes[format].extension}`
+      );
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("export.failed"));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs text-emerald-100/70">
+      <span className="font-semibold uppercase tracking-wide text-emerald-200">
+        {t("export.download")}
+      </span>
+      {availableExportFormats({ summary, recipes, locale }).map((format) => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => handleExport(format)}
+          disabled={exporting !== null || !recipes.length}
+          className="rounded-full border border-emerald-400/60 px-3 py-1 font-semibold text-emerald-100 transition hover:border-emerald-300 hover:text-white disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {exporting === format
+            ? t("export.preparing")
+            : exportFormatLabels[format]}
+        </button>
+      ))}
+      {error && <span className="text-rose-200">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { describeApiError } from "@/client/api-error";
+import { useI18n } from "@/components/i18n-provider";
+import { localeTags } from "@/shared/i18n";
+import type { MenuRecord, MenuSummary } from "@/shared/menu";
+
+type MenuHistoryProps = {
+  /** Changes whenever a new menu is saved, so the list reloads. */
+  refreshToken: string | null;
+  onOpen: (menu: MenuRecord) => void;
+};
+
+export function MenuHistory({ refreshToken, onOpen }: MenuHistoryProps) {
+  const { locale, t } = useI18n();
+  const dateFormatter = useMemo(
+    () =>
+      new Intl.DateTimeFormat(localeTags[locale], {
+        dateStyle: "medium",
+        timeStyle: "short"
+      }),
+    [locale]
+  );
+  const [menus, setMenus] = useState<MenuSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadMenus = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/history", { cache: "no-store" });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          describeApiError(response, body, t("history.error.load"), locale)
+        );
+      }
+      setMenus(body.menus as MenuSummary[]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("history.error.load"));
+    } finally {
+      setLoading(false);
+    }
+  }, [locale, t]);
+
+  useEffect(() => {
+    void loadMenus();
+  }, [loadMenus, refreshToken]);
+
+  const runAction = async (
+    id: string,
+    action: () => Promise<Response>,
+    fallbackError: string
+  ) => {
+    setBusyId(id);
+    try {
+      const response = await action();
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          describeApiError(response, body, fallbackError, locale)
+        );
+      }
+      setError(null);
+      return body;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+      return null;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleFavorite = async (menu: MenuSummary) => {
+    const updated = await runAction(
+      menu.id,
+      () =>
+        fetch(`/api/history/${menu.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ favorite: !menu.favorite })
+        }),
+      t("history.error.update")
+    );
+    if (updated) {
+      setMenus((current) =>
+        current.map((item) =>
+          item.id === menu.id ? { ...item, favorite: !menu.favorite } : item
+        )
+      );
+    }
+  };
+
+  const deleteMenu = async (menu: MenuSummary) => {
+    const deleted = await runAction(
+      menu.id,
+      () => fetch(`/api/history/${menu.id}`, { method: "DELETE" }),
+      t("history.error.delete")
+    );
+    if (deleted) {
+      setMenus((current) => current.filter((item) => item.id !== menu.id));
+    }
+  };
+
+  const openMenu = async (menu: MenuSummary) => {
+    const record = await runAction(
+      menu.id,
+      () => fetch(`/api/history/${menu.id}`, { cache: "no-store" }),
+      t("history.error.open")
+    );
+    if (record) {
+      onOpen(record as MenuRecord);
+    }
+  };
+
+  const visibleMenus = favoritesOnly
+    ? menus.filter((menu) => menu.favorite)
+    : menus;
+
+  return (
+    <section className="mx-auto flex w-full max-w-5xl flex-col gap-6 rounded-3xl border border-slate-800 bg-slate-900/60 p-6 sm:p-10">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-2xl font-semibold text-white">
+          {t("history.title")}
+        </h2>
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={favoritesOnly}
+            onChange={(event) => setFavoritesOnly(event.target.checked)}
+            className="h-4 w-4 rounded border-slate-600 bg-slate-950 accent-blue-500"
+          />
+          {t("history.favoritesOnly")}
+        </label>
+      </div>
+
+      {error && (
+        <div className="rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+          {error}
+        </div>
+      )}
+
+      {loading && !menus.length ? (
+        <p className="text-sm text-slate-400">{t("history.loading")}</p>
+      ) : visibleMenus.length === 0 ? (
+        <p className="text-sm text-slate-400">
+          {favoritesOnly ? t("history.noFavorites") : t("history.empty")}
+        </p>
+      ) : (
+        <ul className="grid gap-4 md:grid-cols-2">
+          {visibleMenus.map((menu) => (
+            <li
+              key={menu.id}
+              className="flex gap-4 rounded-2xl border border-slate-800 bg-slate-950/80 p-4"
+            >
+              {menu.thumbnailDataUrl ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={menu.thumbnailDataUrl}
+                  alt=""
+                  className="h-20 w-20 flex-none rounded-xl object-cover"
+                />
+              ) : (
+                <div className="h-20 w-20 flex-none rounded-xl bg-slate-800" />
+              )}
+              <div className="flex min-w-0 flex-1 flex-col gap-2">
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-xs uppercase tracking-wide text-blue-400">
+                    {dateFormatter.format(new Date(menu.createdAt))}
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => toggleFavorite(menu)}
+                    disabled={busyId === menu.id}
+                    aria-label={
+                      menu.favorite
+                        ? t("history.unfavorite")
+                        : t("history.favorite")
+                    }
+                    aria-pressed={menu.favorite}
+                    className={`text-lg leading-none transition disabled:opacity-50 ${
+                      menu.favorite
+                        ? "text-amber-300"
+                        : "text-slate-600 hover:text-amber-200"
+                    }`}
+                  >
+                    ★
+                  </button>
+                </div>
+                <p className="truncate text-sm font-semibold text-white">
+                  {menu.recipeNames.join(" · ")}
+                </p>
+                <p className="line-clamp-2 text-xs text-slate-400">
+                  {menu.summary}
+                </p>
+                <div className="flex gap-3 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => openMenu(menu)}
+                    disabled={busyId === menu.id}
+                    className="font-semibold text-blue-300 hover:text-blue-200 disabled:opacity-50"
+                  >
+                    {t("common.open")}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteMenu(menu)}
+                    disabled={busyId === menu.id}
+                    className="text-slate-500 hover:text-red-300 disabled:opacity-50"
+                  >
+                    {t("common.delete")}
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,286 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { describeApiError } from "@/client/api-error";
+import { useI18n } from "@/components/i18n-provider";
+import {
+  daysUntil,
+  describeExpiry,
+  formatPantryItem,
+  isExpiringSoon,
+  MAX_STAPLES,
+  parsePantryAmount,
+  suggestedStaples,
+  type Pantry,
+  type PantryItem
+} from "@/shared/pantry";
+
+type PantryPanelProps = {
+  pantry: Pantry | null;
+  /** Reloads the pantry after a change, e.g. to pick up merged amounts. */
+  onReload: () => Promise<void>;
+};
+
+const inputClass =
+  "rounded-xl border border-slate-700 bg-slate-950/80 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400";
+
+function expiryClass(item: PantryItem) {
+  if (!item.expiresOn) return "text-slate-500";
+  if (daysUntil(item.expiresOn) < 0) return "text-red-300";
+  return isExpiringSoon(item) ? "text-amber-300" : "text-slate-400";
+}
+
+/** The saved pantry: items by expiry, a quick add form and the staples. */
+export function PantryPanel({ pantry, onReload }: PantryPanelProps) {
+  const { locale, t } = useI18n();
+  const [name, setName] = useState("");
+  const [amount, setAmount] = useState("");
+  const [expiresOn, setExpiresOn] = useState("");
+  const [staple, setStaple] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (
+    request: () => Promise<Response>,
+    fallbackError: string
+  ) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await request();
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          describeApiError(response, body, fallbackError, locale)
+        );
+      }
+      await onReload();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = async (event: FormEvent) => {
+    event.preventDefault();
+    const added = await run(
+      () =>
+        fetch("/api/pantry", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            items: [
+              {
+                name: name.trim(),
+                ...parsePantryAmount(amount),
+                expiresOn: expiresOn || null
+              }
+            ]
+          })
+        }),
+      t("pantry.error.add")
+    );
+    if (added) {
+      setName("");
+      setAmount("");
+      setExpiresOn("");
+    }
+  };
+
+  const updateExpiry = (item: PantryItem, value: string) =>
+    run(
+      () =>
+        fetch(`/api/pantry/${item.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ expiresOn: value || null })
+        }),
+      t("pantry.error.update")
+    );
+
+  const removeItem = (item: PantryItem) =>
+    run(
+      () => fetch(`/api/pantry/${item.id}`, { method: "DELETE" }),
+      t("pantry.error.remove")
+    );
+
+  const saveStaples = (staples: string[]) =>
+    run(
+      () =>
+        fetch("/api/pantry/staples", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ staples })
+        }),
+      t("pantry.error.staples")
+    );
+
+  const staples = pantry?.staples ?? [];
+  const missingSuggestions = suggestedStaples.filter(
+    (suggestion) => !staples.includes(suggestion)
+  );
+
+  const handleAddStaple = async (event: FormEvent) => {
+    event.preventDefault();
+    if (await saveStaples([...staples, staple.trim()])) setStaple("");
+  };
+
+  return (
+    <section className="mx-auto flex w-full max-w-5xl flex-col gap-6 rounded-3xl border border-slate-800 bg-slate-900/60 p-6 sm:p-10">
+      <div className="flex flex-col gap-1">
+        <h2 className="text-2xl font-semibold text-white">
+          {t("pantry.title")}
+        </h2>
+        <p className="text-sm text-slate-400">{t("pantry.intro")}</p>
+      </div>
+
+      {error && (
+        <div className="rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+          {error}
+        </div>
+      )}
+
+      {!pantry ? (
+        <p className="text-sm text-slate-400">{t("pantry.loading")}</p>
+      ) : pantry.items.length === 0 ? (
+        <p className="text-sm text-slate-400">{t("pantry.empty")}</p>
+      ) : (
+        <ul className="grid gap-2 md:grid-cols-2">
+          {pantry.items.map((item) => (
+            <li
+              key={item.id}
+              className="flex items-center gap-3 rounded-xl border border-slate-800 bg-slate-950/80 px-3 py-2 text-sm"
+            >
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-slate-100">
+                  {formatPantryItem(item)}
+                </p>
+                <p className={`text-xs ${expiryClass(item)}`}>
+                  {item.expiresOn
+                    ? describeExpiry(item.expiresOn, new Date(), locale)
+                    : t("pantry.noExpiry")}
+                </p>
+              </div>
+              <input
+                type="date"
+                value={item.expiresOn ?? ""}
+                onChange={(event) => updateExpiry(item, event.target.value)}
+                disabled={busy}
+                aria-label={t("pantry.expiryFor", { name: item.name })}
+                className="rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 text-xs text-slate-200"
+              />
+              <button
+                type="button"
+                onClick={() => removeItem(item)}
+                disabled={busy}
+                aria-label={t("common.remove", { name: item.name })}
+                className="text-slate-500 transition hover:text-red-300 disabled:opacity-50"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form
+        onSubmit={handleAdd}
+        className="grid gap-3 sm:grid-cols-[2fr_1fr_auto_auto] sm:items-end"
+      >
+        <input
+          type="text"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder={t("pantry.itemPlaceholder")}
+          aria-label={t("pantry.itemName")}
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={amount}
+          onChange={(event) => setAmount(event.target.value)}
+          placeholder={t("pantry.amountPlaceholder")}
+          aria-label={t("pantry.amount")}
+          className={inputClass}
+        />
+        <input
+          type="date"
+          value={expiresOn}
+          onChange={(event) => setExpiresOn(event.target.value)}
+          aria-label={t("pantry.expiryDate")}
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          disabled={busy || name.trim().length < 2}
+          className="rounded-full bg-blue-500 px-5 py-2 text-sm font-semibold text-white transition hover:bg-blue-400 disabled:cursor-not-allowed disabled:bg-blue-500/60"
+        >
+          {t("common.add")}
+        </button>
+      </form>
+
+      <div className="flex flex-col gap-3 border-t border-slate-800 pt-6">
+        <div>
+          <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-400">
+            {t("pantry.staples")}
+          </h3>
+          <p className="text-xs text-slate-500">{t("pantry.staplesIntro")}</p>
+        </div>
+        <div className="flex flex-wrap gap-2 text-xs">
+          {staples.map((current) => (
+            <span
+              key={current}
+              className="inline-flex items-center gap-2 rounded-full border border-slate-700 px-3 py-1 text-slate-200"
+            >
+              {current}
+              <button
+                type="button"
+                onClick={() =>
+                  saveStaples(staples.filter((other) => other !== current))
+                }
+                disabled={busy}
+                aria-label={t("common.remove", { name: current })}
+                className="text-slate-500 hover:text-red-300 disabled:opacity-50"
+              >
+                ✕
+              </button>
+            </span>
+          ))}
+          {missingSuggestions.map((suggestion) => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => saveStaples([...staples, suggestion])}
+              disabled={busy || staples.length >= MAX_STAPLES}
+              className="rounded-full border border-dashed border-slate-700 px-3 py-1 text-slate-400 transition hover:border-blue-400 hover:text-blue-100 disabled:opacity-50"
+            >
+              + {suggestion}
+            </button>
+          ))}
+        </div>
+        <form onSubmit={handleAddStaple} className="flex gap-2">
+          <input
+            type="text"
+            value={staple}
+            onChange={(event) => setStaple(event.target.value)}
+            placeholder={t("pantry.staplePlaceholder")}
+            aria-label={t("pantry.staple")}
+            className={`${inputClass} min-w-0 flex-1`}
+          />
+          <button
+            type="submit"
+            disabled={
+              busy || staple.trim().length < 2 || staples.length >= MAX_STAPLES
+            }
+            className="rounded-full border border-slate-600 px-4 py-2 text-sm font-semibold text-slate-200 transition hover:border-blue-400 hover:text-blue-100 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {t("pantry.addStaple")}
+          </button>
+        </form>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { useI18n } from "@/components/i18n-provider";
+import { formatIngredient } from "@/shared/quantity";
+import {
+  describeRecipeFacts,
+  formatNutrition,
+  type Recipe
+} from "@/shared/recipe";
+
+type RecipeCardProps = {
+  recipe: Recipe;
+  index: number;
+  /** Shows a servings stepper; the parent rescales the recipe it passes in. */
+  onServingsChange?: (servings: number) => void;
+  /** Rendered under the recipe, such as controls to change it. */
+  actions?: ReactNode;
+};
+
+const MAX_SERVINGS = 50;
+
+const stepperButtonClass =
+  "flex h-6 w-6 items-center justify-center rounded-full border border-slate-700 text-sm text-slate-200 transition hover:border-blue-400 disabled:cursor-not-allowed disabled:opacity-40";
+
+export function RecipeCard({
+  recipe,
+  index,
+  onServingsChange,
+  actions
+}: RecipeCardProps) {
+  const { locale, t } = useI18n();
+  const servings = recipe.servings;
+  // The stepper already says how many the recipe serves.
+  const facts = describeRecipeFacts(
+    onServingsChange && servings ? { ...recipe, servings: null } : recipe,
+    locale
+  );
+
+  return (
+    <article
+      id={`recipe-${index + 1}`}
+      className="flex flex-col gap-4 rounded-2xl border border-slate-800 bg-slate-950/80 p-6 shadow-lg shadow-slate-950/40"
+    >
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-xs uppercase tracking-wide text-blue-400">
+            {t("card.recipe", { number: index + 1 })}
+          </p>
+          <h3 className="mt-1 text-xl font-semibold text-white">
+            {recipe.name}
+          </h3>
+          {facts.length ? (
+            <p className="mt-1 text-xs text-slate-400">{facts.join(" · ")}</p>
+          ) : null}
+          {onServingsChange && servings ? (
+            <div className="mt-2 flex items-center gap-2 text-xs text-slate-300">
+              <button
+                type="button"
+                aria-label={t("card.fewerServings")}
+                disabled={servings <= 1}
+                onClick={() => onServingsChange(servings - 1)}
+                className={stepperButtonClass}
+              >
+                −
+              </button>
+              <span aria-live="polite">
+                {t("recipe.serves", { count: servings })}
+              </span>
+              <button
+                type="button"
+                aria-label={t("card.moreServings")}
+                disabled={servings >= MAX_SERVINGS}
+                onClick={() => onServingsChange(servings + 1)}
+                className={stepperButtonClass}
+              >
+                +
+              </button>
+            </div>
+          ) : null}
+        </div>
+      </div>
+      {recipe.violations?.length ? (
+        <div
+          role="alert"
+          className="rounded-xl border border-amber-400/50 bg-amber-500/10 px-3 py-2 text-xs text-amber-100"
+        >
+          <p className="font-semibold">{t("card.violations")}</p>
+          <ul className="mt-1 list-disc space-y-0.5 ps-4">
+            {recipe.violations.map((violation) => (
+              <li key={violation}>{violation}</li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+      <p className="text-sm text-slate-300">{recipe.description}</p>
+      <div className="flex flex-col gap-4 text-sm text-slate-200">
+        <div>
+          <h4 className="font-semibold uppercase tracking-wide text-slate-400">
+            {t("card.ingredients")}
+          </h4>
+          <ul className="mt-1 space-y-1 text-slate-300">
+            {recipe.ingredients.map((ingredient, ingredientIndex) => (
+              <li key={ingredientIndex} className="leading-relaxed">
+                • {formatIngredient(ingredient)}
+                {ingredient.fromLeftovers ? (
+                  <span className="ms-2 rounded-full bg-emerald-500/15 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-emerald-300">
+                    {t("card.leftover")}
+                  </span>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div>
+          <h4 className="font-semibold uppercase tracking-wide text-slate-400">
+            {t("card.steps")}
+          </h4>
+          <ol className="mt-1 space-y-1 text-slate-300">
+            {recipe.steps.map((step) => (
+              <li key={step} className="leading-relaxed">
+                {step}
+              </li>
+            ))}
+          </ol>
+        </div>
+        {recipe.nutrition ? (
+          <p className="text-xs text-slate-400">
+            {t("card.nutrition", {
+              nutrition: formatNutrition(recipe.nutrition, locale)
+            })}
+          </p>
+        ) : null}
+      </div>
+      {actions}
+    </article>
+  );
+}
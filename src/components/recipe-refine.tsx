@@ -0,0 +1,146 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { describeApiError } from "@/client/api-error";
+import { useI18n } from "@/components/i18n-provider";
+import type { DietaryProfile } from "@/shared/dietary";
+import type { Locale } from "@/shared/i18n";
+import type { DetectedIngredient } from "@/shared/ingredients";
+import type { Recipe } from "@/shared/recipe";
+import {
+  MAX_REFINE_INSTRUCTION_LENGTH,
+  type RefineAction,
+  type RefineResponse
+} from "@/shared/refine";
+
+type RecipeRefineProps = {
+  summary: string | null;
+  /** The menu as generated, before servings or units were changed. */
+  recipes: Recipe[];
+  index: number;
+  ingredients: DetectedIngredient[] | null;
+  notes: string;
+  dietaryProfile: DietaryProfile;
+  /** The language the menu is written in, which may differ from the page's. */
+  menuLocale: Locale;
+  menuId: string | null;
+  onRefined: (recipe: Recipe) => void;
+};
+
+const actionButtonClass =
+  "rounded-full border border-slate-700 px-3 py-1 font-semibold text-slate-200 transition hover:border-blue-400 hover:text-blue-100 disabled:cursor-not-allowed disabled:opacity-50";
+
+/** Per-card actions that replace one recipe through `/api/refine`. */
+export function RecipeRefine({
+  summary,
+  recipes,
+  index,
+  ingredients,
+  notes,
+  dietaryProfile,
+  menuLocale,
+  menuId,
+  onRefined
+}: RecipeRefineProps) {
+  const { locale, t } = useI18n();
+  const [refining, setRefining] = useState<RefineAction | null>(null);
+  const [showCustom, setShowCustom] = useState(false);
+  const [instruction, setInstruction] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  // Already meat-free menus have nothing to gain from this one.
+  const quickActions: RefineAction[] =
+    dietaryProfile.diet === "vegetarian" || dietaryProfile.diet === "vegan"
+      ? ["swap", "quicker"]
+      : ["swap", "vegetarian", "quicker"];
+
+  const refine = async (action: RefineAction) => {
+    setRefining(action);
+    setError(null);
+    try {
+      const response = await fetch("/api/refine", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          summary,
+          recipes,
+          index,
+          action,
+          instruction: action === "custom" ? instruction.trim() : undefined,
+          ingredients: ingredients?.length ? ingredients : undefined,
+          notes: notes.trim() || undefined,
+          dietaryProfile,
+          locale: menuLocale,
+          menuId: menuId ?? undefined
+        })
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          describeApiError(response, body, t("refine.failed"), locale)
+        );
+      }
+      setShowCustom(false);
+      setInstruction("");
+      onRefined((body as RefineResponse).recipe);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("refine.failed"));
+    } finally {
+      setRefining(null);
+    }
+  };
+
+  const handleCustom = (event: FormEvent) => {
+    event.preventDefault();
+    refine("custom");
+  };
+
+  const busy = refining !== null || !summary;
+
+  return (
+    <div className="flex flex-col gap-2 border-t border-slate-800 pt-4 text-xs">
+      <div className="flex flex-wrap gap-2">
+        {quickActions.map((action) => (
+          <button
+            key={action}
+            type="button"
+            onClick={() => refine(action)}
+            disabled={busy}
+            className={actionButtonClass}
+          >
+            {refining === action ? t("refine.working") : t(`refine.${action}`)}
+          </button>
+        ))}
+        <button
+          type="button"
+          aria-expanded={showCustom}
+          onClick={() => setShowCustom((current) => !current)}
+          disabled={busy}
+          className={actionButtonClass}
+        >
+          {t("refine.custom")}
+        </button>
+      </div>
+      {showCustom && (
+        <form onSubmit={handleCustom} className="flex gap-2">
+          <input
+            type="text"
+            value={instruction}
+            onChange={(event) => setInstruction(event.target.value)}
+            maxLength={MAX_REFINE_INSTRUCTION_LENGTH}
+            placeholder={t("refine.placeholder")}
+            aria-label={t("refine.instruction")}
+            className="min-w-0 flex-1 rounded-full border border-slate-700 bg-slate-900 px-3 py-1.5 text-slate-100 placeholder:text-slate-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+          />
+          <button
+            type="submit"
+            disabled={busy || instruction.trim().length < 3}
+            className={actionButtonClass}
+          >
+            {refining === "custom" ? t("refine.working") : t("common.apply")}
+          </button>
+        </form>
+      )}
+      {error && <p className="text-rose-300">{error}</p>}
+    </div>
+  );
+}
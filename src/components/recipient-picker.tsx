@@ -0,0 +1,335 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
+import { describeApiError } from "@/client/api-error";
+import { useI18n } from "@/components/i18n-provider";
+import type { ContactBook } from "@/shared/contacts";
+import { localeTags } from "@/shared/i18n";
+import { countryCodes, countryNames, type CountryCode } from "@/shared/phone";
+
+export type RecipientSelection = {
+  /** Numbers typed by hand, separated by commas or new lines. */
+  numbers: string;
+  contactIds: string[];
+  groupIds: string[];
+  /** Country for numbers without a country code; empty uses the server's. */
+  country: CountryCode | "";
+};
+
+export const emptyRecipientSelection: RecipientSelection = {
+  numbers: "",
+  contactIds: [],
+  groupIds: [],
+  country: ""
+};
+
+type RecipientPickerProps = {
+  selection: RecipientSelection;
+  onChange: (selection: RecipientSelection) => void;
+};
+
+function toggle<T>(values: T[], value: T) {
+  return values.includes(value)
+    ? values.filter((current) => current !== value)
+    : [...values, value];
+}
+
+const pillClass = (active: boolean) =>
+  `rounded-full border px-3 py-1 text-xs font-semibold transition ${
+    active
+      ? "border-emerald-300 bg-emerald-400/20 text-white"
+      : "border-emerald-400/40 text-emerald-100/80 hover:border-emerald-300"
+  }`;
+
+const inputClass =
+  "rounded-xl border border-emerald-400/50 bg-emerald-950/40 px-4 py-3 text-sm text-white placeholder:text-emerald-200/60 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-400";
+
+export function RecipientPicker({ selection, onChange }: RecipientPickerProps) {
+  const { locale, t } = useI18n();
+  const regionNames = useMemo(
+    () => new Intl.DisplayNames([localeTags[locale]], { type: "region" }),
+    [locale]
+  );
+  const [book, setBook] = useState<ContactBook>({ contacts: [], groups: [] });
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [contactName, setContactName] = useState("");
+  const [contactNumber, setContactNumber] = useState("");
+  const [groupName, setGroupName] = useState("");
+
+  const loadContacts = useCallback(async () => {
+    try {
+      const response = await fetch("/api/contacts", { cache: "no-store" });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          describeApiError(response, body, t("recipients.error.load"), locale)
+        );
+      }
+      setBook(body as ContactBook);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("recipients.error.load"));
+    }
+  }, [locale, t]);
+
+  useEffect(() => {
+    void loadContacts();
+  }, [loadContacts]);
+
+  const update = (changes: Partial<RecipientSelection>) =>
+    onChange({ ...selection, ...changes });
+
+  const request = async (
+    input: string,
+    init: RequestInit,
+    fallbackError: string
+  ) => {
+    setBusy(true);
+    try {
+      const response = await fetch(input, init);
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          describeApiError(response, body, fallbackError, locale)
+        );
+      }
+      setError(null);
+      await loadContacts();
+      return body;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveContact = async (event: FormEvent) => {
+    event.preventDefault();
+    const contact = await request(
+      "/api/contacts",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: contactName,
+          phoneNumber: contactNumber,
+          country: selection.country || undefined
+        })
+      },
+      t("recipients.error.saveContact")
+    );
+    if (contact) {
+      setContactName("");
+      setContactNumber("");
+      update({
+        contactIds: Array.from(new Set([...selection.contactIds, contact.id]))
+      });
+    }
+  };
+
+  const handleSaveGroup = async () => {
+    const group = await request(
+      "/api/contacts/groups",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: groupName,
+          contactIds: selection.contactIds
+        })
+      },
+      t("recipients.error.saveGroup")
+    );
+    if (group) {
+      setGroupName("");
+      update({ contactIds: [], groupIds: [...selection.groupIds, group.id] });
+    }
+  };
+
+  const removeContact = async (id: string) => {
+    if (!window.confirm(t("recipients.confirmDeleteContact"))) return;
+    const removed = await request(
+      `/api/contacts/${id}`,
+      { method: "DELETE" },
+      t("recipients.error.deleteContact")
+    );
+    if (removed) {
+      update({
+        contactIds: selection.contactIds.filter((item) => item !== id)
+      });
+    }
+  };
+
+  const removeGroup = async (id: string) => {
+    if (!window.confirm(t("recipients.confirmDeleteGroup"))) return;
+    const removed = await request(
+      `/api/contacts/groups/${id}`,
+      { method: "DELETE" },
+      t("recipients.error.deleteGroup")
+    );
+    if (removed) {
+      update({ groupIds: selection.groupIds.filter((item) => item !== id) });
+    }
+  };
+
+  const groupSize = (contactIds: string[]) =>
+    contactIds.filter((id) =>
+      book.contacts.some((contact) => contact.id === id)
+    ).length;
+
+  return (
+    <div className="flex flex-col gap-4 text-sm text-emerald-100/80">
+      {book.groups.length > 0 && (
+        <fieldset className="flex flex-col gap-2">
+          <legend className="mb-2">{t("recipients.groups")}</legend>
+          <div className="flex flex-wrap gap-2">
+            {book.groups.map((group) => (
+              <span key={group.id} className="inline-flex items-center gap-1">
+                <button
+                  type="button"
+                  aria-pressed={selection.groupIds.includes(group.id)}
+                  onClick={() =>
+                    update({ groupIds: toggle(selection.groupIds, group.id) })
+                  }
+                  className={pillClass(selection.groupIds.includes(group.id))}
+                >
+                  {group.name} ({groupSize(group.contactIds)})
+                </button>
+                <button
+                  type="button"
+                  aria-label={t("recipients.deleteGroup", { name: group.name })}
+                  disabled={busy}
+                  onClick={() => removeGroup(group.id)}
+                  className="px-1 text-emerald-200/60 hover:text-rose-200"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      {book.contacts.length > 0 && (
+        <fieldset className="flex flex-col gap-2">
+          <legend className="mb-2">{t("recipients.contacts")}</legend>
+          <div className="flex flex-wrap gap-2">
+            {book.contacts.map((contact) => (
+              <span key={contact.id} className="inline-flex items-center gap-1">
+                <button
+                  type="button"
+                  title={contact.phoneNumber}
+                  aria-pressed={selection.contactIds.includes(contact.id)}
+                  onClick={() =>
+                    update({
+                      contactIds: toggle(selection.contactIds, contact.id)
+                    })
+                  }
+                  className={pillClass(
+                    selection.contactIds.includes(contact.id)
+                  )}
+                >
+                  {contact.name}
+                </button>
+                <button
+                  type="button"
+                  aria-label={t("recipients.deleteContact", {
+                    name: contact.name
+                  })}
+                  disabled={busy}
+                  onClick={() => removeContact(contact.id)}
+                  className="px-1 text-emerald-200/60 hover:text-rose-200"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+          {selection.contactIds.length > 1 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={groupName}
+                onChange={(event) => setGroupName(event.target.value)}
+                placeholder={t("recipients.groupPlaceholder")}
+                className={`${inputClass} py-2`}
+              />
+              <button
+                type="button"
+                disabled={busy || !groupName.trim()}
+                onClick={handleSaveGroup}
+                className="rounded-full border border-emerald-400/60 px-3 py-1 text-xs font-semibold text-emerald-100 transition hover:border-emerald-300 hover:text-white disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {t("recipients.saveGroup")}
+              </button>
+            </div>
+          )}
+        </fieldset>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-[minmax(0,1fr),auto]">
+        <label className="flex flex-col gap-2">
+          {t("recipients.numbers")}
+          <input
+            type="tel"
+            value={selection.numbers}
+            onChange={(event) => update({ numbers: event.target.value })}
+            placeholder="+14155551212, 020 7946 0958"
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-2">
+          {t("recipients.country")}
+          <select
+            value={selection.country}
+            onChange={(event) =>
+              update({ country: event.target.value as CountryCode | "" })
+            }
+            className={inputClass}
+          >
+            <option value="">{t("recipients.serverDefault")}</option>
+            {countryCodes.map((country) => (
+              <option key={country} value={country}>
+                {regionNames.of(country) ?? countryNames[country]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <details>
+        <summary className="cursor-pointer text-xs font-semibold text-emerald-200">
+          {t("recipients.saveContactTitle")}
+        </summary>
+        <form
+          onSubmit={handleSaveContact}
+          className="mt-3 flex flex-wrap items-center gap-2"
+        >
+          <input
+            value={contactName}
+            onChange={(event) => setContactName(event.target.value)}
+            placeholder={t("recipients.name")}
+            className={`${inputClass} py-2`}
+          />
+          <input
+            type="tel"
+            value={contactNumber}
+            onChange={(event) => setContactNumber(event.target.value)}
+            placeholder="+14155551212"
+            className={`${inputClass} py-2`}
+          />
+          <button
+            type="submit"
+            disabled={busy || !contactName.trim() || !contactNumber.trim()}
+            className="rounded-full border border-emerald-400/60 px-3 py-1 text-xs font-semibold text-emerald-100 transition hover:border-emerald-300 hover:text-white disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {t("recipients.saveContact")}
+          </button>
+        </form>
+      </details>
+
+      {error && <p className="text-xs text-rose-200">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+"use client";
+
+import { useEffect } from "react";
+import { registerServiceWorker, requestReplay } from "@/client/offline";
+
+/**
+ * Installs the service worker on every page, and has it send what it queued
+ * whenever a page loads or comes back online, for browsers that lack
+ * Background Sync.
+ */
+export function ServiceWorker() {
+  useEffect(() => {
+    const replay = () => void requestReplay().catch(() => null);
+    registerServiceWorker()
+      .then(() => {
+        if (navigator.onLine) replay();
+      })
+      .catch(() => null);
+    window.addEventListener("online", replay);
+    return () => window.removeEventListener("online", replay);
+  }, []);
+
+  return null;
+}
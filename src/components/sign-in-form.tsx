@@ -0,0 +1,87 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import { describeApiError } from "@/client/api-error";
+import { useI18n } from "@/components/i18n-provider";
+import type { MessageKey } from "@/shared/i18n";
+
+const linkErrors: Record<string, MessageKey> = {
+  expired: "signIn.linkExpired",
+  failed: "signIn.linkFailed"
+};
+
+/** Emails a magic sign-in link; there are no passwords. */
+export function SignInForm() {
+  const { locale, t, rich } = useI18n();
+  const [email, setEmail] = useState("");
+  const [sending, setSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The verify route redirects back with `?signin=…` when a link fails.
+  useEffect(() => {
+    const reason = new URLSearchParams(window.location.search).get("signin");
+    if (reason && linkErrors[reason]) setError(t(linkErrors[reason]));
+  }, [t]);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSending(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email })
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          describeApiError(response, body, t("signIn.failed"), locale)
+        );
+      }
+      setSentTo(body.email ?? email);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("signIn.failed"));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <section className="mx-auto flex w-full max-w-md flex-col gap-4 rounded-3xl border border-slate-800 bg-slate-900/60 p-6 sm:p-10">
+      <h2 className="text-xl font-semibold">{t("signIn.title")}</h2>
+      {sentTo ? (
+        <p className="text-sm text-slate-300">
+          {rich("signIn.sent", {
+            email: <span className="font-semibold text-white">{sentTo}</span>
+          })}
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <p className="text-sm text-slate-300">{t("signIn.intro")}</p>
+          <label className="flex flex-col gap-2 text-sm text-slate-300">
+            {t("signIn.email")}
+            <input
+              type="email"
+              required
+              autoComplete="email"
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              placeholder="you@example.com"
+              className="rounded-xl border border-slate-700 bg-slate-950/80 px-4 py-3 text-sm text-slate-100 transition hover:border-blue-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={sending || !email.trim()}
+            className="inline-flex items-center justify-center gap-2 rounded-full bg-blue-500 px-6 py-3 text-sm font-semibold text-white shadow-lg shadow-blue-500/30 transition hover:bg-blue-400 disabled:cursor-not-allowed disabled:bg-blue-500/60"
+          >
+            {sending ? t("common.sending") : t("signIn.submit")}
+          </button>
+        </form>
+      )}
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+    </section>
+  );
+}
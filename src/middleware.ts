@@ -0,0 +1,60 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { isPublicApiRoute, SESSION_COOKIE } from "@/server/auth/routes";
+import {
+  readRequestId,
+  REQUEST_ID_HEADER
+} from "@/server/observability/request-id";
+import { createVisitorId, VISITOR_COOKIE } from "@/server/rate-limit/visitor";
+
+/**
+ * API routes answer 401 without a session cookie; each route still checks
+ * that the cookie belongs to a live session, since the store is out of
+ * reach here.
+ *
+ * Pages give every browser an anonymous visitor id on its first load, for
+ * per-visitor rate limits before sign-in. API routes never hand one out, so
+ * a client that never loaded a page cannot mint a fresh id per request.
+ *
+ * Every request gets an id here, passed on to the route so its log lines
+ * and response carry the same one.
+ */
+export function middleware(request: NextRequest) {
+  const requestId = readRequestId(request.headers);
+  const headers = new Headers(request.headers);
+  headers.set(REQUEST_ID_HEADER, requestId);
+  const next = () => {
+    const response = NextResponse.next({ request: { headers } });
+    response.headers.set(REQUEST_ID_HEADER, requestId);
+    return response;
+  };
+
+  const { pathname } = request.nextUrl;
+  if (pathname.startsWith("/api/")) {
+    if (
+      isPublicApiRoute(pathname, request.method) ||
+      request.cookies.has(SESSION_COOKIE)
+    ) {
+      return next();
+    }
+    return NextResponse.json(
+      { error: "Sign in to continue.", requestId },
+      { status: 401, headers: { [REQUEST_ID_HEADER]: requestId } }
+    );
+  }
+
+  const response = next();
+  if (!request.cookies.has(VISITOR_COOKIE)) {
+    response.cookies.set(VISITOR_COOKIE, createVisitorId(), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: 60 * 60 * 24 * 365
+    });
+  }
+  return response;
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"]
+};
@@ -0,0 +1,26 @@
+/**
+ * Public origin for links sent outside the browser, from `APP_URL` or else
+ * the origin the request came in on.
+ */
+export function resolveAppUrl(request: Request) {
+  return (process.env.APP_URL ?? new URL(request.url).origin).replace(
+    /\/+$/,
+    ""
+  );
+}
+
+/**
+ * Origin for sign-in links and the redirects after them, or null when
+ * production has no `APP_URL`. Never taken from the request: a forged Host
+ * header would send a victim's single-use token to someone else's site.
+ * Outside production it defaults to localhost.
+ */
+export function readSignInAppUrl() {
+  const configured = process.env.APP_URL?.trim();
+  if (configured) return configured.replace(/\/+$/, "");
+  if (process.env.NODE_ENV === "production") return null;
+  return `http://localhost:${process.env.PORT ?? 3000}`;
+}
+
+export const MISSING_APP_URL_ERROR =
+  "Sign-in is not configured. Set APP_URL to the app's public origin.";
@@ -0,0 +1,17 @@
+export { LoginLinkError, sendLoginLink } from "@/server/auth/login-link";
+export {
+  confirmPhoneVerification,
+  PhoneVerificationError,
+  sendPhoneVerification
+} from "@/server/auth/phone-verification";
+export { isPublicApiRoute, SESSION_COOKIE } from "@/server/auth/routes";
+export {
+  clearSessionCookie,
+  endSession,
+  getSessionUser,
+  hashToken,
+  requireUser,
+  setSessionCookie,
+  startSession,
+  type UserResult
+} from "@/server/auth/session";
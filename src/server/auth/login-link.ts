@@ -0,0 +1,69 @@
+import { createToken, hashToken } from "@/server/auth/session";
+import { readEmailConfig } from "@/server/notify/email";
+import { escapeHtml } from "@/server/notify/format";
+import { sendMail } from "@/server/notify/smtp";
+import { log } from "@/server/observability";
+import { getAccountStore } from "@/server/storage";
+
+const LOGIN_LINK_TTL_MS = 15 * 60 * 1000;
+
+export class LoginLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LoginLinkError";
+  }
+}
+
+/** Path the emailed link points at; it signs the user in and redirects. */
+export function loginLinkPath(token: string) {
+  return `/api/auth/verify?${new URLSearchParams({ token })}`;
+}
+
+/**
+ * Emails a single-use sign-in link. Without SMTP settings in development,
+ * the link is written to the server log instead, so sign-in works locally
+ * without a mail server. Mailpit or MailHog on localhost:1025 also work as
+ * a stand-in through the usual `SMTP_*` variables.
+ */
+export async function sendLoginLink(email: string, appUrl: string) {
+  const token = createToken();
+  await getAccountStore().saveLoginToken({
+    tokenHash: hashToken(token),
+    email,
+    expiresAt: new Date(Date.now() + LOGIN_LINK_TTL_MS).toISOString()
+  });
+  const link = `${appUrl}${loginLinkPath(token)}`;
+
+  const config = readEmailConfig();
+  if (!config) {
+    // The link is a live credential; only `next dev` may print it.
+    if (process.env.NODE_ENV !== "development") {
+      throw new LoginLinkError(
+        "Email sign-in is not configured. Set SMTP_HOST and SMTP_FROM."
+      );
+    }
+    log.info("Sign-in link for local development", { email, link });
+    return;
+  }
+
+  await sendMail(config, {
+    from: config.from,
+    to: email,
+    subject: "Your Kitchen Remix AI sign-in link",
+    text: [
+      "Open this link to sign in to Kitchen Remix AI:",
+      "",
+      link,
+      "",
+      "It works once and expires in 15 minutes. If you did not ask to sign in, ignore this email."
+    ].join("\n"),
+    html: [
+      "<!doctype html>",
+      '<html><body style="margin:0;padding:24px;font-family:Helvetica,Arial,sans-serif;color:#0f172a;line-height:1.5">',
+      '<p style="margin:0 0 16px">Open this link to sign in to Kitchen Remix AI:</p>',
+      `<p style="margin:0 0 16px"><a href="${escapeHtml(link)}">Sign in</a></p>`,
+      '<p style="margin:0;color:#64748b">It works once and expires in 15 minutes. If you did not ask to sign in, ignore this email.</p>',
+      "</body></html>"
+    ].join("\n")
+  });
+}
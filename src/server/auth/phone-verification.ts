@@ -0,0 +1,69 @@
+import { randomInt } from "crypto";
+import { hashToken } from "@/server/auth/session";
+import { log } from "@/server/observability";
+import { getAccountStore } from "@/server/storage";
+import { createWhatsAppClient } from "@/server/whatsapp/client";
+import { isRecipientAllowed, readWhatsAppEnv } from "@/server/whatsapp/config";
+import { translate, type Locale } from "@/shared/i18n";
+
+const PHONE_CODE_TTL_MS = 10 * 60 * 1000;
+
+export class PhoneVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PhoneVerificationError";
+  }
+}
+
+/**
+ * Sends a six-digit code to `phoneNumber` over WhatsApp. The number only
+ * joins the profile once the code comes back through
+ * `confirmPhoneVerification`, so nobody can claim a number they do not
+ * hold, and with it the menus that number asks the bot for. Without
+ * WhatsApp settings in development, the code is logged instead.
+ */
+export async function sendPhoneVerification(
+  userId: string,
+  phoneNumber: string,
+  locale: Locale
+) {
+  const env = readWhatsAppEnv();
+  if (!isRecipientAllowed(env, phoneNumber)) {
+    throw new PhoneVerificationError(
+      `${phoneNumber} is not on the recipient allowlist.`
+    );
+  }
+
+  const code = String(randomInt(0, 1_000_000)).padStart(6, "0");
+  await getAccountStore().savePhoneVerification({
+    userId,
+    phoneNumber,
+    codeHash: hashToken(code),
+    attempts: 0,
+    expiresAt: new Date(Date.now() + PHONE_CODE_TTL_MS).toISOString()
+  });
+
+  if (!env.token || !env.phoneId) {
+    if (process.env.NODE_ENV !== "development") {
+      throw new PhoneVerificationError(
+        "WhatsApp credentials are not configured. Set WHATSAPP_ACCESS_TOKEN and WHATSAPP_PHONE_NUMBER_ID."
+      );
+    }
+    log.info("WhatsApp code for local development", { phoneNumber, code });
+    return;
+  }
+
+  await createWhatsAppClient({
+    token: env.token,
+    phoneId: env.phoneId,
+    graphUrl: env.graphUrl
+  }).sendText(phoneNumber, translate(locale, "account.codeMessage", { code }));
+}
+
+/** The updated user once `code` matches, else null. */
+export function confirmPhoneVerification(userId: string, code: string) {
+  return getAccountStore().confirmPhoneVerification(
+    userId,
+    hashToken(code.trim())
+  );
+}
@@ -0,0 +1,17 @@
+// Imported by the middleware, so this file must stay free of Node APIs.
+
+export const SESSION_COOKIE = "kr_session";
+
+/**
+ * API routes that work without signing in: the sign-in flow itself, Meta's
+ * webhook, the metrics scrape (which has its own token), and downloads of
+ * saved menus, whose pages are public permalinks.
+ */
+export function isPublicApiRoute(pathname: string, method: string) {
+  return (
+    pathname.startsWith("/api/auth/") ||
+    pathname === "/api/whatsapp/webhook" ||
+    pathname === "/api/metrics" ||
+    (pathname === "/api/export" && method === "GET")
+  );
+}
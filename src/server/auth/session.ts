@@ -0,0 +1,87 @@
+import { createHash, randomBytes } from "crypto";
+import { NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/server/auth/routes";
+import { readCookie } from "@/server/cookies";
+import { log } from "@/server/observability";
+import { getAccountStore, type User } from "@/server/storage";
+
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+export function createToken() {
+  return randomBytes(32).toString("base64url");
+}
+
+/** Tokens are stored hashed, so a leaked data directory holds no sessions. */
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** Signs `userId` in and returns the cookie value for the new session. */
+export async function startSession(userId: string) {
+  const token = createToken();
+  const now = Date.now();
+  await getAccountStore().saveSession({
+    tokenHash: hashToken(token),
+    userId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_MAX_AGE_SECONDS * 1000).toISOString()
+  });
+  return token;
+}
+
+export function setSessionCookie(response: NextResponse, token: string) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_MAX_AGE_SECONDS
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, "", { path: "/", maxAge: 0 });
+}
+
+/** The signed-in user, or null without a live session. */
+export async function getSessionUser(request: Request): Promise<User | null> {
+  const token = readCookie(request, SESSION_COOKIE);
+  if (!token) return null;
+  const store = getAccountStore();
+  const session = await store.getSession(hashToken(token));
+  return session ? store.get(session.userId) : null;
+}
+
+export async function endSession(request: Request) {
+  const token = readCookie(request, SESSION_COOKIE);
+  if (token) await getAccountStore().removeSession(hashToken(token));
+}
+
+export type UserResult =
+  { ok: true; user: User } | { ok: false; response: NextResponse };
+
+/**
+ * The middleware only checks that a session cookie is present; routes call
+ * this to check that it belongs to a live session.
+ */
+export async function requireUser(request: Request): Promise<UserResult> {
+  try {
+    const user = await getSessionUser(request);
+    if (user) return { ok: true, user };
+  } catch (error) {
+    log.error("Loading the session failed", { error });
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: "Unable to load your session." },
+        { status: 500 }
+      )
+    };
+  }
+  const response = NextResponse.json(
+    { error: "Sign in to continue." },
+    { status: 401 }
+  );
+  clearSessionCookie(response);
+  return { ok: false, response };
+}
@@ -0,0 +1,128 @@
+import { freshnessHints } from "@/shared/ingredients";
+import { parseIngredientLine, parseQuantity } from "@/shared/quantity";
+
+// Fixes for near-miss model output: the right data in a slightly wrong
+// shape. Anything that cannot be fixed confidently is passed through for
+// Zod to reject, so the model can be asked to correct it.
+
+type Json = Record<string, unknown>;
+
+function isRecord(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Accepts numbers sent as strings, such as "15" or "15 minutes". */
+function toNumber(value: unknown) {
+  if (typeof value !== "string") return value;
+  const match = value.match(/\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : value;
+}
+
+function pick(record: Json, ...keys: string[]) {
+  const key = keys.find((candidate) => record[candidate] !== undefined);
+  return key === undefined ? undefined : record[key];
+}
+
+function coerceIngredient(value: unknown) {
+  if (typeof value === "string") {
+    return parseIngredientLine(value);
+  }
+  if (!isRecord(value)) return value;
+
+  const quantity = pick(value, "quantity", "amount");
+  const unit = value.unit;
+  return {
+    ...value,
+    quantity:
+      typeof quantity === "string"
+        ? (parseQuantity(quantity) ?? toNumber(quantity))
+        : (quantity ?? null),
+    unit: typeof unit === "string" && unit.trim() ? unit : null,
+    item: pick(value, "item", "name", "ingredient"),
+    fromLeftovers: value.fromLeftovers ?? false
+  };
+}
+
+function coerceStep(value: unknown) {
+  return isRecord(value) ? pick(value, "text", "instruction", "step") : value;
+}
+
+export function coerceRecipe(value: unknown) {
+  if (!isRecord(value)) return value;
+
+  const ingredients = value.ingredients;
+  const steps = pick(value, "steps", "instructions");
+  const nutrition = value.nutrition;
+  return {
+    ...value,
+    name: pick(value, "name", "title"),
+    servings: toNumber(value.servings),
+    prepMinutes: toNumber(value.prepMinutes),
+    cookMinutes: toNumber(value.cookMinutes),
+    difficulty:
+      typeof value.difficulty === "string"
+        ? value.difficulty.trim().toLowerCase()
+        : value.difficulty,
+    ingredients: Array.isArray(ingredients)
+      ? ingredients.map(coerceIngredient)
+      : ingredients,
+    steps: Array.isArray(steps) ? steps.map(coerceStep) : steps,
+    nutrition: isRecord(nutrition)
+      ? Object.fromEntries(
+          Object.entries(nutrition).map(([key, amount]) => [
+            key,
+            toNumber(amount)
+          ])
+        )
+      : nutrition
+  };
+}
+
+export function coerceRecipePayload(value: unknown) {
+  // Some models wrap the payload, e.g. `{ "menu": { summary, recipes } }`.
+  const payload =
+    isRecord(value) && !("recipes" in value)
+      ? (Object.values(value).find(
+          (nested) => isRecord(nested) && "recipes" in nested
+        ) ?? value)
+      : value;
+  if (!isRecord(payload) || !Array.isArray(payload.recipes)) return payload;
+  return { ...payload, recipes: payload.recipes.map(coerceRecipe) };
+}
+
+function coerceDetectedIngredient(value: unknown) {
+  if (!isRecord(value)) return value;
+
+  const confidence = toNumber(value.confidence);
+  const freshness =
+    typeof value.freshness === "string"
+      ? value.freshness.trim().toLowerCase().replace(/\s+/g, "-")
+      : value.freshness;
+  return {
+    ...value,
+    quantity:
+      typeof value.quantity === "number"
+        ? String(value.quantity)
+        : value.quantity,
+    // Percentages such as 85 become 0.85.
+    confidence:
+      typeof confidence === "number" && confidence > 1 && confidence <= 100
+        ? confidence / 100
+        : confidence,
+    freshness: freshnessHints.includes(
+      freshness as (typeof freshnessHints)[number]
+    )
+      ? freshness
+      : "unknown"
+  };
+}
+
+export function coerceDetectPayload(value: unknown) {
+  const ingredients = Array.isArray(value)
+    ? value
+    : isRecord(value)
+      ? value.ingredients
+      : undefined;
+  if (!Array.isArray(ingredients)) return value;
+  return { ingredients: ingredients.map(coerceDetectedIngredient) };
+}
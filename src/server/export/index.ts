@@ -0,0 +1,24 @@
+import { buildMenuJsonLd } from "@/server/export/json-ld";
+import { renderMenuMarkdown } from "@/server/export/markdown";
+import { renderMenuPdf } from "@/server/export/pdf";
+import type { ExportFormat } from "@/shared/export";
+import type { SharedMenu } from "@/shared/notify";
+
+export { buildMenuJsonLd } from "@/server/export/json-ld";
+export { PdfTextError } from "@/server/export/pdf";
+
+/** Renders the menu as a downloadable file body in `format`. */
+export function renderMenuExport(
+  menu: SharedMenu,
+  format: ExportFormat,
+  createdAt: string | null = null
+) {
+  switch (format) {
+    case "pdf":
+      return renderMenuPdf(menu);
+    case "markdown":
+      return renderMenuMarkdown(menu);
+    case "jsonld":
+      return JSON.stringify(buildMenuJsonLd(menu, createdAt), null, 2);
+  }
+}
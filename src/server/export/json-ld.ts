@@ -0,0 +1,77 @@
+import type { SharedMenu } from "@/shared/notify";
+import { formatIngredient } from "@/shared/quantity";
+import { totalMinutes, type Recipe } from "@/shared/recipe";
+
+/** ISO 8601 duration, e.g. 75 minutes is `PT1H15M`. */
+function isoDuration(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `PT${hours ? `${hours}H` : ""}${rest || !hours ? `${rest}M` : ""}`;
+}
+
+type RecipeJsonLdOptions = {
+  /** Page the recipe lives on; each recipe gets its own fragment. */
+  permalink: string | null;
+  datePublished: string | null;
+};
+
+/**
+ * A schema.org `Recipe`. Paprika, Mealie and Notion's web clipper read these
+ * fields; anything the recipe does not have is left out rather than guessed.
+ */
+export function buildRecipeJsonLd(
+  recipe: Recipe,
+  index: number,
+  { permalink, datePublished }: RecipeJsonLdOptions
+) {
+  const total = totalMinutes(recipe);
+  return {
+    "@context": "https://schema.org",
+    "@type": "Recipe",
+    name: recipe.name,
+    description: recipe.description,
+    ...(permalink ? { url: `${permalink}#recipe-${index + 1}` } : {}),
+    ...(datePublished ? { datePublished } : {}),
+    author: { "@type": "Organization", name: "Kitchen Remix AI" },
+    ...(recipe.servings ? { recipeYield: `${recipe.servings} servings` } : {}),
+    ...(recipe.prepMinutes !== null
+      ? { prepTime: isoDuration(recipe.prepMinutes) }
+      : {}),
+    ...(recipe.cookMinutes !== null
+      ? { cookTime: isoDuration(recipe.cookMinutes) }
+      : {}),
+    ...(total !== null ? { totalTime: isoDuration(total) } : {}),
+    keywords: ["leftovers", recipe.difficulty].filter(Boolean).join(", "),
+    recipeIngredient: recipe.ingredients.map(formatIngredient),
+    recipeInstructions: recipe.steps.map((step, stepIndex) => ({
+      "@type": "HowToStep",
+      position: stepIndex + 1,
+      text: step
+    })),
+    ...(recipe.nutrition
+      ? {
+          nutrition: {
+            "@type": "NutritionInformation",
+            servingSize: "1 serving",
+            calories: `${Math.round(recipe.nutrition.calories)} calories`,
+            proteinContent: `${Math.round(recipe.nutrition.proteinGrams)} g`,
+            carbohydrateContent: `${Math.round(recipe.nutrition.carbsGrams)} g`,
+            fatContent: `${Math.round(recipe.nutrition.fatGrams)} g`
+          }
+        }
+      : {})
+  };
+}
+
+/** Every recipe of the menu; importers take an array of `Recipe` objects. */
+export function buildMenuJsonLd(
+  menu: SharedMenu,
+  datePublished: string | null = null
+) {
+  return menu.recipes.map((recipe, index) =>
+    buildRecipeJsonLd(recipe, index, {
+      permalink: menu.permalink,
+      datePublished
+    })
+  );
+}
@@ -0,0 +1,58 @@
+import { defaultLocale, translate, type Locale } from "@/shared/i18n";
+import type { SharedMenu } from "@/shared/notify";
+import { formatIngredient } from "@/shared/quantity";
+import {
+  describeRecipeFacts,
+  formatNutrition,
+  type Recipe
+} from "@/shared/recipe";
+
+/** Escapes characters Markdown would read as formatting. */
+function escapeMarkdown(text: string) {
+  return text.replace(/([\\`*_[\]<>#|])/g, "\\$1");
+}
+
+function recipeMarkdown(recipe: Recipe, index: number, locale: Locale) {
+  const facts = describeRecipeFacts(recipe, locale);
+  return [
+    `## ${index + 1}. ${escapeMarkdown(recipe.name)}`,
+    escapeMarkdown(recipe.description),
+    ...(facts.length ? [`*${facts.join(" · ")}*`] : []),
+    `### ${translate(locale, "share.ingredients")}`,
+    recipe.ingredients
+      .map(
+        (ingredient) =>
+          `- ${escapeMarkdown(formatIngredient(ingredient))}${
+            ingredient.fromLeftovers
+              ? ` *${translate(locale, "export.leftover")}*`
+              : ""
+          }`
+      )
+      .join("\n"),
+    `### ${translate(locale, "share.steps")}`,
+    recipe.steps
+      .map((step, stepIndex) => `${stepIndex + 1}. ${escapeMarkdown(step)}`)
+      .join("\n"),
+    ...(recipe.nutrition
+      ? [
+          `*${translate(locale, "card.nutrition", {
+            nutrition: formatNutrition(recipe.nutrition, locale)
+          })}*`
+        ]
+      : [])
+  ].join("\n\n");
+}
+
+export function renderMenuMarkdown(menu: SharedMenu) {
+  const locale = menu.locale ?? defaultLocale;
+  return `${[
+    `# ${translate(locale, "share.title")}`,
+    ...(menu.summary ? [escapeMarkdown(menu.summary)] : []),
+    ...(menu.permalink
+      ? [`[${translate(locale, "share.viewMenuOnline")}](${menu.permalink})`]
+      : []),
+    ...menu.recipes.map((recipe, index) =>
+      recipeMarkdown(recipe, index, locale)
+    )
+  ].join("\n\n")}\n`;
+}
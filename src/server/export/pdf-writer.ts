@@ -0,0 +1,213 @@
+// A small PDF 1.4 writer for text-only documents. It uses the standard
+// Helvetica fonts every PDF reader ships with, so nothing is embedded and the
+// output stays a few kilobytes. Text is limited to the WinAnsi character set.
+
+import { toWinAnsi } from "@/shared/win-ansi";
+
+export type PdfFont = "regular" | "bold" | "italic";
+
+export type PdfTextRun = {
+  x: number;
+  y: number;
+  text: string;
+  font: PdfFont;
+  size: number;
+  /** 0 is black, 1 is white. */
+  gray?: number;
+};
+
+export type PdfLine = {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  gray?: number;
+};
+
+export type PdfPage = {
+  runs: PdfTextRun[];
+  lines: PdfLine[];
+};
+
+export type PdfDocument = {
+  title: string;
+  width: number;
+  height: number;
+  pages: PdfPage[];
+};
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: "F1", baseFont: "Helvetica" },
+  bold: { name: "F2", baseFont: "Helvetica-Bold" },
+  italic: { name: "F3", baseFont: "Helvetica-Oblique" }
+};
+
+// Advance widths (1/1000 em) for character codes 32-126, from the Adobe
+// font metrics. Helvetica-Oblique shares Helvetica's widths.
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584
+];
+
+// prettier-ignore
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584
+];
+
+// Widths of the WinAnsi codes 0x80-0x9F that differ from Latin-1.
+const EXTRA_WIDTHS = new Map([
+  [0x80, 556], // €
+  [0x85, 1000], // …
+  [0x91, 222], // ‘
+  [0x92, 222], // ’
+  [0x93, 333], // “
+  [0x94, 333], // ”
+  [0x95, 350], // •
+  [0x96, 556], // –
+  [0x97, 1000], // —
+  [0x99, 1000] // ™
+]);
+
+const LATIN1_WIDTHS: Record<number, number> = {
+  0xa0: 278, // no-break space
+  0xb0: 400, // °
+  0xb7: 278, // ·
+  0xbc: 834, // ¼
+  0xbd: 834, // ½
+  0xbe: 834 // ¾
+};
+
+/** Width in points of WinAnsi-encoded `text`. */
+export function measureText(text: string, font: PdfFont, size: number) {
+  const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (let index = 0; index < text.length; index += 1) {
+    const code = text.charCodeAt(index);
+    units +=
+      code >= 32 && code <= 126
+        ? widths[code - 32]
+        : (EXTRA_WIDTHS.get(code) ?? LATIN1_WIDTHS[code] ?? 556);
+  }
+  return (units * size) / 1000;
+}
+
+/** Breaks WinAnsi text into lines no wider than `maxWidth`. */
+export function wrapText(
+  text: string,
+  font: PdfFont,
+  size: number,
+  maxWidth: number
+) {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(" ").filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (measureText(candidate, font, size) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    current = word;
+    // A single word wider than the line (a long URL) is cut anywhere.
+    while (measureText(current, font, size) > maxWidth) {
+      let cut = current.length - 1;
+      while (
+        cut > 1 &&
+        measureText(current.slice(0, cut), font, size) > maxWidth
+      ) {
+        cut -= 1;
+      }
+      lines.push(current.slice(0, cut));
+      current = current.slice(cut);
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+function escapeString(text: string) {
+  return text.replace(/[\\()]/g, (character) => `\\${character}`);
+}
+
+const number = (value: number) => Number(value.toFixed(2)).toString();
+
+function pageContent(page: PdfPage) {
+  const operations: string[] = [];
+  for (const line of page.lines) {
+    operations.push(
+      `${number(line.gray ?? 0.8)} G 0.5 w ${number(line.x1)} ${number(line.y1)} m ${number(line.x2)} ${number(line.y2)} l S`
+    );
+  }
+  for (const run of page.runs) {
+    operations.push(
+      `BT /${FONT_RESOURCES[run.font].name} ${number(run.size)} Tf ${number(run.gray ?? 0)} g ${number(run.x)} ${number(run.y)} Td (${escapeString(run.text)}) Tj ET`
+    );
+  }
+  return operations.join("\n");
+}
+
+function pdfDate(date: Date) {
+  return `D:${date.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z`;
+}
+
+/** Serializes the document. Run text must already be WinAnsi-encoded. */
+export function renderPdf(document: PdfDocument) {
+  const fonts = Object.values(FONT_RESOURCES);
+  // 1 catalog, 2 page tree, 3 info, then fonts, then a page and its content
+  // stream for each page.
+  const firstFont = 4;
+  const firstPage = firstFont + fonts.length;
+  const objects: string[] = [];
+
+  const pageIds = document.pages.map((_page, index) => firstPage + index * 2);
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+  objects[3] = `<< /Title (${escapeString(toWinAnsi(document.title))}) /Producer (Kitchen Remix AI) /CreationDate (${pdfDate(new Date())}) >>`;
+  fonts.forEach((font, index) => {
+    objects[firstFont + index] =
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`;
+  });
+  const fontResources = fonts
+    .map((font, index) => `/${font.name} ${firstFont + index} 0 R`)
+    .join(" ");
+  document.pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const content = pageContent(page);
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${number(document.width)} ${number(document.height)}] /Resources << /Font << ${fontResources} >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] =
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  // The comment line of high bytes marks the file as binary for transfers.
+  let output = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id += 1) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id += 1) {
+    output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  // Every character is a single byte, so string offsets are byte offsets.
+  const bytes = new Uint8Array(output.length);
+  for (let index = 0; index < output.length; index += 1) {
+    bytes[index] = output.charCodeAt(index);
+  }
+  return bytes;
+}
@@ -0,0 +1,225 @@
+import {
+  measureText,
+  renderPdf,
+  wrapText,
+  type PdfFont,
+  type PdfPage
+} from "@/server/export/pdf-writer";
+import { defaultLocale, translate } from "@/shared/i18n";
+import type { SharedMenu } from "@/shared/notify";
+import { formatIngredient } from "@/shared/quantity";
+import { describeRecipeFacts, formatNutrition } from "@/shared/recipe";
+import { isWinAnsiText, toWinAnsi } from "@/shared/win-ansi";
+
+// A4 portrait with 2 cm margins.
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const FOOTER_Y = 30;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+// A recipe starting lower than this begins on a fresh page instead.
+const MIN_RECIPE_START = MARGIN + 220;
+
+/**
+ * The menu has text the built-in fonts cannot draw, such as Devanagari, and
+ * would print as question marks.
+ */
+export class PdfTextError extends Error {
+  constructor() {
+    super(
+      "This menu uses characters the PDF export cannot print. Download it as Markdown instead."
+    );
+    this.name = "PdfTextError";
+  }
+}
+
+type TextStyle = {
+  font: PdfFont;
+  size: number;
+  gray?: number;
+  /** Space above the paragraph, in points. */
+  spaceBefore?: number;
+  indent?: number;
+  /** Drawn in the indent of the first line, such as "•" or "3.". */
+  marker?: string;
+};
+
+function createLayout() {
+  const pages: PdfPage[] = [];
+  let page: PdfPage;
+  let y = 0;
+
+  const newPage = () => {
+    page = { runs: [], lines: [] };
+    pages.push(page);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+  newPage();
+
+  return {
+    pages,
+    get y() {
+      return y;
+    },
+    newPage,
+    paragraph(text: string, style: TextStyle) {
+      if (!isWinAnsiText(text)) throw new PdfTextError();
+      const indent = style.indent ?? 0;
+      const lineHeight = style.size * 1.35;
+      const lines = wrapText(
+        toWinAnsi(text),
+        style.font,
+        style.size,
+        CONTENT_WIDTH - indent
+      );
+      y -= style.spaceBefore ?? 0;
+      lines.forEach((line, index) => {
+        if (y - lineHeight < MARGIN) newPage();
+        y -= lineHeight;
+        const baseline = y + lineHeight * 0.25;
+        if (index === 0 && style.marker) {
+          const marker = toWinAnsi(style.marker);
+          page.runs.push({
+            x:
+              MARGIN + indent - measureText(marker, style.font, style.size) - 4,
+            y: baseline,
+            text: marker,
+            font: style.font,
+            size: style.size,
+            gray: style.gray
+          });
+        }
+        page.runs.push({
+          x: MARGIN + indent,
+          y: baseline,
+          text: line,
+          font: style.font,
+          size: style.size,
+          gray: style.gray
+        });
+      });
+    },
+    rule(spaceBefore: number) {
+      y -= spaceBefore;
+      page.lines.push({ x1: MARGIN, y1: y, x2: PAGE_WIDTH - MARGIN, y2: y });
+    },
+    /** Starts a new page unless `height` points still fit on this one. */
+    keepTogether(height: number) {
+      if (y - height < MARGIN) newPage();
+    }
+  };
+}
+
+/**
+ * A printable A4 PDF of the menu, one recipe after another. Throws
+ * `PdfTextError` for text outside WinAnsi.
+ */
+export function renderMenuPdf(menu: SharedMenu) {
+  const locale = menu.locale ?? defaultLocale;
+  const layout = createLayout();
+
+  layout.paragraph(translate(locale, "share.title"), {
+    font: "bold",
+    size: 22
+  });
+  if (menu.summary) {
+    layout.paragraph(menu.summary, {
+      font: "regular",
+      size: 12,
+      spaceBefore: 6
+    });
+  }
+  if (menu.permalink) {
+    layout.paragraph(menu.permalink, {
+      font: "italic",
+      size: 9,
+      gray: 0.4,
+      spaceBefore: 4
+    });
+  }
+
+  menu.recipes.forEach((recipe, index) => {
+    if (index > 0 && layout.y < MIN_RECIPE_START) layout.newPage();
+    else layout.rule(14);
+
+    layout.paragraph(`${index + 1}. ${recipe.name}`, {
+      font: "bold",
+      size: 16,
+      spaceBefore: 12
+    });
+    layout.paragraph(recipe.description, {
+      font: "regular",
+      size: 11,
+      spaceBefore: 4
+    });
+    const facts = describeRecipeFacts(recipe, locale);
+    if (facts.length) {
+      layout.paragraph(facts.join(" · "), {
+        font: "italic",
+        size: 10,
+        gray: 0.35,
+        spaceBefore: 2
+      });
+    }
+
+    layout.keepTogether(50);
+    layout.paragraph(translate(locale, "share.ingredients"), {
+      font: "bold",
+      size: 12,
+      spaceBefore: 10
+    });
+    recipe.ingredients.forEach((ingredient) =>
+      layout.paragraph(
+        `${formatIngredient(ingredient)}${ingredient.fromLeftovers ? ` ${translate(locale, "export.leftover")}` : ""}`,
+        { font: "regular", size: 11, indent: 16, marker: "•", spaceBefore: 1 }
+      )
+    );
+
+    layout.keepTogether(50);
+    layout.paragraph(translate(locale, "share.steps"), {
+      font: "bold",
+      size: 12,
+      spaceBefore: 10
+    });
+    recipe.steps.forEach((step, stepIndex) =>
+      layout.paragraph(step, {
+        font: "regular",
+        size: 11,
+        indent: 20,
+        marker: `${stepIndex + 1}.`,
+        spaceBefore: 3
+      })
+    );
+
+    if (recipe.nutrition) {
+      layout.paragraph(
+        translate(locale, "card.nutrition", {
+          nutrition: formatNutrition(recipe.nutrition, locale)
+        }),
+        { font: "italic", size: 10, gray: 0.35, spaceBefore: 8 }
+      );
+    }
+  });
+
+  const total = layout.pages.length;
+  layout.pages.forEach((page, index) => {
+    const footer = toWinAnsi(
+      translate(locale, "export.pageFooter", { page: index + 1, total })
+    );
+    page.runs.push({
+      x: (PAGE_WIDTH - measureText(footer, "regular", 9)) / 2,
+      y: FOOTER_Y,
+      text: footer,
+      font: "regular",
+      size: 9,
+      gray: 0.5
+    });
+  });
+
+  return renderPdf({
+    title: menu.recipes.map((recipe) => recipe.name).join(", "),
+    width: PAGE_WIDTH,
+    height: PAGE_HEIGHT,
+    pages: layout.pages
+  });
+}
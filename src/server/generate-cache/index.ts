@@ -0,0 +1,142 @@
+import { createHash } from "crypto";
+import type { GenerateInput } from "@/server/generate";
+import { createMemoryGenerateCacheStore } from "@/server/generate-cache/memory-store";
+import { createRedisGenerateCacheStore } from "@/server/generate-cache/redis-store";
+import type {
+  GenerateCacheStore,
+  GeneratedMenu
+} from "@/server/generate-cache/types";
+import { log } from "@/server/observability";
+import { getMenuStore } from "@/server/storage";
+import { defaultLocale } from "@/shared/i18n";
+import { describePantry } from "@/shared/pantry";
+import { RECIPE_SCHEMA_VERSION } from "@/shared/recipe";
+
+export {
+  finishedGeneration,
+  joinGeneration,
+  type GenerationJob,
+  type GenerationProgress,
+  type RunGeneration
+} from "@/server/generate-cache/inflight";
+export type {
+  GenerateCacheStore,
+  GeneratedMenu
+} from "@/server/generate-cache/types";
+
+const DEFAULT_TTL_SECONDS = 15 * 60;
+
+let store: GenerateCacheStore | null = null;
+
+/**
+ * Results live in memory unless `GENERATE_CACHE_REDIS_URL` and
+ * `GENERATE_CACHE_REDIS_TOKEN` (or the Upstash variables) point at a Redis
+ * REST endpoint.
+ */
+export function getGenerateCacheStore(): GenerateCacheStore {
+  if (!store) {
+    const url =
+      process.env.GENERATE_CACHE_REDIS_URL ??
+      process.env.UPSTASH_REDIS_REST_URL;
+    const token =
+      process.env.GENERATE_CACHE_REDIS_TOKEN ??
+      process.env.UPSTASH_REDIS_REST_TOKEN;
+    store =
+      url && token
+        ? createRedisGenerateCacheStore({ url, token })
+        : createMemoryGenerateCacheStore();
+  }
+  return store;
+}
+
+/**
+ * How long results are reused, from `GENERATE_CACHE_TTL_SECONDS`. Zero turns
+ * the cache off; identical requests that overlap still share a call.
+ */
+export function readGenerateCacheTtlMs() {
+  const override = process.env.GENERATE_CACHE_TTL_SECONDS?.trim();
+  const seconds = override ? Number(override) : DEFAULT_TTL_SECONDS;
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0;
+}
+
+const digest = (data: string | Buffer) =>
+  createHash("sha256").update(data).digest("hex");
+
+const normalizeText = (text: string) =>
+  text.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Hashing the decoded bytes ignores how the data URL happened to be written.
+function imageDigest(dataUrl: string) {
+  return digest(Buffer.from(dataUrl.slice(dataUrl.indexOf(",") + 1), "base64"));
+}
+
+/**
+ * Identifies a request by what the model would see: the photos, confirmed
+ * ingredients, notes, dietary profile and pantry, in any order and spacing. The
+ * thumbnail is left out, and each account and provider gets its own entries
+ * since results are saved to the account's history.
+ */
+export function generateCacheKey(
+  userId: string,
+  providerName: string,
+  input: GenerateInput
+) {
+  const profile = input.dietaryProfile;
+  const material = {
+    schemaVersion: RECIPE_SCHEMA_VERSION,
+    providerName,
+    userId,
+    images: (input.imageDataUrls ?? []).map(imageDigest).sort(),
+    ingredients: (input.ingredients ?? [])
+      .map(({ name, quantity, freshness }) => ({
+        name: normalizeText(name),
+        quantity: normalizeText(quantity),
+        freshness
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    notes: normalizeText(input.notes ?? ""),
+    dietaryProfile: profile && {
+      ...profile,
+      allergens: [...profile.allergens].sort(),
+      excludedIngredients: profile.excludedIngredients
+        .map(normalizeText)
+        .sort(),
+      equipment: [...profile.equipment].sort()
+    },
+    // As the model reads it, so the key also turns over as expiry dates near.
+    pantry: input.pantry ? describePantry(input.pantry) : "",
+    locale: input.locale ?? defaultLocale
+  };
+  return `generate:${digest(JSON.stringify(material))}`;
+}
+
+// The cache only saves model calls, so an outage falls back to generating.
+
+/**
+ * The cached result for `key`, read back from the saved menu so a refine
+ * since shows through. A menu deleted since makes it a miss.
+ */
+export async function readCachedMenu(
+  key: string
+): Promise<GeneratedMenu | null> {
+  if (!readGenerateCacheTtlMs()) return null;
+  try {
+    const cached = await getGenerateCacheStore().get(key);
+    if (!cached?.menu) return cached;
+    const saved = await getMenuStore().get(cached.menu.id);
+    return saved ? { payload: saved.payload, menu: cached.menu } : null;
+  } catch (error) {
+    log.error("Reading the generate cache failed", { error });
+    return null;
+  }
+}
+
+export async function cacheMenu(key: string, value: GeneratedMenu) {
+  const ttlMs = readGenerateCacheTtlMs();
+  if (!ttlMs) return;
+  try {
+    await getGenerateCacheStore().set(key, value, ttlMs);
+  } catch (error) {
+    log.error("Writing the generate cache failed", { error });
+  }
+}
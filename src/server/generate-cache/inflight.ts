@@ -0,0 +1,80 @@
+import type { GeneratedMenu } from "@/server/generate-cache/types";
+import type { GenerateStreamEvent } from "@/shared/recipe";
+
+/** What a generation reports before it finishes. */
+export type GenerationProgress = Extract<
+  GenerateStreamEvent,
+  { type: "summary" | "recipe" }
+>;
+
+export type GenerationJob = {
+  result: Promise<GeneratedMenu>;
+  /**
+   * Replays the progress so far, then follows it live. Returns a function
+   * to stop following; once every follower has stopped before the result
+   * arrives, the job is aborted.
+   */
+  follow(listener: (event: GenerationProgress) => void): () => void;
+};
+
+export type RunGeneration = (
+  signal: AbortSignal,
+  report: (event: GenerationProgress) => void
+) => Promise<GeneratedMenu>;
+
+const running = new Map<string, GenerationJob>();
+
+/**
+ * Joins the job already running under `key`, or starts one with `run`.
+ * Double-clicks and re-submits then share a single upstream call.
+ */
+export function joinGeneration(
+  key: string,
+  run: RunGeneration
+): { job: GenerationJob; joined: boolean } {
+  const existing = running.get(key);
+  if (existing) return { job: existing, joined: true };
+
+  const upstream = new AbortController();
+  const progress: GenerationProgress[] = [];
+  const listeners = new Set<(event: GenerationProgress) => void>();
+  let followers = 0;
+  let settled = false;
+
+  const result = run(upstream.signal, (event) => {
+    progress.push(event);
+    listeners.forEach((listener) => listener(event));
+  }).finally(() => {
+    settled = true;
+    if (running.get(key) === job) running.delete(key);
+  });
+  // Followers see the failure; this only keeps an abandoned job quiet.
+  result.catch(() => undefined);
+
+  const job: GenerationJob = {
+    result,
+    follow(listener) {
+      progress.forEach(listener);
+      listeners.add(listener);
+      followers += 1;
+      let following = true;
+      return () => {
+        if (!following) return;
+        following = false;
+        listeners.delete(listener);
+        followers -= 1;
+        if (!followers && !settled) {
+          running.delete(key);
+          upstream.abort();
+        }
+      };
+    }
+  };
+  running.set(key, job);
+  return { job, joined: false };
+}
+
+/** A job that has already finished, for results served from the cache. */
+export function finishedGeneration(value: GeneratedMenu): GenerationJob {
+  return { result: Promise.resolve(value), follow: () => () => undefined };
+}
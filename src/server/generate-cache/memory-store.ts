@@ -0,0 +1,37 @@
+import type {
+  GenerateCacheStore,
+  GeneratedMenu
+} from "@/server/generate-cache/types";
+
+// Payloads are a few kilobytes each; the oldest entries go first past this.
+const MAX_ENTRIES = 500;
+
+/** Results for a single server process; restarts empty the cache. */
+export function createMemoryGenerateCacheStore(): GenerateCacheStore {
+  const entries = new Map<
+    string,
+    { value: GeneratedMenu; expiresAt: number }
+  >();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.value;
+    },
+    async set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      // Maps iterate in insertion order, so the first key is the oldest.
+      while (entries.size > MAX_ENTRIES) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    }
+  };
+}
@@ -0,0 +1,53 @@
+import type {
+  GenerateCacheStore,
+  GeneratedMenu
+} from "@/server/generate-cache/types";
+import type { RedisRestConfig } from "@/server/rate-limit/redis-store";
+
+type CommandResult = { result?: unknown; error?: string };
+
+export class RedisGenerateCacheError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedisGenerateCacheError";
+  }
+}
+
+/** Results in Redis over its REST protocol, shared by every instance. */
+export function createRedisGenerateCacheStore(
+  config: RedisRestConfig
+): GenerateCacheStore {
+  const url = config.url.replace(/\/+$/, "");
+
+  const command = async (args: string[]) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${config.token}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(args),
+      cache: "no-store"
+    });
+    if (!response.ok) {
+      throw new RedisGenerateCacheError(
+        `Redis responded with HTTP ${response.status}.`
+      );
+    }
+    const body = (await response.json()) as CommandResult;
+    if (body.error) throw new RedisGenerateCacheError(body.error);
+    return body.result;
+  };
+
+  return {
+    async get(key) {
+      const result = await command(["GET", key]);
+      return typeof result === "string"
+        ? (JSON.parse(result) as GeneratedMenu)
+        : null;
+    },
+    async set(key, value, ttlMs) {
+      await command(["SET", key, JSON.stringify(value), "PX", String(ttlMs)]);
+    }
+  };
+}
@@ -0,0 +1,14 @@
+import type { MenuRef } from "@/shared/menu";
+import type { GenerateResponse } from "@/shared/recipe";
+
+/** A finished generation: the reviewed payload and where it was saved. */
+export type GeneratedMenu = {
+  payload: GenerateResponse;
+  menu: MenuRef | null;
+};
+
+/** Recent results by request key, so identical requests skip the model. */
+export type GenerateCacheStore = {
+  get(key: string): Promise<GeneratedMenu | null>;
+  set(key: string, value: GeneratedMenu, ttlMs: number): Promise<void>;
+};
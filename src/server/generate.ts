@@ -0,0 +1,212 @@
+import { completeModelJson } from "@/server/model-repair";
+import { log } from "@/server/observability";
+import type { ModelProvider, ModelRequest } from "@/server/providers";
+import { parseRecipePayload } from "@/server/recipes";
+import { recipeMenuJsonSchema } from "@/server/response-schemas";
+import { getMenuStore, getPantryStore } from "@/server/storage";
+import {
+  describeDietaryProfile,
+  flagRecipe,
+  type DietaryProfile
+} from "@/shared/dietary";
+import { defaultLocale, languageNames, type Locale } from "@/shared/i18n";
+import type { DetectedIngredient } from "@/shared/ingredients";
+import type { MenuRef } from "@/shared/menu";
+import {
+  describePantry,
+  pantryItemFromDetected,
+  type Pantry
+} from "@/shared/pantry";
+import type { GenerateResponse, Recipe } from "@/shared/recipe";
+
+/** Everything a cook can send to get a menu, from any channel. */
+export type GenerateInput = {
+  imageDataUrls?: string[];
+  ingredients?: DetectedIngredient[];
+  notes?: string;
+  dietaryProfile?: DietaryProfile;
+  /** The cook's saved pantry and staples, loaded on the server. */
+  pantry?: Pantry;
+  thumbnailDataUrl?: string;
+  /** The language to write the recipes in; English when absent. */
+  locale?: Locale;
+};
+
+const systemPrompt = `
+You are Kitchen Remix, a culinary assistant. A user uploads one or more photos of leftover ingredients from their kitchen.
+- First, inspect every image and infer the primary ingredients visible. The photos may overlap, so count an ingredient once even if it appears in several shots. When the cook has confirmed an ingredient list, treat it as authoritative: use only those leftovers and ignore anything else in the photo.
+- Blend that understanding with the provided notes (dietary needs, missing staples, equipment). A dietary profile, when given, is a set of hard constraints that outrank everything else, including the notes.
+- Produce a short summary that explains what you saw and the culinary direction you're taking.
+- Generate AT LEAST 3 distinct recipes (max 4). For each recipe provide:
+  - name (catchy but clear)
+  - description (1-2 sentences)
+  - servings, prepMinutes and cookMinutes (realistic whole numbers) and difficulty
+  - ingredients (the leftovers plus a few common pantry items, each split into quantity, unit and item; mark leftovers with fromLeftovers: true)
+  - steps (sequential array, concise but actionable)
+  - nutrition (a rough per-serving estimate)
+- Stay within normal home kitchen constraints. Note substitutions for missing items.
+- Output valid JSON following this TypeScript type:
+  type Payload = {
+    summary: string;
+    recipes: {
+      name: string;
+      description: string;
+      servings: number;
+      prepMinutes: number;
+      cookMinutes: number;
+      difficulty: "easy" | "medium" | "hard";
+      ingredients: {
+        quantity: number | null; // decimal, e.g. 0.5; null for "to taste"
+        unit: string | null; // e.g. "g", "ml", "cup", "tbsp"; null for whole items
+        item: string; // e.g. "bell pepper, diced"
+        fromLeftovers: boolean;
+      }[];
+      steps: string[];
+      nutrition: {
+        calories: number;
+        proteinGrams: number;
+        carbsGrams: number;
+        fatGrams: number;
+      };
+    }[];
+  };
+- JSON only. No markdown, no code fences.
+`;
+
+/**
+ * Asks for prose in the cook's language while the fields the app reads back,
+ * like difficulty and units, stay in the English the schema expects.
+ */
+export function describeOutputLanguage(locale: Locale = defaultLocale) {
+  if (locale === defaultLocale) return "";
+  const language = languageNames[locale];
+  return [
+    `Write every text the cook reads in ${language}: the summary, recipe names, descriptions, ingredient items and steps.`,
+    `Keep JSON keys, difficulty values and unit abbreviations (g, ml, cup, tbsp, tsp) in English, and use units that are common for ${language} speakers.`
+  ].join(" ");
+}
+
+export function describeIngredients(ingredients: DetectedIngredient[]) {
+  return [
+    "Ingredients confirmed by the cook:",
+    ...ingredients.map((ingredient) => {
+      const freshness =
+        ingredient.freshness === "unknown" ? "" : `, ${ingredient.freshness}`;
+      return `- ${ingredient.name} (${ingredient.quantity}${freshness})`;
+    })
+  ].join("\n");
+}
+
+type HistoryEntry = Pick<GenerateInput, "notes" | "thumbnailDataUrl"> & {
+  /** Account whose history the menu joins; null keeps it out of every list. */
+  userId: string | null;
+};
+
+// History is a convenience: a failed save must not cost the user their menu.
+export async function saveToHistory(
+  payload: GenerateResponse,
+  { userId, notes, thumbnailDataUrl }: HistoryEntry
+): Promise<MenuRef | null> {
+  try {
+    const record = await getMenuStore().create({
+      userId,
+      payload,
+      notes: notes ?? "",
+      thumbnailDataUrl: thumbnailDataUrl ?? null
+    });
+    return { id: record.id, slug: record.slug };
+  } catch (error) {
+    log.error("Saving menu to history failed", { error });
+    return null;
+  }
+}
+
+// The pantry only adds context: a failed read must not cost the user a menu.
+export async function loadPantry(userId: string): Promise<Pantry | undefined> {
+  try {
+    return await getPantryStore(userId).get();
+  } catch (error) {
+    log.error("Loading the pantry failed", { error });
+    return undefined;
+  }
+}
+
+/**
+ * Adds the ingredients the cook confirmed to their pantry. Amounts they
+ * measured themselves stay; the estimates only fill in missing ones.
+ */
+export async function addConfirmedToPantry(
+  userId: string,
+  ingredients: DetectedIngredient[]
+) {
+  try {
+    await getPantryStore(userId).addItems(
+      ingredients.map((ingredient) => pantryItemFromDetected(ingredient)),
+      "keep"
+    );
+  } catch (error) {
+    log.error("Adding confirmed ingredients to the pantry failed", { error });
+  }
+}
+
+export function buildRecipeRequest(input: GenerateInput): ModelRequest {
+  return {
+    task: "recipes",
+    maxOutputTokens: 2400,
+    responseSchema: recipeMenuJsonSchema,
+    prompt: [
+      systemPrompt,
+      input.ingredients ? describeIngredients(input.ingredients) : "",
+      input.notes
+        ? `Notes from the cook: ${input.notes}`
+        : "No additional notes provided.",
+      input.dietaryProfile ? describeDietaryProfile(input.dietaryProfile) : "",
+      input.pantry ? describePantry(input.pantry) : "",
+      describeOutputLanguage(input.locale)
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+    images: (input.imageDataUrls ?? []).map((dataUrl) => ({
+      dataUrl,
+      detail: "high"
+    }))
+  };
+}
+
+/**
+ * Flags recipes that break the cook's dietary profile, if they gave one,
+ * matching ingredients in the language the recipes were written in.
+ */
+export function createRecipeReviewer(
+  profile?: DietaryProfile,
+  locale?: Locale
+) {
+  return (recipe: Recipe) => flagRecipe(recipe, profile, locale);
+}
+
+type GenerateOptions = {
+  userId: string | null;
+  signal?: AbortSignal;
+};
+
+/** Generates, reviews and saves a menu without streaming. */
+export async function generateMenu(
+  provider: ModelProvider,
+  input: GenerateInput,
+  { userId, signal }: GenerateOptions
+): Promise<{ payload: GenerateResponse; menu: MenuRef | null }> {
+  const locale = input.locale ?? defaultLocale;
+  const review = createRecipeReviewer(input.dietaryProfile, locale);
+  const parsed = await completeModelJson(
+    provider,
+    { ...buildRecipeRequest(input), signal },
+    parseRecipePayload
+  );
+  const payload = { ...parsed, locale, recipes: parsed.recipes.map(review) };
+  const menu = await saveToHistory(payload, {
+    userId,
+    notes: input.notes,
+    thumbnailDataUrl: input.thumbnailDataUrl
+  });
+  return { payload, menu };
+}
@@ -0,0 +1,17 @@
+import { cookies, headers } from "next/headers";
+import {
+  isLocale,
+  LOCALE_COOKIE,
+  matchLocale,
+  type Locale
+} from "@/shared/i18n";
+
+/**
+ * The language to render a page in: the one the visitor picked, or else the
+ * best match for their browser's languages. Server components only.
+ */
+export function readRequestLocale(): Locale {
+  const chosen = cookies().get(LOCALE_COOKIE)?.value;
+  if (isLocale(chosen)) return chosen;
+  return matchLocale(headers().get("accept-language"));
+}
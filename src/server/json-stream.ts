@@ -0,0 +1,133 @@
+type Frame = {
+  type: "object" | "array";
+  /** Key this container was assigned to in its parent object, if any. */
+  key: string | null;
+  start: number;
+  expectingKey: boolean;
+  pendingKey: string | null;
+};
+
+type PayloadStreamHandlers = {
+  onSummary(summary: string): void;
+  onRecipe(recipe: unknown): void;
+};
+
+/**
+ * Incrementally scans partial model output shaped like `{ summary, recipes }`
+ * and reports the summary and each recipe object as soon as it is complete.
+ * Text before the first `{` (such as a stray code fence) is ignored.
+ */
+export function createPayloadStreamParser(handlers: PayloadStreamHandlers) {
+  let text = "";
+  let position = 0;
+  let finished = false;
+  let inString = false;
+  let escaped = false;
+  let stringStart = 0;
+  const stack: Frame[] = [];
+
+  const scan = () => {
+    for (; position < text.length && !finished; position += 1) {
+      const char = text[position];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          handleString(text.slice(stringStart, position + 1));
+        }
+        continue;
+      }
+
+      if (!stack.length && char !== "{") {
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          inString = true;
+          stringStart = position;
+          break;
+        case "{":
+        case "[": {
+          const parent = stack[stack.length - 1];
+          stack.push({
+            type: char === "{" ? "object" : "array",
+            key: parent?.type === "object" ? parent.pendingKey : null,
+            start: position,
+            expectingKey: char === "{",
+            pendingKey: null
+          });
+          break;
+        }
+        case "}":
+        case "]": {
+          const frame = stack.pop();
+          const parent = stack[stack.length - 1];
+          if (
+            frame?.type === "object" &&
+            parent?.type === "array" &&
+            parent.key === "recipes" &&
+            stack.length === 2
+          ) {
+            try {
+              handlers.onRecipe(
+                JSON.parse(text.slice(frame.start, position + 1))
+              );
+            } catch {
+              // Leave malformed recipes to the final payload validation.
+            }
+          }
+          if (!stack.length) {
+            finished = true;
+          }
+          break;
+        }
+        case ",": {
+          const frame = stack[stack.length - 1];
+          if (frame.type === "object") {
+            frame.expectingKey = true;
+          }
+          break;
+        }
+      }
+    }
+  };
+
+  const handleString = (literal: string) => {
+    let value: string | null;
+    try {
+      value = JSON.parse(literal) as string;
+    } catch {
+      // Models sometimes emit raw newlines inside strings. Skip the event
+      // and leave the text to the repair pass on the final payload.
+      value = null;
+    }
+    const frame = stack[stack.length - 1];
+    if (frame.type === "object" && frame.expectingKey) {
+      frame.pendingKey = value;
+      frame.expectingKey = false;
+      return;
+    }
+    if (
+      value !== null &&
+      stack.length === 1 &&
+      frame.pendingKey === "summary"
+    ) {
+      handlers.onSummary(value);
+    }
+  };
+
+  return {
+    push(chunk: string) {
+      text += chunk;
+      scan();
+    },
+    text() {
+      return text;
+    }
+  };
+}
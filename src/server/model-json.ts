@@ -0,0 +1,113 @@
+import type { z } from "zod";
+import type { ModelErrorBody, ModelErrorCode } from "@/shared/errors";
+
+/** Raised when model output cannot be turned into the expected shape. */
+export class ModelOutputError extends Error {
+  constructor(
+    readonly code: Extract<
+      ModelErrorCode,
+      "empty_output" | "invalid_json" | "schema_mismatch"
+    >,
+    message: string,
+    /** Validation issues, phrased so they can be sent back to the model. */
+    readonly issues: string[] = []
+  ) {
+    super(message);
+    this.name = "ModelOutputError";
+  }
+}
+
+const FENCE_PATTERN = /```(?:json|JSON)?\s*\n?([\s\S]*?)```/;
+
+/**
+ * Finds the first balanced JSON object or array in `raw`, skipping code
+ * fences and any prose around it. Returns null when there is none.
+ */
+export function extractJson(raw: string): string | null {
+  const fenced = raw.match(FENCE_PATTERN);
+  const text = fenced ? fenced[1] : raw;
+  const start = text.search(/[{[]/);
+  if (start === -1) return null;
+
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (let index = start; index < text.length; index += 1) {
+    const char = text[index];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === "{") closers.push("}");
+    else if (char === "[") closers.push("]");
+    else if (char === "}" || char === "]") {
+      if (closers.pop() !== char) return null;
+      if (!closers.length) return text.slice(start, index + 1);
+    }
+  }
+  return null;
+}
+
+function formatIssues(error: z.ZodError) {
+  return error.issues
+    .slice(0, 12)
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+}
+
+/**
+ * Parses raw model text as JSON and validates it against `schema`. `coerce`
+ * gets a chance to fix near-miss shapes (numbers sent as strings and the
+ * like) before validation.
+ */
+export function parseModelJson<T extends z.ZodTypeAny>(
+  raw: string,
+  schema: T,
+  coerce: (value: unknown) => unknown = (value) => value
+): z.output<T> {
+  if (!raw.trim()) {
+    throw new ModelOutputError("empty_output", "Model response was empty.");
+  }
+
+  const json = extractJson(raw);
+  let payload: unknown;
+  try {
+    payload = JSON.parse(json ?? raw);
+  } catch {
+    throw new ModelOutputError(
+      "invalid_json",
+      "Model response was not valid JSON.",
+      ["The response must be a single JSON value with no other text."]
+    );
+  }
+
+  const result = schema.safeParse(coerce(payload));
+  if (!result.success) {
+    throw new ModelOutputError(
+      "schema_mismatch",
+      "Model response did not match the expected format.",
+      formatIssues(result.error)
+    );
+  }
+  return result.data;
+}
+
+/** Turns any failure of a model call into a typed, user-facing error body. */
+export function describeModelError(
+  error: unknown,
+  fallback: string
+): ModelErrorBody {
+  if (error instanceof ModelOutputError) {
+    return {
+      error: `${error.message} Please try again.`,
+      code: error.code,
+      details: error.issues.length ? error.issues : undefined
+    };
+  }
+  return {
+    error: error instanceof Error ? error.message : fallback,
+    code: "provider_failed"
+  };
+}
@@ -0,0 +1,80 @@
+import { ModelOutputError } from "@/server/model-json";
+import { log } from "@/server/observability";
+import type { ModelProvider, ModelRequest } from "@/server/providers";
+
+/** Extra model calls allowed to fix unusable output before giving up. */
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+// Long enough for the model to see its mistake, short enough that a runaway
+// response does not crowd out the original instructions.
+const PREVIOUS_OUTPUT_LIMIT = 6000;
+
+function buildRepairPrompt(
+  request: ModelRequest,
+  raw: string,
+  error: ModelOutputError
+) {
+  return [
+    request.prompt,
+    "Your previous response could not be used:",
+    error.message,
+    ...error.issues.map((issue) => `- ${issue}`),
+    "Previous response:",
+    raw.slice(0, PREVIOUS_OUTPUT_LIMIT),
+    "Reply again with the corrected JSON only. No markdown, no code fences."
+  ].join("\n\n");
+}
+
+type RepairOptions<T> = {
+  provider: ModelProvider;
+  request: ModelRequest;
+  /** Model output from the first attempt. */
+  raw: string;
+  parse: (raw: string) => T;
+  maxAttempts?: number;
+};
+
+/**
+ * Parses `raw`, and when it is unusable re-prompts the model with the
+ * validation errors, up to `maxAttempts` times. Provider errors and the
+ * final parse error are thrown unchanged.
+ */
+export async function repairModelOutput<T>({
+  provider,
+  request,
+  raw,
+  parse,
+  maxAttempts = MAX_REPAIR_ATTEMPTS
+}: RepairOptions<T>): Promise<T> {
+  let text = raw;
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return parse(text);
+    } catch (error) {
+      if (!(error instanceof ModelOutputError) || attempt >= maxAttempts) {
+        throw error;
+      }
+      log.warn("Model output unusable, retrying", {
+        task: request.task,
+        code: error.code,
+        attempt: attempt + 1,
+        maxAttempts
+      });
+      const response = await provider.complete({
+        ...request,
+        prompt: buildRepairPrompt(request, text, error)
+      });
+      text = response.text;
+    }
+  }
+}
+
+/** Runs `request` and parses the result, repairing it when needed. */
+export async function completeModelJson<T>(
+  provider: ModelProvider,
+  request: ModelRequest,
+  parse: (raw: string) => T
+): Promise<T> {
+  const response = await provider.complete(request);
+  return repairModelOutput({ provider, request, raw: response.text, parse });
+}
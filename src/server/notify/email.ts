@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { renderMenuEmail } from "@/server/notify/format";
+import { sendMail, SmtpError, type SmtpOptions } from "@/server/notify/smtp";
+import { NotifierError, type Notifier } from "@/server/notify/types";
+
+export type EmailConfig = SmtpOptions & {
+  from: string;
+};
+
+/** Null until SMTP_HOST and SMTP_FROM are set. */
+export function readEmailConfig(): EmailConfig | null {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.SMTP_FROM;
+  if (!host || !from) return null;
+  const secure = process.env.SMTP_SECURE === "true";
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    username: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from
+  };
+}
+
+const emailSchema = z.string().trim().email();
+
+export function createEmailNotifier(config: EmailConfig): Notifier {
+  return {
+    channel: "email",
+    parseRecipient(input) {
+      const parsed = emailSchema.safeParse(input);
+      return parsed.success
+        ? { ok: true, address: parsed.data }
+        : { ok: false, error: `"${input}" is not an email address.` };
+    },
+    // Email has room for everything, so it always carries the full recipes
+    // along with the link.
+    async send(to, menu) {
+      try {
+        const { messageId } = await sendMail(config, {
+          from: config.from,
+          to,
+          ...renderMenuEmail(menu)
+        });
+        return messageId ? [messageId] : [];
+      } catch (error) {
+        if (error instanceof SmtpError) {
+          throw new NotifierError("email", error.message, error.code);
+        }
+        throw error;
+      }
+    }
+  };
+}
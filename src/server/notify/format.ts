@@ -0,0 +1,167 @@
+import {
+  defaultLocale,
+  localeDirection,
+  translate,
+  type Locale
+} from "@/shared/i18n";
+import type { SharedMenu } from "@/shared/notify";
+import { formatIngredient } from "@/shared/quantity";
+import { describeRecipeFacts, type Recipe } from "@/shared/recipe";
+
+// Renderers for channels other than WhatsApp, whose markup lives in
+// `@/shared/share`. Each one uses the formatting its channel supports, and
+// the menu's language for headings.
+
+export function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function plainRecipe(recipe: Recipe, index: number, locale: Locale) {
+  const facts = describeRecipeFacts(recipe, locale);
+  return [
+    `${index + 1}. ${recipe.name}`,
+    recipe.description,
+    ...(facts.length ? [facts.join(" · ")] : []),
+    `${translate(locale, "share.ingredients")}:`,
+    ...recipe.ingredients.map(
+      (ingredient) => `- ${formatIngredient(ingredient)}`
+    ),
+    `${translate(locale, "share.steps")}:`,
+    ...recipe.steps.map((step, stepIndex) => `${stepIndex + 1}. ${step}`)
+  ].join("\n");
+}
+
+/** The menu without any markup, for email text parts and SMS. */
+export function formatPlainMenu(menu: SharedMenu) {
+  const locale = menu.locale ?? defaultLocale;
+  return [
+    [translate(locale, "share.title"), menu.summary].filter(Boolean).join("\n"),
+    ...(menu.permalink
+      ? [`${translate(locale, "share.viewOnline")}: ${menu.permalink}`]
+      : []),
+    ...menu.recipes.map((recipe, index) => plainRecipe(recipe, index, locale))
+  ].join("\n\n");
+}
+
+/** Recipe names and the link, short enough for a single SMS or two. */
+export function formatPlainMenuLink(menu: SharedMenu, permalink: string) {
+  const locale = menu.locale ?? defaultLocale;
+  return [
+    translate(locale, "share.title"),
+    ...menu.recipes.map((recipe, index) => `${index + 1}. ${recipe.name}`),
+    `${translate(locale, "share.fullRecipes")}: ${permalink}`
+  ].join("\n");
+}
+
+function htmlRecipe(recipe: Recipe, index: number, locale: Locale) {
+  const facts = describeRecipeFacts(recipe, locale);
+  return [
+    `<h2 style="margin:24px 0 4px;font-size:18px">${index + 1}. ${escapeHtml(recipe.name)}</h2>`,
+    `<p style="margin:0 0 8px">${escapeHtml(recipe.description)}</p>`,
+    facts.length
+      ? `<p style="margin:0 0 8px;color:#64748b;font-size:13px">${escapeHtml(facts.join(" · "))}</p>`
+      : "",
+    `<h3 style="margin:12px 0 4px;font-size:15px">${escapeHtml(translate(locale, "share.ingredients"))}</h3>`,
+    `<ul style="margin:0;padding-left:20px">${recipe.ingredients
+      .map(
+        (ingredient) => `<li>${escapeHtml(formatIngredient(ingredient))}</li>`
+      )
+      .join("")}</ul>`,
+    `<h3 style="margin:12px 0 4px;font-size:15px">${escapeHtml(translate(locale, "share.steps"))}</h3>`,
+    `<ol style="margin:0;padding-left:20px">${recipe.steps
+      .map((step) => `<li style="margin-bottom:4px">${escapeHtml(step)}</li>`)
+      .join("")}</ol>`
+  ].join("\n");
+}
+
+export type RenderedEmail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+/** Inline styles only: most mail clients drop `<style>` blocks. */
+export function renderMenuEmail(menu: SharedMenu): RenderedEmail {
+  const locale = menu.locale ?? defaultLocale;
+  const names = menu.recipes.map((recipe) => recipe.name);
+  const html = [
+    "<!doctype html>",
+    `<html lang="${locale}" dir="${localeDirection(locale)}"><body style="margin:0;padding:24px;font-family:Helvetica,Arial,sans-serif;color:#0f172a;line-height:1.5">`,
+    `<h1 style="margin:0 0 8px;font-size:22px">${escapeHtml(translate(locale, "share.title"))}</h1>`,
+    menu.summary
+      ? `<p style="margin:0 0 8px">${escapeHtml(menu.summary)}</p>`
+      : "",
+    menu.permalink
+      ? `<p style="margin:0 0 8px"><a href="${escapeHtml(menu.permalink)}">${escapeHtml(translate(locale, "share.viewMenuOnline"))}</a></p>`
+      : "",
+    ...menu.recipes.map((recipe, index) => htmlRecipe(recipe, index, locale)),
+    "</body></html>"
+  ]
+    .filter(Boolean)
+    .join("\n");
+  return {
+    subject:
+      names.length > 2
+        ? translate(locale, "share.emailSubjectMore", {
+            names: names.slice(0, 2).join(", "),
+            count: names.length - 2
+          })
+        : translate(locale, "share.emailSubject", {
+            names: names.join(` ${translate(locale, "share.and")} `)
+          }),
+    text: formatPlainMenu(menu),
+    html
+  };
+}
+
+function telegramRecipe(recipe: Recipe, index: number, locale: Locale) {
+  const facts = describeRecipeFacts(recipe, locale);
+  return [
+    `<b>${index + 1}. ${escapeHtml(recipe.name)}</b>`,
+    escapeHtml(recipe.description),
+    ...(facts.length ? [`<i>${escapeHtml(facts.join(" · "))}</i>`] : []),
+    `<i>${escapeHtml(translate(locale, "share.ingredients"))}</i>`,
+    ...recipe.ingredients.map(
+      (ingredient) => `• ${escapeHtml(formatIngredient(ingredient))}`
+    ),
+    `<i>${escapeHtml(translate(locale, "share.steps"))}</i>`,
+    ...recipe.steps.map(
+      (step, stepIndex) => `${stepIndex + 1}. ${escapeHtml(step)}`
+    )
+  ].join("\n");
+}
+
+/**
+ * Telegram's HTML parse mode. Every tag opens and closes on one line, so the
+ * text can be split at line breaks without breaking the markup.
+ */
+export function formatTelegramMenu(menu: SharedMenu, asLink: boolean) {
+  const locale = menu.locale ?? defaultLocale;
+  const header = [
+    `🍳 <b>${escapeHtml(translate(locale, "share.title"))}</b>`,
+    ...(menu.summary ? [escapeHtml(menu.summary)] : [])
+  ].join("\n");
+  const link = menu.permalink
+    ? `<a href="${escapeHtml(menu.permalink)}">${escapeHtml(translate(locale, "share.fullRecipes"))}</a>`
+    : null;
+  if (asLink && link) {
+    return [
+      header,
+      menu.recipes
+        .map((recipe, index) => `${index + 1}. ${escapeHtml(recipe.name)}`)
+        .join("\n"),
+      link
+    ].join("\n\n");
+  }
+  return [
+    header,
+    ...menu.recipes.map((recipe, index) =>
+      telegramRecipe(recipe, index, locale)
+    ),
+    ...(link ? [link] : [])
+  ].join("\n\n");
+}
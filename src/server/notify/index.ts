@@ -0,0 +1,71 @@
+import { createEmailNotifier, readEmailConfig } from "@/server/notify/email";
+import { createSmsNotifier, readSmsConfig } from "@/server/notify/sms";
+import {
+  createTelegramNotifier,
+  readTelegramConfig
+} from "@/server/notify/telegram";
+import type { Notifier } from "@/server/notify/types";
+import { createWhatsAppNotifier } from "@/server/notify/whatsapp";
+import { readWhatsAppEnv } from "@/server/whatsapp/config";
+import {
+  shareChannels,
+  type ShareChannel,
+  type ShareChannelStatus
+} from "@/shared/notify";
+
+export { isShareRecipientAllowed } from "@/server/notify/recipients";
+export { NotifierError } from "@/server/notify/types";
+export type { Notifier, ShareOptions } from "@/server/notify/types";
+
+const MISSING_CONFIG: Record<ShareChannel, string> = {
+  whatsapp:
+    "WhatsApp credentials are not configured. Set WHATSAPP_ACCESS_TOKEN and WHATSAPP_PHONE_NUMBER_ID.",
+  email: "Email is not configured. Set SMTP_HOST and SMTP_FROM.",
+  telegram: "Telegram is not configured. Set TELEGRAM_BOT_TOKEN.",
+  sms: "SMS is not configured. Set TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM."
+};
+
+export type NotifierResolution =
+  { ok: true; notifier: Notifier } | { ok: false; error: string };
+
+/** Builds the adapter for `channel` from environment variables. */
+export function resolveNotifier(channel: ShareChannel): NotifierResolution {
+  const notifier = createConfiguredNotifier(channel);
+  return notifier
+    ? { ok: true, notifier }
+    : { ok: false, error: MISSING_CONFIG[channel] };
+}
+
+function createConfiguredNotifier(channel: ShareChannel): Notifier | null {
+  switch (channel) {
+    case "whatsapp": {
+      const env = readWhatsAppEnv();
+      const { token, phoneId } = env;
+      return token && phoneId
+        ? createWhatsAppNotifier({ ...env, token, phoneId })
+        : null;
+    }
+    case "email": {
+      const config = readEmailConfig();
+      return config ? createEmailNotifier(config) : null;
+    }
+    case "telegram": {
+      const config = readTelegramConfig();
+      return config ? createTelegramNotifier(config) : null;
+    }
+    // Numbers without a country code are read the same way as WhatsApp's.
+    case "sms": {
+      const config = readSmsConfig();
+      return config
+        ? createSmsNotifier(config, readWhatsAppEnv().defaultCountry)
+        : null;
+    }
+  }
+}
+
+export function listShareChannels(): ShareChannelStatus[] {
+  return shareChannels.map((channel) => ({
+    channel,
+    configured: createConfiguredNotifier(channel) !== null
+  }));
+}
@@ -0,0 +1,48 @@
+import { getAccountStore, getContactStore } from "@/server/storage";
+import type { User } from "@/shared/account";
+import type { ShareChannel } from "@/shared/notify";
+
+/**
+ * `SHARE_ALLOWED_RECIPIENTS`, comma-separated: addresses every cook may share
+ * to. "+4477*" allows numbers by prefix and "*@example.com" an email domain.
+ */
+function readShareAllowlist() {
+  return (process.env.SHARE_ALLOWED_RECIPIENTS ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function matchesEntry(entry: string, address: string) {
+  if (entry.endsWith("*")) return address.startsWith(entry.slice(0, -1));
+  if (entry.startsWith("*")) return address.endsWith(entry.slice(1));
+  return entry === address;
+}
+
+/**
+ * Whether `user` may share to `address`, as parsed by the channel's
+ * notifier: their own email or WhatsApp number, an address on the
+ * allowlist, or a number in their contact book that another cook has
+ * verified. A contact alone proves nothing, since anyone can type in any
+ * number, and anything else would let an account send our text to
+ * strangers.
+ */
+export async function isShareRecipientAllowed(
+  user: User,
+  channel: ShareChannel,
+  address: string
+) {
+  const normalized = address.toLowerCase();
+  if (normalized === user.email || address === user.profile.whatsappNumber) {
+    return true;
+  }
+  if (readShareAllowlist().some((entry) => matchesEntry(entry, normalized))) {
+    return true;
+  }
+  if (channel !== "sms" && channel !== "whatsapp") return false;
+  const { contacts } = await getContactStore(user.id).list();
+  if (!contacts.some((contact) => contact.phoneNumber === address)) {
+    return false;
+  }
+  return (await getAccountStore().findByWhatsAppNumber(address)) !== null;
+}
@@ -0,0 +1,95 @@
+import { formatPlainMenu, formatPlainMenuLink } from "@/server/notify/format";
+import { NotifierError, type Notifier } from "@/server/notify/types";
+import { chunkMessage } from "@/server/whatsapp/chunk";
+import { normalizePhoneNumber, type CountryCode } from "@/shared/phone";
+
+export type SmsConfig = {
+  accountSid: string;
+  authToken: string;
+  /** Sending number in E.164, or a Messaging Service SID (`MG…`). */
+  from: string;
+  /** Override to point at a stub API during local testing. */
+  apiUrl: string;
+};
+
+// Twilio concatenates longer bodies itself, up to this many characters.
+const SMS_TEXT_LIMIT = 1600;
+
+/** Null until the TWILIO_* variables are set. */
+export function readSmsConfig(): SmsConfig | null {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const from = process.env.TWILIO_FROM;
+  if (!accountSid || !authToken || !from) return null;
+  return {
+    accountSid,
+    authToken,
+    from,
+    apiUrl: (process.env.TWILIO_API_URL ?? "https://api.twilio.com").replace(
+      /\/+$/,
+      ""
+    )
+  };
+}
+
+export function createSmsNotifier(
+  config: SmsConfig,
+  country: CountryCode | undefined
+): Notifier {
+  const authorization = `Basic ${Buffer.from(
+    `${config.accountSid}:${config.authToken}`
+  ).toString("base64")}`;
+
+  const sendMessage = async (to: string, body: string) => {
+    const form = new URLSearchParams({ To: to, Body: body });
+    form.set(
+      config.from.startsWith("MG") ? "MessagingServiceSid" : "From",
+      config.from
+    );
+    const response = await fetch(
+      `${config.apiUrl}/2010-04-01/Accounts/${encodeURIComponent(config.accountSid)}/Messages.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: authorization,
+          "Content-Type": "application/x-www-form-urlencoded"
+        },
+        body: form
+      }
+    );
+    const json = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new NotifierError(
+        "sms",
+        `SMS API error (${response.status}): ${json?.message ?? "unknown error"}`,
+        response.status
+      );
+    }
+    return typeof json?.sid === "string" ? json.sid : "";
+  };
+
+  return {
+    channel: "sms",
+    parseRecipient(input) {
+      const phone = normalizePhoneNumber(input, country);
+      return phone.ok
+        ? { ok: true, address: phone.e164 }
+        : { ok: false, error: phone.error };
+    },
+    // Every segment costs money, so the link form is used whenever there is
+    // a saved menu to link to.
+    async send(to, menu, { asLink }) {
+      const text =
+        menu.permalink &&
+        (asLink || formatPlainMenu(menu).length > SMS_TEXT_LIMIT)
+          ? formatPlainMenuLink(menu, menu.permalink)
+          : formatPlainMenu(menu);
+      const ids: string[] = [];
+      for (const chunk of chunkMessage(text, SMS_TEXT_LIMIT)) {
+        const id = await sendMessage(to, chunk);
+        if (id) ids.push(id);
+      }
+      return ids;
+    }
+  };
+}
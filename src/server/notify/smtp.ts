@@ -0,0 +1,232 @@
+import { randomUUID } from "crypto";
+import { once } from "events";
+import net, { type Socket } from "net";
+import tls from "tls";
+
+export type SmtpOptions = {
+  host: string;
+  port: number;
+  /** Connect with TLS from the start (port 465) instead of STARTTLS. */
+  secure: boolean;
+  username?: string;
+  password?: string;
+  timeoutMs?: number;
+};
+
+export type MailMessage = {
+  /** `Name <address>` or a bare address. */
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+type Reply = { code: number; text: string };
+
+export class SmtpError extends Error {
+  constructor(
+    readonly code: number | null,
+    message: string
+  ) {
+    super(message);
+    this.name = "SmtpError";
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+function addressOf(mailbox: string) {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
+
+function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function base64Lines(text: string) {
+  return (
+    Buffer.from(text, "utf8")
+      .toString("base64")
+      .match(/.{1,76}/g) ?? []
+  ).join("\r\n");
+}
+
+/** A multipart/alternative message; bodies are base64 so line length never matters. */
+export function buildMimeMessage(message: MailMessage) {
+  const boundary = `remix-${randomUUID()}`;
+  const domain = addressOf(message.from).split("@")[1] ?? "localhost";
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.html),
+    `--${boundary}--`,
+    ""
+  ].join("\r\n");
+}
+
+// Reads SMTP replies, joining multi-line ones ("250-…" up to "250 …").
+function createReplyReader() {
+  let buffer = "";
+  let lines: string[] = [];
+  const replies: Reply[] = [];
+  let waiting: ((reply: Reply | Error) => void) | null = null;
+  let failure: Error | null = null;
+
+  const flush = () => {
+    if (!waiting) return;
+    const next = replies.shift() ?? failure;
+    if (!next) return;
+    const resolve = waiting;
+    waiting = null;
+    resolve(next);
+  };
+
+  return {
+    push(chunk: Buffer) {
+      buffer += chunk.toString("utf8");
+      let end: number;
+      while ((end = buffer.indexOf("\n")) >= 0) {
+        const line = buffer.slice(0, end).replace(/\r$/, "");
+        buffer = buffer.slice(end + 1);
+        lines.push(line.slice(4));
+        if (line[3] !== "-") {
+          replies.push({
+            code: Number(line.slice(0, 3)),
+            text: lines.join("\n")
+          });
+          lines = [];
+        }
+      }
+      flush();
+    },
+    fail(error: Error) {
+      failure = error;
+      flush();
+    },
+    next() {
+      return new Promise<Reply>((resolve, reject) => {
+        waiting = (reply) =>
+          reply instanceof Error ? reject(reply) : resolve(reply);
+        flush();
+      });
+    }
+  };
+}
+
+async function connect(options: SmtpOptions): Promise<Socket> {
+  const socket = options.secure
+    ? tls.connect({
+        host: options.host,
+        port: options.port,
+        servername: options.host
+      })
+    : net.connect({ host: options.host, port: options.port });
+  await once(socket, options.secure ? "secureConnect" : "connect");
+  return socket;
+}
+
+/**
+ * Sends one message over SMTP. Enough of the protocol for a relay or a
+ * local capture server: EHLO, STARTTLS when offered, AUTH PLAIN, one
+ * recipient. Credentials are never sent over an unencrypted connection
+ * except to localhost.
+ */
+export async function sendMail(
+  options: SmtpOptions,
+  message: MailMessage
+): Promise<{ messageId: string | null }> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let socket = await connect(options);
+  let encrypted = options.secure;
+  const reader = createReplyReader();
+
+  const attach = (target: Socket) => {
+    target.setTimeout(timeoutMs, () =>
+      target.destroy(new SmtpError(null, "SMTP server timed out."))
+    );
+    target.on("data", (chunk: Buffer) => reader.push(chunk));
+    target.on("error", (error) => reader.fail(error));
+    target.on("close", () =>
+      reader.fail(new SmtpError(null, "SMTP connection closed."))
+    );
+  };
+
+  const expect = async (step: string, codes: number[]) => {
+    const reply = await reader.next();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(
+        reply.code,
+        `SMTP ${step} failed (${reply.code}): ${reply.text}`
+      );
+    }
+    return reply;
+  };
+
+  const command = (line: string, step: string, codes: number[]) => {
+    socket.write(`${line}\r\n`);
+    return expect(step, codes);
+  };
+
+  attach(socket);
+  try {
+    await expect("greeting", [220]);
+    let features = await command("EHLO kitchen-remix", "EHLO", [250]);
+
+    if (!encrypted && /^STARTTLS$/im.test(features.text)) {
+      await command("STARTTLS", "STARTTLS", [220]);
+      socket.removeAllListeners("data");
+      socket.removeAllListeners("close");
+      socket = tls.connect({ socket, servername: options.host });
+      await once(socket, "secureConnect");
+      attach(socket);
+      encrypted = true;
+      features = await command("EHLO kitchen-remix", "EHLO", [250]);
+    }
+
+    if (options.username) {
+      const local = ["localhost", "127.0.0.1", "::1"].includes(options.host);
+      if (!encrypted && !local) {
+        throw new SmtpError(
+          null,
+          "The SMTP server does not offer TLS; refusing to send credentials."
+        );
+      }
+      const credentials = Buffer.from(
+        `\0${options.username}\0${options.password ?? ""}`,
+        "utf8"
+      ).toString("base64");
+      await command(`AUTH PLAIN ${credentials}`, "AUTH", [235]);
+    }
+
+    await command(`MAIL FROM:<${addressOf(message.from)}>`, "MAIL FROM", [250]);
+    await command(`RCPT TO:<${addressOf(message.to)}>`, "RCPT TO", [250, 251]);
+    await command("DATA", "DATA", [354]);
+    // Lines starting with "." are escaped by doubling it (RFC 5321 4.5.2).
+    const data = buildMimeMessage(message).replace(/^\./gm, "..");
+    const accepted = await command(`${data}\r\n.`, "DATA", [250]);
+    socket.write("QUIT\r\n");
+    return {
+      messageId: accepted.text.match(/(?:queued as|id=?)\s*(\S+)/i)?.[1] ?? null
+    };
+  } finally {
+    socket.end();
+  }
+}
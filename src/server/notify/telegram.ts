@@ -0,0 +1,78 @@
+import { formatTelegramMenu } from "@/server/notify/format";
+import { NotifierError, type Notifier } from "@/server/notify/types";
+import { chunkMessage } from "@/server/whatsapp/chunk";
+
+export type TelegramConfig = {
+  token: string;
+  /** Override to point at a stub Bot API during local testing. */
+  apiUrl: string;
+};
+
+const TELEGRAM_TEXT_LIMIT = 4096;
+
+/** Null until TELEGRAM_BOT_TOKEN is set. */
+export function readTelegramConfig(): TelegramConfig | null {
+  const token = process.env.TELEGRAM_BOT_TOKEN;
+  if (!token) return null;
+  return {
+    token,
+    apiUrl: (
+      process.env.TELEGRAM_API_URL ?? "https://api.telegram.org"
+    ).replace(/\/+$/, "")
+  };
+}
+
+// Numeric chat ids (negative for groups) or a public channel's @username.
+const CHAT_ID_PATTERN = /^(-?\d{1,20}|@[a-zA-Z][a-zA-Z0-9_]{4,31})$/;
+
+export function createTelegramNotifier(config: TelegramConfig): Notifier {
+  const sendMessage = async (chatId: string, text: string) => {
+    const response = await fetch(
+      `${config.apiUrl}/bot${config.token}/sendMessage`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chat_id: chatId,
+          text,
+          parse_mode: "HTML",
+          disable_web_page_preview: true
+        })
+      }
+    );
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || !body?.ok) {
+      throw new NotifierError(
+        "telegram",
+        `Telegram API error (${response.status}): ${body?.description ?? "unknown error"}`,
+        response.status
+      );
+    }
+    return String(body.result?.message_id ?? "");
+  };
+
+  return {
+    channel: "telegram",
+    parseRecipient(input) {
+      const chatId = input.trim();
+      return CHAT_ID_PATTERN.test(chatId)
+        ? { ok: true, address: chatId }
+        : {
+            ok: false,
+            error:
+              "Use a numeric Telegram chat id or a public channel's @username."
+          };
+    },
+    async send(to, menu, { asLink }) {
+      const ids: string[] = [];
+      for (const chunk of chunkMessage(
+        formatTelegramMenu(menu, asLink),
+        TELEGRAM_TEXT_LIMIT
+      )) {
+        const id = await sendMessage(to, chunk);
+        if (id) ids.push(id);
+      }
+      return ids;
+    }
+  };
+}
@@ -0,0 +1,29 @@
+import type { ShareChannel, SharedMenu } from "@/shared/notify";
+
+export type ParsedRecipient =
+  { ok: true; address: string } | { ok: false; error: string };
+
+export type ShareOptions = {
+  /** Send recipe names and the link instead of the full text, if possible. */
+  asLink: boolean;
+};
+
+/** One share channel. Each adapter renders the menu in its own format. */
+export type Notifier = {
+  channel: ShareChannel;
+  /** Validates and normalizes what the user typed as the recipient. */
+  parseRecipient(input: string): ParsedRecipient;
+  /** Sends the menu and returns the channel's message ids, if it has any. */
+  send(to: string, menu: SharedMenu, options: ShareOptions): Promise<string[]>;
+};
+
+export class NotifierError extends Error {
+  constructor(
+    readonly channel: ShareChannel,
+    message: string,
+    readonly status: number | null = null
+  ) {
+    super(message);
+    this.name = "NotifierError";
+  }
+}
@@ -0,0 +1,55 @@
+import { NotifierError, type Notifier } from "@/server/notify/types";
+import {
+  createWhatsAppClient,
+  WhatsAppApiError
+} from "@/server/whatsapp/client";
+import { isRecipientAllowed, type WhatsAppEnv } from "@/server/whatsapp/config";
+import { sendLongText } from "@/server/whatsapp/messages";
+import { normalizePhoneNumber } from "@/shared/phone";
+import { formatMenuLinkMessage, formatMenuMessage } from "@/shared/share";
+
+/**
+ * Plain WhatsApp text for the generic share route. `/api/whatsapp` stays the
+ * richer path, with contacts, recipe lists, templates and delivery tracking.
+ */
+export function createWhatsAppNotifier(
+  env: WhatsAppEnv & { token: string; phoneId: string }
+): Notifier {
+  const client = createWhatsAppClient({
+    token: env.token,
+    phoneId: env.phoneId,
+    graphUrl: env.graphUrl
+  });
+  return {
+    channel: "whatsapp",
+    parseRecipient(input) {
+      const phone = normalizePhoneNumber(input, env.defaultCountry);
+      if (!phone.ok) return { ok: false, error: phone.error };
+      return isRecipientAllowed(env, phone.e164)
+        ? { ok: true, address: phone.e164 }
+        : {
+            ok: false,
+            error: `${phone.e164} is not on the recipient allowlist.`
+          };
+    },
+    async send(to, menu, { asLink }) {
+      const text =
+        asLink && menu.permalink
+          ? formatMenuLinkMessage(
+              menu.summary,
+              menu.recipes,
+              menu.permalink,
+              menu.locale
+            )
+          : formatMenuMessage(menu.summary, menu.recipes, menu.locale);
+      try {
+        return await sendLongText(client, to, text);
+      } catch (error) {
+        if (error instanceof WhatsAppApiError) {
+          throw new NotifierError("whatsapp", error.message, error.status);
+        }
+        throw error;
+      }
+    }
+  };
+}
@@ -0,0 +1,26 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export type RequestContext = {
+  requestId: string;
+  method: string;
+  /** The route's path pattern, e.g. `/api/history/[id]`. */
+  route: string;
+};
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestContext<T>(
+  context: RequestContext,
+  run: () => T
+): T {
+  return storage.run(context, run);
+}
+
+/** The request being handled, or null outside a route handler. */
+export function currentRequest(): RequestContext | null {
+  return storage.getStore() ?? null;
+}
+
+export function currentRequestId() {
+  return storage.getStore()?.requestId ?? null;
+}
@@ -0,0 +1,15 @@
+export { currentRequestId } from "@/server/observability/context";
+export { log, type LogFields, type LogLevel } from "@/server/observability/log";
+export {
+  counter,
+  histogram,
+  renderMetrics,
+  type Counter,
+  type Histogram,
+  type MetricLabels
+} from "@/server/observability/metrics";
+export {
+  readRequestId,
+  REQUEST_ID_HEADER
+} from "@/server/observability/request-id";
+export { instrument } from "@/server/observability/route";
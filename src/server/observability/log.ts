@@ -0,0 +1,62 @@
+import { currentRequest } from "@/server/observability/context";
+
+const levels = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof levels)[number];
+
+/** Extra fields for a log line; an `error` is expanded into its details. */
+export type LogFields = Record<string, unknown> & { error?: unknown };
+
+function readMinimumLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL?.trim().toLowerCase();
+  return levels.find((candidate) => candidate === level) ?? "info";
+}
+
+function describeError(error: unknown): unknown {
+  if (!(error instanceof Error)) return error;
+  // Error classes here carry what went wrong upstream as `code`, `status`
+  // or `issues`; those are worth more than the stack when reading logs.
+  const { code, status, issues } = error as Error & Record<string, unknown>;
+  return {
+    name: error.name,
+    message: error.message,
+    ...(code !== undefined ? { code } : {}),
+    ...(status !== undefined ? { status } : {}),
+    ...(issues !== undefined ? { issues } : {}),
+    stack: error.stack,
+    ...(error.cause !== undefined ? { cause: describeError(error.cause) } : {})
+  };
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}) {
+  if (levels.indexOf(level) < levels.indexOf(readMinimumLevel())) return;
+
+  const { error, ...rest } = fields;
+  const request = currentRequest();
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...(request ? { requestId: request.requestId, route: request.route } : {}),
+    ...rest,
+    ...(error !== undefined ? { error: describeError(error) } : {})
+  });
+
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
+}
+
+/**
+ * Writes one JSON object per line, tagged with the id of the request being
+ * handled. `LOG_LEVEL` (`debug`, `info`, `warn` or `error`) sets the
+ * quietest level written; the default is `info`.
+ */
+export const log = {
+  debug: (message: string, fields?: LogFields) =>
+    write("debug", message, fields),
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) =>
+    write("error", message, fields)
+};
@@ -0,0 +1,143 @@
+export type MetricLabels = Record<string, string>;
+
+export type Counter = {
+  inc(labels?: MetricLabels, value?: number): void;
+};
+
+export type Histogram = {
+  observe(labels: MetricLabels, value: number): void;
+};
+
+type Series = {
+  labels: MetricLabels;
+  value: number;
+  /** Histograms only: observations at or under each bucket bound. */
+  buckets?: number[];
+  sum?: number;
+};
+
+type Metric = {
+  name: string;
+  help: string;
+  type: "counter" | "histogram";
+  bucketBounds: number[];
+  series: Map<string, Series>;
+};
+
+/** Seconds; spans a quick storage call up to a slow multi-recipe generation. */
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120
+];
+
+// Counters live in memory, so each instance exposes its own and Prometheus
+// sums them across instances.
+const registry = new Map<string, Metric>();
+
+function register(
+  name: string,
+  help: string,
+  type: Metric["type"],
+  bucketBounds: number[] = []
+): Metric {
+  let metric = registry.get(name);
+  if (!metric) {
+    metric = { name, help, type, bucketBounds, series: new Map() };
+    registry.set(name, metric);
+  }
+  return metric;
+}
+
+function seriesFor(metric: Metric, labels: MetricLabels): Series {
+  const sorted = Object.fromEntries(
+    Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))
+  );
+  const key = JSON.stringify(sorted);
+  let series = metric.series.get(key);
+  if (!series) {
+    series =
+      metric.type === "histogram"
+        ? {
+            labels: sorted,
+            value: 0,
+            buckets: metric.bucketBounds.map(() => 0),
+            sum: 0
+          }
+        : { labels: sorted, value: 0 };
+    metric.series.set(key, series);
+  }
+  return series;
+}
+
+export function counter(name: string, help: string): Counter {
+  const metric = register(name, help, "counter");
+  return {
+    inc(labels = {}, value = 1) {
+      if (value < 0 || !Number.isFinite(value)) return;
+      seriesFor(metric, labels).value += value;
+    }
+  };
+}
+
+export function histogram(
+  name: string,
+  help: string,
+  buckets: number[] = DEFAULT_BUCKETS
+): Histogram {
+  const metric = register(name, help, "histogram", buckets);
+  return {
+    observe(labels, value) {
+      if (!Number.isFinite(value)) return;
+      const series = seriesFor(metric, labels);
+      series.value += 1;
+      series.sum! += value;
+      metric.bucketBounds.forEach((bound, index) => {
+        if (value <= bound) series.buckets![index] += 1;
+      });
+    }
+  };
+}
+
+function escapeLabelValue(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels) {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+function renderMetric(metric: Metric) {
+  const lines = [
+    `# HELP ${metric.name} ${metric.help}`,
+    `# TYPE ${metric.name} ${metric.type}`
+  ];
+  for (const series of metric.series.values()) {
+    if (metric.type === "counter") {
+      lines.push(
+        `${metric.name}${formatLabels(series.labels)} ${series.value}`
+      );
+      continue;
+    }
+    metric.bucketBounds.forEach((bound, index) =>
+      lines.push(
+        `${metric.name}_bucket${formatLabels({ ...series.labels, le: String(bound) })} ${series.buckets![index]}`
+      )
+    );
+    lines.push(
+      `${metric.name}_bucket${formatLabels({ ...series.labels, le: "+Inf" })} ${series.value}`,
+      `${metric.name}_sum${formatLabels(series.labels)} ${series.sum}`,
+      `${metric.name}_count${formatLabels(series.labels)} ${series.value}`
+    );
+  }
+  return lines.join("\n");
+}
+
+/** Every metric in the Prometheus text exposition format. */
+export function renderMetrics() {
+  return `${[...registry.values()].map(renderMetric).join("\n")}\n`;
+}
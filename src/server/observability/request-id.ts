@@ -0,0 +1,13 @@
+// Imported by the middleware, so this file must stay free of Node APIs.
+
+export const REQUEST_ID_HEADER = "x-request-id";
+
+// Ids from a proxy in front of the app are kept, as long as they cannot
+// smuggle anything odd into a log line.
+const REQUEST_ID_PATTERN = /^[\w.:-]{8,128}$/;
+
+/** The id a proxy or the middleware already gave the request, or a new one. */
+export function readRequestId(headers: Headers) {
+  const given = headers.get(REQUEST_ID_HEADER)?.trim();
+  return given && REQUEST_ID_PATTERN.test(given) ? given : crypto.randomUUID();
+}
@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { runWithRequestContext } from "@/server/observability/context";
+import { log } from "@/server/observability/log";
+import { counter, histogram } from "@/server/observability/metrics";
+import {
+  readRequestId,
+  REQUEST_ID_HEADER
+} from "@/server/observability/request-id";
+
+type RouteHandler<Context> = (
+  request: Request,
+  context: Context
+) => Promise<Response>;
+
+const requestsTotal = counter(
+  "http_requests_total",
+  "API requests handled, by route, method and status."
+);
+const requestDuration = histogram(
+  "http_request_duration_seconds",
+  "Time until an API route returned its response headers."
+);
+
+/**
+ * `/api/history/abc` as `/api/history/[id]`, so each route is one label
+ * value however many ids it is called with.
+ */
+function routePattern(pathname: string, context: unknown) {
+  const params =
+    (context as { params?: Record<string, string | string[]> } | undefined)
+      ?.params ?? {};
+  const names = new Map<string, string>();
+  for (const [name, value] of Object.entries(params)) {
+    if (typeof value === "string") {
+      names.set(encodeURIComponent(value), `[${name}]`);
+    }
+  }
+  return pathname
+    .split("/")
+    .map((segment) => names.get(segment) ?? segment)
+    .join("/");
+}
+
+// Error bodies carry the request id too, so a user quoting an error message
+// leads straight to the matching log lines.
+async function withRequestId(response: Response, requestId: string) {
+  const isJson = response.headers
+    .get("content-type")
+    ?.includes("application/json");
+  if (response.status >= 400 && isJson) {
+    const body: unknown = await response
+      .clone()
+      .json()
+      .catch(() => null);
+    if (body && typeof body === "object" && !Array.isArray(body)) {
+      const headers = new Headers(response.headers);
+      headers.delete("content-length");
+      headers.set(REQUEST_ID_HEADER, requestId);
+      return NextResponse.json(
+        { ...body, requestId },
+        { status: response.status, headers }
+      );
+    }
+  }
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  return response;
+}
+
+/**
+ * Wraps a route handler so it runs with a request id, which its log lines
+ * carry and its response returns in `X-Request-Id` (and in the body of
+ * errors), and so its status and latency reach `/api/metrics`.
+ */
+export function instrument<Context = unknown>(
+  handler: RouteHandler<Context>
+): RouteHandler<Context> {
+  return (request, context) => {
+    const requestId = readRequestId(request.headers);
+    const route = routePattern(new URL(request.url).pathname, context);
+    const { method } = request;
+
+    return runWithRequestContext({ requestId, method, route }, async () => {
+      const started = performance.now();
+      let response: Response;
+      try {
+        response = await handler(request, context);
+      } catch (error) {
+        log.error("Unhandled route error", { error });
+        response = NextResponse.json(
+          { error: "Something went wrong on our side." },
+          { status: 500 }
+        );
+      }
+
+      const seconds = (performance.now() - started) / 1000;
+      const status = String(response.status);
+      requestsTotal.inc({ route, method, status });
+      requestDuration.observe({ route, method }, seconds);
+      log.info("Request handled", {
+        method,
+        status: response.status,
+        durationMs: Math.round(seconds * 1000)
+      });
+      return withRequestId(response, requestId);
+    });
+  };
+}
@@ -0,0 +1,59 @@
+import { fixtureResponses } from "@/server/providers/fixtures";
+import type {
+  ModelProvider,
+  ModelRequest,
+  ModelUsage
+} from "@/server/providers/types";
+
+const STREAM_CHUNK_SIZE = 48;
+
+// Roughly four characters a token, so usage metrics move offline too.
+function estimateUsage(request: ModelRequest, text: string): ModelUsage {
+  return {
+    inputTokens: Math.ceil(request.prompt.length / 4),
+    outputTokens: Math.ceil(text.length / 4)
+  };
+}
+
+function readDelay() {
+  const delay = Number(process.env.FIXTURE_STREAM_DELAY_MS ?? 15);
+  return Number.isFinite(delay) && delay > 0 ? delay : 0;
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("Request aborted."));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new Error("Request aborted."));
+    });
+  });
+}
+
+// Returns canned responses so the app can be developed and tested offline.
+export function createFixtureProvider(): ModelProvider {
+  return {
+    name: "fixture",
+    model: "fixture",
+    async complete(request) {
+      const text = JSON.stringify(fixtureResponses[request.task]);
+      return { text, model: "fixture", usage: estimateUsage(request, text) };
+    },
+    async *stream(request) {
+      // Pretty-printed so chunks split mid-token, like real model output does.
+      const text = JSON.stringify(fixtureResponses[request.task], null, 2);
+      const delay = readDelay();
+      for (let offset = 0; offset < text.length; offset += STREAM_CHUNK_SIZE) {
+        if (delay) {
+          await sleep(delay, request.signal);
+        }
+        yield text.slice(offset, offset + STREAM_CHUNK_SIZE);
+      }
+      request.onUsage?.(estimateUsage(request, text), "fixture");
+    }
+  };
+}
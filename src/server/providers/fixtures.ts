@@ -0,0 +1,242 @@
+import type { ModelTask } from "@/server/providers/types";
+
+export const fixtureResponses: Record<ModelTask, unknown> = {
+  recipes: {
+    summary:
+      "I can see half a roast chicken, a bowl of cooked rice, two bell peppers, a few eggs and some wilting spinach, so the menu leans on quick skillet dishes that stretch the chicken.",
+    recipes: [
+      {
+        name: "Chicken Fried Rice",
+        description:
+          "Day-old rice crisped in a hot pan with shredded chicken, peppers and scrambled egg.",
+        servings: 2,
+        prepMinutes: 5,
+        cookMinutes: 10,
+        difficulty: "easy",
+        ingredients: [
+          {
+            quantity: 2,
+            unit: "cup",
+            item: "cooked rice",
+            fromLeftovers: true
+          },
+          {
+            quantity: 1,
+            unit: "cup",
+            item: "shredded roast chicken",
+            fromLeftovers: true
+          },
+          {
+            quantity: 1,
+            unit: null,
+            item: "bell pepper, diced",
+            fromLeftovers: true
+          },
+          {
+            quantity: 2,
+            unit: null,
+            item: "eggs, beaten",
+            fromLeftovers: true
+          },
+          {
+            quantity: 2,
+            unit: "tbsp",
+            item: "soy sauce",
+            fromLeftovers: false
+          },
+          {
+            quantity: 1,
+            unit: "tbsp",
+            item: "neutral oil",
+            fromLeftovers: false
+          }
+        ],
+        steps: [
+          "Heat the oil in a large skillet over high heat.",
+          "Stir-fry the pepper for 2 minutes, then add the rice and press it flat to crisp.",
+          "Push the rice aside, scramble the eggs in the gap and fold everything together.",
+          "Add the chicken and soy sauce and toss until heated through."
+        ],
+        nutrition: {
+          calories: 520,
+          proteinGrams: 28,
+          carbsGrams: 62,
+          fatGrams: 16
+        }
+      },
+      {
+        name: "Spinach and Pepper Frittata",
+        description:
+          "A fluffy oven-finished frittata that rescues the spinach before it turns.",
+        servings: 2,
+        prepMinutes: 5,
+        cookMinutes: 12,
+        difficulty: "easy",
+        ingredients: [
+          { quantity: 4, unit: null, item: "eggs", fromLeftovers: true },
+          {
+            quantity: 2,
+            unit: "handful",
+            item: "spinach",
+            fromLeftovers: true
+          },
+          {
+            quantity: 1,
+            unit: null,
+            item: "bell pepper, sliced",
+            fromLeftovers: true
+          },
+          {
+            quantity: 0.25,
+            unit: "cup",
+            item: "grated cheese (optional)",
+            fromLeftovers: false
+          },
+          {
+            quantity: null,
+            unit: null,
+            item: "salt and pepper",
+            fromLeftovers: false
+          }
+        ],
+        steps: [
+          "Preheat the oven grill to high.",
+          "Soften the pepper in an oven-safe pan, then wilt in the spinach.",
+          "Pour over the seasoned beaten eggs and cook on low until the edges set.",
+          "Top with cheese and grill for 3-4 minutes until puffed and golden."
+        ],
+        nutrition: {
+          calories: 310,
+          proteinGrams: 21,
+          carbsGrams: 8,
+          fatGrams: 21
+        }
+      },
+      {
+        name: "Stuffed Peppers with Chicken Rice",
+        description:
+          "Halved peppers filled with a savory chicken and rice mix, baked until tender.",
+        servings: 2,
+        prepMinutes: 10,
+        cookMinutes: 25,
+        difficulty: "medium",
+        ingredients: [
+          {
+            quantity: 2,
+            unit: null,
+            item: "bell peppers, halved",
+            fromLeftovers: true
+          },
+          {
+            quantity: 1,
+            unit: "cup",
+            item: "cooked rice",
+            fromLeftovers: true
+          },
+          {
+            quantity: 1,
+            unit: "cup",
+            item: "shredded roast chicken",
+            fromLeftovers: true
+          },
+          {
+            quantity: 0.5,
+            unit: "cup",
+            item: "tomato sauce",
+            fromLeftovers: false
+          },
+          {
+            quantity: 1,
+            unit: "tsp",
+            item: "dried oregano",
+            fromLeftovers: false
+          }
+        ],
+        steps: [
+          "Preheat the oven to 200°C.",
+          "Mix the rice, chicken, tomato sauce and oregano in a bowl.",
+          "Pack the filling into the pepper halves and place them in a baking dish.",
+          "Cover with foil and bake for 25 minutes, uncovering for the last 5."
+        ],
+        nutrition: {
+          calories: 390,
+          proteinGrams: 30,
+          carbsGrams: 42,
+          fatGrams: 9
+        }
+      }
+    ]
+  },
+  refine: {
+    name: "Spinach and Pepper Frittata",
+    description:
+      "A vegetarian skillet frittata that uses up the eggs, peppers and wilting spinach in one pan.",
+    servings: 2,
+    prepMinutes: 5,
+    cookMinutes: 12,
+    difficulty: "easy",
+    ingredients: [
+      { quantity: 4, unit: null, item: "eggs, beaten", fromLeftovers: true },
+      {
+        quantity: 1,
+        unit: null,
+        item: "bell pepper, sliced",
+        fromLeftovers: true
+      },
+      { quantity: 2, unit: "cup", item: "spinach", fromLeftovers: true },
+      { quantity: 1, unit: "tbsp", item: "olive oil", fromLeftovers: false },
+      {
+        quantity: null,
+        unit: null,
+        item: "salt and pepper",
+        fromLeftovers: false
+      }
+    ],
+    steps: [
+      "Heat the oil in an ovenproof skillet and soften the pepper for 3 minutes.",
+      "Stir in the spinach until it wilts, then season well.",
+      "Pour in the eggs and cook gently until the edges set.",
+      "Finish under a hot grill until the top is golden and just set."
+    ],
+    nutrition: {
+      calories: 260,
+      proteinGrams: 15,
+      carbsGrams: 6,
+      fatGrams: 19
+    }
+  },
+  detect: {
+    ingredients: [
+      {
+        name: "roast chicken",
+        quantity: "about half a bird",
+        confidence: 0.92,
+        freshness: "fresh"
+      },
+      {
+        name: "cooked rice",
+        quantity: "about 2 cups",
+        confidence: 0.81,
+        freshness: "use-soon"
+      },
+      {
+        name: "bell peppers",
+        quantity: "2",
+        confidence: 0.88,
+        freshness: "fresh"
+      },
+      {
+        name: "eggs",
+        quantity: "4-6",
+        confidence: 0.76,
+        freshness: "fresh"
+      },
+      {
+        name: "spinach",
+        quantity: "2 handfuls",
+        confidence: 0.64,
+        freshness: "past-prime"
+      }
+    ]
+  }
+};
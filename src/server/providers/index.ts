@@ -0,0 +1,75 @@
+import { createFixtureProvider } from "@/server/providers/fixture";
+import { instrumentProvider } from "@/server/providers/instrument";
+import { createLocalProvider } from "@/server/providers/local";
+import { createOpenAIProvider } from "@/server/providers/openai";
+import type { ModelProvider } from "@/server/providers/types";
+
+export type {
+  ModelImage,
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+  ModelResponseSchema,
+  ModelTask,
+  ModelUsage
+} from "@/server/providers/types";
+
+type ProviderEnv = {
+  provider: string;
+  openaiKey: string | undefined;
+  openaiModel: string;
+  localBaseUrl: string;
+  localModel: string;
+  localKey: string | undefined;
+  localStructuredOutput: boolean;
+};
+
+function readEnv(): ProviderEnv {
+  return {
+    provider: (process.env.RECIPE_PROVIDER ?? "openai").trim().toLowerCase(),
+    openaiKey: process.env.OPENAI_API_KEY,
+    openaiModel: process.env.OPENAI_MODEL ?? "gpt-4o-mini",
+    localBaseUrl:
+      process.env.LOCAL_MODEL_BASE_URL ?? "http://localhost:11434/v1",
+    localModel: process.env.LOCAL_MODEL_NAME ?? "llava",
+    localKey: process.env.LOCAL_MODEL_API_KEY,
+    localStructuredOutput:
+      process.env.LOCAL_MODEL_STRUCTURED_OUTPUT?.trim().toLowerCase() !==
+      "false"
+  };
+}
+
+function createProvider(env: ProviderEnv): ModelProvider {
+  switch (env.provider) {
+    case "openai":
+      if (!env.openaiKey) {
+        throw new Error("OPENAI_API_KEY is not set on the server.");
+      }
+      return createOpenAIProvider({
+        apiKey: env.openaiKey,
+        model: env.openaiModel
+      });
+    case "local":
+      return createLocalProvider({
+        baseUrl: env.localBaseUrl,
+        model: env.localModel,
+        apiKey: env.localKey,
+        structuredOutput: env.localStructuredOutput
+      });
+    case "fixture":
+      return createFixtureProvider();
+    default:
+      throw new Error(
+        `Unknown RECIPE_PROVIDER "${env.provider}". Use openai, local or fixture.`
+      );
+  }
+}
+
+/**
+ * Picks the model provider from `RECIPE_PROVIDER` (`openai`, `local` or
+ * `fixture`). Throws with a user-facing message when it is misconfigured.
+ * Every call it makes is timed and its token usage recorded.
+ */
+export function resolveModelProvider(): ModelProvider {
+  return instrumentProvider(createProvider(readEnv()));
+}
@@ -0,0 +1,115 @@
+import { counter, histogram, log } from "@/server/observability";
+import { estimateCostUsd } from "@/server/providers/pricing";
+import type {
+  ModelProvider,
+  ModelRequest,
+  ModelUsage
+} from "@/server/providers/types";
+
+type Outcome = "ok" | "error" | "aborted";
+
+const modelRequests = counter(
+  "model_requests_total",
+  "Model calls, by provider, model, task and outcome."
+);
+const modelDuration = histogram(
+  "model_request_duration_seconds",
+  "Upstream model latency, until the full response or the end of the stream."
+);
+const modelTokens = counter(
+  "model_tokens_total",
+  "Tokens the provider reported, by direction (input or output)."
+);
+const modelCost = counter(
+  "model_cost_usd_total",
+  "Estimated model spend in US dollars, for models with a known price."
+);
+
+type CallRecord = {
+  request: ModelRequest;
+  started: number;
+  outcome: Outcome;
+  /** The model the provider says answered, which may be a dated snapshot. */
+  model?: string;
+  usage?: ModelUsage;
+};
+
+function recordCall(
+  provider: ModelProvider,
+  { request, started, outcome, model = provider.model, usage }: CallRecord
+) {
+  const seconds = (performance.now() - started) / 1000;
+  // Labelled with the configured model so snapshots do not split series.
+  const labels = {
+    provider: provider.name,
+    model: provider.model,
+    task: request.task
+  };
+  modelRequests.inc({ ...labels, outcome });
+  modelDuration.observe({ ...labels, outcome }, seconds);
+
+  const costUsd = usage ? estimateCostUsd(model, usage) : null;
+  if (usage) {
+    modelTokens.inc({ ...labels, type: "input" }, usage.inputTokens);
+    modelTokens.inc({ ...labels, type: "output" }, usage.outputTokens);
+  }
+  if (costUsd !== null) modelCost.inc(labels, costUsd);
+
+  (outcome === "error" ? log.warn : log.info)("Model call finished", {
+    provider: provider.name,
+    model,
+    task: request.task,
+    outcome,
+    latencyMs: Math.round(seconds * 1000),
+    ...(usage ?? {}),
+    ...(costUsd !== null ? { costUsd } : {})
+  });
+}
+
+/** Times every call to `provider` and records the tokens and cost it reports. */
+export function instrumentProvider(provider: ModelProvider): ModelProvider {
+  const failed = (request: ModelRequest): Outcome =>
+    request.signal?.aborted ? "aborted" : "error";
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    async complete(request) {
+      const started = performance.now();
+      try {
+        const response = await provider.complete(request);
+        recordCall(provider, {
+          request,
+          started,
+          outcome: "ok",
+          model: response.model,
+          usage: response.usage
+        });
+        return response;
+      } catch (error) {
+        recordCall(provider, { request, started, outcome: failed(request) });
+        throw error;
+      }
+    },
+    async *stream(request) {
+      const started = performance.now();
+      const call: CallRecord = { request, started, outcome: "aborted" };
+      try {
+        yield* provider.stream({
+          ...request,
+          onUsage: (usage, model) => {
+            Object.assign(call, { usage, model });
+            request.onUsage?.(usage, model);
+          }
+        });
+        call.outcome = "ok";
+      } catch (error) {
+        call.outcome = failed(request);
+        throw error;
+      } finally {
+        // Also reached when the caller stops reading early, as an abort.
+        recordCall(provider, call);
+      }
+    }
+  };
+}
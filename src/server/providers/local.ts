@@ -0,0 +1,111 @@
+import OpenAI from "openai";
+import type {
+  ModelProvider,
+  ModelRequest,
+  ModelUsage
+} from "@/server/providers/types";
+
+type LocalProviderOptions = {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  /** Send JSON schemas as `response_format`; some servers reject it. */
+  structuredOutput?: boolean;
+};
+
+function buildMessages(request: ModelRequest) {
+  return [
+    {
+      role: "user" as const,
+      content: [
+        { type: "text" as const, text: request.prompt },
+        ...request.images.map((image) => ({
+          type: "image_url" as const,
+          image_url: { url: image.dataUrl }
+        }))
+      ]
+    }
+  ];
+}
+
+function buildResponseFormat(request: ModelRequest, structuredOutput: boolean) {
+  if (!request.responseSchema || !structuredOutput) return undefined;
+  return {
+    type: "json_schema" as const,
+    json_schema: {
+      name: request.responseSchema.name,
+      schema: request.responseSchema.schema,
+      strict: true
+    }
+  };
+}
+
+function readUsage(
+  usage: { prompt_tokens: number; completion_tokens: number } | undefined
+): ModelUsage | undefined {
+  return usage
+    ? {
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens
+      }
+    : undefined;
+}
+
+// Talks to any server exposing the OpenAI chat completions API, such as
+// Ollama (`http://localhost:11434/v1`) or llama.cpp's `llama-server`.
+export function createLocalProvider(
+  options: LocalProviderOptions
+): ModelProvider {
+  const client = new OpenAI({
+    baseURL: options.baseUrl,
+    // Local servers ignore the key, but the SDK refuses to start without one.
+    apiKey: options.apiKey ?? "local"
+  });
+
+  const structuredOutput = options.structuredOutput ?? true;
+
+  return {
+    name: "local",
+    model: options.model,
+    async complete(request) {
+      const completion = await client.chat.completions.create(
+        {
+          model: options.model,
+          max_tokens: request.maxOutputTokens,
+          messages: buildMessages(request),
+          response_format: buildResponseFormat(request, structuredOutput)
+        },
+        { signal: request.signal }
+      );
+
+      return {
+        text: completion.choices[0]?.message?.content ?? "",
+        model: completion.model || options.model,
+        usage: readUsage(completion.usage)
+      };
+    },
+    async *stream(request) {
+      const chunks = await client.chat.completions.create(
+        {
+          model: options.model,
+          max_tokens: request.maxOutputTokens,
+          messages: buildMessages(request),
+          response_format: buildResponseFormat(request, structuredOutput),
+          stream: true,
+          // Servers without usage reporting ignore this and send none.
+          stream_options: { include_usage: true }
+        },
+        { signal: request.signal }
+      );
+
+      for await (const chunk of chunks) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+        const usage = readUsage(chunk.usage ?? undefined);
+        if (usage) request.onUsage?.(usage, chunk.model || options.model);
+      }
+    }
+  };
+}
@@ -0,0 +1,98 @@
+import OpenAI from "openai";
+import type {
+  ModelProvider,
+  ModelRequest,
+  ModelUsage
+} from "@/server/providers/types";
+
+type OpenAIProviderOptions = {
+  apiKey: string;
+  model: string;
+};
+
+function buildTextFormat(request: ModelRequest) {
+  if (!request.responseSchema) return undefined;
+  return {
+    format: {
+      type: "json_schema" as const,
+      name: request.responseSchema.name,
+      schema: request.responseSchema.schema,
+      strict: true
+    }
+  };
+}
+
+function readUsage(
+  usage: { input_tokens: number; output_tokens: number } | null | undefined
+): ModelUsage | undefined {
+  return usage
+    ? { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens }
+    : undefined;
+}
+
+function buildInput(request: ModelRequest) {
+  return [
+    {
+      role: "user" as const,
+      content: [
+        { type: "input_text" as const, text: request.prompt },
+        ...request.images.map((image) => ({
+          type: "input_image" as const,
+          image_url: image.dataUrl,
+          detail: image.detail ?? "high"
+        }))
+      ]
+    }
+  ];
+}
+
+export function createOpenAIProvider(
+  options: OpenAIProviderOptions
+): ModelProvider {
+  const openai = new OpenAI({ apiKey: options.apiKey });
+
+  return {
+    name: "openai",
+    model: options.model,
+    async complete(request) {
+      const response = await openai.responses.create(
+        {
+          model: options.model,
+          max_output_tokens: request.maxOutputTokens,
+          input: buildInput(request),
+          text: buildTextFormat(request)
+        },
+        { signal: request.signal }
+      );
+
+      return {
+        text: response.output_text ?? "",
+        model: response.model || options.model,
+        usage: readUsage(response.usage)
+      };
+    },
+    async *stream(request) {
+      const events = await openai.responses.create(
+        {
+          model: options.model,
+          max_output_tokens: request.maxOutputTokens,
+          input: buildInput(request),
+          text: buildTextFormat(request),
+          stream: true
+        },
+        { signal: request.signal }
+      );
+
+      for await (const event of events) {
+        if (event.type === "response.output_text.delta") {
+          yield event.delta;
+        } else if (event.type === "response.completed") {
+          const usage = readUsage(event.response.usage);
+          if (usage) {
+            request.onUsage?.(usage, event.response.model || options.model);
+          }
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,51 @@
+import type { ModelUsage } from "@/server/providers/types";
+
+export type ModelPrice = {
+  /** US dollars per million input tokens. */
+  input: number;
+  /** US dollars per million output tokens. */
+  output: number;
+};
+
+/**
+ * List prices for the models this app is usually pointed at. Snapshot
+ * names such as `gpt-4o-mini-2024-07-18` match on their longest prefix.
+ */
+export const modelPrices: Record<string, ModelPrice> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  fixture: { input: 0, output: 0 }
+};
+
+/**
+ * The price of `model`. `MODEL_PRICE_USD=0.15/0.60` (input/output per
+ * million tokens) overrides the table, and prices a local or unlisted
+ * model; without either, null.
+ */
+export function readModelPrice(model: string): ModelPrice | null {
+  const match = process.env.MODEL_PRICE_USD?.trim().match(
+    /^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/
+  );
+  if (match) return { input: Number(match[1]), output: Number(match[2]) };
+
+  const name = Object.keys(modelPrices)
+    .filter((candidate) => model.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return name ? modelPrices[name] : null;
+}
+
+/** Estimated cost in US dollars, or null when the model has no price. */
+export function estimateCostUsd(model: string, usage: ModelUsage) {
+  const price = readModelPrice(model);
+  if (!price) return null;
+  return (
+    (usage.inputTokens * price.input + usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
@@ -0,0 +1,44 @@
+export type ModelTask = "recipes" | "refine" | "detect";
+
+export type ModelImage = {
+  dataUrl: string;
+  detail?: "low" | "high" | "auto";
+};
+
+/** A JSON schema the provider should constrain its output to. */
+export type ModelResponseSchema = {
+  name: string;
+  schema: Record<string, unknown>;
+};
+
+export type ModelRequest = {
+  task: ModelTask;
+  prompt: string;
+  images: ModelImage[];
+  maxOutputTokens: number;
+  /** Honoured by providers with a structured-output mode, ignored otherwise. */
+  responseSchema?: ModelResponseSchema;
+  signal?: AbortSignal;
+  /** Called once a stream ends, when the provider reports token counts. */
+  onUsage?: (usage: ModelUsage, model: string) => void;
+};
+
+export type ModelUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type ModelResponse = {
+  text: string;
+  model: string;
+  usage?: ModelUsage;
+};
+
+export type ModelProvider = {
+  name: string;
+  /** The configured model; responses may name a dated snapshot of it. */
+  model: string;
+  complete(request: ModelRequest): Promise<ModelResponse>;
+  /** Yields the response text in chunks as the model produces it. */
+  stream(request: ModelRequest): AsyncIterable<string>;
+};
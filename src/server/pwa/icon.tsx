@@ -0,0 +1,27 @@
+import { ImageResponse } from "next/og";
+
+/**
+ * The app icon at `size` pixels square. The letters stay inside the middle
+ * 60%, so launchers that crop icons to a circle (maskable) keep them whole.
+ */
+export function renderAppIcon(size: number) {
+  return new ImageResponse(
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        background: "linear-gradient(135deg, #2563eb, #06b6d4 55%, #22c55e)",
+        color: "#f8fafc",
+        fontSize: size * 0.36,
+        fontWeight: 700,
+        letterSpacing: -size * 0.01
+      }}
+    >
+      KR
+    </div>,
+    { width: size, height: size }
+  );
+}
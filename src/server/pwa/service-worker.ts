@@ -0,0 +1,336 @@
+import {
+  OFFLINE_ERROR_CODE,
+  OFFLINE_MENU_LIMIT,
+  OFFLINE_QUEUE_LIMIT,
+  type OfflineErrorBody,
+  type QueuedRequestKind
+} from "@/shared/offline";
+
+/** Bump to drop every cache a previous worker filled. */
+const CACHE_VERSION = "v1";
+
+const queuedPaths: Record<string, QueuedRequestKind> = {
+  "/api/generate": "generate",
+  "/api/whatsapp": "whatsapp"
+};
+
+const offlineBody: OfflineErrorBody = {
+  error: "You are offline. This needs a connection.",
+  code: OFFLINE_ERROR_CODE
+};
+
+/**
+ * The service worker behind `/sw.js`, plain JavaScript since it runs as-is
+ * in the browser:
+ *
+ * - Hashed build assets and icons are served cache-first.
+ * - Pages and GET API calls go to the network first and fall back to their
+ *   last copy, so a signed-in cook still sees the app, pantry and history
+ *   without signal. Each history listing also caches the newest
+ *   `OFFLINE_MENU_LIMIT` menus and drops older ones.
+ * - A generate or WhatsApp POST that cannot reach the server is kept in
+ *   IndexedDB and answered with a 202 `QueuedResponseBody`. The queue is
+ *   replayed in order by Background Sync, or when a page reports it is back
+ *   online in browsers without it. Generations replay without streaming, so
+ *   the finished menu lands in history even when no page is open.
+ * - Signing out empties the caches and the queue, so a shared phone keeps
+ *   nothing of the previous cook.
+ */
+export function serviceWorkerSource() {
+  return `"use strict";
+
+const CACHE_PREFIX = "kitchen-remix-";
+const STATIC_CACHE = CACHE_PREFIX + "static-${CACHE_VERSION}";
+const PAGES_CACHE = CACHE_PREFIX + "pages-${CACHE_VERSION}";
+const API_CACHE = CACHE_PREFIX + "api-${CACHE_VERSION}";
+const CURRENT_CACHES = [STATIC_CACHE, PAGES_CACHE, API_CACHE];
+
+const MENU_LIMIT = ${OFFLINE_MENU_LIMIT};
+const QUEUE_LIMIT = ${OFFLINE_QUEUE_LIMIT};
+const QUEUED_PATHS = ${JSON.stringify(queuedPaths)};
+const OFFLINE_BODY = ${JSON.stringify(offlineBody)};
+const SYNC_TAG = "replay-queue";
+// Statuses worth replaying again later; any other answer is final.
+const RETRY_STATUSES = [408, 429, 503, 504];
+// Sign-in links, downloads and the metrics scrape are never served stale.
+const UNCACHED_API = ["/api/auth/verify", "/api/export", "/api/metrics"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(PAGES_CACHE)
+      .then((cache) => cache.add("/"))
+      .catch(() => undefined)
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter(
+              (name) =>
+                name.startsWith(CACHE_PREFIX) && !CURRENT_CACHES.includes(name)
+            )
+            .map((name) => caches.delete(name))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/api/")) {
+    if (request.method === "POST" && QUEUED_PATHS[url.pathname]) {
+      event.respondWith(sendOrQueue(request, QUEUED_PATHS[url.pathname]));
+    } else if (
+      request.method === "POST" &&
+      url.pathname === "/api/auth/logout"
+    ) {
+      event.respondWith(signOut(request));
+    } else if (request.method !== "GET") {
+      event.respondWith(fetch(request).catch(offlineResponse));
+    } else if (!UNCACHED_API.includes(url.pathname)) {
+      event.respondWith(networkFirstApi(event, request, url));
+    }
+    return;
+  }
+
+  if (request.method !== "GET") return;
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirstPage(request, url));
+  } else if (
+    url.pathname.startsWith("/_next/static/") ||
+    url.pathname.startsWith("/icon") ||
+    url.pathname.startsWith("/apple-icon") ||
+    url.pathname === "/manifest.webmanifest"
+  ) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === SYNC_TAG) event.waitUntil(replayQueue());
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "replay") {
+    event.waitUntil(replayQueue().catch(() => undefined));
+  }
+});
+
+function jsonResponse(body, status) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+function offlineResponse() {
+  return jsonResponse(OFFLINE_BODY, 503);
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(STATIC_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+async function networkFirstPage(request, url) {
+  const cache = await caches.open(PAGES_CACHE);
+  const cacheable = url.pathname === "/" || url.pathname.startsWith("/menu/");
+  try {
+    const response = await fetch(request);
+    if (response.ok && cacheable) {
+      // Re-adding moves the page to the end, so trimming drops the stalest.
+      await cache.delete(url.pathname);
+      await cache.put(url.pathname, response.clone());
+      await trimMenuPages(cache);
+    }
+    return response;
+  } catch (error) {
+    const cached =
+      (await cache.match(url.pathname)) || (await cache.match("/"));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function trimMenuPages(cache) {
+  const pages = (await cache.keys()).filter((key) =>
+    new URL(key.url).pathname.startsWith("/menu/")
+  );
+  for (const key of pages.slice(0, Math.max(0, pages.length - MENU_LIMIT))) {
+    await cache.delete(key);
+  }
+}
+
+async function networkFirstApi(event, request, url) {
+  const cache = await caches.open(API_CACHE);
+  const key = url.pathname + url.search;
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const listing = response.clone();
+      await cache.put(key, response.clone());
+      if (key === "/api/history") {
+        event.waitUntil(
+          keepRecentMenus(cache, listing).catch(() => undefined)
+        );
+      }
+    }
+    return response;
+  } catch (error) {
+    return (await cache.match(key)) || offlineResponse();
+  }
+}
+
+async function keepRecentMenus(cache, listing) {
+  const body = await listing.json();
+  const menus = Array.isArray(body.menus) ? body.menus : [];
+  const keep = menus
+    .slice(0, MENU_LIMIT)
+    .map((menu) => "/api/history/" + encodeURIComponent(menu.id));
+  for (const key of await cache.keys()) {
+    const pathname = new URL(key.url).pathname;
+    if (pathname.startsWith("/api/history/") && !keep.includes(pathname)) {
+      await cache.delete(key);
+    }
+  }
+  for (const pathname of keep) {
+    if (await cache.match(pathname)) continue;
+    const response = await fetch(pathname).catch(() => null);
+    if (response && response.ok) await cache.put(pathname, response);
+  }
+}
+
+async function signOut(request) {
+  await Promise.all([
+    caches.delete(API_CACHE),
+    caches.delete(PAGES_CACHE),
+    withQueue("readwrite", (store) => store.clear())
+  ]).catch(() => undefined);
+  return fetch(request).catch(offlineResponse);
+}
+
+async function sendOrQueue(request, kind) {
+  const body = await request.clone().text();
+  try {
+    return await fetch(request);
+  } catch (error) {
+    // A request the page cancelled is not sent later either.
+    if (request.signal && request.signal.aborted) throw error;
+    const entry = {
+      id: self.crypto.randomUUID(),
+      kind,
+      url: request.url,
+      body,
+      contentType: request.headers.get("Content-Type") || "application/json",
+      queuedAt: Date.now()
+    };
+    await enqueue(entry);
+    if (self.registration.sync) {
+      await self.registration.sync.register(SYNC_TAG).catch(() => undefined);
+    }
+    return jsonResponse({ queued: true, id: entry.id, kind }, 202);
+  }
+}
+
+function openQueue() {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open("kitchen-remix-offline", 1);
+    open.onupgradeneeded = () =>
+      open.result.createObjectStore("queue", { keyPath: "id" });
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+}
+
+async function withQueue(mode, run) {
+  const db = await openQueue();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction("queue", mode);
+    const request = run(transaction.objectStore("queue"));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = transaction.onabort = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+}
+
+async function listQueue() {
+  const entries = await withQueue("readonly", (store) => store.getAll());
+  return entries.sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+async function enqueue(entry) {
+  const waiting = await listQueue();
+  const overflow = Math.max(0, waiting.length - QUEUE_LIMIT + 1);
+  for (const stale of waiting.slice(0, overflow)) {
+    await withQueue("readwrite", (store) => store.delete(stale.id));
+  }
+  await withQueue("readwrite", (store) => store.put(entry));
+}
+
+let replaying = null;
+
+// Sync events and pages coming back online can overlap; one pass at a time
+// keeps each send from going out twice.
+function replayQueue() {
+  if (!replaying) {
+    replaying = replayEntries().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
+
+async function replayEntries() {
+  for (const entry of await listQueue()) {
+    // A network error rejects here, leaving the entry for the next sync.
+    const response = await fetch(entry.url, {
+      method: "POST",
+      headers: { "Content-Type": entry.contentType },
+      body: entry.body,
+      credentials: "same-origin"
+    });
+    if (RETRY_STATUSES.includes(response.status)) {
+      throw new Error("Replaying " + entry.kind + " got " + response.status);
+    }
+    const result = await response.json().catch(() => null);
+    await withQueue("readwrite", (store) => store.delete(entry.id));
+    await notifyPages({
+      type: "replayed",
+      id: entry.id,
+      kind: entry.kind,
+      ok: response.ok,
+      status: response.status,
+      ...(entry.kind === "generate" && response.ok ? { result } : {})
+    });
+  }
+}
+
+async function notifyPages(message) {
+  const pages = await self.clients.matchAll({
+    type: "window",
+    includeUncontrolled: true
+  });
+  for (const page of pages) page.postMessage(message);
+}
+`;
+}
@@ -0,0 +1,172 @@
+import { NextResponse } from "next/server";
+import { log } from "@/server/observability";
+import { createMemoryRateLimitStore } from "@/server/rate-limit/memory-store";
+import { createRedisRateLimitStore } from "@/server/rate-limit/redis-store";
+import type { RateLimitStore } from "@/server/rate-limit/types";
+import { readVisitorId } from "@/server/rate-limit/visitor";
+import { rateLimitMessage } from "@/shared/rate-limit";
+
+export type { RateLimitHit, RateLimitStore } from "@/server/rate-limit/types";
+
+export type RateLimitRule = {
+  /** Requests allowed per visitor in each window. */
+  limit: number;
+  windowSeconds: number;
+};
+
+/**
+ * Defaults for the routes that cost money or send messages: model calls,
+ * shares, sign-in emails and photos sent to the WhatsApp bot. WhatsApp
+ * broadcasts count one hit per recipient.
+ */
+export const rateLimitRules = {
+  detect: { limit: 20, windowSeconds: 10 * 60 },
+  generate: { limit: 10, windowSeconds: 10 * 60 },
+  refine: { limit: 30, windowSeconds: 10 * 60 },
+  whatsapp: { limit: 60, windowSeconds: 60 * 60 },
+  share: { limit: 10, windowSeconds: 60 * 60 },
+  login: { limit: 5, windowSeconds: 15 * 60 },
+  webhook: { limit: 10, windowSeconds: 60 * 60 }
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitName = keyof typeof rateLimitRules;
+
+// Visitors behind one address (an office, a mobile carrier) share its
+// allowance, so it is a few times larger than a single visitor's.
+const SHARED_ADDRESS_FACTOR = 3;
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Counters live in memory unless `RATE_LIMIT_REDIS_URL` and
+ * `RATE_LIMIT_REDIS_TOKEN` point at a Redis REST endpoint, which is needed
+ * once the app runs on more than one instance.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const url =
+      process.env.RATE_LIMIT_REDIS_URL ?? process.env.UPSTASH_REDIS_REST_URL;
+    const token =
+      process.env.RATE_LIMIT_REDIS_TOKEN ??
+      process.env.UPSTASH_REDIS_REST_TOKEN;
+    store =
+      url && token
+        ? createRedisRateLimitStore({ url, token })
+        : createMemoryRateLimitStore();
+  }
+  return store;
+}
+
+/** The rule for `name`, overridden by e.g. `RATE_LIMIT_GENERATE=20/600`. */
+export function readRateLimitRule(name: RateLimitName): RateLimitRule {
+  const override = process.env[`RATE_LIMIT_${name.toUpperCase()}`];
+  const match = override?.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (match && Number(match[2]) > 0) {
+    return { limit: Number(match[1]), windowSeconds: Number(match[2]) };
+  }
+  return rateLimitRules[name];
+}
+
+/**
+ * The caller's address from `X-Forwarded-For`. Proxies append to the header,
+ * so the entry `TRUSTED_PROXY_COUNT` (default 1) from the end is the one our
+ * own proxy saw; anything before it is client-supplied and spoofable.
+ */
+export function clientAddress(request: Request) {
+  const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const hops = Math.max(1, Number(process.env.TRUSTED_PROXY_COUNT) || 1);
+  return (
+    forwarded[Math.max(0, forwarded.length - hops)] ??
+    request.headers.get("x-real-ip") ??
+    "unknown"
+  );
+}
+
+/**
+ * Counts `cost` hits on every check; returns the seconds until all of them
+ * allow another, or null when none is over its limit.
+ */
+async function countHits(
+  rule: RateLimitRule,
+  checks: { key: string; limit: number }[],
+  cost = 1
+) {
+  let resetAt = 0;
+  try {
+    const windowMs = rule.windowSeconds * 1000;
+    const hits = await Promise.all(
+      checks.map((check) => getRateLimitStore().hit(check.key, windowMs, cost))
+    );
+    hits.forEach((hit, index) => {
+      if (hit.count > checks[index].limit) {
+        resetAt = Math.max(resetAt, hit.resetAt);
+      }
+    });
+  } catch (error) {
+    // A counter outage should not take the app down with it.
+    log.error("Rate limit check failed", { error });
+    return null;
+  }
+  if (!resetAt) return null;
+  return Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+}
+
+/**
+ * Counts the request against `name`, per signed-in user (or per visitor
+ * before sign-in) and per address, as `cost` hits when it does the work of
+ * several (one message to each of many recipients). Returns a 429 response
+ * with `Retry-After` once either is over the limit, or null to let the
+ * request through.
+ */
+export async function enforceRateLimit(
+  request: Request,
+  name: RateLimitName,
+  userId: string | null = null,
+  cost = 1
+): Promise<NextResponse | null> {
+  const rule = readRateLimitRule(name);
+  const address = clientAddress(request);
+  const visitor = readVisitorId(request);
+  const subject = userId ? `user:${userId}` : visitor && `visitor:${visitor}`;
+  // Requests without a session or visitor cookie (scripts, mostly) get one
+  // visitor's allowance per address, counted apart from the browsers
+  // behind it.
+  const checks = subject
+    ? [
+        { key: `ratelimit:${name}:${subject}`, limit: rule.limit },
+        {
+          key: `ratelimit:${name}:address:${address}`,
+          limit: rule.limit * SHARED_ADDRESS_FACTOR
+        }
+      ]
+    : [{ key: `ratelimit:${name}:anonymous:${address}`, limit: rule.limit }];
+
+  const retryAfter = await countHits(rule, checks, cost);
+  if (retryAfter === null) return null;
+  return NextResponse.json(
+    { error: rateLimitMessage(retryAfter), retryAfter },
+    {
+      status: 429,
+      headers: {
+        "Retry-After": String(retryAfter),
+        "RateLimit-Limit": String(rule.limit)
+      }
+    }
+  );
+}
+
+/**
+ * Counts one use of `name` by `subject` alone, for callers that are not a
+ * browser, such as a WhatsApp number writing to the bot: every one of them
+ * arrives from Meta's addresses. Returns the seconds until `subject` may go
+ * again, or null when it is within the limit.
+ */
+export function enforceSubjectRateLimit(name: RateLimitName, subject: string) {
+  const rule = readRateLimitRule(name);
+  return countHits(rule, [
+    { key: `ratelimit:${name}:${subject}`, limit: rule.limit }
+  ]);
+}
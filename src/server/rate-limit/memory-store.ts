@@ -0,0 +1,30 @@
+import type { RateLimitHit, RateLimitStore } from "@/server/rate-limit/types";
+
+// Expired windows are swept once the map grows past this many keys.
+const SWEEP_THRESHOLD = 5000;
+
+/** Counters for a single server process; restarts reset every limit. */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, RateLimitHit>();
+
+  const sweep = (now: number) => {
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) windows.delete(key);
+    });
+  };
+
+  return {
+    async hit(key, windowMs, amount = 1) {
+      const now = Date.now();
+      if (windows.size > SWEEP_THRESHOLD) sweep(now);
+
+      const current = windows.get(key);
+      const window =
+        current && current.resetAt > now
+          ? { count: current.count + amount, resetAt: current.resetAt }
+          : { count: amount, resetAt: now + windowMs };
+      windows.set(key, window);
+      return window;
+    }
+  };
+}
@@ -0,0 +1,64 @@
+import type { RateLimitStore } from "@/server/rate-limit/types";
+
+export type RedisRestConfig = {
+  url: string;
+  token: string;
+};
+
+type PipelineResult = { result?: unknown; error?: string };
+
+export class RedisRateLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedisRateLimitError";
+  }
+}
+
+/**
+ * Counters in Redis over its REST protocol (Upstash, or a self-hosted
+ * serverless-redis-http proxy), so every server instance shares the limits.
+ */
+export function createRedisRateLimitStore(
+  config: RedisRestConfig
+): RateLimitStore {
+  const url = config.url.replace(/\/+$/, "");
+
+  return {
+    async hit(key, windowMs, amount = 1) {
+      // SET NX starts the window with its expiry, so a crash between
+      // commands can never leave a counter that lives forever.
+      const response = await fetch(`${url}/pipeline`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${config.token}`,
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify([
+          ["SET", key, "0", "PX", String(windowMs), "NX"],
+          ["INCRBY", key, String(amount)],
+          ["PTTL", key]
+        ]),
+        cache: "no-store"
+      });
+      if (!response.ok) {
+        throw new RedisRateLimitError(
+          `Redis responded with HTTP ${response.status}.`
+        );
+      }
+
+      const results = (await response.json()) as PipelineResult[];
+      const failure = results.find((result) => result.error);
+      if (failure) throw new RedisRateLimitError(failure.error ?? "");
+
+      const count = Number(results[1]?.result);
+      const ttl = Number(results[2]?.result);
+      if (!Number.isFinite(count)) {
+        throw new RedisRateLimitError("Redis returned an unexpected count.");
+      }
+      return {
+        count,
+        resetAt: Date.now() + (ttl > 0 ? ttl : windowMs)
+      };
+    }
+  };
+}
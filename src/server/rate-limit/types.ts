@@ -0,0 +1,12 @@
+export type RateLimitHit = {
+  /** Hits counted in the current window, including this one. */
+  count: number;
+  /** Epoch milliseconds when the window closes and the count resets. */
+  resetAt: number;
+};
+
+/** Fixed-window request counters, shared by every route that limits. */
+export type RateLimitStore = {
+  /** Adds `amount` (default 1) to the counter for `key`. */
+  hit(key: string, windowMs: number, amount?: number): Promise<RateLimitHit>;
+};
@@ -0,0 +1,19 @@
+import { readCookie } from "@/server/cookies";
+
+/**
+ * Anonymous cookie that tells browsers behind one address apart, so a shared
+ * office or household IP does not share a single rate limit. Set by the
+ * middleware on the first page load.
+ */
+export const VISITOR_COOKIE = "kr_visitor";
+
+const VISITOR_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+export function createVisitorId() {
+  return crypto.randomUUID();
+}
+
+export function readVisitorId(request: Request) {
+  const id = readCookie(request, VISITOR_COOKIE);
+  return id && VISITOR_ID_PATTERN.test(id) ? id : null;
+}
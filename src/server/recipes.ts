@@ -0,0 +1,143 @@
+import { coerceRecipe, coerceRecipePayload } from "@/server/coerce";
+import type {
+  GeneratedMenu,
+  GenerationJob,
+  GenerationProgress
+} from "@/server/generate-cache";
+import { createPayloadStreamParser } from "@/server/json-stream";
+import { describeModelError, parseModelJson } from "@/server/model-json";
+import { repairModelOutput } from "@/server/model-repair";
+import { currentRequestId } from "@/server/observability";
+import type { ModelProvider, ModelRequest } from "@/server/providers";
+import { defaultLocale, type Locale } from "@/shared/i18n";
+import type { MenuRef } from "@/shared/menu";
+import {
+  generatedPayloadSchema,
+  generatedRecipeSchema,
+  RECIPE_SCHEMA_VERSION,
+  type GenerateCacheStatus,
+  type GenerateResponse,
+  type GenerateStreamEvent,
+  type Recipe
+} from "@/shared/recipe";
+
+export function parseRecipePayload(raw: string): GenerateResponse {
+  return {
+    schemaVersion: RECIPE_SCHEMA_VERSION,
+    ...parseModelJson(raw, generatedPayloadSchema, coerceRecipePayload)
+  };
+}
+
+type RecipeStreamOptions = {
+  signal?: AbortSignal;
+  /** The language the recipes were requested in, recorded on the payload. */
+  locale?: Locale;
+  /** Post-processes each validated recipe before it is reported. */
+  review?: (recipe: Recipe) => Recipe;
+  /** Persists the validated payload and returns where it was saved. */
+  save?: (payload: GenerateResponse) => Promise<MenuRef | null>;
+};
+
+/**
+ * Generates from the model's stream, reporting the summary and then each
+ * recipe as soon as it validates, and resolves with the full validated
+ * payload. If the streamed output is unusable the model is asked to repair
+ * it, and the repaired payload replaces anything reported so far.
+ */
+export async function streamRecipes(
+  provider: ModelProvider,
+  request: ModelRequest,
+  report: (event: GenerationProgress) => void,
+  {
+    signal,
+    locale = defaultLocale,
+    review = (recipe) => recipe,
+    save
+  }: RecipeStreamOptions = {}
+): Promise<GeneratedMenu> {
+  let recipeCount = 0;
+  const parser = createPayloadStreamParser({
+    onSummary: (summary) => report({ type: "summary", summary }),
+    onRecipe: (candidate) => {
+      const recipe = generatedRecipeSchema.safeParse(coerceRecipe(candidate));
+      if (recipe.success) {
+        report({
+          type: "recipe",
+          index: recipeCount,
+          recipe: review(recipe.data)
+        });
+        recipeCount += 1;
+      }
+    }
+  });
+
+  for await (const chunk of provider.stream({ ...request, signal })) {
+    parser.push(chunk);
+  }
+  const parsed = await repairModelOutput({
+    provider,
+    request: { ...request, signal },
+    raw: parser.text(),
+    parse: parseRecipePayload
+  });
+  const payload = { ...parsed, locale, recipes: parsed.recipes.map(review) };
+  const menu = save ? await save(payload) : null;
+  return { payload, menu };
+}
+
+/**
+ * Streams a generation job as NDJSON: its progress, replayed from the start
+ * for requests that joined late, then the full validated payload. Cancelling
+ * the stream or aborting `signal` stops following the job, which aborts the
+ * upstream model call once no other request follows it.
+ */
+export function createRecipeStream(
+  job: GenerationJob,
+  { cache, signal }: { cache: GenerateCacheStatus; signal?: AbortSignal }
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  // The stream outlives the route handler, so the id is read up front.
+  const requestId = currentRequestId();
+  let following = true;
+  let leave = () => {};
+  const stop = () => {
+    following = false;
+    leave();
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: GenerateStreamEvent) => {
+        if (following) {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        }
+      };
+
+      leave = job.follow(send);
+      signal?.addEventListener("abort", stop);
+      try {
+        const { payload, menu } = await job.result;
+        send({ type: "done", payload, menu, cache });
+      } catch (error) {
+        const { error: message, code } = describeModelError(
+          error,
+          "Recipe generation failed unexpectedly."
+        );
+        send({
+          type: "error",
+          error: message,
+          code,
+          ...(requestId ? { requestId } : {})
+        });
+      } finally {
+        leave();
+        try {
+          controller.close();
+        } catch {
+          // The client already cancelled the stream.
+        }
+      }
+    },
+    cancel: stop
+  });
+}
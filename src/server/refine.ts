@@ -0,0 +1,174 @@
+import { coerceRecipe } from "@/server/coerce";
+import {
+  createRecipeReviewer,
+  describeIngredients,
+  describeOutputLanguage
+} from "@/server/generate";
+import { parseModelJson } from "@/server/model-json";
+import { completeModelJson } from "@/server/model-repair";
+import { log } from "@/server/observability";
+import type { ModelProvider, ModelRequest } from "@/server/providers";
+import { refinedRecipeJsonSchema } from "@/server/response-schemas";
+import { getMenuStore } from "@/server/storage";
+import {
+  describeDietaryProfile,
+  emptyDietaryProfile,
+  type DietaryProfile
+} from "@/shared/dietary";
+import type { Locale } from "@/shared/i18n";
+import type { DetectedIngredient } from "@/shared/ingredients";
+import { generatedRecipeSchema, type Recipe } from "@/shared/recipe";
+import type { RefineAction } from "@/shared/refine";
+
+/**
+ * One recipe to rework, with the context its menu was generated from. The
+ * menu summary stands in for the photos, so no image is sent again.
+ */
+export type RefineInput = {
+  summary: string;
+  recipes: Recipe[];
+  index: number;
+  action: RefineAction;
+  instruction?: string;
+  ingredients?: DetectedIngredient[];
+  notes?: string;
+  dietaryProfile?: DietaryProfile;
+  /** The language the menu is written in, which the new recipe keeps. */
+  locale?: Locale;
+};
+
+const refinePrompt = `
+You are Kitchen Remix, a culinary assistant. You already wrote a menu of recipes for a cook's leftovers, and they want to change exactly one of those recipes.
+- Reply with a single replacement recipe. Keep it practical for a home kitchen and built around the same leftovers.
+- A dietary profile, when given, is a set of hard constraints that outrank everything else, including the requested change.
+- Provide name, description (1-2 sentences), servings, prepMinutes, cookMinutes, difficulty, ingredients (each split into quantity, unit and item; mark leftovers with fromLeftovers: true), steps and nutrition (a rough per-serving estimate).
+- Output valid JSON following this TypeScript type:
+  type Recipe = {
+    name: string;
+    description: string;
+    servings: number;
+    prepMinutes: number;
+    cookMinutes: number;
+    difficulty: "easy" | "medium" | "hard";
+    ingredients: {
+      quantity: number | null;
+      unit: string | null;
+      item: string;
+      fromLeftovers: boolean;
+    }[];
+    steps: string[];
+    nutrition: {
+      calories: number;
+      proteinGrams: number;
+      carbsGrams: number;
+      fatGrams: number;
+    };
+  };
+- JSON only. No markdown, no code fences.
+`;
+
+function describeChange({ action, instruction, recipes, index }: RefineInput) {
+  const recipe = recipes[index];
+  switch (action) {
+    case "swap":
+      return "Replace it with a completely different dish. Do not repeat or closely resemble any recipe already on the menu.";
+    case "vegetarian":
+      return "Make it vegetarian: no meat, poultry, fish or seafood, nor stocks or sauces made from them. Keep the character of the dish and as many of the leftovers as possible.";
+    case "quicker": {
+      const total = (recipe.prepMinutes ?? 0) + (recipe.cookMinutes ?? 0);
+      const target = total
+        ? ` It currently takes ${total} minutes; aim for at most ${Math.max(10, Math.round(total / 2))}.`
+        : "";
+      return `Make it noticeably quicker, with fewer steps and shorter cooking.${target}`;
+    }
+    case "custom":
+      return `Apply this change from the cook: ${instruction}`;
+  }
+}
+
+export function buildRefineRequest(input: RefineInput): ModelRequest {
+  const recipe = input.recipes[input.index];
+  const otherNames = input.recipes
+    .filter((_recipe, index) => index !== input.index)
+    .map((other) => other.name);
+  // Server-side flags are recomputed on the result, so the model never sees them.
+  const { violations: _violations, ...current } = recipe;
+
+  return {
+    task: "refine",
+    maxOutputTokens: 1000,
+    responseSchema: refinedRecipeJsonSchema,
+    prompt: [
+      refinePrompt,
+      `What you saw in the photos: ${input.summary}`,
+      input.ingredients ? describeIngredients(input.ingredients) : "",
+      input.notes ? `Notes from the cook: ${input.notes}` : "",
+      input.dietaryProfile ? describeDietaryProfile(input.dietaryProfile) : "",
+      otherNames.length
+        ? `The rest of the menu, which stays as it is: ${otherNames.join("; ")}.`
+        : "",
+      `The recipe to change:\n${JSON.stringify(current)}`,
+      `Requested change: ${describeChange(input)}`,
+      describeOutputLanguage(input.locale)
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+    images: []
+  };
+}
+
+/**
+ * The profile the refined recipe must meet: the cook's own, made at least
+ * vegetarian when that is what they asked for, so meat the model left in is
+ * flagged.
+ */
+function reviewProfile({ action, dietaryProfile }: RefineInput) {
+  if (action !== "vegetarian") return dietaryProfile;
+  const profile = dietaryProfile ?? emptyDietaryProfile;
+  return profile.diet === "vegan"
+    ? profile
+    : { ...profile, diet: "vegetarian" as const };
+}
+
+/** Asks the model for one replacement recipe and reviews it like a menu. */
+export async function refineRecipe(
+  provider: ModelProvider,
+  input: RefineInput,
+  signal?: AbortSignal
+): Promise<Recipe> {
+  const recipe = await completeModelJson(
+    provider,
+    { ...buildRefineRequest(input), signal },
+    (raw) => parseModelJson(raw, generatedRecipeSchema, coerceRecipe)
+  );
+  return createRecipeReviewer(reviewProfile(input), input.locale)(recipe);
+}
+
+/**
+ * Puts the refined recipe into the saved menu, so its permalink and history
+ * entry match what the cook now sees. Like the history save, a failure here
+ * must not cost them the recipe.
+ */
+export async function saveRefinedRecipe(
+  menuId: string,
+  userId: string,
+  index: number,
+  recipe: Recipe
+) {
+  try {
+    const menu = await getMenuStore().get(menuId);
+    if (menu?.userId !== userId) return;
+    await getMenuStore().updatePayload(menuId, (payload) =>
+      index < payload.recipes.length
+        ? {
+            ...payload,
+            recipes: payload.recipes.map((current, position) =>
+              position === index ? recipe : current
+            )
+          }
+        : payload
+    );
+  } catch (error) {
+    log.error("Saving the refined recipe failed", { error });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { MAX_IMAGE_BYTES, MAX_IMAGES } from "@/shared/image";
+
+/** Cap for routes that take recipes, messages or contact lists. */
+export const MAX_JSON_BODY_BYTES = 256 * 1024;
+
+/**
+ * Cap for routes that take photos: every image at its largest once base64
+ * encoded (4 bytes per 3), plus room for a thumbnail and the other fields.
+ */
+export const MAX_IMAGE_BODY_BYTES =
+  Math.ceil((MAX_IMAGES * MAX_IMAGE_BYTES * 4) / 3) + 512 * 1024;
+
+export type JsonBodyResult =
+  { ok: true; json: unknown } | { ok: false; response: NextResponse };
+
+export type TextBodyResult =
+  { ok: true; text: string } | { ok: false; response: NextResponse };
+
+function tooLarge(maxBytes: number) {
+  return {
+    ok: false as const,
+    response: NextResponse.json(
+      {
+        error: "Request body is too large.",
+        details: `Send at most ${Math.floor(maxBytes / 1024)} KB.`
+      },
+      { status: 413 }
+    )
+  };
+}
+
+/**
+ * Reads the body as text, answering 413 as soon as it passes `maxBytes`
+ * instead of buffering whatever the client sends. For routes that need the
+ * exact bytes, such as a signed webhook.
+ */
+export async function readTextBody(
+  request: Request,
+  maxBytes: number
+): Promise<TextBodyResult> {
+  const declared = Number(request.headers.get("content-length"));
+  if (declared > maxBytes) return tooLarge(maxBytes);
+
+  let text = "";
+  if (request.body) {
+    const reader = request.body.getReader();
+    const decoder = new TextDecoder();
+    let received = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      received += value.byteLength;
+      if (received > maxBytes) {
+        await reader.cancel();
+        return tooLarge(maxBytes);
+      }
+      text += decoder.decode(value, { stream: true });
+    }
+    text += decoder.decode();
+  }
+  return { ok: true, text };
+}
+
+/** Parses a JSON body read through `readTextBody`. */
+export async function readJsonBody(
+  request: Request,
+  maxBytes: number
+): Promise<JsonBodyResult> {
+  const body = await readTextBody(request, maxBytes);
+  if (!body.ok) return body;
+
+  try {
+    return { ok: true, json: JSON.parse(body.text) };
+  } catch (error) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: "Invalid JSON body.", details: String(error) },
+        { status: 400 }
+      )
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import type { ModelResponseSchema } from "@/server/providers";
+import { difficulties } from "@/shared/recipe";
+import { freshnessHints } from "@/shared/ingredients";
+
+// Hand-written to mirror the Zod schemas in `@/shared`. Strict structured
+// output needs every property listed as required and no extra properties,
+// so range checks stay in Zod, which still validates every response.
+
+function object(properties: Record<string, unknown>) {
+  return {
+    type: "object",
+    additionalProperties: false,
+    required: Object.keys(properties),
+    properties
+  };
+}
+
+const ingredient = object({
+  quantity: { type: ["number", "null"] },
+  unit: { type: ["string", "null"] },
+  item: { type: "string" },
+  fromLeftovers: { type: "boolean" }
+});
+
+const nutrition = object({
+  calories: { type: "number" },
+  proteinGrams: { type: "number" },
+  carbsGrams: { type: "number" },
+  fatGrams: { type: "number" }
+});
+
+const recipe = object({
+  name: { type: "string" },
+  description: { type: "string" },
+  servings: { type: "integer" },
+  prepMinutes: { type: "integer" },
+  cookMinutes: { type: "integer" },
+  difficulty: { type: "string", enum: [...difficulties] },
+  ingredients: { type: "array", items: ingredient },
+  steps: { type: "array", items: { type: "string" } },
+  nutrition
+});
+
+export const recipeMenuJsonSchema: ModelResponseSchema = {
+  name: "recipe_menu",
+  schema: object({
+    summary: { type: "string" },
+    recipes: { type: "array", items: recipe }
+  })
+};
+
+export const refinedRecipeJsonSchema: ModelResponseSchema = {
+  name: "refined_recipe",
+  schema: recipe
+};
+
+export const detectedIngredientsJsonSchema: ModelResponseSchema = {
+  name: "detected_ingredients",
+  schema: object({
+    ingredients: {
+      type: "array",
+      items: object({
+        name: { type: "string" },
+        quantity: { type: "string" },
+        confidence: { type: "number" },
+        freshness: { type: "string", enum: [...freshnessHints] }
+      })
+    }
+  })
+};
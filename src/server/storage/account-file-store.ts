@@ -0,0 +1,22 @@
+import path from "path";
+import {
+  createAccountStore,
+  emptyAccountDocument,
+  type AccountDocument
+} from "@/server/storage/account-records";
+import { readJsonFile, writeAtomic } from "@/server/storage/fs";
+import type { AccountStore } from "@/server/storage/types";
+
+export function createFileAccountStore(directory: string): AccountStore {
+  const file = path.join(directory, "accounts.json");
+  return createAccountStore({
+    async load() {
+      return (
+        (await readJsonFile<AccountDocument>(file)) ?? emptyAccountDocument
+      );
+    },
+    save(document) {
+      return writeAtomic(file, JSON.stringify(document));
+    }
+  });
+}
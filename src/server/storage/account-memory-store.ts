@@ -0,0 +1,18 @@
+import {
+  createAccountStore,
+  emptyAccountDocument,
+  type AccountDocument
+} from "@/server/storage/account-records";
+import type { AccountStore } from "@/server/storage/types";
+
+export function createMemoryAccountStore(): AccountStore {
+  let document: AccountDocument = emptyAccountDocument;
+  return createAccountStore({
+    async load() {
+      return document;
+    },
+    async save(updated) {
+      document = updated;
+    }
+  });
+}
@@ -0,0 +1,222 @@
+import { randomUUID } from "crypto";
+import { createKeyedQueue } from "@/server/storage/queue";
+import type {
+  AccountStore,
+  LoginTokenRecord,
+  PhoneVerificationRecord,
+  SessionRecord,
+  User
+} from "@/server/storage/types";
+import { emptyUserProfile } from "@/shared/account";
+
+export type AccountDocument = {
+  users: User[];
+  sessions: SessionRecord[];
+  loginTokens: LoginTokenRecord[];
+  /** Absent from documents written before numbers were verified. */
+  phoneVerifications?: PhoneVerificationRecord[];
+};
+
+export const emptyAccountDocument: AccountDocument = {
+  users: [],
+  sessions: [],
+  loginTokens: [],
+  phoneVerifications: []
+};
+
+const MAX_VERIFICATION_ATTEMPTS = 5;
+
+type AccountBackend = {
+  load(): Promise<AccountDocument>;
+  save(document: AccountDocument): Promise<void>;
+};
+
+const isLive = (record: { expiresAt: string }, now: string) =>
+  record.expiresAt > now;
+
+/**
+ * Users, sessions and pending sign-in links in one small document. Changes
+ * are serialized read-modify-writes that also drop expired sessions and
+ * links, so the document does not grow without bound.
+ */
+export function createAccountStore(backend: AccountBackend): AccountStore {
+  const queue = createKeyedQueue();
+
+  const change = <T>(
+    apply: (document: AccountDocument, now: string) => [AccountDocument, T]
+  ) =>
+    queue("accounts", async () => {
+      const now = new Date().toISOString();
+      const loaded = await backend.load();
+      const [document, result] = apply(
+        {
+          users: loaded.users,
+          sessions: loaded.sessions.filter((session) => isLive(session, now)),
+          loginTokens: loaded.loginTokens.filter((token) => isLive(token, now)),
+          phoneVerifications: (loaded.phoneVerifications ?? []).filter(
+            (verification) => isLive(verification, now)
+          )
+        },
+        now
+      );
+      await backend.save(document);
+      return result;
+    });
+
+  const updateUser = (
+    document: AccountDocument,
+    id: string,
+    update: (user: User) => User
+  ): [AccountDocument, User | null] => {
+    const user = document.users.find((candidate) => candidate.id === id);
+    if (!user) return [document, null];
+    const updated = update(user);
+    return [
+      {
+        ...document,
+        users: document.users.map((candidate) =>
+          candidate.id === id ? updated : candidate
+        )
+      },
+      updated
+    ];
+  };
+
+  return {
+    async get(id) {
+      const { users } = await backend.load();
+      return users.find((user) => user.id === id) ?? null;
+    },
+    findOrCreate(email) {
+      return change((document, now) => {
+        const existing = document.users.find((user) => user.email === email);
+        if (existing) return [document, existing];
+        const created: User = {
+          id: randomUUID(),
+          email,
+          createdAt: now,
+          profile: emptyUserProfile
+        };
+        return [{ ...document, users: [...document.users, created] }, created];
+      });
+    },
+    async findByWhatsAppNumber(phoneNumber) {
+      const { users } = await backend.load();
+      return (
+        users.find((user) => user.profile.whatsappNumber === phoneNumber) ??
+        null
+      );
+    },
+    updateProfile(id, profile) {
+      return change((document) =>
+        updateUser(document, id, (user) => ({
+          ...user,
+          profile: { ...user.profile, ...profile }
+        }))
+      );
+    },
+    savePhoneVerification(record) {
+      return change((document) => [
+        {
+          ...document,
+          phoneVerifications: [
+            ...(document.phoneVerifications ?? []).filter(
+              (pending) => pending.userId !== record.userId
+            ),
+            record
+          ]
+        },
+        undefined
+      ]);
+    },
+    confirmPhoneVerification(userId, codeHash) {
+      return change((document) => {
+        const pending = document.phoneVerifications ?? [];
+        const verification = pending.find(
+          (candidate) => candidate.userId === userId
+        );
+        if (!verification) return [document, null];
+        const others = pending.filter(
+          (candidate) => candidate !== verification
+        );
+        if (verification.codeHash !== codeHash) {
+          const attempts = verification.attempts + 1;
+          return [
+            {
+              ...document,
+              phoneVerifications:
+                attempts < MAX_VERIFICATION_ATTEMPTS
+                  ? [...others, { ...verification, attempts }]
+                  : others
+            },
+            null
+          ];
+        }
+
+        // A number belongs to whoever proved it last.
+        const { phoneNumber } = verification;
+        const users = document.users.map((user) =>
+          user.id !== userId && user.profile.whatsappNumber === phoneNumber
+            ? { ...user, profile: { ...user.profile, whatsappNumber: null } }
+            : user
+        );
+        return updateUser(
+          { ...document, users, phoneVerifications: others },
+          userId,
+          (user) => ({
+            ...user,
+            profile: { ...user.profile, whatsappNumber: phoneNumber }
+          })
+        );
+      });
+    },
+    saveLoginToken(token) {
+      return change((document) => [
+        { ...document, loginTokens: [...document.loginTokens, token] },
+        undefined
+      ]);
+    },
+    consumeLoginToken(tokenHash) {
+      return change((document) => {
+        const token = document.loginTokens.find(
+          (candidate) => candidate.tokenHash === tokenHash
+        );
+        return [
+          {
+            ...document,
+            loginTokens: document.loginTokens.filter(
+              (candidate) => candidate !== token
+            )
+          },
+          token?.email ?? null
+        ];
+      });
+    },
+    saveSession(session) {
+      return change((document) => [
+        { ...document, sessions: [...document.sessions, session] },
+        undefined
+      ]);
+    },
+    async getSession(tokenHash) {
+      const { sessions } = await backend.load();
+      const session = sessions.find(
+        (candidate) => candidate.tokenHash === tokenHash
+      );
+      return session && isLive(session, new Date().toISOString())
+        ? session
+        : null;
+    },
+    removeSession(tokenHash) {
+      return change((document) => [
+        {
+          ...document,
+          sessions: document.sessions.filter(
+            (session) => session.tokenHash !== tokenHash
+          )
+        },
+        undefined
+      ]);
+    }
+  };
+}
@@ -0,0 +1,22 @@
+import path from "path";
+import { createContactStore } from "@/server/storage/contact-records";
+import { readJsonFile, writeAtomic } from "@/server/storage/fs";
+import type { ContactBook, ContactStore } from "@/server/storage/types";
+
+/** One book per user, in `contacts/<user id>.json`. */
+export function createFileContactStore(
+  directory: string,
+  userId: string
+): ContactStore {
+  const file = path.join(directory, "contacts", `${userId}.json`);
+  return createContactStore({
+    async load() {
+      return (
+        (await readJsonFile<ContactBook>(file)) ?? { contacts: [], groups: [] }
+      );
+    },
+    save(book) {
+      return writeAtomic(file, JSON.stringify(book));
+    }
+  });
+}
@@ -0,0 +1,14 @@
+import { createContactStore } from "@/server/storage/contact-records";
+import type { ContactBook, ContactStore } from "@/server/storage/types";
+
+export function createMemoryContactStore(): ContactStore {
+  let book: ContactBook = { contacts: [], groups: [] };
+  return createContactStore({
+    async load() {
+      return book;
+    },
+    async save(updated) {
+      book = updated;
+    }
+  });
+}
@@ -0,0 +1,132 @@
+import { randomUUID } from "crypto";
+import { createKeyedQueue } from "@/server/storage/queue";
+import type {
+  ContactBook,
+  ContactStore,
+  NewContactGroup
+} from "@/server/storage/types";
+import { MAX_CONTACTS } from "@/shared/contacts";
+
+export class ContactBookFullError extends Error {
+  constructor() {
+    super(`The contact book holds at most ${MAX_CONTACTS} contacts.`);
+    this.name = "ContactBookFullError";
+  }
+}
+
+type ContactBookBackend = {
+  load(): Promise<ContactBook>;
+  save(book: ContactBook): Promise<void>;
+};
+
+const byName = (left: { name: string }, right: { name: string }) =>
+  left.name.localeCompare(right.name);
+
+/**
+ * The whole book is one small document, so every change is a serialized
+ * read-modify-write through `backend`.
+ */
+export function createContactStore(backend: ContactBookBackend): ContactStore {
+  const queue = createKeyedQueue();
+
+  const change = <T>(apply: (book: ContactBook) => [ContactBook, T]) =>
+    queue("book", async () => {
+      const [book, result] = apply(await backend.load());
+      await backend.save(book);
+      return result;
+    });
+
+  const knownContactIds = (book: ContactBook, ids: string[]) => {
+    const known = new Set(book.contacts.map((contact) => contact.id));
+    return Array.from(new Set(ids)).filter((id) => known.has(id));
+  };
+
+  return {
+    async list() {
+      const book = await backend.load();
+      return {
+        contacts: [...book.contacts].sort(byName),
+        groups: [...book.groups].sort(byName)
+      };
+    },
+    saveContact(contact) {
+      return change((book) => {
+        const existing = book.contacts.find(
+          (candidate) => candidate.phoneNumber === contact.phoneNumber
+        );
+        if (existing) {
+          const renamed = { ...existing, name: contact.name };
+          return [
+            {
+              ...book,
+              contacts: book.contacts.map((candidate) =>
+                candidate.id === existing.id ? renamed : candidate
+              )
+            },
+            renamed
+          ];
+        }
+        if (book.contacts.length >= MAX_CONTACTS) {
+          throw new ContactBookFullError();
+        }
+        const created = {
+          id: randomUUID(),
+          createdAt: new Date().toISOString(),
+          ...contact
+        };
+        return [{ ...book, contacts: [...book.contacts, created] }, created];
+      });
+    },
+    removeContact(id) {
+      return change((book) => [
+        {
+          contacts: book.contacts.filter((contact) => contact.id !== id),
+          groups: book.groups.map((group) => ({
+            ...group,
+            contactIds: group.contactIds.filter((contactId) => contactId !== id)
+          }))
+        },
+        book.contacts.some((contact) => contact.id === id)
+      ]);
+    },
+    createGroup(group: NewContactGroup) {
+      return change((book) => {
+        const created = {
+          id: randomUUID(),
+          name: group.name,
+          contactIds: knownContactIds(book, group.contactIds),
+          createdAt: new Date().toISOString()
+        };
+        return [{ ...book, groups: [...book.groups, created] }, created];
+      });
+    },
+    updateGroup(id, update) {
+      return change((book) => {
+        const group = book.groups.find((candidate) => candidate.id === id);
+        if (!group) return [book, null];
+        const updated = {
+          ...group,
+          name: update.name ?? group.name,
+          contactIds: update.contactIds
+            ? knownContactIds(book, update.contactIds)
+            : group.contactIds
+        };
+        return [
+          {
+            ...book,
+            groups: book.groups.map((candidate) =>
+              candidate.id === id ? updated : candidate
+            )
+          },
+          updated
+        ];
+      });
+    },
+    removeGroup(id) {
+      return change((book) => [
+        { ...book, groups: book.groups.filter((group) => group.id !== id) },
+        book.groups.some((group) => group.id === id)
+      ]);
+    }
+  };
+}
@@ -0,0 +1,66 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { createDeliveryRecord } from "@/server/storage/delivery-records";
+import { isMissing, readJsonFile, writeAtomic } from "@/server/storage/fs";
+import { createKeyedQueue } from "@/server/storage/queue";
+import { isValidMenuId } from "@/server/storage/records";
+import type { DeliveryRecord, DeliveryStore } from "@/server/storage/types";
+
+// Same layout as the menu store: one JSON document per delivery, plus
+// pointer files mapping WhatsApp message ids back to their delivery. Message
+// ids are hashed because they may contain characters unsafe in file names.
+export function createFileDeliveryStore(directory: string): DeliveryStore {
+  const deliveryDir = path.join(directory, "deliveries");
+  const messageDir = path.join(directory, "delivery-messages");
+  const queue = createKeyedQueue();
+
+  const fileFor = (id: string) => path.join(deliveryDir, `${id}.json`);
+  const pointerFor = (messageId: string) =>
+    path.join(
+      messageDir,
+      createHash("sha256").update(messageId).digest("hex").slice(0, 32)
+    );
+
+  const read = async (id: string) =>
+    isValidMenuId(id) ? readJsonFile<DeliveryRecord>(fileFor(id)) : null;
+
+  const write = async (record: DeliveryRecord, previous?: DeliveryRecord) => {
+    await writeAtomic(fileFor(record.id), JSON.stringify(record));
+    const known = new Set(
+      previous?.messages.map((message) => message.messageId) ?? []
+    );
+    for (const message of record.messages) {
+      if (message.messageId && !known.has(message.messageId)) {
+        await writeAtomic(pointerFor(message.messageId), record.id);
+      }
+    }
+  };
+
+  return {
+    async create(delivery) {
+      const record = createDeliveryRecord(delivery);
+      await write(record);
+      return record;
+    },
+    get: read,
+    async findByMessageId(messageId) {
+      try {
+        const id = (await fs.readFile(pointerFor(messageId), "utf8")).trim();
+        return await read(id);
+      } catch (error) {
+        if (isMissing(error)) return null;
+        throw error;
+      }
+    },
+    update(id, change) {
+      return queue(id, async () => {
+        const record = await read(id);
+        if (!record) return null;
+        const updated = change(record);
+        await write(updated, record);
+        return updated;
+      });
+    }
+  };
+}
@@ -0,0 +1,40 @@
+import { createDeliveryRecord } from "@/server/storage/delivery-records";
+import { createKeyedQueue } from "@/server/storage/queue";
+import type { DeliveryRecord, DeliveryStore } from "@/server/storage/types";
+
+export function createMemoryDeliveryStore(): DeliveryStore {
+  const deliveries = new Map<string, DeliveryRecord>();
+  const byMessageId = new Map<string, string>();
+  const queue = createKeyedQueue();
+
+  const index = (record: DeliveryRecord) => {
+    for (const message of record.messages) {
+      if (message.messageId) byMessageId.set(message.messageId, record.id);
+    }
+  };
+
+  return {
+    async create(delivery) {
+      const record = createDeliveryRecord(delivery);
+      deliveries.set(record.id, record);
+      return record;
+    },
+    async get(id) {
+      return deliveries.get(id) ?? null;
+    },
+    async findByMessageId(messageId) {
+      const id = byMessageId.get(messageId);
+      return id ? (deliveries.get(id) ?? null) : null;
+    },
+    update(id, change) {
+      return queue(id, async () => {
+        const record = deliveries.get(id);
+        if (!record) return null;
+        const updated = change(record);
+        deliveries.set(id, updated);
+        index(updated);
+        return updated;
+      });
+    }
+  };
+}
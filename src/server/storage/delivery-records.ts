@@ -0,0 +1,39 @@
+import { randomUUID } from "crypto";
+import type {
+  DeliveryRecord,
+  DeliverySummary,
+  NewDelivery
+} from "@/server/storage/types";
+
+export function createDeliveryRecord(delivery: NewDelivery): DeliveryRecord {
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    userId: delivery.userId,
+    recipient: delivery.recipient,
+    menuId: delivery.menuId,
+    createdAt: now,
+    messages: delivery.messages.map((content) => ({
+      messageId: null,
+      kind: content.kind,
+      status: "pending",
+      error: null,
+      attempts: 0,
+      updatedAt: now,
+      content
+    }))
+  };
+}
+
+/** Drops message contents and the owner, which the browser has no use for. */
+export function summarizeDelivery({
+  userId: _userId,
+  ...record
+}: DeliveryRecord): DeliverySummary {
+  return {
+    ...record,
+    messages: record.messages.map(
+      ({ content: _content, ...message }) => message
+    )
+  };
+}
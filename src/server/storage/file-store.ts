@@ -0,0 +1,159 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { isMissing, readJsonFile, writeAtomic } from "@/server/storage/fs";
+import { createKeyedQueue } from "@/server/storage/queue";
+import {
+  createMenuRecord,
+  isValidMenuId,
+  isValidSlug,
+  newestFirst,
+  summarizeMenu,
+  upgradeMenuRecord
+} from "@/server/storage/records";
+import type {
+  MenuRecord,
+  MenuStore,
+  MenuSummary
+} from "@/server/storage/types";
+
+// Stores one JSON document per menu so writes to different menus never
+// clobber each other and a corrupt file only loses a single menu; changes
+// to the same menu are queued. Slugs map to ids through small pointer files
+// in `slugs/`, and each user's history is indexed by a summary per menu in
+// `history/<user id>/`, so listing it never reads anyone else's menus.
+export function createFileMenuStore(directory: string): MenuStore {
+  const menuDir = path.join(directory, "menus");
+  const slugDir = path.join(directory, "slugs");
+  const historyDir = path.join(directory, "history");
+  const queue = createKeyedQueue();
+
+  const fileFor = (id: string) => path.join(menuDir, `${id}.json`);
+  const slugFileFor = (slug: string) => path.join(slugDir, slug);
+  const historyDirFor = (userId: string) => path.join(historyDir, userId);
+  const summaryFileFor = ({ userId, id }: MenuRecord) =>
+    userId ? path.join(historyDirFor(userId), `${id}.json`) : null;
+  // Marks the index as complete, once menus saved before it are in.
+  const indexedMarker = path.join(historyDir, ".indexed");
+
+  const read = async (id: string): Promise<MenuRecord | null> => {
+    if (!isValidMenuId(id)) return null;
+    try {
+      return upgradeMenuRecord(
+        JSON.parse(await fs.readFile(fileFor(id), "utf8")) as MenuRecord
+      );
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  };
+
+  const readDirectory = async (target: string) => {
+    try {
+      return await fs.readdir(target);
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+  };
+
+  const index = async (record: MenuRecord) => {
+    const file = summaryFileFor(record);
+    if (file) await writeAtomic(file, JSON.stringify(summarizeMenu(record)));
+  };
+
+  // Menus saved before the index existed are indexed once, on the first
+  // listing after an upgrade.
+  let indexed: Promise<void> | null = null;
+  const ensureIndexed = () => {
+    indexed ??= (async () => {
+      if (await readJsonFile(indexedMarker)) return;
+      for (const entry of await readDirectory(menuDir)) {
+        if (!entry.endsWith(".json")) continue;
+        const id = entry.slice(0, -".json".length);
+        await queue(id, async () => {
+          const record = await read(id);
+          if (record) await index(record);
+        });
+      }
+      await writeAtomic(indexedMarker, "true");
+    })().catch((error) => {
+      indexed = null;
+      throw error;
+    });
+    return indexed;
+  };
+
+  const write = (record: MenuRecord) =>
+    writeAtomic(fileFor(record.id), JSON.stringify(record));
+
+  return {
+    async list(userId) {
+      await ensureIndexed();
+      const entries = await readDirectory(historyDirFor(userId));
+      const summaries = await Promise.all(
+        entries
+          .filter((entry) => entry.endsWith(".json"))
+          .map((entry) =>
+            readJsonFile<MenuSummary>(path.join(historyDirFor(userId), entry))
+          )
+      );
+      return summaries
+        .filter((summary): summary is MenuSummary => summary !== null)
+        .sort(newestFirst);
+    },
+    get: read,
+    async getBySlug(slug) {
+      if (!isValidSlug(slug)) return null;
+      try {
+        const id = (await fs.readFile(slugFileFor(slug), "utf8")).trim();
+        return await read(id);
+      } catch (error) {
+        if (isMissing(error)) return null;
+        throw error;
+      }
+    },
+    async create(menu) {
+      const record = createMenuRecord(menu);
+      await write(record);
+      await writeAtomic(slugFileFor(record.slug), record.id);
+      await index(record);
+      return record;
+    },
+    setFavorite(id, favorite) {
+      return queue(id, async () => {
+        const record = await read(id);
+        if (!record) return null;
+        const updated = { ...record, favorite };
+        await write(updated);
+        await index(updated);
+        return updated;
+      });
+    },
+    updatePayload(id, change) {
+      return queue(id, async () => {
+        const record = await read(id);
+        if (!record) return null;
+        const updated = { ...record, payload: change(record.payload) };
+        await write(updated);
+        await index(updated);
+        return updated;
+      });
+    },
+    remove(id) {
+      return queue(id, async () => {
+        const record = await read(id);
+        if (!record) return false;
+        try {
+          await fs.unlink(fileFor(id));
+          await fs.rm(slugFileFor(record.slug), { force: true });
+          const summaryFile = summaryFileFor(record);
+          if (summaryFile) await fs.rm(summaryFile, { force: true });
+          return true;
+        } catch (error) {
+          if (isMissing(error)) return false;
+          throw error;
+        }
+      });
+    }
+  };
+}
@@ -0,0 +1,25 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+export function isMissing(error: unknown) {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+export async function writeAtomic(target: string, contents: string) {
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  // Unique per write, so two writes racing to one file never share a temp.
+  const temp = `${target}.${randomUUID()}.tmp`;
+  await fs.writeFile(temp, contents, "utf8");
+  await fs.rename(temp, target);
+}
+
+/** Reads and parses a JSON file, or returns null when it does not exist. */
+export async function readJsonFile<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as T;
+  } catch (error) {
+    if (isMissing(error)) return null;
+    throw error;
+  }
+}
@@ -0,0 +1,145 @@
+import path from "path";
+import { createFileAccountStore } from "@/server/storage/account-file-store";
+import { createMemoryAccountStore } from "@/server/storage/account-memory-store";
+import { createFileContactStore } from "@/server/storage/contact-file-store";
+import { createMemoryContactStore } from "@/server/storage/contact-memory-store";
+import { createFileDeliveryStore } from "@/server/storage/delivery-file-store";
+import { createMemoryDeliveryStore } from "@/server/storage/delivery-memory-store";
+import { createFileMenuStore } from "@/server/storage/file-store";
+import { createMemoryMenuStore } from "@/server/storage/memory-store";
+import { createFilePantryStore } from "@/server/storage/pantry-file-store";
+import { createMemoryPantryStore } from "@/server/storage/pantry-memory-store";
+import { createFilePlanStore } from "@/server/storage/plan-file-store";
+import { createMemoryPlanStore } from "@/server/storage/plan-memory-store";
+import type {
+  AccountStore,
+  ContactStore,
+  DeliveryStore,
+  MenuStore,
+  PantryStore,
+  PlanStore
+} from "@/server/storage/types";
+
+export { ContactBookFullError } from "@/server/storage/contact-records";
+export { summarizeDelivery } from "@/server/storage/delivery-records";
+export { PantryFullError } from "@/server/storage/pantry-records";
+export { PlanFullError } from "@/server/storage/plan-records";
+
+export type {
+  AccountStore,
+  Contact,
+  ContactBook,
+  ContactGroup,
+  ContactStore,
+  DeliveryMessageRecord,
+  DeliveryRecord,
+  DeliveryStore,
+  DeliverySummary,
+  MealPlan,
+  MenuRecord,
+  MenuStore,
+  MenuSummary,
+  NewContact,
+  NewContactGroup,
+  NewDelivery,
+  NewMenu,
+  NewPantryItem,
+  NewPlannedMeal,
+  Pantry,
+  PantryItem,
+  PantryMerge,
+  PantryStore,
+  PantryUse,
+  PlannedMeal,
+  PlannedMealUpdate,
+  PlanStore,
+  SessionRecord,
+  User,
+  UserProfile
+} from "@/server/storage/types";
+
+let menuStore: MenuStore | null = null;
+let deliveryStore: DeliveryStore | null = null;
+const contactStores = new Map<string, ContactStore>();
+const pantryStores = new Map<string, PantryStore>();
+const planStores = new Map<string, PlanStore>();
+let accountStore: AccountStore | null = null;
+
+function dataDirectory() {
+  return path.resolve(process.env.DATA_DIR ?? path.join(process.cwd(), "data"));
+}
+
+/**
+ * Returns the process-wide menu store. `MENU_STORE=memory` keeps menus in
+ * memory; otherwise they are written under `DATA_DIR` (default `./data`).
+ */
+export function getMenuStore(): MenuStore {
+  if (!menuStore) {
+    menuStore =
+      process.env.MENU_STORE === "memory"
+        ? createMemoryMenuStore()
+        : createFileMenuStore(dataDirectory());
+  }
+  return menuStore;
+}
+
+/** WhatsApp delivery tracking, stored alongside menus. */
+export function getDeliveryStore(): DeliveryStore {
+  if (!deliveryStore) {
+    deliveryStore =
+      process.env.MENU_STORE === "memory"
+        ? createMemoryDeliveryStore()
+        : createFileDeliveryStore(dataDirectory());
+  }
+  return deliveryStore;
+}
+
+/** A user's saved WhatsApp contacts and groups, stored alongside menus. */
+export function getContactStore(userId: string): ContactStore {
+  let store = contactStores.get(userId);
+  if (!store) {
+    store =
+      process.env.MENU_STORE === "memory"
+        ? createMemoryContactStore()
+        : createFileContactStore(dataDirectory(), userId);
+    contactStores.set(userId, store);
+  }
+  return store;
+}
+
+/** A user's pantry and staples, stored alongside menus. */
+export function getPantryStore(userId: string): PantryStore {
+  let store = pantryStores.get(userId);
+  if (!store) {
+    store =
+      process.env.MENU_STORE === "memory"
+        ? createMemoryPantryStore()
+        : createFilePantryStore(dataDirectory(), userId);
+    pantryStores.set(userId, store);
+  }
+  return store;
+}
+
+/** A user's meal plan, stored alongside menus. */
+export function getPlanStore(userId: string): PlanStore {
+  let store = planStores.get(userId);
+  if (!store) {
+    store =
+      process.env.MENU_STORE === "memory"
+        ? createMemoryPlanStore()
+        : createFilePlanStore(dataDirectory(), userId);
+    planStores.set(userId, store);
+  }
+  return store;
+}
+
+/** Users, their profiles and sign-in sessions, stored alongside menus. */
+export function getAccountStore(): AccountStore {
+  if (!accountStore) {
+    accountStore =
+      process.env.MENU_STORE === "memory"
+        ? createMemoryAccountStore()
+        : createFileAccountStore(dataDirectory());
+  }
+  return accountStore;
+}
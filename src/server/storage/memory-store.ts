@@ -0,0 +1,49 @@
+import {
+  createMenuRecord,
+  newestFirst,
+  summarizeMenu
+} from "@/server/storage/records";
+import type { MenuRecord, MenuStore } from "@/server/storage/types";
+
+export function createMemoryMenuStore(): MenuStore {
+  const menus = new Map<string, MenuRecord>();
+
+  return {
+    async list(userId) {
+      return Array.from(menus.values())
+        .filter((menu) => menu.userId === userId)
+        .map(summarizeMenu)
+        .sort(newestFirst);
+    },
+    async get(id) {
+      return menus.get(id) ?? null;
+    },
+    async getBySlug(slug) {
+      return (
+        Array.from(menus.values()).find((menu) => menu.slug === slug) ?? null
+      );
+    },
+    async create(menu) {
+      const record = createMenuRecord(menu);
+      menus.set(record.id, record);
+      return record;
+    },
+    async setFavorite(id, favorite) {
+      const record = menus.get(id);
+      if (!record) return null;
+      const updated = { ...record, favorite };
+      menus.set(id, updated);
+      return updated;
+    },
+    async updatePayload(id, change) {
+      const record = menus.get(id);
+      if (!record) return null;
+      const updated = { ...record, payload: change(record.payload) };
+      menus.set(id, updated);
+      return updated;
+    },
+    async remove(id) {
+      return menus.delete(id);
+    }
+  };
+}
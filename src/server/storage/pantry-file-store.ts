@@ -0,0 +1,20 @@
+import path from "path";
+import { readJsonFile, writeAtomic } from "@/server/storage/fs";
+import { createPantryStore } from "@/server/storage/pantry-records";
+import type { Pantry, PantryStore } from "@/server/storage/types";
+
+/** One pantry per user, in `pantries/<user id>.json`. */
+export function createFilePantryStore(
+  directory: string,
+  userId: string
+): PantryStore {
+  const file = path.join(directory, "pantries", `${userId}.json`);
+  return createPantryStore({
+    async load() {
+      return (await readJsonFile<Pantry>(file)) ?? { items: [], staples: [] };
+    },
+    save(pantry) {
+      return writeAtomic(file, JSON.stringify(pantry));
+    }
+  });
+}
@@ -0,0 +1,14 @@
+import { createPantryStore } from "@/server/storage/pantry-records";
+import type { Pantry, PantryStore } from "@/server/storage/types";
+
+export function createMemoryPantryStore(): PantryStore {
+  let pantry: Pantry = { items: [], staples: [] };
+  return createPantryStore({
+    async load() {
+      return pantry;
+    },
+    async save(updated) {
+      pantry = updated;
+    }
+  });
+}
@@ -0,0 +1,189 @@
+import { randomUUID } from "crypto";
+import { createKeyedQueue } from "@/server/storage/queue";
+import type { PantryMerge, PantryStore } from "@/server/storage/types";
+import {
+  byExpiry,
+  findPantryMatch,
+  MAX_PANTRY_ITEMS,
+  pantryKey,
+  type NewPantryItem,
+  type Pantry,
+  type PantryItem,
+  type PantryUse
+} from "@/shared/pantry";
+import { convertAmount } from "@/shared/units";
+
+export class PantryFullError extends Error {
+  constructor() {
+    super(`The pantry holds at most ${MAX_PANTRY_ITEMS} items.`);
+    this.name = "PantryFullError";
+  }
+}
+
+type PantryBackend = {
+  load(): Promise<Pantry>;
+  save(pantry: Pantry): Promise<void>;
+};
+
+// Amounts are estimates; two decimals keeps 1/3 cup from printing as 0.333….
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const earliest = (left: string | null, right: string | null) =>
+  left && right ? (left < right ? left : right) : (left ?? right);
+
+function mergeItem(
+  existing: PantryItem,
+  item: NewPantryItem,
+  merge: PantryMerge,
+  now: string
+): PantryItem {
+  let amount = { quantity: existing.quantity, unit: existing.unit };
+  const added =
+    merge === "sum" && existing.quantity !== null && item.quantity !== null
+      ? convertAmount(item.quantity, item.unit, existing.unit)
+      : null;
+  if (added !== null && existing.quantity !== null) {
+    amount = {
+      quantity: round(existing.quantity + added),
+      unit: existing.unit
+    };
+  } else if (
+    item.quantity !== null &&
+    (merge === "sum" || existing.quantity === null)
+  ) {
+    amount = { quantity: item.quantity, unit: item.unit };
+  }
+  return {
+    ...existing,
+    ...amount,
+    // Older stock goes off first, so the earlier date wins.
+    expiresOn: earliest(existing.expiresOn, item.expiresOn),
+    updatedAt: now
+  };
+}
+
+/**
+ * The pantry is one small document per user, so every change is a
+ * serialized read-modify-write through `backend`.
+ */
+export function createPantryStore(backend: PantryBackend): PantryStore {
+  const queue = createKeyedQueue();
+
+  const change = <T>(apply: (pantry: Pantry) => [Pantry, T]) =>
+    queue("pantry", async () => {
+      const [pantry, result] = apply(await backend.load());
+      await backend.save(pantry);
+      return result;
+    });
+
+  return {
+    async get() {
+      const pantry = await backend.load();
+      return { ...pantry, items: [...pantry.items].sort(byExpiry) };
+    },
+    addItems(newItems, merge) {
+      return change((pantry) => {
+        const now = new Date().toISOString();
+        const items = [...pantry.items];
+        const saved: PantryItem[] = [];
+        for (const item of newItems) {
+          const key = pantryKey(item.name);
+          const index = key
+            ? items.findIndex((candidate) => pantryKey(candidate.name) === key)
+            : -1;
+          if (index >= 0) {
+            items[index] = mergeItem(items[index], item, merge, now);
+            saved.push(items[index]);
+            continue;
+          }
+          if (items.length >= MAX_PANTRY_ITEMS) throw new PantryFullError();
+          const created = {
+            id: randomUUID(),
+            ...item,
+            addedAt: now,
+            updatedAt: now
+          };
+          items.push(created);
+          saved.push(created);
+        }
+        return [{ ...pantry, items }, saved];
+      });
+    },
+    updateItem(id, update) {
+      return change((pantry) => {
+        const item = pantry.items.find((candidate) => candidate.id === id);
+        if (!item) return [pantry, null];
+        const updated = {
+          ...item,
+          ...update,
+          updatedAt: new Date().toISOString()
+        };
+        return [
+          {
+            ...pantry,
+            items: pantry.items.map((candidate) =>
+              candidate.id === id ? updated : candidate
+            )
+          },
+          updated
+        ];
+      });
+    },
+    removeItem(id) {
+      return change((pantry) => [
+        { ...pantry, items: pantry.items.filter((item) => item.id !== id) },
+        pantry.items.some((item) => item.id === id)
+      ]);
+    },
+    setStaples(staples) {
+      return change((pantry) => {
+        const seen = new Set<string>();
+        const unique = staples.filter((staple) => {
+          const key = pantryKey(staple);
+          if (!key || seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+        return [{ ...pantry, staples: unique }, unique];
+      });
+    },
+    useIngredients(ingredients) {
+      return change((pantry) => {
+        const staples = pantry.staples.map((name) => ({ name }));
+        let items = [...pantry.items];
+        const used: PantryUse[] = [];
+        for (const ingredient of ingredients) {
+          if (findPantryMatch(staples, ingredient.item)) continue;
+          const item = findPantryMatch(items, ingredient.item);
+          // Without both amounts there is nothing sensible to subtract.
+          if (!item || item.quantity === null || ingredient.quantity === null) {
+            continue;
+          }
+          const amount = convertAmount(
+            ingredient.quantity,
+            ingredient.unit,
+            item.unit
+          );
+          if (amount === null) continue;
+
+          const remaining = round(item.quantity - amount);
+          if (remaining <= 0) {
+            items = items.filter((candidate) => candidate.id !== item.id);
+          } else {
+            items = items.map((candidate) =>
+              candidate.id === item.id
+                ? {
+                    ...candidate,
+                    quantity: remaining,
+                    updatedAt: new Date().toISOString()
+                  }
+                : candidate
+            );
+          }
+          used.push({ name: item.name, usedUp: remaining <= 0 });
+        }
+        return [{ ...pantry, items }, used];
+      });
+    }
+  };
+}
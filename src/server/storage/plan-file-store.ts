@@ -0,0 +1,20 @@
+import path from "path";
+import { readJsonFile, writeAtomic } from "@/server/storage/fs";
+import { createPlanStore } from "@/server/storage/plan-records";
+import type { MealPlan, PlanStore } from "@/server/storage/types";
+
+/** One meal plan per user, in `plans/<user id>.json`. */
+export function createFilePlanStore(
+  directory: string,
+  userId: string
+): PlanStore {
+  const file = path.join(directory, "plans", `${userId}.json`);
+  return createPlanStore({
+    async load() {
+      return (await readJsonFile<MealPlan>(file)) ?? { meals: [] };
+    },
+    save(plan) {
+      return writeAtomic(file, JSON.stringify(plan));
+    }
+  });
+}
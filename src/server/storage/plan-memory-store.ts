@@ -0,0 +1,14 @@
+import { createPlanStore } from "@/server/storage/plan-records";
+import type { MealPlan, PlanStore } from "@/server/storage/types";
+
+export function createMemoryPlanStore(): PlanStore {
+  let plan: MealPlan = { meals: [] };
+  return createPlanStore({
+    async load() {
+      return plan;
+    },
+    async save(updated) {
+      plan = updated;
+    }
+  });
+}
@@ -0,0 +1,82 @@
+import { randomUUID } from "crypto";
+import { createKeyedQueue } from "@/server/storage/queue";
+import type { PlanStore } from "@/server/storage/types";
+import { toDateString } from "@/shared/pantry";
+import {
+  addDays,
+  MAX_PLANNED_MEALS,
+  PLAN_RETENTION_DAYS,
+  type MealPlan,
+  type PlannedMeal
+} from "@/shared/planner";
+
+export class PlanFullError extends Error {
+  constructor() {
+    super(`The planner holds at most ${MAX_PLANNED_MEALS} meals.`);
+    this.name = "PlanFullError";
+  }
+}
+
+type PlanBackend = {
+  load(): Promise<MealPlan>;
+  save(plan: MealPlan): Promise<void>;
+};
+
+/** Drops meals from weeks long gone, so the plan does not grow forever. */
+function withoutOldMeals(plan: MealPlan): MealPlan {
+  const cutoff = addDays(toDateString(new Date()), -PLAN_RETENTION_DAYS);
+  return { meals: plan.meals.filter((planned) => planned.date >= cutoff) };
+}
+
+/**
+ * The plan is one small document per user, so every change is a
+ * serialized read-modify-write through `backend`.
+ */
+export function createPlanStore(backend: PlanBackend): PlanStore {
+  const queue = createKeyedQueue();
+
+  const change = <T>(apply: (plan: MealPlan) => [MealPlan, T]) =>
+    queue("plan", async () => {
+      const [plan, result] = apply(withoutOldMeals(await backend.load()));
+      await backend.save(plan);
+      return result;
+    });
+
+  return {
+    get() {
+      return backend.load();
+    },
+    add(meal) {
+      return change((plan) => {
+        if (plan.meals.length >= MAX_PLANNED_MEALS) throw new PlanFullError();
+        const planned: PlannedMeal = {
+          id: randomUUID(),
+          ...meal,
+          addedAt: new Date().toISOString()
+        };
+        return [{ meals: [...plan.meals, planned] }, planned];
+      });
+    },
+    update(id, update) {
+      return change((plan) => {
+        const planned = plan.meals.find((candidate) => candidate.id === id);
+        if (!planned) return [plan, null];
+        const updated = { ...planned, ...update };
+        return [
+          {
+            meals: plan.meals.map((candidate) =>
+              candidate.id === id ? updated : candidate
+            )
+          },
+          updated
+        ];
+      });
+    },
+    remove(id) {
+      return change((plan) => [
+        { meals: plan.meals.filter((planned) => planned.id !== id) },
+        plan.meals.some((planned) => planned.id === id)
+      ]);
+    }
+  };
+}
@@ -0,0 +1,59 @@
+import { randomInt, randomUUID } from "crypto";
+import type { MenuRecord, MenuSummary, NewMenu } from "@/server/storage/types";
+import { upgradePayload } from "@/shared/recipe";
+
+const ID_PATTERN = /^[a-zA-Z0-9-]{8,64}$/;
+const SLUG_PATTERN = /^[a-zA-Z0-9]{10}$/;
+const SLUG_ALPHABET =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+export function isValidMenuId(id: string) {
+  return ID_PATTERN.test(id);
+}
+
+export function isValidSlug(slug: string) {
+  return SLUG_PATTERN.test(slug);
+}
+
+// 10 base62 characters is short enough to paste and still unguessable.
+function createSlug() {
+  let slug = "";
+  for (let index = 0; index < 10; index += 1) {
+    slug += SLUG_ALPHABET[randomInt(SLUG_ALPHABET.length)];
+  }
+  return slug;
+}
+
+export function createMenuRecord(menu: NewMenu): MenuRecord {
+  return {
+    id: randomUUID(),
+    slug: createSlug(),
+    createdAt: new Date().toISOString(),
+    favorite: false,
+    ...menu
+  };
+}
+
+/** Brings a record read from disk up to the current payload schema. */
+export function upgradeMenuRecord(record: MenuRecord): MenuRecord {
+  return {
+    ...record,
+    userId: record.userId ?? null,
+    payload: upgradePayload(record.payload)
+  };
+}
+
+export function summarizeMenu({ payload, ...record }: MenuRecord): MenuSummary {
+  return {
+    ...record,
+    summary: payload.summary,
+    recipeNames: payload.recipes.map((recipe) => recipe.name)
+  };
+}
+
+export function newestFirst(
+  a: { createdAt: string },
+  b: { createdAt: string }
+) {
+  return b.createdAt.localeCompare(a.createdAt);
+}
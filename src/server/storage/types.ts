@@ -0,0 +1,192 @@
+import type { OutboundMessage } from "@/server/whatsapp/client";
+import type { User, UserProfile } from "@/shared/account";
+import type { Contact, ContactBook, ContactGroup } from "@/shared/contacts";
+import type { DeliveryMessage, DeliverySummary } from "@/shared/delivery";
+import type { MenuRecord, MenuSummary } from "@/shared/menu";
+import type {
+  NewPantryItem,
+  Pantry,
+  PantryItem,
+  PantryUse
+} from "@/shared/pantry";
+import type {
+  MealPlan,
+  NewPlannedMeal,
+  PlannedMeal,
+  PlannedMealUpdate
+} from "@/shared/planner";
+import type { GenerateResponse, RecipeIngredient } from "@/shared/recipe";
+
+export type {
+  Contact,
+  ContactBook,
+  ContactGroup,
+  DeliverySummary,
+  MealPlan,
+  MenuRecord,
+  MenuSummary,
+  NewPantryItem,
+  NewPlannedMeal,
+  Pantry,
+  PantryItem,
+  PantryUse,
+  PlannedMeal,
+  PlannedMealUpdate,
+  User,
+  UserProfile
+};
+
+export type NewMenu = Pick<
+  MenuRecord,
+  "userId" | "notes" | "thumbnailDataUrl" | "payload"
+>;
+
+export type MenuStore = {
+  /** The user's menus, newest first. */
+  list(userId: string): Promise<MenuSummary[]>;
+  get(id: string): Promise<MenuRecord | null>;
+  getBySlug(slug: string): Promise<MenuRecord | null>;
+  create(menu: NewMenu): Promise<MenuRecord>;
+  setFavorite(id: string, favorite: boolean): Promise<MenuRecord | null>;
+  /**
+   * Applies `change` to the stored payload. Updates to the same menu run one
+   * after another, so two recipes refined at once both land.
+   */
+  updatePayload(
+    id: string,
+    change: (payload: GenerateResponse) => GenerateResponse
+  ): Promise<MenuRecord | null>;
+  remove(id: string): Promise<boolean>;
+};
+
+export type DeliveryMessageRecord = DeliveryMessage & {
+  /** What was sent, kept so failed messages can be retried as-is. */
+  content: OutboundMessage;
+};
+
+export type DeliveryRecord = Omit<DeliverySummary, "messages"> & {
+  /** Who sent it; null for deliveries recorded before sign-in existed. */
+  userId: string | null;
+  messages: DeliveryMessageRecord[];
+};
+
+export type NewDelivery = Pick<
+  DeliveryRecord,
+  "userId" | "recipient" | "menuId"
+> & {
+  messages: OutboundMessage[];
+};
+
+export type DeliveryStore = {
+  create(delivery: NewDelivery): Promise<DeliveryRecord>;
+  get(id: string): Promise<DeliveryRecord | null>;
+  /** Finds the delivery containing a WhatsApp message id. */
+  findByMessageId(messageId: string): Promise<DeliveryRecord | null>;
+  /**
+   * Applies `change` to the stored record. Updates to the same delivery run
+   * one after another, so concurrent status callbacks cannot overwrite each
+   * other.
+   */
+  update(
+    id: string,
+    change: (record: DeliveryRecord) => DeliveryRecord
+  ): Promise<DeliveryRecord | null>;
+};
+
+export type NewContact = Pick<Contact, "name" | "phoneNumber">;
+
+export type NewContactGroup = Pick<ContactGroup, "name" | "contactIds">;
+
+export type ContactStore = {
+  list(): Promise<ContactBook>;
+  /** Saving a number that is already in the book renames that contact. */
+  saveContact(contact: NewContact): Promise<Contact>;
+  /** Also removes the contact from every group. */
+  removeContact(id: string): Promise<boolean>;
+  createGroup(group: NewContactGroup): Promise<ContactGroup>;
+  updateGroup(
+    id: string,
+    change: Partial<NewContactGroup>
+  ): Promise<ContactGroup | null>;
+  removeGroup(id: string): Promise<boolean>;
+};
+
+/**
+ * How `addItems` treats an item already in the pantry: "sum" adds the new
+ * amount to it, "keep" only fills in an amount it lacks, as an estimate from
+ * a photo is rougher than one the cook measured.
+ */
+export type PantryMerge = "sum" | "keep";
+
+export type PantryStore = {
+  get(): Promise<Pantry>;
+  /** Items with the same name as an existing one are merged into it. */
+  addItems(items: NewPantryItem[], merge: PantryMerge): Promise<PantryItem[]>;
+  updateItem(
+    id: string,
+    change: Partial<NewPantryItem>
+  ): Promise<PantryItem | null>;
+  removeItem(id: string): Promise<boolean>;
+  setStaples(staples: string[]): Promise<string[]>;
+  /** Counts down what a cooked recipe used; staples are never counted. */
+  useIngredients(ingredients: RecipeIngredient[]): Promise<PantryUse[]>;
+};
+
+export type PlanStore = {
+  get(): Promise<MealPlan>;
+  add(meal: NewPlannedMeal): Promise<PlannedMeal>;
+  update(id: string, change: PlannedMealUpdate): Promise<PlannedMeal | null>;
+  remove(id: string): Promise<boolean>;
+};
+
+export type SessionRecord = {
+  /** SHA-256 of the cookie value; the token itself is never stored. */
+  tokenHash: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+/** A sign-in link that has been emailed but not yet opened. */
+export type LoginTokenRecord = {
+  tokenHash: string;
+  email: string;
+  expiresAt: string;
+};
+
+/** A code sent to a WhatsApp number that the cook has not typed back yet. */
+export type PhoneVerificationRecord = {
+  userId: string;
+  /** E.164. */
+  phoneNumber: string;
+  codeHash: string;
+  /** Wrong codes tried so far. */
+  attempts: number;
+  expiresAt: string;
+};
+
+export type AccountStore = {
+  get(id: string): Promise<User | null>;
+  /** Returns the account for `email`, creating it on first sign-in. */
+  findOrCreate(email: string): Promise<User>;
+  findByWhatsAppNumber(phoneNumber: string): Promise<User | null>;
+  updateProfile(id: string, change: Partial<UserProfile>): Promise<User | null>;
+  /** Replaces any code the user is still waiting on. */
+  savePhoneVerification(record: PhoneVerificationRecord): Promise<void>;
+  /**
+   * Moves the number to the user's profile when `codeHash` matches their
+   * pending code, taking it off any other account. Null for a wrong or
+   * expired code; too many wrong ones discard the code.
+   */
+  confirmPhoneVerification(
+    userId: string,
+    codeHash: string
+  ): Promise<User | null>;
+  saveLoginToken(token: LoginTokenRecord): Promise<void>;
+  /** Returns the email the link was sent to, once; expired links are null. */
+  consumeLoginToken(tokenHash: string): Promise<string | null>;
+  saveSession(session: SessionRecord): Promise<void>;
+  /** The session for `tokenHash`, or null once it has expired. */
+  getSession(tokenHash: string): Promise<SessionRecord | null>;
+  removeSession(tokenHash: string): Promise<void>;
+};
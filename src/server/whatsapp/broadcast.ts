@@ -0,0 +1,127 @@
+import { log } from "@/server/observability";
+import { getDeliveryStore, summarizeDelivery } from "@/server/storage";
+import type {
+  OutboundMessage,
+  TemplateMessage,
+  WhatsAppClient
+} from "@/server/whatsapp/client";
+import { sendDelivery } from "@/server/whatsapp/deliveries";
+import {
+  OUTSIDE_SESSION_WINDOW_CODE,
+  type RecipientResult
+} from "@/shared/delivery";
+
+export const MAX_BROADCAST_RECIPIENTS = 50;
+// The Graph API throttles bursts from one phone number, so only a few
+// recipients are sent to at once.
+export const BROADCAST_CONCURRENCY = 4;
+
+export type BroadcastRecipient = {
+  phoneNumber: string;
+  name: string | null;
+};
+
+type Broadcast = {
+  /** The signed-in sender, who alone can see and retry the deliveries. */
+  userId: string;
+  menuId: string | null;
+  messages: OutboundMessage[];
+  /** Sent instead to recipients outside the 24-hour session window. */
+  template: TemplateMessage | null;
+};
+
+/** Runs `task` over `items` with at most `limit` in flight; keeps order. */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+}
+
+async function sendToRecipient(
+  client: WhatsAppClient,
+  recipient: BroadcastRecipient,
+  { userId, menuId, messages, template }: Broadcast
+): Promise<RecipientResult> {
+  const store = getDeliveryStore();
+  const deliver = async (outbound: OutboundMessage[]) => {
+    const created = await store.create({
+      userId,
+      recipient: recipient.phoneNumber,
+      menuId,
+      messages: outbound
+    });
+    return (await sendDelivery(client, created.id)) ?? created;
+  };
+
+  let delivery = await deliver(messages);
+  // Free-form text only reaches people who wrote in the last 24 hours.
+  if (
+    template &&
+    messages[0].kind !== "template" &&
+    delivery.messages[0].error?.code === OUTSIDE_SESSION_WINDOW_CODE
+  ) {
+    delivery = await deliver([{ kind: "template", template }]);
+  }
+
+  const summary = summarizeDelivery(delivery);
+  const failed = summary.messages.find(
+    (message) => message.status === "failed"
+  );
+  return {
+    recipient: recipient.phoneNumber,
+    name: recipient.name,
+    status: failed
+      ? "failed"
+      : summary.messages[0].kind === "template"
+        ? "template"
+        : "sent",
+    error: failed ? (failed.error?.title ?? "Unknown error.") : null,
+    delivery: summary
+  };
+}
+
+/**
+ * Sends the same messages to every recipient. One recipient failing never
+ * stops the others; each result says how that recipient's send went.
+ */
+export function broadcast(
+  client: WhatsAppClient,
+  recipients: BroadcastRecipient[],
+  message: Broadcast
+) {
+  return mapWithConcurrency(
+    recipients,
+    BROADCAST_CONCURRENCY,
+    async (recipient): Promise<RecipientResult> => {
+      try {
+        return await sendToRecipient(client, recipient, message);
+      } catch (error) {
+        log.error("WhatsApp send failed", { error });
+        return {
+          recipient: recipient.phoneNumber,
+          name: recipient.name,
+          status: "failed",
+          error:
+            error instanceof Error
+              ? error.message
+              : "WhatsApp delivery failed unexpectedly.",
+          delivery: null
+        };
+      }
+    }
+  );
+}
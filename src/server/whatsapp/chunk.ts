@@ -0,0 +1,40 @@
+/** WhatsApp rejects text bodies longer than this. */
+export const WHATSAPP_TEXT_LIMIT = 4096;
+
+function splitAt(text: string, separator: string, limit: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const part of text.split(separator)) {
+    const candidate = current ? `${current}${separator}${part}` : part;
+    if (candidate.length <= limit) {
+      current = candidate;
+      continue;
+    }
+    if (current) chunks.push(current);
+    current = part;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Splits a long message into ordered chunks that each fit in one WhatsApp
+ * text. Breaks at blank lines (recipe boundaries) first, then at line
+ * breaks, and only cuts mid-line when a single line is too long.
+ */
+export function chunkMessage(
+  text: string,
+  limit = WHATSAPP_TEXT_LIMIT
+): string[] {
+  return splitAt(text.trim(), "\n\n", limit).flatMap((block) =>
+    block.length <= limit
+      ? [block]
+      : splitAt(block, "\n", limit).flatMap((line) => {
+          const pieces: string[] = [];
+          for (let offset = 0; offset < line.length; offset += limit) {
+            pieces.push(line.slice(offset, offset + limit));
+          }
+          return pieces;
+        })
+  );
+}
@@ -0,0 +1,256 @@
+import { counter, histogram, log } from "@/server/observability";
+import { MAX_IMAGE_BYTES } from "@/shared/image";
+
+type WhatsAppClientOptions = {
+  token: string;
+  phoneId: string;
+  graphUrl: string;
+};
+
+export class WhatsAppMediaTooLargeError extends Error {
+  constructor(readonly maxBytes: number) {
+    super(`WhatsApp media is larger than ${maxBytes} bytes.`);
+    this.name = "WhatsAppMediaTooLargeError";
+  }
+}
+
+/** Buffers at most `maxBytes` of `response`, failing as soon as it passes. */
+async function readCapped(response: Response, maxBytes: number) {
+  if (Number(response.headers.get("content-length")) > maxBytes) {
+    throw new WhatsAppMediaTooLargeError(maxBytes);
+  }
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      received += value.byteLength;
+      if (received > maxBytes) {
+        await reader.cancel();
+        throw new WhatsAppMediaTooLargeError(maxBytes);
+      }
+      chunks.push(value);
+    }
+  }
+  return Buffer.concat(chunks);
+}
+
+export class WhatsAppApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: unknown
+  ) {
+    super(`WhatsApp API error (${status}): ${JSON.stringify(body)}`);
+    this.name = "WhatsAppApiError";
+  }
+
+  /** Graph API error code, e.g. 131047 for "outside the 24-hour window". */
+  get code(): number | null {
+    const code = (this.body as { error?: { code?: unknown } })?.error?.code;
+    return typeof code === "number" ? code : null;
+  }
+}
+
+const apiRequests = counter(
+  "whatsapp_api_requests_total",
+  "Graph API calls, by operation and HTTP status."
+);
+const apiErrors = counter(
+  "whatsapp_api_errors_total",
+  "Failed Graph API calls, by operation and Graph API error code."
+);
+const apiDuration = histogram(
+  "whatsapp_api_request_duration_seconds",
+  "Graph API latency, by operation."
+);
+
+/** What a Graph API call did, for metrics: a message type or `media`. */
+type GraphOperation = "text" | "template" | "list" | "media";
+
+export type TemplateMessage = {
+  name: string;
+  /** Template language code, e.g. `en_US`. */
+  language: string;
+  /** Values for the template body's `{{1}}`, `{{2}}`… placeholders. */
+  parameters: string[];
+};
+
+export type ListRow = {
+  /** Returned in the webhook when the recipient picks this row. */
+  id: string;
+  title: string;
+  description?: string;
+};
+
+export type ListMessage = {
+  header?: string;
+  body: string;
+  /** Label of the button that opens the list. */
+  button: string;
+  sectionTitle: string;
+  rows: ListRow[];
+};
+
+export type DownloadedMedia = {
+  mimeType: string;
+  bytes: Buffer;
+};
+
+export type OutboundMessage =
+  | { kind: "text"; body: string }
+  | { kind: "template"; template: TemplateMessage }
+  | { kind: "list"; list: ListMessage };
+
+type SendResult = { id: string | null };
+
+export type WhatsAppClient = {
+  sendText(to: string, body: string): Promise<SendResult>;
+  sendTemplate(to: string, template: TemplateMessage): Promise<SendResult>;
+  sendList(to: string, list: ListMessage): Promise<SendResult>;
+  send(to: string, message: OutboundMessage): Promise<SendResult>;
+  /** Throws `WhatsAppMediaTooLargeError` past `MAX_IMAGE_BYTES`. */
+  downloadMedia(mediaId: string): Promise<DownloadedMedia>;
+};
+
+export function createWhatsAppClient(
+  options: WhatsAppClientOptions
+): WhatsAppClient {
+  const authorization = `Bearer ${options.token}`;
+
+  const graphFetch = async (
+    operation: GraphOperation,
+    url: string,
+    init?: RequestInit
+  ) => {
+    const started = performance.now();
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        headers: { Authorization: authorization, ...init?.headers }
+      });
+    } catch (error) {
+      apiRequests.inc({ operation, status: "network_error" });
+      apiErrors.inc({ operation, code: "network_error" });
+      throw error;
+    } finally {
+      apiDuration.observe({ operation }, (performance.now() - started) / 1000);
+    }
+
+    apiRequests.inc({ operation, status: String(response.status) });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      const error = new WhatsAppApiError(response.status, body);
+      apiErrors.inc({ operation, code: String(error.code ?? "unknown") });
+      log.warn("WhatsApp API call failed", {
+        operation,
+        status: error.status,
+        code: error.code
+      });
+      throw error;
+    }
+    return response;
+  };
+
+  const post = async (
+    operation: GraphOperation,
+    to: string,
+    message: Record<string, unknown>
+  ): Promise<SendResult> => {
+    const response = await graphFetch(
+      operation,
+      `${options.graphUrl}/${options.phoneId}/messages`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messaging_product: "whatsapp", to, ...message })
+      }
+    );
+    const json = await response.json().catch(() => ({}));
+    return { id: json?.messages?.[0]?.id ?? null };
+  };
+
+  const client: WhatsAppClient = {
+    sendText(to, body) {
+      return post("text", to, {
+        type: "text",
+        text: { preview_url: false, body }
+      });
+    },
+    sendTemplate(to, template) {
+      return post("template", to, {
+        type: "template",
+        template: {
+          name: template.name,
+          language: { code: template.language },
+          components: template.parameters.length
+            ? [
+                {
+                  type: "body",
+                  parameters: template.parameters.map((text) => ({
+                    type: "text",
+                    text
+                  }))
+                }
+              ]
+            : undefined
+        }
+      });
+    },
+    sendList(to, list) {
+      return post("list", to, {
+        type: "interactive",
+        interactive: {
+          type: "list",
+          header: list.header ? { type: "text", text: list.header } : undefined,
+          body: { text: list.body },
+          action: {
+            button: list.button,
+            sections: [{ title: list.sectionTitle, rows: list.rows }]
+          }
+        }
+      });
+    },
+    send(to, message) {
+      switch (message.kind) {
+        case "text":
+          return client.sendText(to, message.body);
+        case "template":
+          return client.sendTemplate(to, message.template);
+        case "list":
+          return client.sendList(to, message.list);
+      }
+    },
+    // Media is fetched in two steps: the id resolves to a short-lived URL,
+    // which needs the same bearer token to download.
+    async downloadMedia(mediaId) {
+      const meta = await graphFetch(
+        "media",
+        `${options.graphUrl}/${encodeURIComponent(mediaId)}`
+      );
+      const {
+        url,
+        mime_type: mimeType,
+        file_size: fileSize
+      } = (await meta.json()) as {
+        url?: string;
+        mime_type?: string;
+        file_size?: number;
+      };
+      if (!url) {
+        throw new Error(`WhatsApp media ${mediaId} has no download URL.`);
+      }
+      if (fileSize !== undefined && fileSize > MAX_IMAGE_BYTES) {
+        throw new WhatsAppMediaTooLargeError(MAX_IMAGE_BYTES);
+      }
+      const media = await graphFetch("media", url);
+      return {
+        mimeType: mimeType ?? media.headers.get("content-type") ?? "image/jpeg",
+        bytes: await readCapped(media, MAX_IMAGE_BYTES)
+      };
+    }
+  };
+  return client;
+}
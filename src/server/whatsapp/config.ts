@@ -0,0 +1,58 @@
+import { isCountryCode, type CountryCode } from "@/shared/phone";
+
+export type WhatsAppEnv = {
+  token: string | undefined;
+  phoneId: string | undefined;
+  /** Country used to read numbers typed without a country code. */
+  defaultCountry: CountryCode | undefined;
+  /** Meta app secret used to sign webhook deliveries. */
+  appSecret: string | undefined;
+  /** Shared secret for the webhook verification handshake. */
+  verifyToken: string | undefined;
+  /** Override to point at a stub Graph API during local testing. */
+  graphUrl: string;
+  /** Approved template for recipients outside the 24-hour session window. */
+  templateName: string | undefined;
+  templateLanguage: string;
+  /**
+   * E.164 numbers, or prefixes ending in "*", that may be messaged. Null
+   * allows every number.
+   */
+  allowedRecipients: string[] | null;
+};
+
+/** Reads `WHATSAPP_ALLOWED_RECIPIENTS`, e.g. "+14155552671, +4477*". */
+function readAllowedRecipients() {
+  const entries = (process.env.WHATSAPP_ALLOWED_RECIPIENTS ?? "")
+    .split(",")
+    .map((entry) => entry.replace(/[\s()-]/g, ""))
+    .filter(Boolean);
+  return entries.length ? entries : null;
+}
+
+/** Whether the allowlist, if any, lets us message `e164`. */
+export function isRecipientAllowed(env: WhatsAppEnv, e164: string) {
+  return (
+    !env.allowedRecipients ||
+    env.allowedRecipients.some((entry) =>
+      entry.endsWith("*") ? e164.startsWith(entry.slice(0, -1)) : entry === e164
+    )
+  );
+}
+
+export function readWhatsAppEnv(): WhatsAppEnv {
+  const country = process.env.WHATSAPP_DEFAULT_COUNTRY?.trim().toUpperCase();
+  return {
+    token: process.env.WHATSAPP_ACCESS_TOKEN,
+    phoneId: process.env.WHATSAPP_PHONE_NUMBER_ID,
+    defaultCountry: country && isCountryCode(country) ? country : undefined,
+    appSecret: process.env.WHATSAPP_APP_SECRET,
+    verifyToken: process.env.WHATSAPP_VERIFY_TOKEN,
+    graphUrl: (
+      process.env.WHATSAPP_GRAPH_URL ?? "https://graph.facebook.com/v19.0"
+    ).replace(/\/+$/, ""),
+    templateName: process.env.WHATSAPP_TEMPLATE_NAME,
+    templateLanguage: process.env.WHATSAPP_TEMPLATE_LANGUAGE ?? "en_US",
+    allowedRecipients: readAllowedRecipients()
+  };
+}
@@ -0,0 +1,110 @@
+import { counter } from "@/server/observability";
+import {
+  getDeliveryStore,
+  type DeliveryMessageRecord,
+  type DeliveryRecord
+} from "@/server/storage";
+import {
+  WhatsAppApiError,
+  type WhatsAppClient
+} from "@/server/whatsapp/client";
+import {
+  isStatusAdvance,
+  type DeliveryError,
+  type DeliveryStatus
+} from "@/shared/delivery";
+
+const statusCallbacks = counter(
+  "whatsapp_status_callbacks_total",
+  "Delivery statuses reported by the webhook, with the error code of failures."
+);
+
+function describeSendError(error: unknown): DeliveryError {
+  if (error instanceof WhatsAppApiError) {
+    const detail = (error.body as { error?: { message?: unknown } })?.error
+      ?.message;
+    return {
+      code: error.code,
+      title: typeof detail === "string" ? detail : error.message
+    };
+  }
+  return {
+    code: null,
+    title: error instanceof Error ? error.message : "Unknown send error."
+  };
+}
+
+/**
+ * Sends every message of a delivery that has not gone out yet (pending or
+ * failed), in order, recording each result as it happens. Stops at the
+ * first failure so a retry never delivers messages out of order.
+ */
+export async function sendDelivery(
+  client: WhatsAppClient,
+  id: string
+): Promise<DeliveryRecord | null> {
+  const store = getDeliveryStore();
+  let record = await store.get(id);
+  if (!record) return null;
+
+  for (let index = 0; index < record.messages.length; index += 1) {
+    const message = record.messages[index];
+    if (message.status !== "pending" && message.status !== "failed") continue;
+
+    let change: Partial<DeliveryMessageRecord>;
+    try {
+      const { id: messageId } = await client.send(
+        record.recipient,
+        message.content
+      );
+      change = { messageId, status: "accepted", error: null };
+    } catch (error) {
+      change = { status: "failed", error: describeSendError(error) };
+    }
+
+    const updatedAt = new Date().toISOString();
+    record =
+      (await store.update(id, (current) => ({
+        ...current,
+        messages: current.messages.map((entry, entryIndex) =>
+          entryIndex === index
+            ? { ...entry, ...change, attempts: entry.attempts + 1, updatedAt }
+            : entry
+        )
+      }))) ?? record;
+    if (change.status === "failed") break;
+  }
+  return record;
+}
+
+export type StatusCallback = {
+  messageId: string;
+  status: Extract<DeliveryStatus, "sent" | "delivered" | "read" | "failed">;
+  error: DeliveryError | null;
+};
+
+/** Records a status callback from the webhook; unknown ids are ignored. */
+export async function applyStatusCallback(callback: StatusCallback) {
+  statusCallbacks.inc({
+    status: callback.status,
+    code: String(callback.error?.code ?? "none")
+  });
+  const store = getDeliveryStore();
+  const record = await store.findByMessageId(callback.messageId);
+  if (!record) return;
+
+  await store.update(record.id, (current) => ({
+    ...current,
+    messages: current.messages.map((message) =>
+      message.messageId === callback.messageId &&
+      isStatusAdvance(message.status, callback.status)
+        ? {
+            ...message,
+            status: callback.status,
+            error: callback.error,
+            updatedAt: new Date().toISOString()
+          }
+        : message
+    )
+  }));
+}
@@ -0,0 +1,123 @@
+// Webhook deliveries as Meta sends them (numbers and ids replaced), for
+// tests that drive the bot without a live WhatsApp Business account.
+
+const metadata = {
+  display_phone_number: "15550001111",
+  phone_number_id: "106540352242922"
+};
+
+const contact = { profile: { name: "Sam" }, wa_id: "14155552671" };
+
+function delivery(value: Record<string, unknown>) {
+  return {
+    object: "whatsapp_business_account",
+    entry: [
+      {
+        id: "102290129340398",
+        changes: [
+          {
+            field: "messages",
+            value: { messaging_product: "whatsapp", metadata, ...value }
+          }
+        ]
+      }
+    ]
+  };
+}
+
+export const imageMessagePayload = delivery({
+  contacts: [contact],
+  messages: [
+    {
+      from: "14155552671",
+      id: "wamid.HBgLMTQxNTU1NTI2NzEVAgASGBQzQUI2RjU0QjM4MEIzRjEyQjA1MAA=",
+      timestamp: "1718035200",
+      type: "image",
+      image: {
+        caption: "vegetarian, no oven",
+        mime_type: "image/jpeg",
+        sha256: "m1tUCBuEN3hLqXN/XvhvHVjv3JqcMO1Q0Gr1vYqE0pw=",
+        id: "1003383421387256"
+      }
+    }
+  ]
+});
+
+export const listReplyPayload = delivery({
+  contacts: [contact],
+  messages: [
+    {
+      context: {
+        from: "15550001111",
+        id: "wamid.HBgLMTQxNTU1NTI2NzEVAgARGBI0RkM2NzE3QjBBRjg5QjY4NDkA"
+      },
+      from: "14155552671",
+      id: "wamid.HBgLMTQxNTU1NTI2NzEVAgASGBQzQTg4RTYwQUJFMzA2NDIzNjlFRgA=",
+      timestamp: "1718035260",
+      type: "interactive",
+      interactive: {
+        type: "list_reply",
+        list_reply: { id: "recipe:abc123:1", title: "Spinach Frittata" }
+      }
+    }
+  ]
+});
+
+export const textMessagePayload = delivery({
+  contacts: [contact],
+  messages: [
+    {
+      from: "14155552671",
+      id: "wamid.HBgLMTQxNTU1NTI2NzEVAgASGBQzRUIwQ0U4MjE2NjlFMTkxRkU5MgA=",
+      timestamp: "1718035300",
+      type: "text",
+      text: { body: "hi" }
+    }
+  ]
+});
+
+export const statusCallbacksPayload = delivery({
+  statuses: [
+    {
+      id: "wamid.HBgLMTQxNTU1NTI2NzEVAgARGBJCM0I4RjA2QjE5MjFBRTc4RjMA",
+      status: "delivered",
+      timestamp: "1718035400",
+      recipient_id: "14155552671",
+      conversation: {
+        id: "b9ad1a7e61fd4e4f0c7e04a4b5c9b3a1",
+        origin: { type: "service" }
+      },
+      pricing: { billable: true, pricing_model: "CBP", category: "service" }
+    },
+    {
+      id: "wamid.HBgLMTQxNTU1NTI2NzEVAgARGBJDNjVBRUI5NzBDMkE1QUY4MzQA",
+      status: "failed",
+      timestamp: "1718035401",
+      recipient_id: "14155552671",
+      errors: [
+        {
+          code: 131047,
+          title: "Re-engagement message",
+          message: "Re-engagement message",
+          error_data: {
+            details:
+              "Message failed to send because more than 24 hours have passed since the customer last replied to this number."
+          }
+        }
+      ]
+    },
+    {
+      id: "wamid.HBgLMTQxNTU1NTI2NzEVAgARGBJEOTFCQjJCN0FFMTVCMjQ2MzEA",
+      status: "deleted",
+      timestamp: "1718035402",
+      recipient_id: "14155552671"
+    }
+  ]
+});
+
+/** Secret the signatures below were made with. */
+export const webhookAppSecret = "4f1b2c7d9e0a3b5c6d7e8f9a0b1c2d3e";
+
+/** A signature header from another app secret, as a forged delivery has. */
+export const badSignatureHeader =
+  "sha256=6b1d2f7c8a9e0b3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b1c2d3e4f5a6b7c";
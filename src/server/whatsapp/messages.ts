@@ -0,0 +1,64 @@
+import { chunkMessage } from "@/server/whatsapp/chunk";
+import type { ListMessage, WhatsAppClient } from "@/server/whatsapp/client";
+import { defaultLocale, translate, type Locale } from "@/shared/i18n";
+import type { MenuRecord } from "@/shared/menu";
+
+// Limits from the WhatsApp interactive list message reference.
+const LIST_MAX_ROWS = 10;
+const ROW_TITLE_LIMIT = 24;
+const ROW_DESCRIPTION_LIMIT = 72;
+
+function truncate(text: string, limit: number) {
+  return text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+}
+
+/** Sends `text` as ordered chunks and returns every message id. */
+export async function sendLongText(
+  client: WhatsAppClient,
+  to: string,
+  text: string
+): Promise<string[]> {
+  const ids: string[] = [];
+  // Sequential on purpose: WhatsApp keeps the order messages were sent in.
+  for (const chunk of chunkMessage(text)) {
+    const { id } = await client.sendText(to, chunk);
+    if (id) ids.push(id);
+  }
+  return ids;
+}
+
+const SELECTION_PREFIX = "recipe:";
+const SELECTION_PATTERN = new RegExp(
+  `^${SELECTION_PREFIX}([a-zA-Z0-9]+):(\\d+)$`
+);
+
+/** A list the recipient can pick a recipe from to get it in full. */
+export function buildRecipeList(
+  menu: Pick<MenuRecord, "slug" | "payload">,
+  locale: Locale = menu.payload.locale ?? defaultLocale
+): ListMessage {
+  return {
+    header: translate(locale, "share.listHeader"),
+    body: translate(locale, "share.listBody"),
+    button: translate(locale, "share.listButton"),
+    sectionTitle: translate(locale, "share.listSection"),
+    // Flagged recipes are never shared, but keep their index in the ids.
+    rows: menu.payload.recipes
+      .map((recipe, index) => ({ recipe, index }))
+      .filter(({ recipe }) => !recipe.violations?.length)
+      .slice(0, LIST_MAX_ROWS)
+      .map(({ recipe, index }) => ({
+        id: `${SELECTION_PREFIX}${menu.slug}:${index}`,
+        title: truncate(recipe.name, ROW_TITLE_LIMIT),
+        description: truncate(recipe.description, ROW_DESCRIPTION_LIMIT)
+      }))
+  };
+}
+
+/** Reads a row id produced by `buildRecipeList`. */
+export function parseRecipeSelection(
+  id: string
+): { slug: string; index: number } | null {
+  const match = id.match(SELECTION_PATTERN);
+  return match ? { slug: match[1], index: Number(match[2]) } : null;
+}
@@ -0,0 +1,20 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Checks the `X-Hub-Signature-256` header Meta sends with every webhook
+ * delivery: `sha256=` followed by the HMAC of the raw body.
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  header: string | null,
+  appSecret: string
+): boolean {
+  if (!header?.startsWith("sha256=")) return false;
+  const expected = createHmac("sha256", appSecret)
+    .update(rawBody, "utf8")
+    .digest();
+  const received = Buffer.from(header.slice("sha256=".length), "hex");
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+}
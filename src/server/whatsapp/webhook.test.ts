@@ -0,0 +1,270 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { beforeEach, describe, it } from "node:test";
+import { createFixtureProvider } from "@/server/providers/fixture";
+import { getAccountStore } from "@/server/storage";
+import {
+  WhatsAppMediaTooLargeError,
+  type WhatsAppClient
+} from "@/server/whatsapp/client";
+import { readWhatsAppEnv, type WhatsAppEnv } from "@/server/whatsapp/config";
+import {
+  badSignatureHeader,
+  imageMessagePayload,
+  listReplyPayload,
+  statusCallbacksPayload,
+  textMessagePayload,
+  webhookAppSecret
+} from "@/server/whatsapp/fixtures/webhook-payloads";
+import { verifyWebhookSignature } from "@/server/whatsapp/signature";
+import {
+  extractInboundMessages,
+  extractStatusCallbacks,
+  handleInboundMessage,
+  webhookPayloadSchema,
+  type InboundMessage
+} from "@/server/whatsapp/webhook";
+import { emptyDietaryProfile } from "@/shared/dietary";
+
+process.env.MENU_STORE = "memory";
+
+// A 1x1 PNG, standing in for the photo behind the recorded media id.
+const PHOTO = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==",
+  "base64"
+);
+
+type Sent = { to: string; kind: "text" | "list" | "other"; body: unknown };
+
+/** Records what the bot sends instead of calling the Graph API. */
+function createStubClient() {
+  const sent: Sent[] = [];
+  const record = (to: string, kind: Sent["kind"], body: unknown) => {
+    sent.push({ to, kind, body });
+    return Promise.resolve({ id: `wamid.stub.${sent.length}` });
+  };
+  const client: WhatsAppClient = {
+    sendText: (to, body) => record(to, "text", body),
+    sendList: (to, list) => record(to, "list", list),
+    sendTemplate: (to, template) => record(to, "other", template),
+    send: (to, message) => record(to, "other", message),
+    downloadMedia: async () => ({ mimeType: "image/png", bytes: PHOTO })
+  };
+  return { client, sent };
+}
+
+function firstMessage(payload: unknown): InboundMessage {
+  return extractInboundMessages(webhookPayloadSchema.parse(payload))[0];
+}
+
+function sign(body: string) {
+  return `sha256=${createHmac("sha256", webhookAppSecret).update(body).digest("hex")}`;
+}
+
+describe("verifyWebhookSignature", () => {
+  const body = JSON.stringify(imageMessagePayload);
+
+  it("accepts the HMAC of the exact body", () => {
+    assert.equal(
+      verifyWebhookSignature(body, sign(body), webhookAppSecret),
+      true
+    );
+  });
+
+  it("rejects another secret, a changed body and a missing header", () => {
+    assert.equal(
+      verifyWebhookSignature(body, badSignatureHeader, webhookAppSecret),
+      false
+    );
+    assert.equal(
+      verifyWebhookSignature(`${body} `, sign(body), webhookAppSecret),
+      false
+    );
+    assert.equal(verifyWebhookSignature(body, null, webhookAppSecret), false);
+    assert.equal(
+      verifyWebhookSignature(body, sign(body).slice(7), webhookAppSecret),
+      false
+    );
+  });
+});
+
+describe("extractStatusCallbacks", () => {
+  it("reads tracked statuses with their first error, in order", () => {
+    const callbacks = extractStatusCallbacks(
+      webhookPayloadSchema.parse(statusCallbacksPayload)
+    );
+    assert.deepEqual(callbacks, [
+      {
+        messageId: "wamid.HBgLMTQxNTU1NTI2NzEVAgARGBJCM0I4RjA2QjE5MjFBRTc4RjMA",
+        status: "delivered",
+        error: null
+      },
+      {
+        messageId: "wamid.HBgLMTQxNTU1NTI2NzEVAgARGBJDNjVBRUI5NzBDMkE1QUY4MzQA",
+        status: "failed",
+        error: { code: 131047, title: "Re-engagement message" }
+      }
+    ]);
+  });
+
+  it("finds none in a message delivery", () => {
+    assert.deepEqual(
+      extractStatusCallbacks(webhookPayloadSchema.parse(imageMessagePayload)),
+      []
+    );
+  });
+});
+
+describe("handleInboundMessage", () => {
+  let env: WhatsAppEnv;
+  let stub: ReturnType<typeof createStubClient>;
+  const context = () => ({
+    provider: createFixtureProvider(),
+    client: stub.client,
+    env,
+    appUrl: "https://remix.example.com"
+  });
+
+  beforeEach(() => {
+    env = { ...readWhatsAppEnv(), allowedRecipients: null };
+    stub = createStubClient();
+    delete process.env.RATE_LIMIT_WEBHOOK;
+  });
+
+  it("answers a photo with a menu link and a recipe list", async () => {
+    await handleInboundMessage(firstMessage(imageMessagePayload), context());
+
+    assert.deepEqual(
+      stub.sent.map(({ to, kind }) => [to, kind]),
+      [
+        ["14155552671", "text"],
+        ["14155552671", "text"],
+        ["14155552671", "list"]
+      ]
+    );
+    assert.match(
+      String(stub.sent[1].body),
+      /https:\/\/remix\.example\.com\/menu\/\w+/
+    );
+    const list = stub.sent[2].body as { rows: { id: string }[] };
+    assert.ok(list.rows.length >= 3);
+  });
+
+  it("sends the recipe picked from that list in full", async () => {
+    await handleInboundMessage(firstMessage(imageMessagePayload), context());
+    const list = stub.sent[2].body as { rows: { id: string; title: string }[] };
+    const pick = list.rows[1];
+
+    const reply = firstMessage(listReplyPayload);
+    stub.sent.length = 0;
+    await handleInboundMessage(
+      {
+        ...reply,
+        interactive: {
+          type: "list_reply",
+          list_reply: { id: pick.id, title: pick.title }
+        }
+      },
+      context()
+    );
+
+    assert.equal(stub.sent.length, 1);
+    const name = pick.title.replace(/…$/, "");
+    assert.ok(String(stub.sent[0].body).includes(name));
+  });
+
+  it("says so when the picked menu no longer exists", async () => {
+    await handleInboundMessage(firstMessage(listReplyPayload), context());
+    assert.deepEqual(stub.sent, [
+      {
+        to: "14155552671",
+        kind: "text",
+        body: "Sorry, that recipe is no longer available."
+      }
+    ]);
+  });
+
+  it("answers anything else with help", async () => {
+    await handleInboundMessage(firstMessage(textMessagePayload), context());
+    assert.equal(stub.sent.length, 1);
+    assert.match(String(stub.sent[0].body), /photo/);
+  });
+
+  it("replies in the language of the caption", async () => {
+    const message = firstMessage(imageMessagePayload);
+    await handleInboundMessage(
+      {
+        ...message,
+        from: "5511987654321",
+        image: { id: "1003383421387256", caption: "vegetariano, sem forno" }
+      },
+      context()
+    );
+    assert.equal(stub.sent[0].body, "🍳 Entendi! Preparando algumas receitas…");
+  });
+
+  it("prefers the language saved in the cook's profile", async () => {
+    const account = getAccountStore();
+    const user = await account.findOrCreate("cook@example.com");
+    await account.updateProfile(user.id, {
+      whatsappNumber: "+5215512345678",
+      locale: "es"
+    });
+
+    await handleInboundMessage(
+      { ...firstMessage(textMessagePayload), from: "5215512345678" },
+      context()
+    );
+    assert.match(String(stub.sent[0].body), /^👋 Envíame una foto/);
+  });
+
+  it("leaves out recipes that break the cook's dietary profile", async () => {
+    const account = getAccountStore();
+    const user = await account.findOrCreate("veg@example.com");
+    await account.updateProfile(user.id, {
+      whatsappNumber: "+14155550111",
+      dietaryProfile: { ...emptyDietaryProfile, diet: "vegetarian" }
+    });
+
+    await handleInboundMessage(
+      { ...firstMessage(imageMessagePayload), from: "14155550111" },
+      context()
+    );
+    const link = String(stub.sent[1].body);
+    assert.match(link, /Frittata/);
+    assert.doesNotMatch(link, /Chicken/);
+  });
+
+  it("turns down a photo too large to download", async () => {
+    stub.client.downloadMedia = async () => {
+      throw new WhatsAppMediaTooLargeError(1024);
+    };
+    await handleInboundMessage(
+      { ...firstMessage(imageMessagePayload), from: "14155550100" },
+      context()
+    );
+    assert.equal(stub.sent.length, 1);
+    assert.match(String(stub.sent[0].body), /couldn't use that photo/);
+  });
+
+  it("ignores numbers outside the allowlist", async () => {
+    env = { ...env, allowedRecipients: ["+4477*"] };
+    await handleInboundMessage(firstMessage(imageMessagePayload), context());
+    await handleInboundMessage(firstMessage(textMessagePayload), context());
+    assert.deepEqual(stub.sent, []);
+  });
+
+  it("stops cooking once a number sends too many photos", async () => {
+    process.env.RATE_LIMIT_WEBHOOK = "1/3600";
+    const message = {
+      ...firstMessage(imageMessagePayload),
+      from: "4915100000000"
+    };
+    await handleInboundMessage(message, context());
+    stub.sent.length = 0;
+
+    await handleInboundMessage(message, context());
+    assert.equal(stub.sent.length, 1);
+    assert.match(String(stub.sent[0].body), /Too many requests/);
+  });
+});
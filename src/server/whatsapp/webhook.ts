@@ -0,0 +1,286 @@
+import { z } from "zod";
+import { generateMenu, loadPantry } from "@/server/generate";
+import { log } from "@/server/observability";
+import type { ModelProvider } from "@/server/providers";
+import { enforceSubjectRateLimit } from "@/server/rate-limit";
+import { getAccountStore, getMenuStore } from "@/server/storage";
+import {
+  WhatsAppMediaTooLargeError,
+  type DownloadedMedia,
+  type WhatsAppClient
+} from "@/server/whatsapp/client";
+import { isRecipientAllowed, type WhatsAppEnv } from "@/server/whatsapp/config";
+import type { StatusCallback } from "@/server/whatsapp/deliveries";
+import {
+  buildRecipeList,
+  parseRecipeSelection,
+  sendLongText
+} from "@/server/whatsapp/messages";
+import {
+  defaultLocale,
+  detectLocale,
+  translate,
+  type Locale
+} from "@/shared/i18n";
+import { imageDataUrlSchema } from "@/shared/image";
+import { menuPath } from "@/shared/menu";
+import { rateLimitMessage } from "@/shared/rate-limit";
+import {
+  formatMenuLinkMessage,
+  formatMenuMessage,
+  formatRecipeMessage
+} from "@/shared/share";
+
+// Only the fields the bot reads; Meta sends many more.
+const inboundMessageSchema = z.object({
+  from: z.string(),
+  id: z.string(),
+  type: z.string(),
+  text: z.object({ body: z.string() }).optional(),
+  image: z
+    .object({
+      id: z.string(),
+      mime_type: z.string().optional(),
+      caption: z.string().optional()
+    })
+    .optional(),
+  interactive: z
+    .object({
+      type: z.string(),
+      list_reply: z.object({ id: z.string(), title: z.string() }).optional()
+    })
+    .optional()
+});
+
+const statusCallbackSchema = z.object({
+  id: z.string(),
+  status: z.string(),
+  errors: z
+    .array(
+      z.object({
+        code: z.number(),
+        title: z.string().optional(),
+        message: z.string().optional()
+      })
+    )
+    .optional()
+});
+
+export const webhookPayloadSchema = z.object({
+  object: z.string(),
+  entry: z.array(
+    z.object({
+      changes: z.array(
+        z.object({
+          field: z.string(),
+          value: z.object({
+            messages: z.array(inboundMessageSchema).optional(),
+            statuses: z.array(statusCallbackSchema).optional()
+          })
+        })
+      )
+    })
+  )
+});
+
+export type InboundMessage = z.infer<typeof inboundMessageSchema>;
+
+export function extractInboundMessages(
+  payload: z.infer<typeof webhookPayloadSchema>
+): InboundMessage[] {
+  return payload.entry.flatMap((entry) =>
+    entry.changes
+      .filter((change) => change.field === "messages")
+      .flatMap((change) => change.value.messages ?? [])
+  );
+}
+
+const trackedStatuses = ["sent", "delivered", "read", "failed"] as const;
+
+/** Delivery status callbacks for outbound messages, in payload order. */
+export function extractStatusCallbacks(
+  payload: z.infer<typeof webhookPayloadSchema>
+): StatusCallback[] {
+  return payload.entry
+    .flatMap((entry) =>
+      entry.changes.flatMap((change) => change.value.statuses ?? [])
+    )
+    .flatMap((callback) => {
+      const status = trackedStatuses.find(
+        (candidate) => candidate === callback.status
+      );
+      if (!status) return [];
+      const error = callback.errors?.[0];
+      return [
+        {
+          messageId: callback.id,
+          status,
+          error: error
+            ? {
+                code: error.code,
+                title: error.message ?? error.title ?? "Delivery failed."
+              }
+            : null
+        }
+      ];
+    });
+}
+
+// Meta redelivers webhooks it thinks timed out; remember recent message ids
+// so a retry does not cook the same photo twice.
+const SEEN_LIMIT = 500;
+const seenMessageIds = new Set<string>();
+
+export function isFirstDelivery(messageId: string) {
+  if (seenMessageIds.has(messageId)) return false;
+  seenMessageIds.add(messageId);
+  if (seenMessageIds.size > SEEN_LIMIT) {
+    const oldest = seenMessageIds.values().next().value;
+    if (oldest !== undefined) seenMessageIds.delete(oldest);
+  }
+  return true;
+}
+
+type InboundContext = {
+  provider: ModelProvider;
+  client: WhatsAppClient;
+  env: WhatsAppEnv;
+  /** Origin used to build menu links, e.g. `https://remix.example.com`. */
+  appUrl: string;
+};
+
+async function sendSelectedRecipe(
+  client: WhatsAppClient,
+  to: string,
+  selectionId: string,
+  locale: Locale
+) {
+  const selection = parseRecipeSelection(selectionId);
+  const menu = selection
+    ? await getMenuStore().getBySlug(selection.slug)
+    : null;
+  const recipe = selection && menu?.payload.recipes[selection.index];
+  if (!selection || !recipe || recipe.violations?.length) {
+    await client.sendText(to, translate(locale, "bot.recipeGone"));
+    return;
+  }
+  await sendLongText(
+    client,
+    to,
+    formatRecipeMessage(recipe, selection.index, menu.payload.locale)
+  );
+}
+
+/**
+ * Replies to one inbound message: photos go through the same generation
+ * pipeline as `/api/generate`, with the caption as notes; a pick from a
+ * recipe list gets that recipe in full; anything else gets a short help
+ * text. Each photo is its own request, since WhatsApp delivers an album as
+ * separate messages.
+ *
+ * Numbers outside `WHATSAPP_ALLOWED_RECIPIENTS` get no reply at all, and
+ * each number may only send so many photos (the `webhook` rate limit), so
+ * strangers cannot run up the model bill.
+ *
+ * Replies and recipes use the language saved in the cook's profile, or else
+ * the one the caption or text is written in.
+ */
+export async function handleInboundMessage(
+  message: InboundMessage,
+  { provider, client, env, appUrl }: InboundContext
+) {
+  if (!isRecipientAllowed(env, `+${message.from}`)) {
+    log.warn("Ignored WhatsApp message from a number not on the allowlist");
+    return;
+  }
+
+  // A cook who saved this number in their profile gets their language,
+  // dietary settings and pantry applied and the menu in their history.
+  const user = await getAccountStore().findByWhatsAppNumber(`+${message.from}`);
+  const locale =
+    user?.profile.locale ??
+    detectLocale(message.image?.caption ?? message.text?.body ?? "") ??
+    defaultLocale;
+
+  const listReply = message.interactive?.list_reply;
+  if (message.type === "interactive" && listReply) {
+    await sendSelectedRecipe(client, message.from, listReply.id, locale);
+    return;
+  }
+  if (message.type !== "image" || !message.image) {
+    await client.sendText(message.from, translate(locale, "bot.help"));
+    return;
+  }
+
+  const retryAfter = await enforceSubjectRateLimit(
+    "webhook",
+    `whatsapp:${message.from}`
+  );
+  if (retryAfter !== null) {
+    await client.sendText(message.from, rateLimitMessage(retryAfter, locale));
+    return;
+  }
+
+  let media: DownloadedMedia;
+  try {
+    media = await client.downloadMedia(message.image.id);
+  } catch (error) {
+    if (!(error instanceof WhatsAppMediaTooLargeError)) throw error;
+    log.warn("WhatsApp photo rejected", { reason: error.message });
+    await client.sendText(message.from, translate(locale, "bot.badPhoto"));
+    return;
+  }
+  const dataUrl = `data:${media.mimeType};base64,${media.bytes.toString("base64")}`;
+  const image = imageDataUrlSchema.safeParse(dataUrl);
+  if (!image.success) {
+    log.warn("WhatsApp photo rejected", {
+      reason: image.error.issues[0]?.message
+    });
+    await client.sendText(message.from, translate(locale, "bot.badPhoto"));
+    return;
+  }
+
+  await client.sendText(message.from, translate(locale, "bot.cooking"));
+
+  try {
+    const { payload, menu } = await generateMenu(
+      provider,
+      {
+        imageDataUrls: [image.data],
+        notes: message.image.caption?.trim() || undefined,
+        locale,
+        dietaryProfile: user?.profile.dietaryProfile ?? undefined,
+        pantry: user ? await loadPantry(user.id) : undefined
+      },
+      { userId: user?.id ?? null }
+    );
+    // Recipes that broke the cook's dietary profile are never sent.
+    const recipes = payload.recipes.filter(
+      (recipe) => !recipe.violations?.length
+    );
+    if (!menu) {
+      await sendLongText(
+        client,
+        message.from,
+        formatMenuMessage(payload.summary, recipes, payload.locale)
+      );
+      return;
+    }
+    await client.sendText(
+      message.from,
+      formatMenuLinkMessage(
+        payload.summary,
+        recipes,
+        `${appUrl}${menuPath(menu.slug)}`,
+        payload.locale
+      )
+    );
+    await client.sendList(
+      message.from,
+      buildRecipeList({ slug: menu.slug, payload })
+    );
+  } catch (error) {
+    log.error("WhatsApp recipe generation failed", { error });
+    await client.sendText(message.from, translate(locale, "bot.failed"));
+  }
+}
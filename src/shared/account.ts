@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { dietaryProfileSchema, type DietaryProfile } from "@/shared/dietary";
+import { localeSchema, type Locale } from "@/shared/i18n";
+import { countryCodeSchema } from "@/shared/phone";
+
+/** Settings that follow the cook to every device they sign in on. */
+export type UserProfile = {
+  /**
+   * E.164, proven with a code sent to it and held by no other account.
+   * Menus sent without a recipient go here.
+   */
+  whatsappNumber: string | null;
+  dietaryProfile: DietaryProfile | null;
+  /** Language the WhatsApp bot replies and cooks in; null reads the caption. */
+  locale: Locale | null;
+};
+
+export type User = {
+  id: string;
+  email: string;
+  createdAt: string;
+  profile: UserProfile;
+};
+
+/** Body of `GET /api/auth/session`. */
+export type SessionResponse = {
+  user: User | null;
+};
+
+export const emailSchema = z.string().trim().toLowerCase().email().max(254);
+
+export const profileUpdateSchema = z.object({
+  /** Only clears it; a new number is verified first. */
+  whatsappNumber: z.null().optional(),
+  dietaryProfile: dietaryProfileSchema.nullable().optional(),
+  locale: localeSchema.nullable().optional()
+});
+
+/** Body of `POST /api/profile/whatsapp`, which texts the number a code. */
+export const phoneVerificationSchema = z.object({
+  /** As typed; read with `country` when it lacks a "+". */
+  whatsappNumber: z.string().trim().min(1).max(40),
+  country: countryCodeSchema.optional(),
+  /** Language of the message with the code. */
+  locale: localeSchema.optional()
+});
+
+/** Body of `POST /api/profile/whatsapp/verify`. */
+export const phoneCodeSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, "Enter the 6-digit code.")
+});
+
+export const emptyUserProfile: UserProfile = {
+  whatsappNumber: null,
+  dietaryProfile: null,
+  locale: null
+};
@@ -0,0 +1,32 @@
+import { z } from "zod";
+
+export type Contact = {
+  id: string;
+  name: string;
+  /** Always E.164, e.g. `+14155552671`. */
+  phoneNumber: string;
+  createdAt: string;
+};
+
+/** A named list of contacts to send to together, e.g. "Family". */
+export type ContactGroup = {
+  id: string;
+  name: string;
+  contactIds: string[];
+  createdAt: string;
+};
+
+export type ContactBook = {
+  contacts: Contact[];
+  groups: ContactGroup[];
+};
+
+export const MAX_CONTACTS = 200;
+export const MAX_GROUP_SIZE = 50;
+
+export const contactNameSchema = z.string().trim().min(1).max(60);
+
+export const contactGroupSchema = z.object({
+  name: contactNameSchema,
+  contactIds: z.array(z.string().min(1)).max(MAX_GROUP_SIZE)
+});
@@ -0,0 +1,91 @@
+/**
+ * Lifecycle of one outbound WhatsApp message. `pending` was never sent
+ * because an earlier message in the same send failed; `accepted` means the
+ * Graph API took it but no status callback has arrived yet.
+ */
+export const deliveryStatuses = [
+  "pending",
+  "accepted",
+  "sent",
+  "delivered",
+  "read",
+  "failed"
+] as const;
+
+export type DeliveryStatus = (typeof deliveryStatuses)[number];
+
+/**
+ * Graph API error for free-form messages to someone who has not written in
+ * the last 24 hours; only an approved template can reach them.
+ */
+export const OUTSIDE_SESSION_WINDOW_CODE = 131047;
+
+export type DeliveryError = {
+  /** Graph API error code, e.g. 131047 outside the 24-hour window. */
+  code: number | null;
+  title: string;
+};
+
+export type DeliveryMessage = {
+  /** WhatsApp message id (`wamid…`), once the Graph API accepted it. */
+  messageId: string | null;
+  kind: "text" | "template" | "list";
+  status: DeliveryStatus;
+  error: DeliveryError | null;
+  attempts: number;
+  updatedAt: string;
+};
+
+/** One "send to WhatsApp" action: every message it produced, in order. */
+export type DeliverySummary = {
+  id: string;
+  recipient: string;
+  menuId: string | null;
+  createdAt: string;
+  messages: DeliveryMessage[];
+};
+
+const STATUS_RANK: Record<DeliveryStatus, number> = {
+  pending: 0,
+  accepted: 1,
+  sent: 2,
+  delivered: 3,
+  read: 4,
+  failed: 5
+};
+
+/**
+ * Callbacks can arrive out of order, so a status only replaces one that is
+ * earlier in the lifecycle. A retry resets the message to `accepted`.
+ */
+export function isStatusAdvance(current: DeliveryStatus, next: DeliveryStatus) {
+  return STATUS_RANK[next] > STATUS_RANK[current];
+}
+
+/** True when no message can change status without a retry. */
+export function isDeliverySettled(delivery: DeliverySummary) {
+  return delivery.messages.every(
+    (message) =>
+      message.status === "delivered" ||
+      message.status === "read" ||
+      message.status === "failed" ||
+      message.status === "pending"
+  );
+}
+
+export function canRetryDelivery(delivery: DeliverySummary) {
+  return delivery.messages.some(
+    (message) => message.status === "failed" || message.status === "pending"
+  );
+}
+
+/** Outcome of a send for one recipient of a broadcast. */
+export type RecipientResult = {
+  recipient: string;
+  /** Contact name, when the number is in the contact book. */
+  name: string | null;
+  status: "sent" | "template" | "failed";
+  error: string | null;
+  /** Null when the send failed before anything was recorded. */
+  delivery: DeliverySummary | null;
+};
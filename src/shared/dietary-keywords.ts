@@ -0,0 +1,564 @@
+import type { Allergen, Equipment } from "@/shared/dietary";
+import type { Locale } from "@/shared/i18n";
+
+export type KeywordRule = {
+  keywords: string[];
+  /** Phrases removed before matching, e.g. "peanut butter" is not dairy. */
+  safe?: string[];
+  /** Lines containing one of these, e.g. "gluten-free pasta", are skipped. */
+  freeFrom?: string[];
+};
+
+/** The same checks as the English rules, in the words a translated recipe uses. */
+export type LocalizedKeywordRules = {
+  meat: KeywordRule;
+  honey: KeywordRule;
+  allergens: Record<Allergen, KeywordRule>;
+  equipment: Record<Equipment, KeywordRule>;
+};
+
+const es: LocalizedKeywordRules = {
+  meat: {
+    keywords: [
+      "pollo",
+      "carne",
+      "res",
+      "cerdo",
+      "tocino",
+      "beicon",
+      "jamón",
+      "cordero",
+      "pavo",
+      "salchicha",
+      "salami",
+      "chorizo",
+      "ternera",
+      "pato",
+      "bistec",
+      "gelatina",
+      "manteca de cerdo"
+    ],
+    freeFrom: [
+      "vegano",
+      "vegana",
+      "vegetariano",
+      "vegetariana",
+      "sin carne",
+      "a base de plantas"
+    ]
+  },
+  honey: { keywords: ["miel"] },
+  allergens: {
+    gluten: {
+      keywords: [
+        "trigo",
+        "harina",
+        "pan",
+        "pan rallado",
+        "pasta",
+        "espagueti",
+        "fideo",
+        "cuscús",
+        "cebada",
+        "centeno",
+        "sémola",
+        "bulgur",
+        "salsa de soja",
+        "salsa de soya",
+        "cerveza",
+        "seitán",
+        "espelta",
+        "galleta"
+      ],
+      freeFrom: ["sin gluten"],
+      safe: [
+        "harina de arroz",
+        "harina de almendra",
+        "harina de coco",
+        "harina de maíz",
+        "harina de garbanzo",
+        "fideos de arroz",
+        "fideo de arroz"
+      ]
+    },
+    dairy: {
+      keywords: [
+        "leche",
+        "queso",
+        "mantequilla",
+        "crema",
+        "nata",
+        "yogur",
+        "ghee",
+        "parmesano",
+        "mozzarella",
+        "requesón",
+        "suero de leche",
+        "natillas"
+      ],
+      freeFrom: ["sin lácteos", "vegano", "vegana"],
+      safe: [
+        "leche de coco",
+        "crema de coco",
+        "leche de almendra",
+        "leche de avena",
+        "leche de soja",
+        "leche de soya",
+        "leche de arroz",
+        "mantequilla de maní",
+        "mantequilla de cacahuete",
+        "crema de cacahuete"
+      ]
+    },
+    eggs: {
+      keywords: ["huevo", "mayonesa", "merengue", "alioli"],
+      freeFrom: ["sin huevo", "vegano", "vegana"]
+    },
+    peanuts: { keywords: ["maní", "cacahuete", "cacahuate"] },
+    "tree-nuts": {
+      keywords: [
+        "almendra",
+        "nuez",
+        "nueces",
+        "anacardo",
+        "castaña de cajú",
+        "pecana",
+        "pistacho",
+        "avellana",
+        "macadamia",
+        "piñón",
+        "piñones"
+      ],
+      safe: ["nuez moscada"]
+    },
+    soy: { keywords: ["soja", "soya", "tofu", "tempeh", "edamame", "miso"] },
+    sesame: { keywords: ["sésamo", "ajonjolí", "tahini", "tahina"] },
+    fish: {
+      keywords: [
+        "pescado",
+        "salmón",
+        "atún",
+        "bacalao",
+        "anchoa",
+        "boquerón",
+        "boquerones",
+        "sardina",
+        "caballa",
+        "trucha",
+        "tilapia",
+        "merluza",
+        "lenguado"
+      ]
+    },
+    shellfish: {
+      keywords: [
+        "marisco",
+        "camarón",
+        "camarones",
+        "gamba",
+        "langostino",
+        "cangrejo",
+        "langosta",
+        "mejillón",
+        "mejillones",
+        "almeja",
+        "ostra",
+        "vieira"
+      ]
+    }
+  },
+  equipment: {
+    stovetop: {
+      keywords: [
+        "fogón",
+        "sartén",
+        "cacerola",
+        "cazo",
+        "olla",
+        "wok",
+        "hervir",
+        "hierve",
+        "hierva",
+        "saltear",
+        "saltea",
+        "sofreír",
+        "sofríe"
+      ],
+      safe: ["olla a presión", "olla exprés", "olla de cocción lenta"]
+    },
+    oven: {
+      keywords: ["horno", "hornear", "hornea", "gratinar", "gratina"]
+    },
+    microwave: { keywords: ["microondas"] },
+    "air-fryer": { keywords: ["freidora de aire"] },
+    "slow-cooker": { keywords: ["olla de cocción lenta"] },
+    "pressure-cooker": { keywords: ["olla a presión", "olla exprés"] },
+    blender: {
+      keywords: [
+        "licuadora",
+        "batidora",
+        "procesador de alimentos",
+        "licuar",
+        "licúa",
+        "tritura",
+        "triturar"
+      ]
+    },
+    grill: { keywords: ["parrilla", "barbacoa"] }
+  }
+};
+
+const pt: LocalizedKeywordRules = {
+  meat: {
+    keywords: [
+      "frango",
+      "carne",
+      "porco",
+      "bacon",
+      "toucinho",
+      "presunto",
+      "cordeiro",
+      "peru",
+      "linguiça",
+      "salsicha",
+      "salame",
+      "chouriço",
+      "vitela",
+      "pato",
+      "bife",
+      "gelatina",
+      "banha"
+    ],
+    freeFrom: [
+      "vegano",
+      "vegana",
+      "vegetariano",
+      "vegetariana",
+      "sem carne",
+      "à base de plantas"
+    ]
+  },
+  honey: { keywords: ["mel"] },
+  allergens: {
+    gluten: {
+      keywords: [
+        "trigo",
+        "farinha",
+        "farinha de rosca",
+        "pão",
+        "pães",
+        "massa",
+        "macarrão",
+        "espaguete",
+        "cevada",
+        "centeio",
+        "sêmola",
+        "semolina",
+        "bulgur",
+        "molho de soja",
+        "shoyu",
+        "cerveja",
+        "seitan",
+        "espelta",
+        "biscoito",
+        "bolacha"
+      ],
+      freeFrom: ["sem glúten", "sem gluten"],
+      safe: [
+        "farinha de arroz",
+        "farinha de amêndoa",
+        "farinha de coco",
+        "farinha de milho",
+        "farinha de mandioca",
+        "farinha de grão-de-bico",
+        "macarrão de arroz"
+      ]
+    },
+    dairy: {
+      keywords: [
+        "leite",
+        "queijo",
+        "manteiga",
+        "creme de leite",
+        "nata",
+        "iogurte",
+        "ghee",
+        "parmesão",
+        "muçarela",
+        "mussarela",
+        "requeijão",
+        "ricota",
+        "soro de leite"
+      ],
+      freeFrom: ["sem leite", "sem lácteos", "vegano", "vegana"],
+      safe: [
+        "leite de coco",
+        "creme de coco",
+        "leite de amêndoa",
+        "leite de aveia",
+        "leite de soja",
+        "leite de arroz",
+        "manteiga de amendoim",
+        "manteiga de cacau"
+      ]
+    },
+    eggs: {
+      keywords: ["ovo", "maionese", "merengue"],
+      freeFrom: ["sem ovo", "vegano", "vegana"]
+    },
+    peanuts: { keywords: ["amendoim", "amendoins"] },
+    "tree-nuts": {
+      keywords: [
+        "amêndoa",
+        "noz",
+        "nozes",
+        "castanha",
+        "caju",
+        "pecã",
+        "pistache",
+        "avelã",
+        "macadâmia",
+        "pinhão",
+        "pinhões"
+      ],
+      safe: ["noz-moscada", "noz moscada"]
+    },
+    soy: {
+      keywords: ["soja", "tofu", "tempeh", "edamame", "missô", "shoyu"]
+    },
+    sesame: { keywords: ["gergelim", "sésamo", "tahine", "tahini"] },
+    fish: {
+      keywords: [
+        "peixe",
+        "salmão",
+        "atum",
+        "bacalhau",
+        "anchova",
+        "sardinha",
+        "cavala",
+        "truta",
+        "tilápia",
+        "merluza",
+        "pescada"
+      ]
+    },
+    shellfish: {
+      keywords: [
+        "marisco",
+        "camarão",
+        "camarões",
+        "caranguejo",
+        "siri",
+        "lagosta",
+        "lagostim",
+        "mexilhão",
+        "mexilhões",
+        "amêijoa",
+        "ostra",
+        "vieira"
+      ]
+    }
+  },
+  equipment: {
+    stovetop: {
+      keywords: [
+        "fogão",
+        "frigideira",
+        "panela",
+        "caçarola",
+        "wok",
+        "ferver",
+        "ferva",
+        "refogar",
+        "refogue",
+        "saltear",
+        "salteie"
+      ],
+      safe: [
+        "panela de pressão",
+        "panela elétrica",
+        "panela de cozimento lento"
+      ]
+    },
+    oven: { keywords: ["forno", "assar", "asse", "gratinar", "gratine"] },
+    microwave: { keywords: ["micro-ondas", "microondas"] },
+    "air-fryer": {
+      keywords: ["air fryer", "fritadeira sem óleo", "fritadeira elétrica"]
+    },
+    "slow-cooker": {
+      keywords: ["panela elétrica", "panela de cozimento lento"]
+    },
+    "pressure-cooker": { keywords: ["panela de pressão"] },
+    blender: {
+      keywords: ["liquidificador", "processador", "mixer", "bata", "bater"]
+    },
+    grill: { keywords: ["grelha", "grelhar", "churrasqueira", "churrasco"] }
+  }
+};
+
+// Hindi inflects with vowel signs ("अंडा", "अंडे"), which the matcher lets
+// follow any keyword, so most entries are stems.
+const hi: LocalizedKeywordRules = {
+  meat: {
+    keywords: [
+      "चिकन",
+      "मुर्गा",
+      "मुर्गी",
+      "मटन",
+      "गोश्त",
+      "मांस",
+      "कीमा",
+      "बकरा",
+      "बकरे",
+      "सूअर",
+      "पोर्क",
+      "बेकन",
+      "हैम",
+      "सॉसेज",
+      "जिलेटिन"
+    ],
+    freeFrom: ["वीगन", "शाकाहारी", "बिना मांस"]
+  },
+  honey: { keywords: ["शहद", "मधु"] },
+  allergens: {
+    gluten: {
+      keywords: [
+        "गेहूं",
+        "गेहूँ",
+        "आटा",
+        "आटे",
+        "मैदा",
+        "सूजी",
+        "रवा",
+        "ब्रेड",
+        "पास्ता",
+        "नूडल्स",
+        "रोटी",
+        "पराठा",
+        "पराठे",
+        "नान",
+        "सेवई",
+        "दलिया",
+        "जौ",
+        "सोया सॉस",
+        "बिस्कुट"
+      ],
+      freeFrom: ["ग्लूटेन-मुक्त", "ग्लूटेन मुक्त"],
+      safe: [
+        "चावल का आटा",
+        "मक्के का आटा",
+        "रागी का आटा",
+        "बाजरे का आटा",
+        "ज्वार का आटा",
+        "राइस नूडल्स"
+      ]
+    },
+    dairy: {
+      keywords: [
+        "दूध",
+        "पनीर",
+        "मक्खन",
+        "घी",
+        "दही",
+        "क्रीम",
+        "मलाई",
+        "छाछ",
+        "खोया",
+        "मावा",
+        "चीज़",
+        "चीज"
+      ],
+      freeFrom: ["डेयरी-मुक्त", "डेयरी मुक्त", "वीगन"],
+      safe: [
+        "नारियल का दूध",
+        "नारियल दूध",
+        "बादाम का दूध",
+        "बादाम दूध",
+        "सोया दूध",
+        "ओट्स दूध",
+        "मूंगफली का मक्खन"
+      ]
+    },
+    eggs: {
+      keywords: ["अंडा", "अंडे", "अंडों", "मेयोनेज़", "मेयोनेज"],
+      freeFrom: ["अंडा-मुक्त", "बिना अंडे", "वीगन"]
+    },
+    peanuts: { keywords: ["मूंगफली", "मूँगफली"] },
+    "tree-nuts": {
+      keywords: ["बादाम", "काजू", "अखरोट", "पिस्ता", "हेज़लनट", "चिलगोजा"]
+    },
+    soy: { keywords: ["सोया", "सोयाबीन", "टोफू", "मिसो", "एडामामे"] },
+    sesame: { keywords: ["तिल", "ताहिनी"] },
+    fish: {
+      keywords: [
+        "मछली",
+        "मछलियों",
+        "सैल्मन",
+        "टूना",
+        "रोहू",
+        "बांगड़ा",
+        "सार्डिन",
+        "सुरमई",
+        "पॉम्फ्रेट"
+      ]
+    },
+    shellfish: {
+      keywords: [
+        "झींगा",
+        "झींगे",
+        "प्रॉन",
+        "केकड़ा",
+        "केकड़े",
+        "सीप",
+        "लॉबस्टर"
+      ]
+    }
+  },
+  equipment: {
+    stovetop: {
+      keywords: [
+        "चूल्हा",
+        "चूल्हे",
+        "गैस",
+        "कड़ाही",
+        "कढ़ाई",
+        "तवा",
+        "तवे",
+        "पैन",
+        "पतीला",
+        "पतीले",
+        "उबाल",
+        "भून",
+        "तड़का"
+      ]
+    },
+    oven: { keywords: ["ओवन", "बेक"] },
+    microwave: { keywords: ["माइक्रोवेव"] },
+    "air-fryer": { keywords: ["एयर फ्रायर"] },
+    "slow-cooker": { keywords: ["स्लो कुकर"] },
+    "pressure-cooker": {
+      keywords: ["प्रेशर कुकर", "कुकर"],
+      safe: ["स्लो कुकर"]
+    },
+    blender: { keywords: ["ब्लेंडर", "मिक्सर", "मिक्सी", "फूड प्रोसेसर"] },
+    grill: { keywords: ["ग्रिल", "तंदूर", "बारबेक्यू"] }
+  }
+};
+
+/** Extra keywords for recipes written in a language other than English. */
+export const localizedKeywordRules: Partial<
+  Record<Locale, LocalizedKeywordRules>
+> = { es, pt, hi };
+
+/** `rule` with the keywords, safe phrases and markers of `extra` added. */
+export function mergeKeywordRules(
+  rule: KeywordRule,
+  extra?: KeywordRule
+): KeywordRule {
+  if (!extra) return rule;
+  return {
+    keywords: [...rule.keywords, ...extra.keywords],
+    safe: [...(rule.safe ?? []), ...(extra.safe ?? [])],
+    freeFrom: [...(rule.freeFrom ?? []), ...(extra.freeFrom ?? [])]
+  };
+}
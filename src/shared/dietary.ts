@@ -0,0 +1,457 @@
+import { z } from "zod";
+import {
+  localizedKeywordRules,
+  mergeKeywordRules,
+  type KeywordRule
+} from "@/shared/dietary-keywords";
+import {
+  defaultLocale,
+  translate,
+  type Locale,
+  type MessageKey
+} from "@/shared/i18n";
+import { totalMinutes, type Recipe } from "@/shared/recipe";
+
+export const dietTypes = [
+  "omnivore",
+  "vegetarian",
+  "vegan",
+  "pescatarian"
+] as const;
+
+export const allergens = [
+  "gluten",
+  "dairy",
+  "eggs",
+  "peanuts",
+  "tree-nuts",
+  "soy",
+  "sesame",
+  "fish",
+  "shellfish"
+] as const;
+
+export const equipmentOptions = [
+  "stovetop",
+  "oven",
+  "microwave",
+  "air-fryer",
+  "slow-cooker",
+  "pressure-cooker",
+  "blender",
+  "grill"
+] as const;
+
+export type DietType = (typeof dietTypes)[number];
+export type Allergen = (typeof allergens)[number];
+export type Equipment = (typeof equipmentOptions)[number];
+
+export const dietaryProfileSchema = z.object({
+  diet: z.enum(dietTypes).default("omnivore"),
+  allergens: z.array(z.enum(allergens)).max(allergens.length).default([]),
+  excludedIngredients: z
+    .array(z.string().trim().min(2).max(40))
+    .max(20)
+    .default([]),
+  maxCookMinutes: z.number().int().min(5).max(600).optional(),
+  servings: z.number().int().min(1).max(20).optional(),
+  /** Empty means "a normal home kitchen"; otherwise only these are available. */
+  equipment: z
+    .array(z.enum(equipmentOptions))
+    .max(equipmentOptions.length)
+    .default([])
+});
+
+export type DietaryProfile = z.infer<typeof dietaryProfileSchema>;
+
+export const emptyDietaryProfile: DietaryProfile = {
+  diet: "omnivore",
+  allergens: [],
+  excludedIngredients: [],
+  equipment: []
+};
+
+const MEAT: KeywordRule = {
+  keywords: [
+    "chicken",
+    "beef",
+    "pork",
+    "bacon",
+    "ham",
+    "lamb",
+    "turkey",
+    "sausage",
+    "salami",
+    "prosciutto",
+    "pepperoni",
+    "chorizo",
+    "veal",
+    "duck",
+    "steak",
+    "mince",
+    "gelatin",
+    "lard"
+  ],
+  freeFrom: ["vegan", "vegetarian", "plant-based", "meatless", "meat-free"]
+};
+
+const HONEY: KeywordRule = { keywords: ["honey"] };
+
+const allergenRules: Record<Allergen, KeywordRule> = {
+  gluten: {
+    keywords: [
+      "wheat",
+      "flour",
+      "bread",
+      "breadcrumb",
+      "pasta",
+      "spaghetti",
+      "noodle",
+      "couscous",
+      "barley",
+      "rye",
+      "semolina",
+      "bulgur",
+      "soy sauce",
+      "tortilla",
+      "pita",
+      "cracker",
+      "beer",
+      "seitan",
+      "spelt"
+    ],
+    freeFrom: ["gluten-free"],
+    safe: [
+      "rice flour",
+      "almond flour",
+      "coconut flour",
+      "corn flour",
+      "cornflour",
+      "chickpea flour",
+      "buckwheat flour",
+      "tapioca flour",
+      "rice noodle",
+      "corn tortilla"
+    ]
+  },
+  dairy: {
+    keywords: [
+      "milk",
+      "cheese",
+      "butter",
+      "cream",
+      "yogurt",
+      "yoghurt",
+      "ghee",
+      "parmesan",
+      "mozzarella",
+      "cheddar",
+      "feta",
+      "ricotta",
+      "whey",
+      "custard"
+    ],
+    freeFrom: ["dairy-free", "vegan"],
+    safe: [
+      "peanut butter",
+      "almond butter",
+      "cashew butter",
+      "nut butter",
+      "cocoa butter",
+      "butternut",
+      "coconut milk",
+      "coconut cream",
+      "almond milk",
+      "oat milk",
+      "soy milk",
+      "rice milk",
+      "cream of tartar"
+    ]
+  },
+  eggs: {
+    keywords: ["egg", "mayonnaise", "mayo", "meringue", "aioli"],
+    freeFrom: ["egg-free", "vegan"],
+    safe: ["eggplant"]
+  },
+  peanuts: { keywords: ["peanut", "groundnut"] },
+  "tree-nuts": {
+    keywords: [
+      "almond",
+      "walnut",
+      "cashew",
+      "pecan",
+      "pistachio",
+      "hazelnut",
+      "macadamia",
+      "brazil nut",
+      "pine nut"
+    ]
+  },
+  soy: { keywords: ["soy", "soya", "tofu", "tempeh", "edamame", "miso"] },
+  sesame: { keywords: ["sesame", "tahini"] },
+  fish: {
+    keywords: [
+      "fish",
+      "salmon",
+      "tuna",
+      "cod",
+      "anchovy",
+      "anchovies",
+      "sardine",
+      "mackerel",
+      "trout",
+      "tilapia",
+      "halibut",
+      "haddock"
+    ]
+  },
+  shellfish: {
+    keywords: [
+      "shrimp",
+      "prawn",
+      "crab",
+      "lobster",
+      "crayfish",
+      "mussel",
+      "clam",
+      "oyster",
+      "scallop"
+    ]
+  }
+};
+
+/** Ingredient rules by name: meat, honey, or one of the allergens. */
+type IngredientRule = "meat" | "honey" | Allergen;
+
+const dietRules: Record<DietType, IngredientRule[]> = {
+  omnivore: [],
+  vegetarian: ["meat", "fish", "shellfish"],
+  vegan: ["meat", "fish", "shellfish", "dairy", "eggs", "honey"],
+  pescatarian: ["meat"]
+};
+
+const equipmentRules: Record<Equipment, KeywordRule> = {
+  stovetop: {
+    keywords: [
+      "stovetop",
+      "skillet",
+      "frying pan",
+      "saucepan",
+      "wok",
+      "simmer",
+      "saute",
+      "sauté",
+      "stir-fry",
+      "boil"
+    ]
+  },
+  oven: {
+    keywords: ["oven", "bake", "roast", "broil"],
+    safe: ["roast chicken", "roasted"]
+  },
+  microwave: { keywords: ["microwave"] },
+  "air-fryer": { keywords: ["air fryer", "air-fry", "air fry"] },
+  "slow-cooker": { keywords: ["slow cooker", "crockpot", "crock-pot"] },
+  "pressure-cooker": { keywords: ["pressure cooker", "instant pot"] },
+  blender: { keywords: ["blender", "food processor", "blend"] },
+  grill: { keywords: ["grill", "barbecue", "bbq"] }
+};
+
+// Models sometimes keep an English word in a translated recipe, so the
+// English keywords always apply and a locale's own are added to them.
+
+function ingredientRule(name: IngredientRule, locale: Locale): KeywordRule {
+  const localized = localizedKeywordRules[locale];
+  switch (name) {
+    case "meat":
+      return mergeKeywordRules(MEAT, localized?.meat);
+    case "honey":
+      return mergeKeywordRules(HONEY, localized?.honey);
+    default:
+      return mergeKeywordRules(allergenRules[name], localized?.allergens[name]);
+  }
+}
+
+function equipmentRule(equipment: Equipment, locale: Locale): KeywordRule {
+  return mergeKeywordRules(
+    equipmentRules[equipment],
+    localizedKeywordRules[locale]?.equipment[equipment]
+  );
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Letters in any script, so "jamón" and "अंडा" end where a word ends.
+const WORD_CHARACTER = "[\\p{L}\\p{M}\\p{N}_]";
+
+/**
+ * Returns the first keyword of `rule` found in `text`, if any. A keyword may
+ * take an English plural or trailing vowel signs, as in Hindi inflections.
+ */
+function matchRule(text: string, rule: KeywordRule): string | null {
+  const lines = text
+    .toLowerCase()
+    .split("\n")
+    .filter((line) => !rule.freeFrom?.some((marker) => line.includes(marker)))
+    .map((line) =>
+      (rule.safe ?? []).reduce(
+        (current, phrase) => current.split(phrase).join(" "),
+        line
+      )
+    );
+  const haystack = lines.join("\n");
+
+  for (const keyword of rule.keywords) {
+    const pattern = new RegExp(
+      `(?<!${WORD_CHARACTER})${escapeRegExp(keyword.toLowerCase())}(e?s)?\\p{M}*(?!${WORD_CHARACTER})`,
+      "u"
+    );
+    if (pattern.test(haystack)) {
+      return keyword;
+    }
+  }
+  return null;
+}
+
+/**
+ * Lists every way `recipe` breaks the dietary profile, as short sentences for
+ * the user. Keyword matching is deliberately strict: a false alarm costs a
+ * glance, a missed allergen can cost much more.
+ */
+export function findViolations(
+  recipe: Recipe,
+  profile: DietaryProfile,
+  locale: Locale = defaultLocale
+): string[] {
+  const ingredientText = [
+    recipe.name,
+    ...recipe.ingredients.map((ingredient) => ingredient.item)
+  ].join("\n");
+  const stepText = recipe.steps.join("\n");
+  const violations: string[] = [];
+  const label = (key: MessageKey) => translate(locale, key).toLowerCase();
+
+  for (const rule of dietRules[profile.diet]) {
+    const match = matchRule(ingredientText, ingredientRule(rule, locale));
+    if (match) {
+      violations.push(
+        translate(locale, "dietary.violation.diet", {
+          diet: label(`diet.${profile.diet}`),
+          match
+        })
+      );
+      break;
+    }
+  }
+
+  for (const allergen of profile.allergens) {
+    const match = matchRule(ingredientText, ingredientRule(allergen, locale));
+    if (match) {
+      violations.push(
+        translate(locale, "dietary.violation.allergen", {
+          allergen: label(`allergen.${allergen}`),
+          match
+        })
+      );
+    }
+  }
+
+  for (const excluded of profile.excludedIngredients) {
+    if (matchRule(ingredientText, { keywords: [excluded] })) {
+      violations.push(
+        translate(locale, "dietary.violation.excluded", {
+          ingredient: excluded
+        })
+      );
+    }
+  }
+
+  const minutes = totalMinutes(recipe);
+  if (
+    profile.maxCookMinutes &&
+    minutes !== null &&
+    minutes > profile.maxCookMinutes
+  ) {
+    violations.push(
+      translate(locale, "dietary.violation.time", {
+        minutes,
+        limit: profile.maxCookMinutes
+      })
+    );
+  }
+
+  if (profile.equipment.length) {
+    const missing = equipmentOptions.filter(
+      (equipment) =>
+        !profile.equipment.includes(equipment) &&
+        matchRule(stepText, equipmentRule(equipment, locale))
+    );
+    if (missing.length) {
+      violations.push(
+        translate(locale, "dietary.violation.equipment", {
+          equipment: missing
+            .map((equipment) => label(`equipment.${equipment}`))
+            .join(", ")
+        })
+      );
+    }
+  }
+
+  return violations;
+}
+
+/** Describes the profile as hard constraints for the model prompt. */
+export function describeDietaryProfile(profile: DietaryProfile): string {
+  const lines = ["Dietary profile (hard constraints, never violate them):"];
+  if (profile.diet !== "omnivore") {
+    lines.push(`- Every recipe must be strictly ${profile.diet}.`);
+  }
+  if (profile.allergens.length) {
+    lines.push(
+      `- Allergies: ${profile.allergens
+        .map((allergen) =>
+          translate(defaultLocale, `allergen.${allergen}`).toLowerCase()
+        )
+        .join(
+          ", "
+        )}. Never use these or any ingredient containing them, not even as an optional garnish.`
+    );
+  }
+  if (profile.excludedIngredients.length) {
+    lines.push(`- Never use: ${profile.excludedIngredients.join(", ")}.`);
+  }
+  if (profile.maxCookMinutes) {
+    lines.push(
+      `- Each recipe must take at most ${profile.maxCookMinutes} minutes from start to finish.`
+    );
+  }
+  if (profile.servings) {
+    lines.push(`- Size every recipe for ${profile.servings} servings.`);
+  }
+  if (profile.equipment.length) {
+    lines.push(
+      `- Available equipment: ${profile.equipment
+        .map((equipment) =>
+          translate(defaultLocale, `equipment.${equipment}`).toLowerCase()
+        )
+        .join(", ")}. Do not require any other appliance.`
+    );
+  }
+  return lines.length > 1 ? lines.join("\n") : "";
+}
+
+/**
+ * Replaces any model-supplied flags with the server's own check, written in
+ * the recipe's language.
+ */
+export function flagRecipe(
+  recipe: Recipe,
+  profile?: DietaryProfile,
+  locale: Locale = defaultLocale
+): Recipe {
+  const { violations: _ignored, ...rest } = recipe;
+  const violations = profile ? findViolations(rest, profile, locale) : [];
+  return violations.length ? { ...rest, violations } : rest;
+}
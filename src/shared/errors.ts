@@ -0,0 +1,19 @@
+/** Machine-readable reasons a model-backed request failed. */
+export const modelErrorCodes = [
+  "provider_misconfigured",
+  "provider_failed",
+  "empty_output",
+  "invalid_json",
+  "schema_mismatch"
+] as const;
+
+export type ModelErrorCode = (typeof modelErrorCodes)[number];
+
+/** Body of a failed `/api/detect` or `/api/generate` response. */
+export type ModelErrorBody = {
+  error: string;
+  code: ModelErrorCode;
+  details?: unknown;
+  /** Added to every API error body; matches the server's log lines. */
+  requestId?: string;
+};
@@ -0,0 +1,48 @@
+import { defaultLocale, translate } from "@/shared/i18n";
+import type { SharedMenu } from "@/shared/notify";
+import { isWinAnsiText } from "@/shared/win-ansi";
+
+export const exportFormats = ["pdf", "markdown", "jsonld"] as const;
+
+export type ExportFormat = (typeof exportFormats)[number];
+
+export const exportFormatLabels: Record<ExportFormat, string> = {
+  pdf: "PDF",
+  markdown: "Markdown",
+  jsonld: "Recipe JSON-LD"
+};
+
+export const exportFileTypes: Record<
+  ExportFormat,
+  { extension: string; contentType: string }
+> = {
+  pdf: { extension: "pdf", contentType: "application/pdf" },
+  markdown: { extension: "md", contentType: "text/markdown; charset=utf-8" },
+  jsonld: { extension: "json", contentType: "application/ld+json" }
+};
+
+/** Query string for downloading a saved menu from `/api/export`. */
+export function exportPath(slug: string, format: ExportFormat) {
+  return `/api/export?${new URLSearchParams({ slug, format })}`;
+}
+
+/**
+ * The formats `menu` can be downloaded in. The PDF's built-in fonts draw only
+ * WinAnsi, so a menu in Hindi, or with words in any other script, goes
+ * without one.
+ */
+export function availableExportFormats(
+  menu: Pick<SharedMenu, "summary" | "recipes" | "locale">
+): ExportFormat[] {
+  const locale = menu.locale ?? defaultLocale;
+  const printable = isWinAnsiText(
+    [
+      translate(locale, "share.title"),
+      translate(locale, "share.ingredients"),
+      translate(locale, "share.steps"),
+      menu.summary ?? "",
+      JSON.stringify(menu.recipes)
+    ].join(" ")
+  );
+  return exportFormats.filter((format) => format !== "pdf" || printable);
+}
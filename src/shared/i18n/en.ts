@@ -0,0 +1,399 @@
+// The source catalog: every other locale must translate each of these keys.
+// `{name}` marks a value filled in at runtime; keys ending in `.one` and
+// `.other` are the plural forms of one message, picked by `{count}`.
+export const en = {
+  "app.name": "Kitchen Remix AI",
+  "app.description":
+    "Upload a photo of your leftovers and get AI-crafted recipes you can send on WhatsApp.",
+  "common.add": "Add",
+  "common.apply": "Apply",
+  "common.cancel": "Cancel",
+  "common.delete": "Delete",
+  "common.open": "Open",
+  "common.remove": "Remove {name}",
+  "common.save": "Save",
+  "common.saving": "Saving…",
+  "common.sending": "Sending…",
+  "common.sentToSome": "Sent to {sent} of {total} recipients.",
+  "language.label": "Language",
+
+  "recipe.serves": "Serves {count}",
+  "recipe.prepMinutes": "{minutes} min prep",
+  "recipe.cookMinutes": "{minutes} min cook",
+  "recipe.nutrition":
+    "{calories} kcal · {protein} g protein · {carbs} g carbs · {fat} g fat",
+  "difficulty.easy": "Easy",
+  "difficulty.medium": "Medium",
+  "difficulty.hard": "Hard",
+
+  "diet.omnivore": "No restrictions",
+  "diet.vegetarian": "Vegetarian",
+  "diet.vegan": "Vegan",
+  "diet.pescatarian": "Pescatarian",
+  "allergen.gluten": "Gluten",
+  "allergen.dairy": "Dairy",
+  "allergen.eggs": "Eggs",
+  "allergen.peanuts": "Peanuts",
+  "allergen.tree-nuts": "Tree nuts",
+  "allergen.soy": "Soy",
+  "allergen.sesame": "Sesame",
+  "allergen.fish": "Fish",
+  "allergen.shellfish": "Shellfish",
+  "equipment.stovetop": "Stovetop",
+  "equipment.oven": "Oven",
+  "equipment.microwave": "Microwave",
+  "equipment.air-fryer": "Air fryer",
+  "equipment.slow-cooker": "Slow cooker",
+  "equipment.pressure-cooker": "Pressure cooker",
+  "equipment.blender": "Blender",
+  "equipment.grill": "Grill",
+  "dietary.violation.diet": "Not {diet}: uses {match}.",
+  "dietary.violation.allergen": "Contains {allergen} ({match}).",
+  "dietary.violation.excluded": "Uses excluded ingredient: {ingredient}.",
+  "dietary.violation.time":
+    "Takes {minutes} minutes, over your {limit}-minute limit.",
+  "dietary.violation.equipment": "Needs equipment you don't have: {equipment}.",
+
+  "share.title": "Kitchen Remix AI Recipes",
+  "share.ingredients": "Ingredients",
+  "share.steps": "Steps",
+  "share.fullRecipes": "Full recipes",
+  "share.viewOnline": "View online",
+  "share.viewMenuOnline": "View this menu online",
+  "share.emailSubject": "Recipes: {names}",
+  "share.emailSubjectMore": "Recipes: {names} and {count} more",
+  "share.and": "and",
+  "share.shoppingList": "Shopping list",
+  "share.nothingToBuy": "Nothing to buy: the pantry covers every recipe.",
+  "share.alreadyHave": "Already have",
+  "share.listHeader": "Kitchen Remix",
+  "share.listBody":
+    "Pick a recipe and I'll send you the full ingredients and steps.",
+  "share.listButton": "Choose a recipe",
+  "share.listSection": "Recipes",
+  "bot.help":
+    "👋 Send me a photo of your fridge or leftovers and I'll reply with recipes. Add a caption for notes, like “vegetarian, no oven”.",
+  "bot.cooking": "🍳 Got it! Cooking up some recipes…",
+  "bot.recipeGone": "Sorry, that recipe is no longer available.",
+  "bot.badPhoto":
+    "Sorry, I couldn't use that photo. Send a PNG, JPEG, GIF or WebP image.",
+  "bot.failed":
+    "Sorry, I couldn't make recipes from that photo. Please try again.",
+  "rateLimit.message": "Too many requests. Try again in {wait}.",
+  "duration.seconds.one": "{count} second",
+  "duration.seconds.other": "{count} seconds",
+  "duration.minutes.one": "{count} minute",
+  "duration.minutes.other": "{count} minutes",
+  "duration.hours.one": "{count} hour",
+  "duration.hours.other": "{count} hours",
+
+  "home.headline": "Turn leftovers into {accent}",
+  "home.headlineAccent": "chef-crafted recipes",
+  "home.intro":
+    "Upload a photo of what's left in your fridge. We'll detect the ingredients, generate at least three tasty recipes, and share them straight to WhatsApp.",
+  "home.photoLabel": "1. Snap your leftovers",
+  "home.preparingPhotos": "Preparing photos…",
+  "home.photoHint":
+    "Add up to {max} clear, well-lit shots of your fridge, pantry and counter.",
+  "home.notesLabel": "2. Add kitchen notes (optional)",
+  "home.notesPlaceholder":
+    "Tell the chef about dietary preferences, missing pantry staples, or equipment limits.",
+  "home.usePantry": "Cook with my pantry too ({count} items, expiring first)",
+  "home.photoAlt": "Leftover ingredients photo {number}",
+  "home.removePhoto": "Remove photo {number}",
+  "home.recognition": "Ingredient recognition",
+  "home.recognitionEdit":
+    "Tap an ingredient to fix its name or amount, remove anything we got wrong, and add what the photo missed.",
+  "home.recognitionIntro":
+    "Check what the AI sees in your photos before it writes recipes, or skip straight to generating.",
+  "home.detecting": "Detecting…",
+  "home.detect": "Detect ingredients",
+  "home.generating": "Generating recipes…",
+  "home.generate": "Generate 3+ recipes",
+  "home.menuTitle": "Your remix menu",
+  "home.units": "Units",
+  "home.unit.metric": "Metric",
+  "home.unit.imperial": "Imperial",
+  "home.cacheHit":
+    "Same photos and notes as a recent request, so this is the menu you got then.",
+  "home.regenerate": "Regenerate",
+  "home.nextRecipe": "Cooking up the next recipe…",
+  "home.shareTitle": "Share your menu",
+  "home.shareIntro": "Send the complete menu to friends, family, or yourself.",
+  "home.shareChannel": "Share channel",
+  "home.notConfigured": "Not configured on this server",
+  "home.flagged.one":
+    "{count} recipe that breaks your dietary profile is left out of shared messages.",
+  "home.flagged.other":
+    "{count} recipes that break your dietary profile are left out of shared messages.",
+  "home.shareAsLink": "Send a link to the menu page instead of the full text",
+  "home.sendRecipeList": "Let them pick a recipe to receive in full",
+  "home.firstContact":
+    "First message to these numbers (sends the approved template)",
+  "home.sendToWhatsApp": "Send to WhatsApp",
+  "home.copyRecipes": "Copy recipes",
+  "home.copiedRecipes": "Copied recipes to clipboard.",
+  "home.copyRecipesFailed": "Unable to copy recipes to clipboard.",
+  "home.copyLink": "Copy link",
+  "home.copiedLink": "Copied menu link to clipboard.",
+  "home.copyLinkFailed": "Unable to copy the menu link.",
+  "home.openMenuPage": "Open menu page",
+  "home.whatsAppWeb": "Share via WhatsApp Web",
+  "home.error.imagesOnly": "Please choose image files only.",
+  "home.error.tooManyPhotos": "You can add up to {max} photos per menu.",
+  "home.error.preparePhoto": "Unable to prepare that photo.",
+  "home.error.detect": "Unable to detect ingredients.",
+  "home.error.detectUnexpected":
+    "Something went wrong while detecting ingredients.",
+  "home.error.noPhoto": "Upload a photo of your leftovers first.",
+  "home.error.profile":
+    "Check your dietary profile: cook time must be 5-600 minutes and servings 1-20.",
+  "home.error.generate": "Unable to generate recipes.",
+  "home.error.cancelled": "Recipe generation cancelled.",
+  "home.error.generateUnexpected":
+    "Something went wrong while generating recipes.",
+  "home.error.whatsApp": "Failed to send WhatsApp message.",
+  "home.error.whatsAppUnexpected":
+    "Something went wrong while sending WhatsApp message.",
+  "home.sent.template":
+    "Sent the approved invite template. Recipes can follow once they reply.",
+  "home.sent.recipients": "WhatsApp menu sent to {count} recipients.",
+  "home.sent.single": "WhatsApp message sent.",
+
+  "offline.banner":
+    "You're offline. Saved menus and photos still work; new menus and WhatsApp sends wait until you're back online.",
+  "offline.detect":
+    "Ingredient detection needs a connection. You can still generate: the menu is made once you're back online.",
+  "offline.generateQueued":
+    "You're offline. This menu will be made as soon as you're back online.",
+  "offline.generateReplayed": "The menu you asked for while offline is ready.",
+  "offline.generateFailed":
+    "The menu you asked for while offline could not be made. Try again.",
+  "offline.whatsAppQueued":
+    "You're offline. The message will be sent when you're back online.",
+  "offline.whatsAppSent": "The WhatsApp message you queued offline was sent.",
+  "offline.whatsAppFailed":
+    "The WhatsApp message you queued offline could not be sent.",
+  "offline.openMenu": "Open menu",
+
+  "account.signedInAs": "Signed in as {email}",
+  "account.signOut": "Sign out",
+  "account.whatsApp": "My WhatsApp",
+  "account.saved": "Saved.",
+  "account.removed": "Removed.",
+  "account.saveFailed": "Unable to save your number.",
+  "account.codeSent": "We sent a code to {number} on WhatsApp.",
+  "account.code": "Code",
+  "account.verify": "Verify",
+  "account.verifying": "Verifying…",
+  "account.verifyFailed": "Unable to verify your number.",
+  "account.codeMessage":
+    "Your Kitchen Remix AI code is {code}. It expires in 10 minutes. If you did not ask for it, ignore this message.",
+
+  "signIn.title": "Sign in",
+  "signIn.sent":
+    "Check {email} for a sign-in link. It works once and expires in 15 minutes.",
+  "signIn.intro":
+    "We'll email you a link. Your menus, contacts and dietary settings are kept with your account.",
+  "signIn.email": "Email",
+  "signIn.submit": "Email me a sign-in link",
+  "signIn.failed": "Unable to send the sign-in link.",
+  "signIn.linkExpired":
+    "That sign-in link has expired or was already used. Request a new one.",
+  "signIn.linkFailed": "Signing in failed. Please try again.",
+
+  "card.recipe": "Recipe {number}",
+  "card.fewerServings": "Fewer servings",
+  "card.moreServings": "More servings",
+  "card.violations": "Doesn't match your dietary profile",
+  "card.ingredients": "Ingredients",
+  "card.leftover": "Leftover",
+  "card.steps": "Steps",
+  "card.nutrition": "Per serving (estimate): {nutrition}",
+
+  "cooked.mark": "Mark as cooked",
+  "cooked.updating": "Updating…",
+  "cooked.done": "Cooked ✓",
+  "cooked.updated": "Pantry updated: {items}.",
+  "cooked.usedUp": "{name} (used up)",
+  "cooked.nothing": "Nothing in your pantry needed counting down.",
+  "cooked.failed": "Unable to update the pantry.",
+
+  "dietaryForm.title": "3. Dietary profile (optional)",
+  "dietaryForm.none": "No constraints set",
+  "dietaryForm.summary.allergens": "no {allergens}",
+  "dietaryForm.summary.excluded": "{count} excluded",
+  "dietaryForm.summary.minutes": "≤ {minutes} min",
+  "dietaryForm.summary.servings.one": "{count} serving",
+  "dietaryForm.summary.servings.other": "{count} servings",
+  "dietaryForm.summary.appliances.one": "{count} appliance",
+  "dietaryForm.summary.appliances.other": "{count} appliances",
+  "dietaryForm.diet": "Diet",
+  "dietaryForm.excluded": "Never use (comma separated)",
+  "dietaryForm.excludedPlaceholder": "cilantro, mushrooms",
+  "dietaryForm.allergies": "Allergies",
+  "dietaryForm.maxMinutes": "Max total time (minutes)",
+  "dietaryForm.servings": "Servings",
+  "dietaryForm.any": "Any",
+  "dietaryForm.equipment": "Available equipment",
+  "dietaryForm.equipmentHint": "(leave empty for a normal home kitchen)",
+
+  "chips.fresh": "Fresh",
+  "chips.use-soon": "Use soon",
+  "chips.past-prime": "Past prime",
+  "chips.unknown": "Freshness unknown",
+  "chips.confidence": "{freshness} · {percent}% confident",
+  "chips.name": "Ingredient name",
+  "chips.quantity": "Estimated quantity",
+  "chips.addPlaceholder": "Add a missing ingredient",
+
+  "refine.swap": "Swap this recipe",
+  "refine.vegetarian": "Make it vegetarian",
+  "refine.quicker": "Make it quicker",
+  "refine.custom": "Refine…",
+  "refine.working": "Reworking…",
+  "refine.placeholder": "e.g. no oven, or make it spicier",
+  "refine.instruction": "How should this recipe change?",
+  "refine.failed": "Unable to change this recipe.",
+
+  "recipients.groups": "Groups",
+  "recipients.contacts": "Contacts",
+  "recipients.deleteGroup": "Delete group {name}",
+  "recipients.deleteContact": "Delete contact {name}",
+  "recipients.groupPlaceholder": "Group name, e.g. Family",
+  "recipients.saveGroup": "Save selected as group",
+  "recipients.numbers": "Other numbers (comma separated)",
+  "recipients.country": "Numbers without a country code are in",
+  "recipients.serverDefault": "Server default",
+  "recipients.saveContactTitle": "Save a contact",
+  "recipients.name": "Name",
+  "recipients.saveContact": "Save contact",
+  "recipients.confirmDeleteContact": "Delete this contact?",
+  "recipients.confirmDeleteGroup": "Delete this group? Its contacts are kept.",
+  "recipients.error.load": "Unable to load contacts.",
+  "recipients.error.saveContact": "Unable to save the contact.",
+  "recipients.error.saveGroup": "Unable to create the group.",
+  "recipients.error.deleteContact": "Unable to delete the contact.",
+  "recipients.error.deleteGroup": "Unable to delete the group.",
+
+  "delivery.to": "Delivery to {recipient}",
+  "delivery.status.pending": "Not sent",
+  "delivery.status.accepted": "Sending",
+  "delivery.status.sent": "Sent",
+  "delivery.status.delivered": "Delivered",
+  "delivery.status.read": "Read",
+  "delivery.status.failed": "Failed",
+  "delivery.kind.text": "Message",
+  "delivery.kind.template": "Invite",
+  "delivery.kind.list": "Recipe list",
+  "delivery.outsideWindow":
+    "Tick “First message to these numbers” to send the approved invite instead.",
+  "delivery.retrying": "Retrying…",
+  "delivery.retry": "Retry failed messages",
+  "delivery.retryFailed": "Unable to retry the delivery.",
+
+  "export.download": "Download",
+  "export.downloadFormat": "Download {format}",
+  "export.preparing": "Preparing…",
+  "export.failed": "Unable to export the menu.",
+  "export.leftover": "(leftover)",
+  "export.pageFooter": "Kitchen Remix AI · Page {page} of {total}",
+  "export.pdfUnsupported":
+    "This menu uses characters the PDF export cannot print. Download it as Markdown instead.",
+
+  "channel.whatsapp": "WhatsApp",
+  "channel.email": "Email",
+  "channel.telegram": "Telegram",
+  "channel.sms": "SMS",
+  "channel.recipient.whatsapp": "WhatsApp number",
+  "channel.recipient.email": "Email address",
+  "channel.recipient.telegram": "Telegram chat id",
+  "channel.recipient.sms": "Mobile number",
+  "channel.send": "Send by {channel}",
+  "channel.sent": "Sent to {to} by {channel}.",
+  "channel.failed": "Failed to send by {channel}.",
+  "channel.emailNote":
+    "Emails always include the full recipes, plus a link when the menu is saved.",
+
+  "history.title": "Menu history",
+  "history.favoritesOnly": "Favorites only",
+  "history.loading": "Loading your past menus…",
+  "history.noFavorites": "No favorite menus yet. Star a menu to keep it here.",
+  "history.empty": "Menus you generate will appear here.",
+  "history.unfavorite": "Remove from favorites",
+  "history.favorite": "Add to favorites",
+  "history.error.load": "Unable to load menu history.",
+  "history.error.update": "Unable to update the menu.",
+  "history.error.delete": "Unable to delete the menu.",
+  "history.error.open": "Unable to load the menu.",
+
+  "pantry.title": "Pantry",
+  "pantry.intro":
+    "Ingredients you confirm before cooking land here, soonest to expire first. Recipes use these too, and marking one as cooked counts them down.",
+  "pantry.loading": "Loading your pantry…",
+  "pantry.empty":
+    "Your pantry is empty. Detect ingredients in a photo or add them below.",
+  "pantry.noExpiry": "No expiry date",
+  "pantry.expiryFor": "Expiry date for {name}",
+  "pantry.expiry.today": "expires today",
+  "pantry.expiry.tomorrow": "expires tomorrow",
+  "pantry.expiry.yesterday": "expired yesterday",
+  "pantry.expiry.inDays": "expires in {count} days",
+  "pantry.expiry.daysAgo": "expired {count} days ago",
+  "pantry.itemPlaceholder": "Item, e.g. chickpeas",
+  "pantry.itemName": "Item name",
+  "pantry.amountPlaceholder": "Amount, e.g. 2 cans",
+  "pantry.amount": "Amount",
+  "pantry.expiryDate": "Expiry date",
+  "pantry.staples": "Staples you always have",
+  "pantry.staplesIntro":
+    "Never counted down, and recipes will not suggest swaps for them.",
+  "pantry.staplePlaceholder": "Another staple, e.g. soy sauce",
+  "pantry.staple": "Staple",
+  "pantry.addStaple": "Add staple",
+  "pantry.error.add": "Unable to add the item.",
+  "pantry.error.update": "Unable to update the item.",
+  "pantry.error.remove": "Unable to remove the item.",
+  "pantry.error.staples": "Unable to save the staples.",
+
+  "planner.title": "Meal planner",
+  "planner.intro": "Drag recipes onto the week, or pick one and tap a slot.",
+  "planner.previousWeek": "Previous week",
+  "planner.nextWeek": "Next week",
+  "planner.currentMenu": "Current menu",
+  "planner.fromHistory": "From history",
+  "planner.pastMenu": "Past menu",
+  "planner.choosePastMenu": "Choose a past menu…",
+  "planner.currentMenuEmpty": "Generate a menu to plan its recipes.",
+  "planner.pastMenuEmpty": "Recipes from the chosen menu appear here.",
+  "planner.loading": "Loading your meal plan…",
+  "planner.addHere": "+ Add here",
+  "planner.meal.breakfast": "Breakfast",
+  "planner.meal.lunch": "Lunch",
+  "planner.meal.dinner": "Dinner",
+  "planner.copyList": "Copy list",
+  "planner.copied": "Copied the shopping list.",
+  "planner.copyFailed": "Unable to copy the shopping list.",
+  "planner.planSomeMeals": "Plan some meals this week to build the list.",
+  "planner.covered.pantry": "In the pantry",
+  "planner.covered.staples": "Staples",
+  "planner.covered.leftovers": "From your leftovers",
+  "planner.sendList": "Send shopping list",
+  "planner.listSent": "Shopping list sent.",
+  "planner.error.load": "Unable to load the meal plan.",
+  "planner.error.place": "Unable to plan the recipe.",
+  "planner.error.move": "Unable to move the meal.",
+  "planner.error.remove": "Unable to remove the meal.",
+  "planner.error.send": "Failed to send the shopping list.",
+
+  "menuPage.title": "A remix menu",
+  "menuPage.created": "Created {date}",
+  "menuPage.notFound": "Menu not found",
+  "menuPage.more": "{names} + {count} more",
+  "menuPage.cta": "Got leftovers of your own?",
+  "menuPage.ctaLink": "Remix them into recipes"
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,399 @@
+import type { Messages } from "@/shared/i18n/en";
+
+export const es: Messages = {
+  "app.name": "Kitchen Remix AI",
+  "app.description":
+    "Sube una foto de tus sobras y recibe recetas creadas con IA que puedes enviar por WhatsApp.",
+  "common.add": "Añadir",
+  "common.apply": "Aplicar",
+  "common.cancel": "Cancelar",
+  "common.delete": "Eliminar",
+  "common.open": "Abrir",
+  "common.remove": "Quitar {name}",
+  "common.save": "Guardar",
+  "common.saving": "Guardando…",
+  "common.sending": "Enviando…",
+  "common.sentToSome": "Enviado a {sent} de {total} destinatarios.",
+  "language.label": "Idioma",
+
+  "recipe.serves": "Para {count}",
+  "recipe.prepMinutes": "{minutes} min de preparación",
+  "recipe.cookMinutes": "{minutes} min de cocción",
+  "recipe.nutrition":
+    "{calories} kcal · {protein} g proteína · {carbs} g carbohidratos · {fat} g grasa",
+  "difficulty.easy": "Fácil",
+  "difficulty.medium": "Media",
+  "difficulty.hard": "Difícil",
+
+  "diet.omnivore": "Sin restricciones",
+  "diet.vegetarian": "Vegetariana",
+  "diet.vegan": "Vegana",
+  "diet.pescatarian": "Pescetariana",
+  "allergen.gluten": "Gluten",
+  "allergen.dairy": "Lácteos",
+  "allergen.eggs": "Huevos",
+  "allergen.peanuts": "Cacahuetes",
+  "allergen.tree-nuts": "Frutos secos",
+  "allergen.soy": "Soja",
+  "allergen.sesame": "Sésamo",
+  "allergen.fish": "Pescado",
+  "allergen.shellfish": "Mariscos",
+  "equipment.stovetop": "Fogón",
+  "equipment.oven": "Horno",
+  "equipment.microwave": "Microondas",
+  "equipment.air-fryer": "Freidora de aire",
+  "equipment.slow-cooker": "Olla de cocción lenta",
+  "equipment.pressure-cooker": "Olla a presión",
+  "equipment.blender": "Batidora",
+  "equipment.grill": "Parrilla",
+  "dietary.violation.diet": "No es {diet}: lleva {match}.",
+  "dietary.violation.allergen": "Contiene {allergen} ({match}).",
+  "dietary.violation.excluded": "Usa un ingrediente excluido: {ingredient}.",
+  "dietary.violation.time":
+    "Lleva {minutes} minutos, más que tu límite de {limit}.",
+  "dietary.violation.equipment": "Necesita equipo que no tienes: {equipment}.",
+
+  "share.title": "Recetas de Kitchen Remix AI",
+  "share.ingredients": "Ingredientes",
+  "share.steps": "Pasos",
+  "share.fullRecipes": "Recetas completas",
+  "share.viewOnline": "Ver en línea",
+  "share.viewMenuOnline": "Ver este menú en línea",
+  "share.emailSubject": "Recetas: {names}",
+  "share.emailSubjectMore": "Recetas: {names} y {count} más",
+  "share.and": "y",
+  "share.shoppingList": "Lista de la compra",
+  "share.nothingToBuy":
+    "No hay nada que comprar: la despensa cubre todas las recetas.",
+  "share.alreadyHave": "Ya tienes",
+  "share.listHeader": "Kitchen Remix",
+  "share.listBody":
+    "Elige una receta y te enviaré los ingredientes y los pasos completos.",
+  "share.listButton": "Elegir receta",
+  "share.listSection": "Recetas",
+  "bot.help":
+    "👋 Envíame una foto de tu nevera o de tus sobras y te responderé con recetas. Añade un texto con notas, como “vegetariano, sin horno”.",
+  "bot.cooking": "🍳 ¡Entendido! Preparando unas recetas…",
+  "bot.recipeGone": "Lo siento, esa receta ya no está disponible.",
+  "bot.badPhoto":
+    "Lo siento, no pude usar esa foto. Envía una imagen PNG, JPEG, GIF o WebP.",
+  "bot.failed":
+    "Lo siento, no pude crear recetas con esa foto. Inténtalo de nuevo.",
+  "rateLimit.message": "Demasiadas solicitudes. Inténtalo de nuevo en {wait}.",
+  "duration.seconds.one": "{count} segundo",
+  "duration.seconds.other": "{count} segundos",
+  "duration.minutes.one": "{count} minuto",
+  "duration.minutes.other": "{count} minutos",
+  "duration.hours.one": "{count} hora",
+  "duration.hours.other": "{count} horas",
+
+  "home.headline": "Convierte tus sobras en {accent}",
+  "home.headlineAccent": "recetas de chef",
+  "home.intro":
+    "Sube una foto de lo que queda en tu nevera. Detectaremos los ingredientes, crearemos al menos tres recetas sabrosas y las compartiremos directamente por WhatsApp.",
+  "home.photoLabel": "1. Fotografía tus sobras",
+  "home.preparingPhotos": "Preparando fotos…",
+  "home.photoHint":
+    "Añade hasta {max} fotos nítidas y bien iluminadas de tu nevera, despensa y encimera.",
+  "home.notesLabel": "2. Añade notas de cocina (opcional)",
+  "home.notesPlaceholder":
+    "Cuéntale al chef tus preferencias alimentarias, qué básicos te faltan o qué utensilios no tienes.",
+  "home.usePantry":
+    "Cocinar también con mi despensa ({count} artículos, primero lo que caduca antes)",
+  "home.photoAlt": "Foto de sobras {number}",
+  "home.removePhoto": "Quitar la foto {number}",
+  "home.recognition": "Reconocimiento de ingredientes",
+  "home.recognitionEdit":
+    "Toca un ingrediente para corregir su nombre o cantidad, quita lo que hayamos detectado mal y añade lo que falte en la foto.",
+  "home.recognitionIntro":
+    "Comprueba lo que la IA ve en tus fotos antes de que escriba las recetas, o pasa directamente a generarlas.",
+  "home.detecting": "Detectando…",
+  "home.detect": "Detectar ingredientes",
+  "home.generating": "Generando recetas…",
+  "home.generate": "Generar 3+ recetas",
+  "home.menuTitle": "Tu menú remix",
+  "home.units": "Unidades",
+  "home.unit.metric": "Métrico",
+  "home.unit.imperial": "Imperial",
+  "home.cacheHit":
+    "Mismas fotos y notas que en una petición reciente, así que este es el menú que recibiste entonces.",
+  "home.regenerate": "Volver a generar",
+  "home.nextRecipe": "Preparando la siguiente receta…",
+  "home.shareTitle": "Comparte tu menú",
+  "home.shareIntro": "Envía el menú completo a amigos, familia o a ti mismo.",
+  "home.shareChannel": "Canal para compartir",
+  "home.notConfigured": "No está configurado en este servidor",
+  "home.flagged.one":
+    "{count} receta que no respeta tu perfil alimentario queda fuera de los mensajes compartidos.",
+  "home.flagged.other":
+    "{count} recetas que no respetan tu perfil alimentario quedan fuera de los mensajes compartidos.",
+  "home.shareAsLink":
+    "Enviar un enlace a la página del menú en vez del texto completo",
+  "home.sendRecipeList": "Dejar que elijan una receta para recibirla completa",
+  "home.firstContact":
+    "Primer mensaje a estos números (envía la plantilla aprobada)",
+  "home.sendToWhatsApp": "Enviar por WhatsApp",
+  "home.copyRecipes": "Copiar recetas",
+  "home.copiedRecipes": "Recetas copiadas al portapapeles.",
+  "home.copyRecipesFailed": "No se pudieron copiar las recetas.",
+  "home.copyLink": "Copiar enlace",
+  "home.copiedLink": "Enlace del menú copiado al portapapeles.",
+  "home.copyLinkFailed": "No se pudo copiar el enlace del menú.",
+  "home.openMenuPage": "Abrir la página del menú",
+  "home.whatsAppWeb": "Compartir con WhatsApp Web",
+  "home.error.imagesOnly": "Elige solo archivos de imagen.",
+  "home.error.tooManyPhotos": "Puedes añadir hasta {max} fotos por menú.",
+  "home.error.preparePhoto": "No se pudo preparar esa foto.",
+  "home.error.detect": "No se pudieron detectar los ingredientes.",
+  "home.error.detectUnexpected": "Algo salió mal al detectar los ingredientes.",
+  "home.error.noPhoto": "Primero sube una foto de tus sobras.",
+  "home.error.profile":
+    "Revisa tu perfil alimentario: el tiempo debe ser de 5 a 600 minutos y las raciones de 1 a 20.",
+  "home.error.generate": "No se pudieron generar las recetas.",
+  "home.error.cancelled": "Generación de recetas cancelada.",
+  "home.error.generateUnexpected": "Algo salió mal al generar las recetas.",
+  "home.error.whatsApp": "No se pudo enviar el mensaje de WhatsApp.",
+  "home.error.whatsAppUnexpected":
+    "Algo salió mal al enviar el mensaje de WhatsApp.",
+  "home.sent.template":
+    "Se envió la plantilla de invitación aprobada. Las recetas pueden seguir cuando respondan.",
+  "home.sent.recipients": "Menú enviado por WhatsApp a {count} destinatarios.",
+  "home.sent.single": "Mensaje de WhatsApp enviado.",
+
+  "offline.banner":
+    "Estás sin conexión. Los menús guardados y las fotos siguen funcionando; los menús nuevos y los envíos por WhatsApp esperan a que vuelvas a estar en línea.",
+  "offline.detect":
+    "La detección de ingredientes necesita conexión. Aún puedes generar: el menú se preparará cuando vuelvas a estar en línea.",
+  "offline.generateQueued":
+    "Estás sin conexión. Este menú se preparará en cuanto vuelvas a estar en línea.",
+  "offline.generateReplayed": "El menú que pediste sin conexión ya está listo.",
+  "offline.generateFailed":
+    "No se pudo preparar el menú que pediste sin conexión. Inténtalo de nuevo.",
+  "offline.whatsAppQueued":
+    "Estás sin conexión. El mensaje se enviará cuando vuelvas a estar en línea.",
+  "offline.whatsAppSent":
+    "Se envió el mensaje de WhatsApp que dejaste en cola sin conexión.",
+  "offline.whatsAppFailed":
+    "No se pudo enviar el mensaje de WhatsApp que dejaste en cola sin conexión.",
+  "offline.openMenu": "Abrir menú",
+
+  "account.signedInAs": "Sesión iniciada como {email}",
+  "account.signOut": "Cerrar sesión",
+  "account.whatsApp": "Mi WhatsApp",
+  "account.saved": "Guardado.",
+  "account.removed": "Eliminado.",
+  "account.saveFailed": "No se pudo guardar tu número.",
+  "account.codeSent": "Enviamos un código a {number} por WhatsApp.",
+  "account.code": "Código",
+  "account.verify": "Verificar",
+  "account.verifying": "Verificando…",
+  "account.verifyFailed": "No se pudo verificar tu número.",
+  "account.codeMessage":
+    "Tu código de Kitchen Remix AI es {code}. Caduca en 10 minutos. Si no lo pediste, ignora este mensaje.",
+
+  "signIn.title": "Iniciar sesión",
+  "signIn.sent":
+    "Revisa {email} para encontrar un enlace de acceso. Funciona una sola vez y caduca en 15 minutos.",
+  "signIn.intro":
+    "Te enviaremos un enlace por correo. Tus menús, contactos y preferencias alimentarias se guardan en tu cuenta.",
+  "signIn.email": "Correo electrónico",
+  "signIn.submit": "Envíame un enlace de acceso",
+  "signIn.failed": "No se pudo enviar el enlace de acceso.",
+  "signIn.linkExpired":
+    "Ese enlace de acceso ha caducado o ya se usó. Pide uno nuevo.",
+  "signIn.linkFailed": "No se pudo iniciar sesión. Inténtalo de nuevo.",
+
+  "card.recipe": "Receta {number}",
+  "card.fewerServings": "Menos raciones",
+  "card.moreServings": "Más raciones",
+  "card.violations": "No se ajusta a tu perfil alimentario",
+  "card.ingredients": "Ingredientes",
+  "card.leftover": "Sobra",
+  "card.steps": "Pasos",
+  "card.nutrition": "Por ración (estimación): {nutrition}",
+
+  "cooked.mark": "Marcar como cocinada",
+  "cooked.updating": "Actualizando…",
+  "cooked.done": "Cocinada ✓",
+  "cooked.updated": "Despensa actualizada: {items}.",
+  "cooked.usedUp": "{name} (agotado)",
+  "cooked.nothing": "No había nada en tu despensa que descontar.",
+  "cooked.failed": "No se pudo actualizar la despensa.",
+
+  "dietaryForm.title": "3. Perfil alimentario (opcional)",
+  "dietaryForm.none": "Sin restricciones",
+  "dietaryForm.summary.allergens": "sin {allergens}",
+  "dietaryForm.summary.excluded": "{count} excluidos",
+  "dietaryForm.summary.minutes": "≤ {minutes} min",
+  "dietaryForm.summary.servings.one": "{count} ración",
+  "dietaryForm.summary.servings.other": "{count} raciones",
+  "dietaryForm.summary.appliances.one": "{count} aparato",
+  "dietaryForm.summary.appliances.other": "{count} aparatos",
+  "dietaryForm.diet": "Dieta",
+  "dietaryForm.excluded": "No usar nunca (separado por comas)",
+  "dietaryForm.excludedPlaceholder": "cilantro, champiñones",
+  "dietaryForm.allergies": "Alergias",
+  "dietaryForm.maxMinutes": "Tiempo total máximo (minutos)",
+  "dietaryForm.servings": "Raciones",
+  "dietaryForm.any": "Cualquiera",
+  "dietaryForm.equipment": "Equipo disponible",
+  "dietaryForm.equipmentHint": "(déjalo vacío para una cocina normal)",
+
+  "chips.fresh": "Fresco",
+  "chips.use-soon": "Usar pronto",
+  "chips.past-prime": "Pasado",
+  "chips.unknown": "Frescura desconocida",
+  "chips.confidence": "{freshness} · {percent} % de confianza",
+  "chips.name": "Nombre del ingrediente",
+  "chips.quantity": "Cantidad estimada",
+  "chips.addPlaceholder": "Añade un ingrediente que falte",
+
+  "refine.swap": "Cambiar esta receta",
+  "refine.vegetarian": "Hacerla vegetariana",
+  "refine.quicker": "Hacerla más rápida",
+  "refine.custom": "Ajustar…",
+  "refine.working": "Rehaciendo…",
+  "refine.placeholder": "p. ej. sin horno, o más picante",
+  "refine.instruction": "¿Cómo debería cambiar esta receta?",
+  "refine.failed": "No se pudo cambiar esta receta.",
+
+  "recipients.groups": "Grupos",
+  "recipients.contacts": "Contactos",
+  "recipients.deleteGroup": "Eliminar el grupo {name}",
+  "recipients.deleteContact": "Eliminar el contacto {name}",
+  "recipients.groupPlaceholder": "Nombre del grupo, p. ej. Familia",
+  "recipients.saveGroup": "Guardar la selección como grupo",
+  "recipients.numbers": "Otros números (separados por comas)",
+  "recipients.country": "Los números sin prefijo de país son de",
+  "recipients.serverDefault": "Predeterminado del servidor",
+  "recipients.saveContactTitle": "Guardar un contacto",
+  "recipients.name": "Nombre",
+  "recipients.saveContact": "Guardar contacto",
+  "recipients.confirmDeleteContact": "¿Eliminar este contacto?",
+  "recipients.confirmDeleteGroup":
+    "¿Eliminar este grupo? Sus contactos se conservan.",
+  "recipients.error.load": "No se pudieron cargar los contactos.",
+  "recipients.error.saveContact": "No se pudo guardar el contacto.",
+  "recipients.error.saveGroup": "No se pudo crear el grupo.",
+  "recipients.error.deleteContact": "No se pudo eliminar el contacto.",
+  "recipients.error.deleteGroup": "No se pudo eliminar el grupo.",
+
+  "delivery.to": "Entrega a {recipient}",
+  "delivery.status.pending": "Sin enviar",
+  "delivery.status.accepted": "Enviando",
+  "delivery.status.sent": "Enviado",
+  "delivery.status.delivered": "Entregado",
+  "delivery.status.read": "Leído",
+  "delivery.status.failed": "Fallido",
+  "delivery.kind.text": "Mensaje",
+  "delivery.kind.template": "Invitación",
+  "delivery.kind.list": "Lista de recetas",
+  "delivery.outsideWindow":
+    "Marca «Primer mensaje a estos números» para enviar la invitación aprobada.",
+  "delivery.retrying": "Reintentando…",
+  "delivery.retry": "Reintentar los mensajes fallidos",
+  "delivery.retryFailed": "No se pudo reintentar la entrega.",
+
+  "export.download": "Descargar",
+  "export.downloadFormat": "Descargar {format}",
+  "export.preparing": "Preparando…",
+  "export.failed": "No se pudo exportar el menú.",
+  "export.leftover": "(sobra)",
+  "export.pageFooter": "Kitchen Remix AI · Página {page} de {total}",
+  "export.pdfUnsupported":
+    "Este menú tiene caracteres que la exportación a PDF no puede imprimir. Descárgalo en Markdown.",
+
+  "channel.whatsapp": "WhatsApp",
+  "channel.email": "Correo",
+  "channel.telegram": "Telegram",
+  "channel.sms": "SMS",
+  "channel.recipient.whatsapp": "Número de WhatsApp",
+  "channel.recipient.email": "Correo electrónico",
+  "channel.recipient.telegram": "ID del chat de Telegram",
+  "channel.recipient.sms": "Número de móvil",
+  "channel.send": "Enviar por {channel}",
+  "channel.sent": "Enviado a {to} por {channel}.",
+  "channel.failed": "No se pudo enviar por {channel}.",
+  "channel.emailNote":
+    "Los correos siempre incluyen las recetas completas, y un enlace cuando el menú está guardado.",
+
+  "history.title": "Historial de menús",
+  "history.favoritesOnly": "Solo favoritos",
+  "history.loading": "Cargando tus menús anteriores…",
+  "history.noFavorites":
+    "Aún no tienes menús favoritos. Marca uno con la estrella para guardarlo aquí.",
+  "history.empty": "Los menús que generes aparecerán aquí.",
+  "history.unfavorite": "Quitar de favoritos",
+  "history.favorite": "Añadir a favoritos",
+  "history.error.load": "No se pudo cargar el historial de menús.",
+  "history.error.update": "No se pudo actualizar el menú.",
+  "history.error.delete": "No se pudo eliminar el menú.",
+  "history.error.open": "No se pudo cargar el menú.",
+
+  "pantry.title": "Despensa",
+  "pantry.intro":
+    "Los ingredientes que confirmas antes de cocinar llegan aquí, primero lo que caduca antes. Las recetas también los usan, y marcar una como cocinada los descuenta.",
+  "pantry.loading": "Cargando tu despensa…",
+  "pantry.empty":
+    "Tu despensa está vacía. Detecta ingredientes en una foto o añádelos abajo.",
+  "pantry.noExpiry": "Sin fecha de caducidad",
+  "pantry.expiryFor": "Fecha de caducidad de {name}",
+  "pantry.expiry.today": "caduca hoy",
+  "pantry.expiry.tomorrow": "caduca mañana",
+  "pantry.expiry.yesterday": "caducó ayer",
+  "pantry.expiry.inDays": "caduca en {count} días",
+  "pantry.expiry.daysAgo": "caducó hace {count} días",
+  "pantry.itemPlaceholder": "Artículo, p. ej. garbanzos",
+  "pantry.itemName": "Nombre del artículo",
+  "pantry.amountPlaceholder": "Cantidad, p. ej. 2 latas",
+  "pantry.amount": "Cantidad",
+  "pantry.expiryDate": "Fecha de caducidad",
+  "pantry.staples": "Básicos que siempre tienes",
+  "pantry.staplesIntro":
+    "Nunca se descuentan, y las recetas no propondrán sustitutos para ellos.",
+  "pantry.staplePlaceholder": "Otro básico, p. ej. salsa de soja",
+  "pantry.staple": "Básico",
+  "pantry.addStaple": "Añadir básico",
+  "pantry.error.add": "No se pudo añadir el artículo.",
+  "pantry.error.update": "No se pudo actualizar el artículo.",
+  "pantry.error.remove": "No se pudo quitar el artículo.",
+  "pantry.error.staples": "No se pudieron guardar los básicos.",
+
+  "planner.title": "Planificador de comidas",
+  "planner.intro": "Arrastra recetas a la semana, o elige una y toca un hueco.",
+  "planner.previousWeek": "Semana anterior",
+  "planner.nextWeek": "Semana siguiente",
+  "planner.currentMenu": "Menú actual",
+  "planner.fromHistory": "Del historial",
+  "planner.pastMenu": "Menú anterior",
+  "planner.choosePastMenu": "Elige un menú anterior…",
+  "planner.currentMenuEmpty": "Genera un menú para planificar sus recetas.",
+  "planner.pastMenuEmpty": "Aquí aparecen las recetas del menú elegido.",
+  "planner.loading": "Cargando tu plan de comidas…",
+  "planner.addHere": "+ Añadir aquí",
+  "planner.meal.breakfast": "Desayuno",
+  "planner.meal.lunch": "Comida",
+  "planner.meal.dinner": "Cena",
+  "planner.copyList": "Copiar lista",
+  "planner.copied": "Lista de la compra copiada.",
+  "planner.copyFailed": "No se pudo copiar la lista de la compra.",
+  "planner.planSomeMeals":
+    "Planifica algunas comidas esta semana para crear la lista.",
+  "planner.covered.pantry": "En la despensa",
+  "planner.covered.staples": "Básicos",
+  "planner.covered.leftovers": "De tus sobras",
+  "planner.sendList": "Enviar lista de la compra",
+  "planner.listSent": "Lista de la compra enviada.",
+  "planner.error.load": "No se pudo cargar el plan de comidas.",
+  "planner.error.place": "No se pudo planificar la receta.",
+  "planner.error.move": "No se pudo mover la comida.",
+  "planner.error.remove": "No se pudo quitar la comida.",
+  "planner.error.send": "No se pudo enviar la lista de la compra.",
+
+  "menuPage.title": "Un menú remix",
+  "menuPage.created": "Creado el {date}",
+  "menuPage.notFound": "Menú no encontrado",
+  "menuPage.more": "{names} + {count} más",
+  "menuPage.cta": "¿Tienes sobras propias?",
+  "menuPage.ctaLink": "Conviértelas en recetas"
+};
@@ -0,0 +1,396 @@
+import type { Messages } from "@/shared/i18n/en";
+
+export const hi: Messages = {
+  "app.name": "Kitchen Remix AI",
+  "app.description":
+    "बचे हुए खाने की फ़ोटो अपलोड करें और AI से बनी रेसिपी पाएँ, जिन्हें आप WhatsApp पर भेज सकते हैं।",
+  "common.add": "जोड़ें",
+  "common.apply": "लागू करें",
+  "common.cancel": "रद्द करें",
+  "common.delete": "हटाएँ",
+  "common.open": "खोलें",
+  "common.remove": "{name} हटाएँ",
+  "common.save": "सहेजें",
+  "common.saving": "सहेजा जा रहा है…",
+  "common.sending": "भेजा जा रहा है…",
+  "common.sentToSome": "{total} में से {sent} प्राप्तकर्ताओं को भेजा गया।",
+  "language.label": "भाषा",
+
+  "recipe.serves": "{count} लोगों के लिए",
+  "recipe.prepMinutes": "तैयारी {minutes} मिनट",
+  "recipe.cookMinutes": "पकाना {minutes} मिनट",
+  "recipe.nutrition":
+    "{calories} kcal · {protein} g प्रोटीन · {carbs} g कार्बोहाइड्रेट · {fat} g वसा",
+  "difficulty.easy": "आसान",
+  "difficulty.medium": "मध्यम",
+  "difficulty.hard": "कठिन",
+
+  "diet.omnivore": "कोई पाबंदी नहीं",
+  "diet.vegetarian": "शाकाहारी",
+  "diet.vegan": "वीगन",
+  "diet.pescatarian": "पेस्केटेरियन",
+  "allergen.gluten": "ग्लूटेन",
+  "allergen.dairy": "डेयरी",
+  "allergen.eggs": "अंडे",
+  "allergen.peanuts": "मूँगफली",
+  "allergen.tree-nuts": "मेवे",
+  "allergen.soy": "सोया",
+  "allergen.sesame": "तिल",
+  "allergen.fish": "मछली",
+  "allergen.shellfish": "शेलफ़िश",
+  "equipment.stovetop": "चूल्हा",
+  "equipment.oven": "ओवन",
+  "equipment.microwave": "माइक्रोवेव",
+  "equipment.air-fryer": "एयर फ़्रायर",
+  "equipment.slow-cooker": "स्लो कुकर",
+  "equipment.pressure-cooker": "प्रेशर कुकर",
+  "equipment.blender": "मिक्सर",
+  "equipment.grill": "ग्रिल",
+  "dietary.violation.diet": "{diet} नहीं है: इसमें {match} है।",
+  "dietary.violation.allergen": "इसमें {allergen} है ({match})।",
+  "dietary.violation.excluded": "इसमें एक हटाई गई सामग्री है: {ingredient}।",
+  "dietary.violation.time":
+    "इसमें {minutes} मिनट लगते हैं, आपकी {limit} मिनट की सीमा से ज़्यादा।",
+  "dietary.violation.equipment":
+    "इसके लिए ऐसा उपकरण चाहिए जो आपके पास नहीं है: {equipment}।",
+
+  "share.title": "Kitchen Remix AI की रेसिपी",
+  "share.ingredients": "सामग्री",
+  "share.steps": "विधि",
+  "share.fullRecipes": "पूरी रेसिपी",
+  "share.viewOnline": "ऑनलाइन देखें",
+  "share.viewMenuOnline": "यह मेन्यू ऑनलाइन देखें",
+  "share.emailSubject": "रेसिपी: {names}",
+  "share.emailSubjectMore": "रेसिपी: {names} और {count} और",
+  "share.and": "और",
+  "share.shoppingList": "खरीदारी की सूची",
+  "share.nothingToBuy": "कुछ खरीदना नहीं है: भंडार में हर रेसिपी का सामान है।",
+  "share.alreadyHave": "पहले से है",
+  "share.listHeader": "Kitchen Remix",
+  "share.listBody": "एक रेसिपी चुनें, मैं उसकी पूरी सामग्री और विधि भेज दूँगा।",
+  "share.listButton": "रेसिपी चुनें",
+  "share.listSection": "रेसिपी",
+  "bot.help":
+    "👋 मुझे अपने फ्रिज या बचे हुए खाने की फ़ोटो भेजें, मैं रेसिपी के साथ जवाब दूँगा। नोट्स के लिए कैप्शन जोड़ें, जैसे “शाकाहारी, बिना ओवन”।",
+  "bot.cooking": "🍳 मिल गया! कुछ रेसिपी बना रहा हूँ…",
+  "bot.recipeGone": "माफ़ करें, वह रेसिपी अब उपलब्ध नहीं है।",
+  "bot.badPhoto":
+    "माफ़ करें, मैं उस फ़ोटो का उपयोग नहीं कर सका। PNG, JPEG, GIF या WebP इमेज भेजें।",
+  "bot.failed":
+    "माफ़ करें, मैं उस फ़ोटो से रेसिपी नहीं बना सका। फिर से कोशिश करें।",
+  "rateLimit.message": "बहुत सारे अनुरोध। {wait} बाद फिर से कोशिश करें।",
+  "duration.seconds.one": "{count} सेकंड",
+  "duration.seconds.other": "{count} सेकंड",
+  "duration.minutes.one": "{count} मिनट",
+  "duration.minutes.other": "{count} मिनट",
+  "duration.hours.one": "{count} घंटा",
+  "duration.hours.other": "{count} घंटे",
+
+  "home.headline": "बचे हुए खाने को बनाइए {accent}",
+  "home.headlineAccent": "शेफ़ जैसी रेसिपी",
+  "home.intro":
+    "अपने फ़्रिज में बचे सामान की फ़ोटो अपलोड करें। हम सामग्री पहचानेंगे, कम से कम तीन स्वादिष्ट रेसिपी बनाएँगे और उन्हें सीधे WhatsApp पर भेजेंगे।",
+  "home.photoLabel": "1. बचे हुए खाने की फ़ोटो लें",
+  "home.preparingPhotos": "फ़ोटो तैयार हो रही हैं…",
+  "home.photoHint":
+    "अपने फ़्रिज, भंडार और रसोई की स्लैब की {max} तक साफ़, अच्छी रोशनी वाली फ़ोटो जोड़ें।",
+  "home.notesLabel": "2. रसोई के नोट्स जोड़ें (वैकल्पिक)",
+  "home.notesPlaceholder":
+    "शेफ़ को अपनी खाने की पसंद, घर में न होने वाला बुनियादी सामान या उपकरण की कमी बताएँ।",
+  "home.usePantry":
+    "मेरे भंडार से भी पकाएँ ({count} चीज़ें, जल्दी ख़राब होने वाली पहले)",
+  "home.photoAlt": "बचे हुए खाने की फ़ोटो {number}",
+  "home.removePhoto": "फ़ोटो {number} हटाएँ",
+  "home.recognition": "सामग्री की पहचान",
+  "home.recognitionEdit":
+    "नाम या मात्रा ठीक करने के लिए किसी सामग्री पर टैप करें, गलत पहचानी गई चीज़ें हटाएँ और फ़ोटो में छूटी चीज़ें जोड़ें।",
+  "home.recognitionIntro":
+    "रेसिपी लिखने से पहले देखें कि AI को आपकी फ़ोटो में क्या दिखता है, या सीधे रेसिपी बनाएँ।",
+  "home.detecting": "पहचान हो रही है…",
+  "home.detect": "सामग्री पहचानें",
+  "home.generating": "रेसिपी बन रही हैं…",
+  "home.generate": "3+ रेसिपी बनाएँ",
+  "home.menuTitle": "आपका रीमिक्स मेन्यू",
+  "home.units": "इकाइयाँ",
+  "home.unit.metric": "मीट्रिक",
+  "home.unit.imperial": "इंपीरियल",
+  "home.cacheHit":
+    "ये वही फ़ोटो और नोट्स हैं जो हाल के एक अनुरोध में थे, इसलिए यह वही मेन्यू है जो आपको तब मिला था।",
+  "home.regenerate": "फिर से बनाएँ",
+  "home.nextRecipe": "अगली रेसिपी तैयार हो रही है…",
+  "home.shareTitle": "अपना मेन्यू साझा करें",
+  "home.shareIntro": "पूरा मेन्यू दोस्तों, परिवार या ख़ुद को भेजें।",
+  "home.shareChannel": "साझा करने का माध्यम",
+  "home.notConfigured": "इस सर्वर पर सेट नहीं है",
+  "home.flagged.one":
+    "आपकी खाने की प्रोफ़ाइल से मेल न खाने वाली {count} रेसिपी साझा संदेशों में शामिल नहीं है।",
+  "home.flagged.other":
+    "आपकी खाने की प्रोफ़ाइल से मेल न खाने वाली {count} रेसिपी साझा संदेशों में शामिल नहीं हैं।",
+  "home.shareAsLink": "पूरे टेक्स्ट की जगह मेन्यू पेज का लिंक भेजें",
+  "home.sendRecipeList": "उन्हें पूरी पाने के लिए एक रेसिपी चुनने दें",
+  "home.firstContact": "इन नंबरों को पहला संदेश (स्वीकृत टेम्पलेट भेजता है)",
+  "home.sendToWhatsApp": "WhatsApp पर भेजें",
+  "home.copyRecipes": "रेसिपी कॉपी करें",
+  "home.copiedRecipes": "रेसिपी क्लिपबोर्ड पर कॉपी हो गईं।",
+  "home.copyRecipesFailed": "रेसिपी कॉपी नहीं हो सकीं।",
+  "home.copyLink": "लिंक कॉपी करें",
+  "home.copiedLink": "मेन्यू का लिंक क्लिपबोर्ड पर कॉपी हो गया।",
+  "home.copyLinkFailed": "मेन्यू का लिंक कॉपी नहीं हो सका।",
+  "home.openMenuPage": "मेन्यू पेज खोलें",
+  "home.whatsAppWeb": "WhatsApp Web से साझा करें",
+  "home.error.imagesOnly": "कृपया केवल इमेज फ़ाइलें चुनें।",
+  "home.error.tooManyPhotos": "हर मेन्यू में {max} तक फ़ोटो जोड़ी जा सकती हैं।",
+  "home.error.preparePhoto": "वह फ़ोटो तैयार नहीं हो सकी।",
+  "home.error.detect": "सामग्री पहचानी नहीं जा सकी।",
+  "home.error.detectUnexpected": "सामग्री पहचानते समय कुछ गड़बड़ हो गई।",
+  "home.error.noPhoto": "पहले बचे हुए खाने की फ़ोटो अपलोड करें।",
+  "home.error.profile":
+    "अपनी खाने की प्रोफ़ाइल जाँचें: समय 5 से 600 मिनट और सर्विंग 1 से 20 होनी चाहिए।",
+  "home.error.generate": "रेसिपी नहीं बन सकीं।",
+  "home.error.cancelled": "रेसिपी बनाना रद्द किया गया।",
+  "home.error.generateUnexpected": "रेसिपी बनाते समय कुछ गड़बड़ हो गई।",
+  "home.error.whatsApp": "WhatsApp संदेश नहीं भेजा जा सका।",
+  "home.error.whatsAppUnexpected": "WhatsApp संदेश भेजते समय कुछ गड़बड़ हो गई।",
+  "home.sent.template":
+    "स्वीकृत निमंत्रण टेम्पलेट भेज दिया गया। उनके जवाब देने पर रेसिपी भेजी जा सकती हैं।",
+  "home.sent.recipients":
+    "मेन्यू WhatsApp पर {count} प्राप्तकर्ताओं को भेजा गया।",
+  "home.sent.single": "WhatsApp संदेश भेज दिया गया।",
+
+  "offline.banner":
+    "आप ऑफ़लाइन हैं। सहेजे गए मेन्यू और फ़ोटो अब भी काम करते हैं; नए मेन्यू और WhatsApp संदेश आपके दोबारा ऑनलाइन आने तक रुके रहेंगे।",
+  "offline.detect":
+    "सामग्री पहचानने के लिए कनेक्शन चाहिए। आप फिर भी मेन्यू बना सकते हैं: ऑनलाइन आते ही वह तैयार हो जाएगा।",
+  "offline.generateQueued":
+    "आप ऑफ़लाइन हैं। ऑनलाइन आते ही यह मेन्यू तैयार किया जाएगा।",
+  "offline.generateReplayed": "ऑफ़लाइन रहते हुए माँगा गया मेन्यू तैयार है।",
+  "offline.generateFailed":
+    "ऑफ़लाइन रहते हुए माँगा गया मेन्यू नहीं बन सका। फिर से कोशिश करें।",
+  "offline.whatsAppQueued":
+    "आप ऑफ़लाइन हैं। ऑनलाइन आते ही संदेश भेज दिया जाएगा।",
+  "offline.whatsAppSent":
+    "ऑफ़लाइन रहते हुए कतार में रखा गया WhatsApp संदेश भेज दिया गया।",
+  "offline.whatsAppFailed":
+    "ऑफ़लाइन रहते हुए कतार में रखा गया WhatsApp संदेश नहीं भेजा जा सका।",
+  "offline.openMenu": "मेन्यू खोलें",
+
+  "account.signedInAs": "{email} के रूप में साइन इन",
+  "account.signOut": "साइन आउट",
+  "account.whatsApp": "मेरा WhatsApp",
+  "account.saved": "सहेजा गया।",
+  "account.removed": "हटाया गया।",
+  "account.saveFailed": "आपका नंबर सहेजा नहीं जा सका।",
+  "account.codeSent": "हमने WhatsApp पर {number} को एक कोड भेजा है।",
+  "account.code": "कोड",
+  "account.verify": "सत्यापित करें",
+  "account.verifying": "सत्यापित हो रहा है…",
+  "account.verifyFailed": "आपका नंबर सत्यापित नहीं हो सका।",
+  "account.codeMessage":
+    "आपका Kitchen Remix AI कोड {code} है। यह 10 मिनट में समाप्त हो जाएगा। अगर आपने यह नहीं माँगा, तो इस संदेश को अनदेखा करें।",
+
+  "signIn.title": "साइन इन करें",
+  "signIn.sent":
+    "साइन-इन लिंक के लिए {email} देखें। यह एक बार काम करता है और 15 मिनट में समाप्त हो जाता है।",
+  "signIn.intro":
+    "हम आपको ईमेल पर एक लिंक भेजेंगे। आपके मेन्यू, संपर्क और खाने की पसंद आपके खाते में सहेजे रहते हैं।",
+  "signIn.email": "ईमेल",
+  "signIn.submit": "मुझे साइन-इन लिंक भेजें",
+  "signIn.failed": "साइन-इन लिंक नहीं भेजा जा सका।",
+  "signIn.linkExpired":
+    "वह साइन-इन लिंक समाप्त हो गया है या पहले इस्तेमाल हो चुका है। नया लिंक माँगें।",
+  "signIn.linkFailed": "साइन इन नहीं हो सका। फिर से कोशिश करें।",
+
+  "card.recipe": "रेसिपी {number}",
+  "card.fewerServings": "कम सर्विंग",
+  "card.moreServings": "ज़्यादा सर्विंग",
+  "card.violations": "आपकी खाने की प्रोफ़ाइल से मेल नहीं खाती",
+  "card.ingredients": "सामग्री",
+  "card.leftover": "बचा हुआ",
+  "card.steps": "विधि",
+  "card.nutrition": "प्रति सर्विंग (अनुमान): {nutrition}",
+
+  "cooked.mark": "पकाया हुआ चिह्नित करें",
+  "cooked.updating": "अपडेट हो रहा है…",
+  "cooked.done": "पकाया ✓",
+  "cooked.updated": "भंडार अपडेट हुआ: {items}।",
+  "cooked.usedUp": "{name} (ख़त्म)",
+  "cooked.nothing": "भंडार में घटाने लायक कुछ नहीं था।",
+  "cooked.failed": "भंडार अपडेट नहीं हो सका।",
+
+  "dietaryForm.title": "3. खाने की प्रोफ़ाइल (वैकल्पिक)",
+  "dietaryForm.none": "कोई पाबंदी नहीं",
+  "dietaryForm.summary.allergens": "{allergens} नहीं",
+  "dietaryForm.summary.excluded": "{count} हटाई गईं",
+  "dietaryForm.summary.minutes": "≤ {minutes} मिनट",
+  "dietaryForm.summary.servings.one": "{count} सर्विंग",
+  "dietaryForm.summary.servings.other": "{count} सर्विंग",
+  "dietaryForm.summary.appliances.one": "{count} उपकरण",
+  "dietaryForm.summary.appliances.other": "{count} उपकरण",
+  "dietaryForm.diet": "आहार",
+  "dietaryForm.excluded": "कभी इस्तेमाल न करें (कॉमा से अलग)",
+  "dietaryForm.excludedPlaceholder": "धनिया, मशरूम",
+  "dietaryForm.allergies": "एलर्जी",
+  "dietaryForm.maxMinutes": "अधिकतम कुल समय (मिनट)",
+  "dietaryForm.servings": "सर्विंग",
+  "dietaryForm.any": "कोई भी",
+  "dietaryForm.equipment": "उपलब्ध उपकरण",
+  "dietaryForm.equipmentHint": "(सामान्य रसोई के लिए खाली छोड़ें)",
+
+  "chips.fresh": "ताज़ा",
+  "chips.use-soon": "जल्दी इस्तेमाल करें",
+  "chips.past-prime": "बासी",
+  "chips.unknown": "ताज़गी पता नहीं",
+  "chips.confidence": "{freshness} · {percent}% भरोसा",
+  "chips.name": "सामग्री का नाम",
+  "chips.quantity": "अनुमानित मात्रा",
+  "chips.addPlaceholder": "छूटी हुई सामग्री जोड़ें",
+
+  "refine.swap": "यह रेसिपी बदलें",
+  "refine.vegetarian": "शाकाहारी बनाएँ",
+  "refine.quicker": "जल्दी बनने वाली बनाएँ",
+  "refine.custom": "बदलाव करें…",
+  "refine.working": "फिर से बन रही है…",
+  "refine.placeholder": "जैसे बिना ओवन के, या ज़्यादा तीखी",
+  "refine.instruction": "यह रेसिपी कैसे बदलनी चाहिए?",
+  "refine.failed": "यह रेसिपी बदली नहीं जा सकी।",
+
+  "recipients.groups": "समूह",
+  "recipients.contacts": "संपर्क",
+  "recipients.deleteGroup": "समूह {name} हटाएँ",
+  "recipients.deleteContact": "संपर्क {name} हटाएँ",
+  "recipients.groupPlaceholder": "समूह का नाम, जैसे परिवार",
+  "recipients.saveGroup": "चुने गए लोगों को समूह के रूप में सहेजें",
+  "recipients.numbers": "अन्य नंबर (कॉमा से अलग)",
+  "recipients.country": "बिना देश कोड वाले नंबर यहाँ के हैं",
+  "recipients.serverDefault": "सर्वर का डिफ़ॉल्ट",
+  "recipients.saveContactTitle": "संपर्क सहेजें",
+  "recipients.name": "नाम",
+  "recipients.saveContact": "संपर्क सहेजें",
+  "recipients.confirmDeleteContact": "यह संपर्क हटाएँ?",
+  "recipients.confirmDeleteGroup": "यह समूह हटाएँ? इसके संपर्क बने रहेंगे।",
+  "recipients.error.load": "संपर्क लोड नहीं हो सके।",
+  "recipients.error.saveContact": "संपर्क सहेजा नहीं जा सका।",
+  "recipients.error.saveGroup": "समूह नहीं बन सका।",
+  "recipients.error.deleteContact": "संपर्क हटाया नहीं जा सका।",
+  "recipients.error.deleteGroup": "समूह हटाया नहीं जा सका।",
+
+  "delivery.to": "{recipient} को डिलीवरी",
+  "delivery.status.pending": "नहीं भेजा गया",
+  "delivery.status.accepted": "भेजा जा रहा है",
+  "delivery.status.sent": "भेजा गया",
+  "delivery.status.delivered": "पहुँच गया",
+  "delivery.status.read": "पढ़ लिया गया",
+  "delivery.status.failed": "विफल",
+  "delivery.kind.text": "संदेश",
+  "delivery.kind.template": "निमंत्रण",
+  "delivery.kind.list": "रेसिपी सूची",
+  "delivery.outsideWindow":
+    "स्वीकृत निमंत्रण भेजने के लिए “इन नंबरों को पहला संदेश” चुनें।",
+  "delivery.retrying": "फिर से कोशिश हो रही है…",
+  "delivery.retry": "विफल संदेश फिर से भेजें",
+  "delivery.retryFailed": "डिलीवरी फिर से नहीं हो सकी।",
+
+  "export.download": "डाउनलोड करें",
+  "export.downloadFormat": "{format} डाउनलोड करें",
+  "export.preparing": "तैयार हो रहा है…",
+  "export.failed": "मेन्यू एक्सपोर्ट नहीं हो सका।",
+  "export.leftover": "(बचा हुआ)",
+  "export.pageFooter": "Kitchen Remix AI · पृष्ठ {page} / {total}",
+  "export.pdfUnsupported":
+    "इस मेन्यू के कुछ अक्षर PDF में नहीं छप सकते। इसे Markdown में डाउनलोड करें।",
+
+  "channel.whatsapp": "WhatsApp",
+  "channel.email": "ईमेल",
+  "channel.telegram": "Telegram",
+  "channel.sms": "SMS",
+  "channel.recipient.whatsapp": "WhatsApp नंबर",
+  "channel.recipient.email": "ईमेल पता",
+  "channel.recipient.telegram": "Telegram चैट ID",
+  "channel.recipient.sms": "मोबाइल नंबर",
+  "channel.send": "{channel} से भेजें",
+  "channel.sent": "{channel} से {to} को भेजा गया।",
+  "channel.failed": "{channel} से नहीं भेजा जा सका।",
+  "channel.emailNote":
+    "ईमेल में हमेशा पूरी रेसिपी होती हैं, और मेन्यू सहेजा हो तो एक लिंक भी।",
+
+  "history.title": "मेन्यू इतिहास",
+  "history.favoritesOnly": "केवल पसंदीदा",
+  "history.loading": "आपके पिछले मेन्यू लोड हो रहे हैं…",
+  "history.noFavorites":
+    "अभी कोई पसंदीदा मेन्यू नहीं है। किसी मेन्यू को यहाँ रखने के लिए स्टार लगाएँ।",
+  "history.empty": "आपके बनाए मेन्यू यहाँ दिखेंगे।",
+  "history.unfavorite": "पसंदीदा से हटाएँ",
+  "history.favorite": "पसंदीदा में जोड़ें",
+  "history.error.load": "मेन्यू इतिहास लोड नहीं हो सका।",
+  "history.error.update": "मेन्यू अपडेट नहीं हो सका।",
+  "history.error.delete": "मेन्यू हटाया नहीं जा सका।",
+  "history.error.open": "मेन्यू लोड नहीं हो सका।",
+
+  "pantry.title": "भंडार",
+  "pantry.intro":
+    "पकाने से पहले आपकी पुष्टि की गई सामग्री यहाँ आती है, जल्दी ख़राब होने वाली पहले। रेसिपी इन्हें भी इस्तेमाल करती हैं, और पकाया हुआ चिह्नित करने पर ये घट जाती हैं।",
+  "pantry.loading": "आपका भंडार लोड हो रहा है…",
+  "pantry.empty":
+    "आपका भंडार खाली है। किसी फ़ोटो से सामग्री पहचानें या नीचे जोड़ें।",
+  "pantry.noExpiry": "कोई समाप्ति तिथि नहीं",
+  "pantry.expiryFor": "{name} की समाप्ति तिथि",
+  "pantry.expiry.today": "आज ख़राब होगा",
+  "pantry.expiry.tomorrow": "कल ख़राब होगा",
+  "pantry.expiry.yesterday": "कल ख़राब हो गया",
+  "pantry.expiry.inDays": "{count} दिन में ख़राब होगा",
+  "pantry.expiry.daysAgo": "{count} दिन पहले ख़राब हो गया",
+  "pantry.itemPlaceholder": "चीज़, जैसे छोले",
+  "pantry.itemName": "चीज़ का नाम",
+  "pantry.amountPlaceholder": "मात्रा, जैसे 2 डिब्बे",
+  "pantry.amount": "मात्रा",
+  "pantry.expiryDate": "समाप्ति तिथि",
+  "pantry.staples": "हमेशा रहने वाला बुनियादी सामान",
+  "pantry.staplesIntro":
+    "ये कभी नहीं घटते, और रेसिपी इनके विकल्प नहीं सुझाएँगी।",
+  "pantry.staplePlaceholder": "एक और बुनियादी सामान, जैसे सोया सॉस",
+  "pantry.staple": "बुनियादी सामान",
+  "pantry.addStaple": "बुनियादी सामान जोड़ें",
+  "pantry.error.add": "चीज़ जोड़ी नहीं जा सकी।",
+  "pantry.error.update": "चीज़ अपडेट नहीं हो सकी।",
+  "pantry.error.remove": "चीज़ हटाई नहीं जा सकी।",
+  "pantry.error.staples": "बुनियादी सामान सहेजा नहीं जा सका।",
+
+  "planner.title": "भोजन योजना",
+  "planner.intro":
+    "रेसिपी को हफ़्ते में खींचकर रखें, या कोई रेसिपी चुनकर किसी खाने के समय पर टैप करें।",
+  "planner.previousWeek": "पिछला हफ़्ता",
+  "planner.nextWeek": "अगला हफ़्ता",
+  "planner.currentMenu": "मौजूदा मेन्यू",
+  "planner.fromHistory": "इतिहास से",
+  "planner.pastMenu": "पिछला मेन्यू",
+  "planner.choosePastMenu": "पिछला मेन्यू चुनें…",
+  "planner.currentMenuEmpty": "इसकी रेसिपी की योजना बनाने के लिए मेन्यू बनाएँ।",
+  "planner.pastMenuEmpty": "चुने गए मेन्यू की रेसिपी यहाँ दिखती हैं।",
+  "planner.loading": "आपकी भोजन योजना लोड हो रही है…",
+  "planner.addHere": "+ यहाँ जोड़ें",
+  "planner.meal.breakfast": "नाश्ता",
+  "planner.meal.lunch": "दोपहर का खाना",
+  "planner.meal.dinner": "रात का खाना",
+  "planner.copyList": "सूची कॉपी करें",
+  "planner.copied": "खरीदारी की सूची कॉपी हो गई।",
+  "planner.copyFailed": "खरीदारी की सूची कॉपी नहीं हो सकी।",
+  "planner.planSomeMeals":
+    "सूची बनाने के लिए इस हफ़्ते कुछ खानों की योजना बनाएँ।",
+  "planner.covered.pantry": "भंडार में",
+  "planner.covered.staples": "बुनियादी सामान",
+  "planner.covered.leftovers": "आपके बचे हुए खाने से",
+  "planner.sendList": "खरीदारी की सूची भेजें",
+  "planner.listSent": "खरीदारी की सूची भेज दी गई।",
+  "planner.error.load": "भोजन योजना लोड नहीं हो सकी।",
+  "planner.error.place": "रेसिपी की योजना नहीं बन सकी।",
+  "planner.error.move": "खाना खिसकाया नहीं जा सका।",
+  "planner.error.remove": "खाना हटाया नहीं जा सका।",
+  "planner.error.send": "खरीदारी की सूची नहीं भेजी जा सकी।",
+
+  "menuPage.title": "एक रीमिक्स मेन्यू",
+  "menuPage.created": "{date} को बनाया गया",
+  "menuPage.notFound": "मेन्यू नहीं मिला",
+  "menuPage.more": "{names} + {count} और",
+  "menuPage.cta": "आपके पास भी बचा हुआ खाना है?",
+  "menuPage.ctaLink": "उसे रेसिपी में बदलें"
+};
@@ -0,0 +1,70 @@
+import { en, type MessageKey, type Messages } from "@/shared/i18n/en";
+import { es } from "@/shared/i18n/es";
+import { hi } from "@/shared/i18n/hi";
+import { defaultLocale, localeTags, type Locale } from "@/shared/i18n/locales";
+import { pt } from "@/shared/i18n/pt";
+
+export * from "@/shared/i18n/locales";
+export type { MessageKey, Messages };
+
+const catalogs: Record<Locale, Messages> = { en, es, pt, hi };
+
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * The message for `key` in `locale`, with `{name}` placeholders filled from
+ * `params`. Falls back to English, so a missing translation shows text
+ * rather than a key.
+ */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params?: MessageParams
+) {
+  const message = catalogs[locale][key] ?? catalogs[defaultLocale][key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/** Messages with `.one` and `.other` forms, named without the suffix. */
+export type PluralMessageKey = {
+  [Key in MessageKey]: Key extends `${infer Base}.one` ? Base : never;
+}[MessageKey];
+
+/**
+ * The form of a plural message that fits `count`, which also fills its
+ * `{count}` placeholder. Languages differ on which counts take the singular:
+ * Hindi and Portuguese use it for zero too.
+ */
+export function translatePlural(
+  locale: Locale,
+  key: PluralMessageKey,
+  count: number,
+  params?: MessageParams
+) {
+  const form =
+    new Intl.PluralRules(localeTags[locale]).select(count) === "one"
+      ? "one"
+      : "other";
+  return translate(locale, `${key}.${form}`, { count, ...params });
+}
+
+export type Translate = {
+  (key: MessageKey, params?: MessageParams): string;
+  plural: (
+    key: PluralMessageKey,
+    count: number,
+    params?: MessageParams
+  ) => string;
+};
+
+export function createTranslator(locale: Locale): Translate {
+  const t = (key: MessageKey, params?: MessageParams) =>
+    translate(locale, key, params);
+  return Object.assign(t, {
+    plural: (key: PluralMessageKey, count: number, params?: MessageParams) =>
+      translatePlural(locale, key, count, params)
+  });
+}
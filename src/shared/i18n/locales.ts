@@ -0,0 +1,95 @@
+import { z } from "zod";
+
+export const locales = ["en", "es", "pt", "hi"] as const;
+
+export type Locale = (typeof locales)[number];
+
+export const defaultLocale: Locale = "en";
+
+export const localeSchema = z.enum(locales);
+
+/** Each language in its own words, for the language picker. */
+export const localeNames: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+  pt: "Português",
+  hi: "हिन्दी"
+};
+
+/** The language in English, for model prompts. */
+export const languageNames: Record<Locale, string> = {
+  en: "English",
+  es: "Spanish",
+  pt: "Portuguese",
+  hi: "Hindi"
+};
+
+/** BCP 47 tags for `Intl` dates and numbers. */
+export const localeTags: Record<Locale, string> = {
+  en: "en",
+  es: "es",
+  pt: "pt-BR",
+  hi: "hi-IN"
+};
+
+/** The cookie that remembers the language someone picked. */
+export const LOCALE_COOKIE = "kitchen-remix-locale";
+
+// Scripts written right to left. None of the current locales are, but the
+// layout follows `dir`, so adding one is only a matter of translating it.
+const RTL_LANGUAGES = new Set(["ar", "fa", "he", "ur"]);
+
+export function localeDirection(locale: Locale): "ltr" | "rtl" {
+  return RTL_LANGUAGES.has(locale) ? "rtl" : "ltr";
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return (locales as readonly unknown[]).includes(value);
+}
+
+/**
+ * The best supported locale for an `Accept-Language` header, by quality
+ * and then order; "pt-BR" and "es-419" match on their language.
+ */
+export function matchLocale(acceptLanguage: string | null): Locale {
+  if (!acceptLanguage) return defaultLocale;
+  const ranked = acceptLanguage
+    .split(",")
+    .map((part, index) => {
+      const [range, ...params] = part.trim().split(";");
+      const quality = params
+        .map((param) => param.trim().match(/^q=([\d.]+)$/)?.[1])
+        .find(Boolean);
+      return {
+        language: range.trim().toLowerCase().split("-")[0],
+        quality: quality === undefined ? 1 : Number(quality),
+        index
+      };
+    })
+    .filter((entry) => entry.quality > 0)
+    .sort(
+      (left, right) => right.quality - left.quality || left.index - right.index
+    );
+  return ranked.map((entry) => entry.language).find(isLocale) ?? defaultLocale;
+}
+
+// Letters and words that give a short note away. Spanish and Portuguese
+// share most small words, so only the ones the other language lacks count.
+const LANGUAGE_MARKERS: [Locale, RegExp][] = [
+  ["hi", /[\u0900-\u097f]/],
+  [
+    "pt",
+    /[ãõç]|\b(?:não|sem|com|forno|frango|ovos|queijo|jantar|receitas?)\b/i
+  ],
+  ["es", /[ñ¿¡]|\b(?:sin|con|horno|pollo|huevos|queso|cena|recetas?)\b/i]
+];
+
+/**
+ * The language a short note such as a photo caption seems to be written
+ * in, or null when it gives nothing away (English included).
+ */
+export function detectLocale(text: string): Locale | null {
+  return (
+    LANGUAGE_MARKERS.find(([, pattern]) => pattern.test(text))?.[0] ?? null
+  );
+}
@@ -0,0 +1,406 @@
+import type { Messages } from "@/shared/i18n/en";
+
+export const pt: Messages = {
+  "app.name": "Kitchen Remix AI",
+  "app.description":
+    "Envie uma foto das suas sobras e receba receitas criadas com IA para mandar pelo WhatsApp.",
+  "common.add": "Adicionar",
+  "common.apply": "Aplicar",
+  "common.cancel": "Cancelar",
+  "common.delete": "Excluir",
+  "common.open": "Abrir",
+  "common.remove": "Remover {name}",
+  "common.save": "Salvar",
+  "common.saving": "Salvando…",
+  "common.sending": "Enviando…",
+  "common.sentToSome": "Enviado para {sent} de {total} destinatários.",
+  "language.label": "Idioma",
+
+  "recipe.serves": "Serve {count}",
+  "recipe.prepMinutes": "{minutes} min de preparo",
+  "recipe.cookMinutes": "{minutes} min de cozimento",
+  "recipe.nutrition":
+    "{calories} kcal · {protein} g proteína · {carbs} g carboidratos · {fat} g gordura",
+  "difficulty.easy": "Fácil",
+  "difficulty.medium": "Média",
+  "difficulty.hard": "Difícil",
+
+  "diet.omnivore": "Sem restrições",
+  "diet.vegetarian": "Vegetariana",
+  "diet.vegan": "Vegana",
+  "diet.pescatarian": "Pescetariana",
+  "allergen.gluten": "Glúten",
+  "allergen.dairy": "Laticínios",
+  "allergen.eggs": "Ovos",
+  "allergen.peanuts": "Amendoim",
+  "allergen.tree-nuts": "Castanhas",
+  "allergen.soy": "Soja",
+  "allergen.sesame": "Gergelim",
+  "allergen.fish": "Peixe",
+  "allergen.shellfish": "Frutos do mar",
+  "equipment.stovetop": "Fogão",
+  "equipment.oven": "Forno",
+  "equipment.microwave": "Micro-ondas",
+  "equipment.air-fryer": "Air fryer",
+  "equipment.slow-cooker": "Panela elétrica de cozimento lento",
+  "equipment.pressure-cooker": "Panela de pressão",
+  "equipment.blender": "Liquidificador",
+  "equipment.grill": "Grelha",
+  "dietary.violation.diet": "Não é {diet}: usa {match}.",
+  "dietary.violation.allergen": "Contém {allergen} ({match}).",
+  "dietary.violation.excluded": "Usa um ingrediente excluído: {ingredient}.",
+  "dietary.violation.time":
+    "Leva {minutes} minutos, acima do seu limite de {limit}.",
+  "dietary.violation.equipment":
+    "Precisa de equipamento que você não tem: {equipment}.",
+
+  "share.title": "Receitas do Kitchen Remix AI",
+  "share.ingredients": "Ingredientes",
+  "share.steps": "Modo de preparo",
+  "share.fullRecipes": "Receitas completas",
+  "share.viewOnline": "Ver online",
+  "share.viewMenuOnline": "Ver este cardápio online",
+  "share.emailSubject": "Receitas: {names}",
+  "share.emailSubjectMore": "Receitas: {names} e mais {count}",
+  "share.and": "e",
+  "share.shoppingList": "Lista de compras",
+  "share.nothingToBuy":
+    "Nada para comprar: a despensa cobre todas as receitas.",
+  "share.alreadyHave": "Você já tem",
+  "share.listHeader": "Kitchen Remix",
+  "share.listBody":
+    "Escolha uma receita e eu envio os ingredientes e o modo de preparo completos.",
+  "share.listButton": "Escolher receita",
+  "share.listSection": "Receitas",
+  "bot.help":
+    "👋 Me mande uma foto da sua geladeira ou das suas sobras e eu respondo com receitas. Adicione uma legenda com observações, como “vegetariano, sem forno”.",
+  "bot.cooking": "🍳 Entendi! Preparando algumas receitas…",
+  "bot.recipeGone": "Desculpe, essa receita não está mais disponível.",
+  "bot.badPhoto":
+    "Desculpe, não consegui usar essa foto. Envie uma imagem PNG, JPEG, GIF ou WebP.",
+  "bot.failed":
+    "Desculpe, não consegui criar receitas com essa foto. Tente novamente.",
+  "rateLimit.message": "Muitas solicitações. Tente novamente em {wait}.",
+  "duration.seconds.one": "{count} segundo",
+  "duration.seconds.other": "{count} segundos",
+  "duration.minutes.one": "{count} minuto",
+  "duration.minutes.other": "{count} minutos",
+  "duration.hours.one": "{count} hora",
+  "duration.hours.other": "{count} horas",
+
+  "home.headline": "Transforme sobras em {accent}",
+  "home.headlineAccent": "receitas de chef",
+  "home.intro":
+    "Envie uma foto do que sobrou na sua geladeira. Vamos identificar os ingredientes, criar pelo menos três receitas saborosas e compartilhá-las direto no WhatsApp.",
+  "home.photoLabel": "1. Fotografe suas sobras",
+  "home.preparingPhotos": "Preparando fotos…",
+  "home.photoHint":
+    "Adicione até {max} fotos nítidas e bem iluminadas da geladeira, despensa e bancada.",
+  "home.notesLabel": "2. Adicione observações (opcional)",
+  "home.notesPlaceholder":
+    "Conte ao chef suas preferências alimentares, o que falta na despensa ou limitações de equipamento.",
+  "home.usePantry":
+    "Cozinhar também com a minha despensa ({count} itens, primeiro o que vence antes)",
+  "home.photoAlt": "Foto das sobras {number}",
+  "home.removePhoto": "Remover a foto {number}",
+  "home.recognition": "Reconhecimento de ingredientes",
+  "home.recognitionEdit":
+    "Toque em um ingrediente para corrigir o nome ou a quantidade, remova o que identificamos errado e adicione o que faltou na foto.",
+  "home.recognitionIntro":
+    "Confira o que a IA vê nas suas fotos antes de escrever as receitas, ou vá direto para a geração.",
+  "home.detecting": "Identificando…",
+  "home.detect": "Identificar ingredientes",
+  "home.generating": "Gerando receitas…",
+  "home.generate": "Gerar 3+ receitas",
+  "home.menuTitle": "Seu cardápio remix",
+  "home.units": "Unidades",
+  "home.unit.metric": "Métrico",
+  "home.unit.imperial": "Imperial",
+  "home.cacheHit":
+    "Mesmas fotos e observações de um pedido recente, então este é o cardápio que você recebeu na época.",
+  "home.regenerate": "Gerar de novo",
+  "home.nextRecipe": "Preparando a próxima receita…",
+  "home.shareTitle": "Compartilhe seu cardápio",
+  "home.shareIntro":
+    "Envie o cardápio completo para amigos, família ou para você mesmo.",
+  "home.shareChannel": "Canal de compartilhamento",
+  "home.notConfigured": "Não configurado neste servidor",
+  "home.flagged.one":
+    "{count} receita que não respeita seu perfil alimentar fica fora das mensagens compartilhadas.",
+  "home.flagged.other":
+    "{count} receitas que não respeitam seu perfil alimentar ficam fora das mensagens compartilhadas.",
+  "home.shareAsLink":
+    "Enviar um link para a página do cardápio em vez do texto completo",
+  "home.sendRecipeList":
+    "Deixar que escolham uma receita para receber completa",
+  "home.firstContact":
+    "Primeira mensagem para estes números (envia o modelo aprovado)",
+  "home.sendToWhatsApp": "Enviar pelo WhatsApp",
+  "home.copyRecipes": "Copiar receitas",
+  "home.copiedRecipes": "Receitas copiadas para a área de transferência.",
+  "home.copyRecipesFailed": "Não foi possível copiar as receitas.",
+  "home.copyLink": "Copiar link",
+  "home.copiedLink": "Link do cardápio copiado para a área de transferência.",
+  "home.copyLinkFailed": "Não foi possível copiar o link do cardápio.",
+  "home.openMenuPage": "Abrir a página do cardápio",
+  "home.whatsAppWeb": "Compartilhar pelo WhatsApp Web",
+  "home.error.imagesOnly": "Escolha apenas arquivos de imagem.",
+  "home.error.tooManyPhotos":
+    "Você pode adicionar até {max} fotos por cardápio.",
+  "home.error.preparePhoto": "Não foi possível preparar essa foto.",
+  "home.error.detect": "Não foi possível identificar os ingredientes.",
+  "home.error.detectUnexpected":
+    "Algo deu errado ao identificar os ingredientes.",
+  "home.error.noPhoto": "Primeiro envie uma foto das suas sobras.",
+  "home.error.profile":
+    "Confira seu perfil alimentar: o tempo deve ser de 5 a 600 minutos e as porções de 1 a 20.",
+  "home.error.generate": "Não foi possível gerar as receitas.",
+  "home.error.cancelled": "Geração de receitas cancelada.",
+  "home.error.generateUnexpected": "Algo deu errado ao gerar as receitas.",
+  "home.error.whatsApp": "Falha ao enviar a mensagem do WhatsApp.",
+  "home.error.whatsAppUnexpected":
+    "Algo deu errado ao enviar a mensagem do WhatsApp.",
+  "home.sent.template":
+    "O modelo de convite aprovado foi enviado. As receitas podem seguir quando responderem.",
+  "home.sent.recipients":
+    "Cardápio enviado pelo WhatsApp para {count} destinatários.",
+  "home.sent.single": "Mensagem do WhatsApp enviada.",
+
+  "offline.banner":
+    "Você está offline. Os menus salvos e as fotos continuam funcionando; novos menus e envios pelo WhatsApp aguardam até você voltar a ficar online.",
+  "offline.detect":
+    "A detecção de ingredientes precisa de conexão. Você ainda pode gerar: o menu será preparado quando você voltar a ficar online.",
+  "offline.generateQueued":
+    "Você está offline. Este menu será preparado assim que você voltar a ficar online.",
+  "offline.generateReplayed": "O menu que você pediu offline está pronto.",
+  "offline.generateFailed":
+    "Não foi possível preparar o menu que você pediu offline. Tente novamente.",
+  "offline.whatsAppQueued":
+    "Você está offline. A mensagem será enviada quando você voltar a ficar online.",
+  "offline.whatsAppSent":
+    "A mensagem do WhatsApp que você deixou na fila offline foi enviada.",
+  "offline.whatsAppFailed":
+    "Não foi possível enviar a mensagem do WhatsApp que você deixou na fila offline.",
+  "offline.openMenu": "Abrir menu",
+
+  "account.signedInAs": "Conectado como {email}",
+  "account.signOut": "Sair",
+  "account.whatsApp": "Meu WhatsApp",
+  "account.saved": "Salvo.",
+  "account.removed": "Removido.",
+  "account.saveFailed": "Não foi possível salvar seu número.",
+  "account.codeSent": "Enviamos um código para {number} pelo WhatsApp.",
+  "account.code": "Código",
+  "account.verify": "Verificar",
+  "account.verifying": "Verificando…",
+  "account.verifyFailed": "Não foi possível verificar seu número.",
+  "account.codeMessage":
+    "Seu código do Kitchen Remix AI é {code}. Ele expira em 10 minutos. Se você não pediu, ignore esta mensagem.",
+
+  "signIn.title": "Entrar",
+  "signIn.sent":
+    "Confira {email} para encontrar um link de acesso. Ele funciona uma vez e expira em 15 minutos.",
+  "signIn.intro":
+    "Vamos enviar um link por e-mail. Seus cardápios, contatos e preferências alimentares ficam salvos na sua conta.",
+  "signIn.email": "E-mail",
+  "signIn.submit": "Enviar link de acesso",
+  "signIn.failed": "Não foi possível enviar o link de acesso.",
+  "signIn.linkExpired":
+    "Esse link de acesso expirou ou já foi usado. Peça um novo.",
+  "signIn.linkFailed": "Não foi possível entrar. Tente novamente.",
+
+  "card.recipe": "Receita {number}",
+  "card.fewerServings": "Menos porções",
+  "card.moreServings": "Mais porções",
+  "card.violations": "Não combina com seu perfil alimentar",
+  "card.ingredients": "Ingredientes",
+  "card.leftover": "Sobra",
+  "card.steps": "Modo de preparo",
+  "card.nutrition": "Por porção (estimativa): {nutrition}",
+
+  "cooked.mark": "Marcar como feita",
+  "cooked.updating": "Atualizando…",
+  "cooked.done": "Feita ✓",
+  "cooked.updated": "Despensa atualizada: {items}.",
+  "cooked.usedUp": "{name} (acabou)",
+  "cooked.nothing": "Nada na sua despensa precisava ser descontado.",
+  "cooked.failed": "Não foi possível atualizar a despensa.",
+
+  "dietaryForm.title": "3. Perfil alimentar (opcional)",
+  "dietaryForm.none": "Sem restrições definidas",
+  "dietaryForm.summary.allergens": "sem {allergens}",
+  "dietaryForm.summary.excluded": "{count} excluídos",
+  "dietaryForm.summary.minutes": "≤ {minutes} min",
+  "dietaryForm.summary.servings.one": "{count} porção",
+  "dietaryForm.summary.servings.other": "{count} porções",
+  "dietaryForm.summary.appliances.one": "{count} aparelho",
+  "dietaryForm.summary.appliances.other": "{count} aparelhos",
+  "dietaryForm.diet": "Dieta",
+  "dietaryForm.excluded": "Nunca usar (separado por vírgulas)",
+  "dietaryForm.excludedPlaceholder": "coentro, cogumelos",
+  "dietaryForm.allergies": "Alergias",
+  "dietaryForm.maxMinutes": "Tempo total máximo (minutos)",
+  "dietaryForm.servings": "Porções",
+  "dietaryForm.any": "Qualquer",
+  "dietaryForm.equipment": "Equipamentos disponíveis",
+  "dietaryForm.equipmentHint": "(deixe vazio para uma cozinha comum)",
+
+  "chips.fresh": "Fresco",
+  "chips.use-soon": "Usar logo",
+  "chips.past-prime": "Passado do ponto",
+  "chips.unknown": "Frescor desconhecido",
+  "chips.confidence": "{freshness} · {percent}% de confiança",
+  "chips.name": "Nome do ingrediente",
+  "chips.quantity": "Quantidade estimada",
+  "chips.addPlaceholder": "Adicione um ingrediente que faltou",
+
+  "refine.swap": "Trocar esta receita",
+  "refine.vegetarian": "Deixar vegetariana",
+  "refine.quicker": "Deixar mais rápida",
+  "refine.custom": "Ajustar…",
+  "refine.working": "Refazendo…",
+  "refine.placeholder": "ex.: sem forno, ou mais apimentada",
+  "refine.instruction": "Como esta receita deve mudar?",
+  "refine.failed": "Não foi possível mudar esta receita.",
+
+  "recipients.groups": "Grupos",
+  "recipients.contacts": "Contatos",
+  "recipients.deleteGroup": "Excluir o grupo {name}",
+  "recipients.deleteContact": "Excluir o contato {name}",
+  "recipients.groupPlaceholder": "Nome do grupo, ex.: Família",
+  "recipients.saveGroup": "Salvar seleção como grupo",
+  "recipients.numbers": "Outros números (separados por vírgulas)",
+  "recipients.country": "Números sem código do país são de",
+  "recipients.serverDefault": "Padrão do servidor",
+  "recipients.saveContactTitle": "Salvar um contato",
+  "recipients.name": "Nome",
+  "recipients.saveContact": "Salvar contato",
+  "recipients.confirmDeleteContact": "Excluir este contato?",
+  "recipients.confirmDeleteGroup":
+    "Excluir este grupo? Os contatos dele são mantidos.",
+  "recipients.error.load": "Não foi possível carregar os contatos.",
+  "recipients.error.saveContact": "Não foi possível salvar o contato.",
+  "recipients.error.saveGroup": "Não foi possível criar o grupo.",
+  "recipients.error.deleteContact": "Não foi possível excluir o contato.",
+  "recipients.error.deleteGroup": "Não foi possível excluir o grupo.",
+
+  "delivery.to": "Entrega para {recipient}",
+  "delivery.status.pending": "Não enviado",
+  "delivery.status.accepted": "Enviando",
+  "delivery.status.sent": "Enviado",
+  "delivery.status.delivered": "Entregue",
+  "delivery.status.read": "Lido",
+  "delivery.status.failed": "Falhou",
+  "delivery.kind.text": "Mensagem",
+  "delivery.kind.template": "Convite",
+  "delivery.kind.list": "Lista de receitas",
+  "delivery.outsideWindow":
+    "Marque “Primeira mensagem para estes números” para enviar o convite aprovado.",
+  "delivery.retrying": "Tentando de novo…",
+  "delivery.retry": "Reenviar mensagens com falha",
+  "delivery.retryFailed": "Não foi possível reenviar.",
+
+  "export.download": "Baixar",
+  "export.downloadFormat": "Baixar {format}",
+  "export.preparing": "Preparando…",
+  "export.failed": "Não foi possível exportar o cardápio.",
+  "export.leftover": "(sobra)",
+  "export.pageFooter": "Kitchen Remix AI · Página {page} de {total}",
+  "export.pdfUnsupported":
+    "Este cardápio tem caracteres que a exportação em PDF não consegue imprimir. Baixe em Markdown.",
+
+  "channel.whatsapp": "WhatsApp",
+  "channel.email": "E-mail",
+  "channel.telegram": "Telegram",
+  "channel.sms": "SMS",
+  "channel.recipient.whatsapp": "Número do WhatsApp",
+  "channel.recipient.email": "Endereço de e-mail",
+  "channel.recipient.telegram": "ID do chat do Telegram",
+  "channel.recipient.sms": "Número de celular",
+  "channel.send": "Enviar por {channel}",
+  "channel.sent": "Enviado para {to} por {channel}.",
+  "channel.failed": "Falha ao enviar por {channel}.",
+  "channel.emailNote":
+    "Os e-mails sempre trazem as receitas completas, e um link quando o cardápio está salvo.",
+
+  "history.title": "Histórico de cardápios",
+  "history.favoritesOnly": "Só favoritos",
+  "history.loading": "Carregando seus cardápios anteriores…",
+  "history.noFavorites":
+    "Ainda não há cardápios favoritos. Marque um com a estrela para guardá-lo aqui.",
+  "history.empty": "Os cardápios que você gerar aparecerão aqui.",
+  "history.unfavorite": "Remover dos favoritos",
+  "history.favorite": "Adicionar aos favoritos",
+  "history.error.load": "Não foi possível carregar o histórico.",
+  "history.error.update": "Não foi possível atualizar o cardápio.",
+  "history.error.delete": "Não foi possível excluir o cardápio.",
+  "history.error.open": "Não foi possível carregar o cardápio.",
+
+  "pantry.title": "Despensa",
+  "pantry.intro":
+    "Os ingredientes que você confirma antes de cozinhar chegam aqui, primeiro o que vence antes. As receitas também os usam, e marcar uma como feita os desconta.",
+  "pantry.loading": "Carregando sua despensa…",
+  "pantry.empty":
+    "Sua despensa está vazia. Identifique ingredientes em uma foto ou adicione-os abaixo.",
+  "pantry.noExpiry": "Sem data de validade",
+  "pantry.expiryFor": "Data de validade de {name}",
+  "pantry.expiry.today": "vence hoje",
+  "pantry.expiry.tomorrow": "vence amanhã",
+  "pantry.expiry.yesterday": "venceu ontem",
+  "pantry.expiry.inDays": "vence em {count} dias",
+  "pantry.expiry.daysAgo": "venceu há {count} dias",
+  "pantry.itemPlaceholder": "Item, ex.: grão-de-bico",
+  "pantry.itemName": "Nome do item",
+  "pantry.amountPlaceholder": "Quantidade, ex.: 2 latas",
+  "pantry.amount": "Quantidade",
+  "pantry.expiryDate": "Data de validade",
+  "pantry.staples": "Itens básicos que você sempre tem",
+  "pantry.staplesIntro":
+    "Nunca são descontados, e as receitas não vão sugerir substitutos para eles.",
+  "pantry.staplePlaceholder": "Outro item básico, ex.: shoyu",
+  "pantry.staple": "Item básico",
+  "pantry.addStaple": "Adicionar item básico",
+  "pantry.error.add": "Não foi possível adicionar o item.",
+  "pantry.error.update": "Não foi possível atualizar o item.",
+  "pantry.error.remove": "Não foi possível remover o item.",
+  "pantry.error.staples": "Não foi possível salvar os itens básicos.",
+
+  "planner.title": "Planejador de refeições",
+  "planner.intro":
+    "Arraste receitas para a semana, ou escolha uma e toque em um horário.",
+  "planner.previousWeek": "Semana anterior",
+  "planner.nextWeek": "Próxima semana",
+  "planner.currentMenu": "Cardápio atual",
+  "planner.fromHistory": "Do histórico",
+  "planner.pastMenu": "Cardápio anterior",
+  "planner.choosePastMenu": "Escolha um cardápio anterior…",
+  "planner.currentMenuEmpty": "Gere um cardápio para planejar as receitas.",
+  "planner.pastMenuEmpty": "As receitas do cardápio escolhido aparecem aqui.",
+  "planner.loading": "Carregando seu plano de refeições…",
+  "planner.addHere": "+ Adicionar aqui",
+  "planner.meal.breakfast": "Café da manhã",
+  "planner.meal.lunch": "Almoço",
+  "planner.meal.dinner": "Jantar",
+  "planner.copyList": "Copiar lista",
+  "planner.copied": "Lista de compras copiada.",
+  "planner.copyFailed": "Não foi possível copiar a lista de compras.",
+  "planner.planSomeMeals":
+    "Planeje algumas refeições nesta semana para montar a lista.",
+  "planner.covered.pantry": "Na despensa",
+  "planner.covered.staples": "Itens básicos",
+  "planner.covered.leftovers": "Das suas sobras",
+  "planner.sendList": "Enviar lista de compras",
+  "planner.listSent": "Lista de compras enviada.",
+  "planner.error.load": "Não foi possível carregar o plano de refeições.",
+  "planner.error.place": "Não foi possível planejar a receita.",
+  "planner.error.move": "Não foi possível mover a refeição.",
+  "planner.error.remove": "Não foi possível remover a refeição.",
+  "planner.error.send": "Falha ao enviar a lista de compras.",
+
+  "menuPage.title": "Um cardápio remix",
+  "menuPage.created": "Criado em {date}",
+  "menuPage.notFound": "Cardápio não encontrado",
+  "menuPage.more": "{names} + mais {count}",
+  "menuPage.cta": "Tem sobras aí também?",
+  "menuPage.ctaLink": "Transforme-as em receitas"
+};
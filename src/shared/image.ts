@@ -0,0 +1,135 @@
+import { z } from "zod";
+
+export const MAX_IMAGES = 4;
+/** Longest edge the browser downscales photos to before upload. */
+export const UPLOAD_IMAGE_DIMENSION = 1600;
+export const MAX_IMAGE_DIMENSION = 2048;
+export const MAX_IMAGE_BYTES = 3 * 1024 * 1024;
+
+const DATA_URL_PATTERN = /^data:image\/[a-zA-Z+]+;base64,/;
+
+type ImageDimensions = {
+  width: number;
+  height: number;
+};
+
+function decodeBase64(base64: string) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
+
+function readJpegDimensions(bytes: Uint8Array): ImageDimensions | null {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    // SOF0-SOF15 carry the frame size; C4, C8 and CC are other tables.
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      return {
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8]
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+/** Reads pixel dimensions from PNG, JPEG, GIF or WebP file headers. */
+export function readImageDimensions(bytes: Uint8Array): ImageDimensions | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (start: number, end: number) =>
+    String.fromCharCode(...Array.from(bytes.subarray(start, end)));
+
+  if (bytes.length >= 24 && ascii(1, 4) === "PNG") {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return readJpegDimensions(bytes);
+  }
+  if (bytes.length >= 10 && ascii(0, 3) === "GIF") {
+    return {
+      width: view.getUint16(6, true),
+      height: view.getUint16(8, true)
+    };
+  }
+  if (bytes.length >= 31 && ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") {
+    const chunk = ascii(12, 16);
+    if (chunk === "VP8X") {
+      return {
+        width: 1 + (view.getUint32(24, true) & 0xffffff),
+        height: 1 + (view.getUint32(27, true) & 0xffffff)
+      };
+    }
+    if (chunk === "VP8 ") {
+      return {
+        width: view.getUint16(26, true) & 0x3fff,
+        height: view.getUint16(28, true) & 0x3fff
+      };
+    }
+    if (chunk === "VP8L") {
+      const bits = view.getUint32(21, true);
+      return {
+        width: 1 + (bits & 0x3fff),
+        height: 1 + ((bits >> 14) & 0x3fff)
+      };
+    }
+  }
+  return null;
+}
+
+export const imageDataUrlSchema = z
+  .string()
+  .min(10, "Image payload missing.")
+  .regex(DATA_URL_PATTERN, "Image data URL expected.")
+  .superRefine((dataUrl, context) => {
+    const base64 = dataUrl.slice(dataUrl.indexOf(",") + 1);
+    if ((base64.length * 3) / 4 > MAX_IMAGE_BYTES) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Each photo must be under ${MAX_IMAGE_BYTES / 1024 / 1024} MB.`
+      });
+      return;
+    }
+
+    let dimensions: ImageDimensions | null = null;
+    try {
+      dimensions = readImageDimensions(decodeBase64(base64));
+    } catch {
+      // Invalid base64 falls through to the unreadable-image issue below.
+    }
+    if (!dimensions) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Photo must be a readable PNG, JPEG, GIF or WebP image."
+      });
+    } else if (
+      Math.max(dimensions.width, dimensions.height) > MAX_IMAGE_DIMENSION
+    ) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Photos must be at most ${MAX_IMAGE_DIMENSION}px on their longest side.`
+      });
+    }
+  });
+
+export const imageDataUrlsSchema = z
+  .array(imageDataUrlSchema)
+  .min(1, "Upload at least one photo.")
+  .max(MAX_IMAGES, `Upload at most ${MAX_IMAGES} photos.`);
+
+export const thumbnailDataUrlSchema = z
+  .string()
+  .max(200_000, "Thumbnail is too large.")
+  .regex(DATA_URL_PATTERN, "Image data URL expected.");
@@ -0,0 +1,25 @@
+import { z } from "zod";
+
+export const freshnessHints = [
+  "fresh",
+  "use-soon",
+  "past-prime",
+  "unknown"
+] as const;
+
+export const detectedIngredientSchema = z.object({
+  name: z.string().trim().min(2),
+  quantity: z.string().trim().min(1),
+  confidence: z.number().min(0).max(1),
+  freshness: z.enum(freshnessHints)
+});
+
+export const detectResponseSchema = z.object({
+  ingredients: z.array(detectedIngredientSchema).max(40)
+});
+
+export type FreshnessHint = (typeof freshnessHints)[number];
+
+export type DetectedIngredient = z.infer<typeof detectedIngredientSchema>;
+
+export type DetectResponse = z.infer<typeof detectResponseSchema>;
@@ -0,0 +1,25 @@
+import type { GenerateResponse } from "@/shared/recipe";
+
+export type MenuRecord = {
+  id: string;
+  /** Short public identifier used in `/menu/[slug]` permalinks. */
+  slug: string;
+  /** Account whose history it is; null for menus made before sign-in. */
+  userId: string | null;
+  createdAt: string;
+  favorite: boolean;
+  notes: string;
+  thumbnailDataUrl: string | null;
+  payload: GenerateResponse;
+};
+
+export type MenuSummary = Omit<MenuRecord, "payload"> & {
+  summary: string;
+  recipeNames: string[];
+};
+
+export type MenuRef = Pick<MenuRecord, "id" | "slug">;
+
+export function menuPath(slug: string) {
+  return `/menu/${slug}`;
+}
@@ -0,0 +1,29 @@
+import type { Locale } from "@/shared/i18n";
+import type { Recipe } from "@/shared/recipe";
+
+export const shareChannels = ["whatsapp", "email", "telegram", "sms"] as const;
+
+export type ShareChannel = (typeof shareChannels)[number];
+
+/** An example of what the recipient field holds for each channel. */
+export const shareRecipientPlaceholders: Record<ShareChannel, string> = {
+  whatsapp: "+14155551212",
+  email: "friend@example.com",
+  telegram: "123456789",
+  sms: "+14155551212"
+};
+
+/** A menu as it is shared, already scaled and converted for the reader. */
+export type SharedMenu = {
+  summary: string | null;
+  recipes: Recipe[];
+  /** Link to the saved menu page, when there is one. */
+  permalink: string | null;
+  /** Language for the headings around the recipes; English when absent. */
+  locale?: Locale;
+};
+
+export type ShareChannelStatus = {
+  channel: ShareChannel;
+  configured: boolean;
+};
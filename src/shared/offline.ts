@@ -0,0 +1,73 @@
+import type { MenuRef } from "@/shared/menu";
+import type { GenerateCacheStatus, GenerateResponse } from "@/shared/recipe";
+
+export const SERVICE_WORKER_PATH = "/sw.js";
+
+/** How many of the newest history menus the service worker keeps offline. */
+export const OFFLINE_MENU_LIMIT = 10;
+
+/** Sends waiting in the browser at most; older ones give way to new ones. */
+export const OFFLINE_QUEUE_LIMIT = 20;
+
+/** Requests the service worker holds while offline and replays later. */
+export const queuedRequestKinds = ["generate", "whatsapp"] as const;
+
+export type QueuedRequestKind = (typeof queuedRequestKinds)[number];
+
+/**
+ * What the service worker answers, with a 202, in place of a generate or
+ * WhatsApp request made while offline.
+ */
+export type QueuedResponseBody = {
+  queued: true;
+  id: string;
+  kind: QueuedRequestKind;
+};
+
+/** Code of the 503 the service worker answers other API calls with offline. */
+export const OFFLINE_ERROR_CODE = "offline";
+
+export type OfflineErrorBody = {
+  error: string;
+  code: typeof OFFLINE_ERROR_CODE;
+};
+
+/** The JSON `/api/generate` answers a replayed generation with. */
+export type ReplayedMenu = GenerateResponse & {
+  menu: MenuRef | null;
+  cache: GenerateCacheStatus;
+};
+
+/** Posted by the service worker to open pages once a queued send was replayed. */
+export type ReplayedMessage = {
+  type: "replayed";
+  id: string;
+  ok: boolean;
+  status: number;
+} & (
+  | {
+      kind: "generate";
+      /** Absent when the replay failed. */
+      result?: ReplayedMenu;
+    }
+  | { kind: "whatsapp" }
+);
+
+/** Posted by a page that came back online, for browsers without Background Sync. */
+export type ReplayRequestMessage = { type: "replay" };
+
+export function isQueuedResponse(body: unknown): body is QueuedResponseBody {
+  return (
+    typeof body === "object" &&
+    body !== null &&
+    (body as { queued?: unknown }).queued === true
+  );
+}
+
+export function isOfflineError(body: unknown): body is OfflineErrorBody {
+  return (
+    typeof body === "object" &&
+    body !== null &&
+    (body as { code?: unknown }).code === OFFLINE_ERROR_CODE
+  );
+}
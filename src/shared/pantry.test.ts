@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  findPantryMatch,
+  pantryKey,
+  type Pantry,
+  type PantryItem
+} from "@/shared/pantry";
+import type { Recipe, RecipeIngredient } from "@/shared/recipe";
+import { buildShoppingList } from "@/shared/shopping";
+
+const item = (name: string, quantity: number | null = null): PantryItem => ({
+  id: name,
+  name,
+  quantity,
+  unit: quantity === null ? null : "g",
+  expiresOn: null,
+  addedAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z"
+});
+
+const ingredient = (
+  item: string,
+  quantity: number | null,
+  unit: string | null
+): RecipeIngredient => ({ quantity, unit, item, fromLeftovers: false });
+
+const recipe = (ingredients: RecipeIngredient[]): Recipe => ({
+  name: "दाल तड़का",
+  description: "मसूर दाल, प्याज और टमाटर के साथ।",
+  servings: 2,
+  prepMinutes: 10,
+  cookMinutes: 25,
+  difficulty: "easy",
+  ingredients,
+  steps: ["दाल धोएँ।", "प्याज भूनें।", "सब पकाएँ।"]
+});
+
+describe("pantryKey", () => {
+  it("drops preparation notes, case and plurals", () => {
+    assert.equal(pantryKey("Bell Peppers, diced"), "bell pepper");
+    assert.equal(pantryKey("Tomatoes (ripe)"), "tomato");
+  });
+
+  it("keeps non-Latin words with their vowel signs", () => {
+    assert.equal(pantryKey("टमाटर, कटा हुआ"), "टमाटर");
+    assert.equal(pantryKey("मसूर दाल"), "मसूर दाल");
+    assert.notEqual(pantryKey("प्याज"), pantryKey("टमाटर"));
+  });
+
+  it("is empty for a name without letters", () => {
+    assert.equal(pantryKey("—"), "");
+  });
+});
+
+describe("findPantryMatch", () => {
+  it("matches a Hindi ingredient to its own entry only", () => {
+    const entries = [item("प्याज"), item("टमाटर"), item("दाल")];
+    assert.equal(findPantryMatch(entries, "टमाटर, कटा हुआ")?.name, "टमाटर");
+    assert.equal(findPantryMatch(entries, "मसूर दाल")?.name, "दाल");
+    assert.equal(findPantryMatch(entries, "अदरक"), null);
+  });
+
+  it("never matches an empty key", () => {
+    assert.equal(findPantryMatch([item("—")], "…"), null);
+    assert.equal(findPantryMatch([item("rice")], "—"), null);
+  });
+});
+
+describe("buildShoppingList", () => {
+  it("keeps Hindi ingredients on separate lines", () => {
+    const pantry: Pantry = { items: [], staples: ["नमक"] };
+    const list = buildShoppingList(
+      [
+        recipe([
+          ingredient("मसूर दाल", 200, "g"),
+          ingredient("प्याज", 2, null),
+          ingredient("टमाटर", 3, null),
+          ingredient("नमक", 1, "tsp")
+        ])
+      ],
+      pantry
+    );
+    assert.deepEqual(
+      new Map(list.items.map(({ name, amounts }) => [name, amounts])),
+      new Map([
+        ["मसूर दाल", [{ quantity: 200, unit: "g" }]],
+        ["प्याज", [{ quantity: 2, unit: null }]],
+        ["टमाटर", [{ quantity: 3, unit: null }]]
+      ])
+    );
+    assert.deepEqual(
+      list.covered.map(({ name, coveredBy }) => [name, coveredBy]),
+      [["नमक", "staples"]]
+    );
+  });
+});
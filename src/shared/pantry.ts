@@ -0,0 +1,252 @@
+import { z } from "zod";
+import { defaultLocale, translate, type Locale } from "@/shared/i18n";
+import type { DetectedIngredient, FreshnessHint } from "@/shared/ingredients";
+import { formatIngredient, parseIngredientLine } from "@/shared/quantity";
+import { normalizeUnit } from "@/shared/units";
+
+export type PantryItem = {
+  id: string;
+  name: string;
+  /** Null when the cook did not say how much ("some rice"). */
+  quantity: number | null;
+  unit: string | null;
+  /** Calendar date, `YYYY-MM-DD`; null for things that keep. */
+  expiresOn: string | null;
+  addedAt: string;
+  updatedAt: string;
+};
+
+export type Pantry = {
+  items: PantryItem[];
+  /** Things the cook always has, such as salt or oil; never counted down. */
+  staples: string[];
+};
+
+/** A pantry item a cooked recipe drew from. */
+export type PantryUse = {
+  name: string;
+  /** True when the recipe used the rest and the item was removed. */
+  usedUp: boolean;
+};
+
+export type CookResponse = {
+  pantry: Pantry;
+  used: PantryUse[];
+};
+
+export const MAX_PANTRY_ITEMS = 300;
+export const MAX_STAPLES = 50;
+
+/** Items expiring within this many days are used first. */
+export const EXPIRING_SOON_DAYS = 3;
+
+export const suggestedStaples = [
+  "salt",
+  "black pepper",
+  "olive oil",
+  "flour",
+  "sugar"
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const calendarDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use a YYYY-MM-DD date.")
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Not a real date.");
+
+export const pantryItemSchema = z.object({
+  name: z.string().trim().min(2).max(60),
+  quantity: z.number().positive().max(100000).nullable().default(null),
+  unit: z.string().trim().min(1).max(20).nullable().default(null),
+  expiresOn: calendarDateSchema.nullable().default(null)
+});
+
+export type NewPantryItem = z.infer<typeof pantryItemSchema>;
+
+export const staplesSchema = z
+  .array(z.string().trim().min(2).max(40))
+  .max(MAX_STAPLES);
+
+function singularWord(word: string) {
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && word.endsWith("oes")) return word.slice(0, -2);
+  if (word.length > 3 && /[^s]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * "Bell Peppers, diced" and "bell pepper" both become "bell pepper". Words
+ * keep their combining marks, which Devanagari spells its vowels with. A
+ * name with no letters at all gives "", which matches nothing.
+ */
+export function pantryKey(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/\(.*?\)/g, " ")
+    .split(",")[0]
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(Boolean)
+    .map(singularWord)
+    .join(" ");
+}
+
+/**
+ * The pantry entry a recipe ingredient draws from: the same name, or else
+ * the longest entry whose words all appear in it ("rice" for "cooked rice").
+ */
+export function findPantryMatch<T extends { name: string }>(
+  entries: T[],
+  ingredient: string
+): T | null {
+  const key = ` ${pantryKey(ingredient)} `;
+  if (!key.trim()) return null;
+  let best: T | null = null;
+  let bestLength = 0;
+  for (const entry of entries) {
+    const entryKey = pantryKey(entry.name);
+    if (!entryKey) continue;
+    if (` ${entryKey} ` === key) return entry;
+    if (entryKey.length > bestLength && key.includes(` ${entryKey} `)) {
+      best = entry;
+      bestLength = entryKey.length;
+    }
+  }
+  return best;
+}
+
+/** Today's date in local time, as `YYYY-MM-DD`. */
+export function toDateString(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Whole days from `today` until `expiresOn`; negative once it has passed. */
+export function daysUntil(expiresOn: string, today = new Date()) {
+  const [year, month, day] = expiresOn.split("-").map(Number);
+  const start = Date.UTC(
+    today.getFullYear(),
+    today.getMonth(),
+    today.getDate()
+  );
+  return Math.round((Date.UTC(year, month - 1, day) - start) / DAY_MS);
+}
+
+export function isExpiringSoon(item: PantryItem, today = new Date()) {
+  return (
+    item.expiresOn !== null &&
+    daysUntil(item.expiresOn, today) <= EXPIRING_SOON_DAYS
+  );
+}
+
+/** "expires today", "expires in 3 days", "expired yesterday"… */
+export function describeExpiry(
+  expiresOn: string,
+  today = new Date(),
+  locale: Locale = defaultLocale
+) {
+  const days = daysUntil(expiresOn, today);
+  if (days === 0) return translate(locale, "pantry.expiry.today");
+  if (days === 1) return translate(locale, "pantry.expiry.tomorrow");
+  if (days === -1) return translate(locale, "pantry.expiry.yesterday");
+  return days > 0
+    ? translate(locale, "pantry.expiry.inDays", { count: days })
+    : translate(locale, "pantry.expiry.daysAgo", { count: -days });
+}
+
+/** Soonest expiry first; things that keep come last, by name. */
+export function byExpiry(left: PantryItem, right: PantryItem) {
+  if (left.expiresOn !== right.expiresOn) {
+    if (!left.expiresOn) return 1;
+    if (!right.expiresOn) return -1;
+    return left.expiresOn.localeCompare(right.expiresOn);
+  }
+  return left.name.localeCompare(right.name);
+}
+
+/** "2 cups rice", or just "rice" when the amount is unknown. */
+export function formatPantryItem(item: PantryItem) {
+  return formatIngredient({
+    quantity: item.quantity,
+    unit: item.unit,
+    item: item.name,
+    fromLeftovers: false
+  });
+}
+
+// Shelf life guessed from how fresh a detected item looked.
+const FRESHNESS_SHELF_DAYS: Record<FreshnessHint, number | null> = {
+  fresh: 5,
+  "use-soon": 2,
+  "past-prime": 0,
+  unknown: null
+};
+
+/**
+ * Reads an amount such as "2 cups", "500 g", "3" or "about 1 lb". Anything
+ * else ("half a block") is an unknown amount.
+ */
+export function parsePantryAmount(text: string): {
+  quantity: number | null;
+  unit: string | null;
+} {
+  const amount = parseIngredientLine(
+    text.replace(/^(about|around|roughly|approx\.?|~)\s*/i, "")
+  );
+  if (!amount.quantity || amount.quantity <= 0) {
+    return { quantity: null, unit: null };
+  }
+  return {
+    quantity: amount.quantity,
+    unit: amount.unit ? (normalizeUnit(amount.unit) ?? amount.unit) : null
+  };
+}
+
+/** Turns a detected ingredient into a pantry entry, estimating its expiry. */
+export function pantryItemFromDetected(
+  ingredient: DetectedIngredient,
+  today = new Date()
+): NewPantryItem {
+  const shelfDays = FRESHNESS_SHELF_DAYS[ingredient.freshness];
+  return {
+    name: ingredient.name,
+    ...parsePantryAmount(ingredient.quantity),
+    expiresOn:
+      shelfDays === null
+        ? null
+        : toDateString(new Date(today.getTime() + shelfDays * DAY_MS))
+  };
+}
+
+// Enough for any real kitchen without letting the prompt run away.
+const MAX_PROMPT_ITEMS = 60;
+
+/** The pantry and staples as prompt text, soonest expiry first. */
+export function describePantry(pantry: Pantry, today = new Date()) {
+  const items = pantry.items
+    .filter((item) => !item.expiresOn || daysUntil(item.expiresOn, today) >= 0)
+    .sort(byExpiry)
+    .slice(0, MAX_PROMPT_ITEMS);
+  const lines: string[] = [];
+  if (items.length) {
+    lines.push(
+      "Also in the cook's pantry (use these alongside the photo and mark them fromLeftovers: true):",
+      ...items.map(
+        (item) =>
+          `- ${formatPantryItem(item)}${item.expiresOn ? ` (${describeExpiry(item.expiresOn, today)})` : ""}`
+      )
+    );
+    if (items.some((item) => isExpiringSoon(item, today))) {
+      lines.push(
+        `Prioritize anything that expires within ${EXPIRING_SOON_DAYS} days: use each of those items in at least one recipe.`
+      );
+    }
+  }
+  if (pantry.staples.length) {
+    lines.push(
+      `Staples the cook always has: ${pantry.staples.join(", ")}. Use them freely, and never list them as missing or suggest substitutes for them.`
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,227 @@
+import { z } from "zod";
+
+type CountryRule = {
+  name: string;
+  callingCode: string;
+  /** Digit dialled before national numbers and dropped internationally. */
+  trunkPrefix: string | null;
+  /** Allowed lengths of the number after the calling code. */
+  lengths: [min: number, max: number];
+};
+
+// A practical subset, not a full numbering plan: enough to catch typos and
+// expand local numbers. Numbers typed with a "+" for other countries are
+// accepted if their length is plausible.
+const COUNTRY_RULES = {
+  US: {
+    name: "United States",
+    callingCode: "1",
+    trunkPrefix: "1",
+    lengths: [10, 10]
+  },
+  CA: { name: "Canada", callingCode: "1", trunkPrefix: "1", lengths: [10, 10] },
+  MX: {
+    name: "Mexico",
+    callingCode: "52",
+    trunkPrefix: null,
+    lengths: [10, 10]
+  },
+  BR: {
+    name: "Brazil",
+    callingCode: "55",
+    trunkPrefix: "0",
+    lengths: [10, 11]
+  },
+  GB: {
+    name: "United Kingdom",
+    callingCode: "44",
+    trunkPrefix: "0",
+    lengths: [9, 10]
+  },
+  IE: {
+    name: "Ireland",
+    callingCode: "353",
+    trunkPrefix: "0",
+    lengths: [7, 9]
+  },
+  FR: { name: "France", callingCode: "33", trunkPrefix: "0", lengths: [9, 9] },
+  DE: {
+    name: "Germany",
+    callingCode: "49",
+    trunkPrefix: "0",
+    lengths: [6, 13]
+  },
+  NL: {
+    name: "Netherlands",
+    callingCode: "31",
+    trunkPrefix: "0",
+    lengths: [9, 9]
+  },
+  ES: { name: "Spain", callingCode: "34", trunkPrefix: null, lengths: [9, 9] },
+  PT: {
+    name: "Portugal",
+    callingCode: "351",
+    trunkPrefix: null,
+    lengths: [9, 9]
+  },
+  // Italian numbers keep their leading 0 after the calling code.
+  IT: { name: "Italy", callingCode: "39", trunkPrefix: null, lengths: [6, 11] },
+  ZA: {
+    name: "South Africa",
+    callingCode: "27",
+    trunkPrefix: "0",
+    lengths: [9, 9]
+  },
+  NG: {
+    name: "Nigeria",
+    callingCode: "234",
+    trunkPrefix: "0",
+    lengths: [8, 10]
+  },
+  KE: { name: "Kenya", callingCode: "254", trunkPrefix: "0", lengths: [9, 9] },
+  AE: {
+    name: "United Arab Emirates",
+    callingCode: "971",
+    trunkPrefix: "0",
+    lengths: [8, 9]
+  },
+  IN: { name: "India", callingCode: "91", trunkPrefix: "0", lengths: [10, 10] },
+  SG: {
+    name: "Singapore",
+    callingCode: "65",
+    trunkPrefix: null,
+    lengths: [8, 8]
+  },
+  JP: { name: "Japan", callingCode: "81", trunkPrefix: "0", lengths: [9, 10] },
+  AU: {
+    name: "Australia",
+    callingCode: "61",
+    trunkPrefix: "0",
+    lengths: [9, 9]
+  },
+  NZ: {
+    name: "New Zealand",
+    callingCode: "64",
+    trunkPrefix: "0",
+    lengths: [8, 10]
+  }
+} satisfies Record<string, CountryRule>;
+
+export type CountryCode = keyof typeof COUNTRY_RULES;
+
+export const countryCodes = Object.keys(COUNTRY_RULES) as CountryCode[];
+
+export const countryNames = Object.fromEntries(
+  countryCodes.map((country) => [country, COUNTRY_RULES[country].name])
+) as Record<CountryCode, string>;
+
+export const countryCodeSchema = z.enum(
+  countryCodes as [CountryCode, ...CountryCode[]]
+);
+
+export function isCountryCode(value: string): value is CountryCode {
+  return value in COUNTRY_RULES;
+}
+
+/** E.164 allows at most 15 digits; nothing real is shorter than 8. */
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+export function isE164(value: string) {
+  return E164_PATTERN.test(value);
+}
+
+export type PhoneNumberResult =
+  { ok: true; e164: string } | { ok: false; error: string };
+
+function rulesForCallingCode(digits: string) {
+  return Object.values(COUNTRY_RULES as Record<string, CountryRule>).filter(
+    (rule) => digits.startsWith(rule.callingCode)
+  );
+}
+
+function fitsLength(rule: CountryRule, national: string) {
+  return (
+    national.length >= rule.lengths[0] && national.length <= rule.lengths[1]
+  );
+}
+
+function international(digits: string): PhoneNumberResult {
+  const e164 = `+${digits}`;
+  const rules = rulesForCallingCode(digits);
+  if (
+    rules.length &&
+    !rules.some((rule) =>
+      fitsLength(rule, digits.slice(rule.callingCode.length))
+    )
+  ) {
+    return {
+      ok: false,
+      error: `${e164} has the wrong number of digits for ${rules[0].name}.`
+    };
+  }
+  return isE164(e164)
+    ? { ok: true, e164 }
+    : { ok: false, error: `${e164} is not a valid international number.` };
+}
+
+/**
+ * Normalizes a number as people type it ("+44 (0)20 7946 0958",
+ * "0044 20…", "(415) 555-2671") to E.164. Numbers without an international
+ * prefix are read as national numbers of `country`.
+ */
+export function normalizePhoneNumber(
+  input: string,
+  country?: CountryCode
+): PhoneNumberResult {
+  // "(0)" marks a trunk prefix to skip when dialling from abroad.
+  const cleaned = input.trim().replace(/\(0\)/g, "");
+  if (/[^\d\s()+.\-/]/.test(cleaned)) {
+    return {
+      ok: false,
+      error: `"${input}" contains characters that are not digits.`
+    };
+  }
+  const digits = cleaned.replace(/\D/g, "");
+  if (!digits) {
+    return { ok: false, error: "Enter a phone number." };
+  }
+
+  if (cleaned.startsWith("+")) return international(digits);
+  if (digits.startsWith("00")) return international(digits.slice(2));
+  if (
+    country &&
+    COUNTRY_RULES[country].callingCode === "1" &&
+    digits.startsWith("011")
+  ) {
+    return international(digits.slice(3));
+  }
+  if (!country) {
+    return {
+      ok: false,
+      error: `Add the country code to "${input}", e.g. +14155552671.`
+    };
+  }
+
+  const rule: CountryRule = COUNTRY_RULES[country];
+  const national =
+    rule.trunkPrefix &&
+    digits.startsWith(rule.trunkPrefix) &&
+    !fitsLength(rule, digits)
+      ? digits.slice(rule.trunkPrefix.length)
+      : digits;
+  if (!fitsLength(rule, national)) {
+    return {
+      ok: false,
+      error: `"${input}" is not a valid ${rule.name} number.`
+    };
+  }
+  return { ok: true, e164: `+${rule.callingCode}${national}` };
+}
+
+/** Splits numbers pasted as a list, separated by commas, semicolons or lines. */
+export function splitPhoneNumbers(text: string) {
+  return text
+    .split(/[,;\n]/)
+    .map((number) => number.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { calendarDateSchema, toDateString } from "@/shared/pantry";
+import { recipeSchema, type Recipe } from "@/shared/recipe";
+
+export const meals = ["breakfast", "lunch", "dinner"] as const;
+
+export type Meal = (typeof meals)[number];
+
+/** A recipe placed on a day and meal of the planner. */
+export type PlannedMeal = {
+  id: string;
+  /** Calendar date, `YYYY-MM-DD`. */
+  date: string;
+  meal: Meal;
+  /** A copy, so the plan survives the menu being refined or deleted. */
+  recipe: Recipe;
+  /** Servings to cook; null keeps the recipe's own. */
+  servings: number | null;
+  /** The saved menu the recipe came from, when there is one. */
+  menuId: string | null;
+  addedAt: string;
+};
+
+export type MealPlan = {
+  meals: PlannedMeal[];
+};
+
+export const MAX_PLANNED_MEALS = 200;
+
+/** Planned meals this many days in the past are dropped on the next change. */
+export const PLAN_RETENTION_DAYS = 28;
+
+const servingsSchema = z.number().int().min(1).max(50);
+
+export const plannedMealSchema = z.object({
+  date: calendarDateSchema,
+  meal: z.enum(meals),
+  recipe: recipeSchema,
+  servings: servingsSchema.nullable().default(null),
+  menuId: z.string().min(1).nullable().default(null)
+});
+
+export type NewPlannedMeal = z.infer<typeof plannedMealSchema>;
+
+/** What can change once a meal is planned: where it sits and how many eat. */
+export const plannedMealUpdateSchema = z
+  .object({
+    date: calendarDateSchema,
+    meal: z.enum(meals),
+    servings: servingsSchema.nullable()
+  })
+  .partial();
+
+export type PlannedMealUpdate = z.infer<typeof plannedMealUpdateSchema>;
+
+/** `date` moved by `days`, both as `YYYY-MM-DD`. */
+export function addDays(date: string, days: number) {
+  const [year, month, day] = date.split("-").map(Number);
+  return toDateString(new Date(year, month - 1, day + days));
+}
+
+/** The Monday on or before `today`. */
+export function startOfWeek(today = new Date()) {
+  const sinceMonday = (today.getDay() + 6) % 7;
+  return addDays(toDateString(today), -sinceMonday);
+}
+
+/** The seven dates of the week starting on `weekStart`. */
+export function weekDates(weekStart: string) {
+  return Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+}
+
+/** The meals planned from `from` to `to`, both included, in cooking order. */
+export function mealsBetween(plan: MealPlan, from: string, to: string) {
+  return plan.meals
+    .filter((planned) => planned.date >= from && planned.date <= to)
+    .sort(
+      (left, right) =>
+        left.date.localeCompare(right.date) ||
+        meals.indexOf(left.meal) - meals.indexOf(right.meal)
+    );
+}
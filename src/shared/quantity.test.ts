@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  formatIngredient,
+  formatQuantity,
+  parseIngredientLine,
+  parseQuantity
+} from "@/shared/quantity";
+
+describe("parseQuantity", () => {
+  it("reads whole numbers, decimals, fractions and unicode fractions", () => {
+    assert.equal(parseQuantity("2"), 2);
+    assert.equal(parseQuantity("1.5"), 1.5);
+    assert.equal(parseQuantity("1/2"), 0.5);
+    assert.equal(parseQuantity("1 1/2"), 1.5);
+    assert.equal(parseQuantity("½"), 0.5);
+    assert.equal(parseQuantity("1½"), 1.5);
+  });
+
+  it("returns null for anything else", () => {
+    assert.equal(parseQuantity("a few"), null);
+    assert.equal(parseQuantity("1/0"), null);
+    assert.equal(parseQuantity(""), null);
+  });
+});
+
+describe("formatQuantity", () => {
+  it("writes small amounts as cooking fractions", () => {
+    assert.equal(formatQuantity(0.5), "1/2");
+    assert.equal(formatQuantity(1.5), "1 1/2");
+    assert.equal(formatQuantity(1 / 3), "1/3");
+    assert.equal(formatQuantity(2.25, "cup"), "2 1/4");
+  });
+
+  it("rounds amounts near a whole number and larger amounts", () => {
+    assert.equal(formatQuantity(2.97), "3");
+    assert.equal(formatQuantity(3.02), "3");
+    assert.equal(formatQuantity(12.4), "12");
+    assert.equal(formatQuantity(1.42), "1.4");
+  });
+
+  it("writes metric units as decimals, never fractions", () => {
+    assert.equal(formatQuantity(1.35, "kg"), "1.35");
+    assert.equal(formatQuantity(1.25, "kg"), "1.25");
+    assert.equal(formatQuantity(0.5, "l"), "0.5");
+    assert.equal(formatQuantity(340, "g"), "340");
+    assert.equal(formatQuantity(12.5, "ml"), "13");
+  });
+});
+
+describe("parseIngredientLine", () => {
+  it("splits quantity, unit and item", () => {
+    assert.deepEqual(parseIngredientLine("2 cups cooked rice"), {
+      quantity: 2,
+      unit: "cups",
+      item: "cooked rice",
+      fromLeftovers: false
+    });
+    assert.deepEqual(parseIngredientLine("1 1/2 tbsp. of olive oil"), {
+      quantity: 1.5,
+      unit: "tbsp",
+      item: "olive oil",
+      fromLeftovers: false
+    });
+  });
+
+  it("keeps lines without a quantity whole", () => {
+    assert.deepEqual(parseIngredientLine("Salt to taste"), {
+      quantity: null,
+      unit: null,
+      item: "Salt to taste",
+      fromLeftovers: false
+    });
+  });
+});
+
+describe("formatIngredient", () => {
+  it("pluralizes countable units", () => {
+    assert.equal(
+      formatIngredient({
+        quantity: 2,
+        unit: "cup",
+        item: "rice",
+        fromLeftovers: false
+      }),
+      "2 cups rice"
+    );
+  });
+
+  it("writes converted metric amounts as decimals", () => {
+    assert.equal(
+      formatIngredient({
+        quantity: 1.35,
+        unit: "kg",
+        item: "chicken",
+        fromLeftovers: false
+      }),
+      "1.35 kg chicken"
+    );
+  });
+});
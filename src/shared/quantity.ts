@@ -0,0 +1,165 @@
+import type { RecipeIngredient } from "@/shared/recipe";
+import { isMetricUnit } from "@/shared/units";
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "¼": 0.25,
+  "½": 0.5,
+  "¾": 0.75,
+  "⅓": 1 / 3,
+  "⅔": 2 / 3,
+  "⅛": 0.125
+};
+
+const DISPLAY_FRACTIONS: [number, string][] = [
+  [0.125, "1/8"],
+  [0.25, "1/4"],
+  [1 / 3, "1/3"],
+  [0.5, "1/2"],
+  [2 / 3, "2/3"],
+  [0.75, "3/4"]
+];
+
+const KNOWN_UNITS = [
+  "cups",
+  "cup",
+  "tablespoons",
+  "tablespoon",
+  "tbsp",
+  "teaspoons",
+  "teaspoon",
+  "tsp",
+  "grams",
+  "gram",
+  "g",
+  "kg",
+  "ml",
+  "liters",
+  "liter",
+  "litres",
+  "litre",
+  "l",
+  "ounces",
+  "ounce",
+  "oz",
+  "pounds",
+  "pound",
+  "lbs",
+  "lb",
+  "cloves",
+  "clove",
+  "cans",
+  "can",
+  "pinch",
+  "handfuls",
+  "handful",
+  "slices",
+  "slice",
+  "pieces",
+  "piece",
+  "bunch"
+];
+
+const QUANTITY_PATTERN =
+  /^(\d+\s+\d+\/\d+|\d+\/\d+|\d*[¼½¾⅓⅔⅛]|\d+(?:\.\d+)?)(?:\s*-\s*[\d.\/]+)?\s*/;
+
+/** Parses "2", "1.5", "1/2", "1 1/2", "½" or "1½"; returns null otherwise. */
+export function parseQuantity(text: string): number | null {
+  const value = text.trim();
+  const unicode = value.match(/^(\d*)([¼½¾⅓⅔⅛])$/);
+  if (unicode) {
+    return Number(unicode[1] || 0) + UNICODE_FRACTIONS[unicode[2]];
+  }
+  const mixed = value.match(/^(?:(\d+)\s+)?(\d+)\/(\d+)$/);
+  if (mixed) {
+    const denominator = Number(mixed[3]);
+    if (!denominator) return null;
+    return Number(mixed[1] ?? 0) + Number(mixed[2]) / denominator;
+  }
+  const number = Number(value);
+  return value && Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Formats a quantity the way a cook writes it: common fractions for small
+ * amounts ("1 1/2"), whole numbers or one decimal place for larger ones.
+ * Grams and litres are never fractions: 1.35 kg stays "1.35".
+ */
+export function formatQuantity(
+  quantity: number,
+  unit: string | null = null
+): string {
+  if (unit && isMetricUnit(unit)) {
+    return String(Number(quantity.toFixed(quantity >= 10 ? 0 : 2)));
+  }
+  if (quantity >= 10) {
+    return String(Math.round(quantity));
+  }
+  const whole = Math.floor(quantity);
+  const remainder = quantity - whole;
+  if (remainder < 0.06) {
+    return String(whole || Number(quantity.toFixed(2)));
+  }
+  if (remainder > 0.94) {
+    return String(whole + 1);
+  }
+  const [value, label] = DISPLAY_FRACTIONS.reduce((closest, candidate) =>
+    Math.abs(candidate[0] - remainder) < Math.abs(closest[0] - remainder)
+      ? candidate
+      : closest
+  );
+  if (Math.abs(value - remainder) <= 0.05) {
+    return whole ? `${whole} ${label}` : label;
+  }
+  return String(Math.round(quantity * 10) / 10);
+}
+
+/** Splits a free-text line such as "2 cups cooked rice" into its parts. */
+export function parseIngredientLine(line: string): RecipeIngredient {
+  const text = line.trim();
+  const match = text.match(QUANTITY_PATTERN);
+  if (!match) {
+    return { quantity: null, unit: null, item: text, fromLeftovers: false };
+  }
+
+  const quantity = parseQuantity(match[1]);
+  let rest = text.slice(match[0].length);
+  const unit = KNOWN_UNITS.find((candidate) =>
+    new RegExp(`^${candidate}\\.?(\\s|$)`, "i").test(rest)
+  );
+  if (unit) {
+    rest = rest.slice(unit.length).replace(/^\.?\s*/, "");
+    rest = rest.replace(/^of\s+/i, "");
+  }
+
+  return {
+    quantity,
+    unit: unit ? unit.toLowerCase() : null,
+    item: rest || text,
+    fromLeftovers: false
+  };
+}
+
+const PLURAL_UNITS: Record<string, string> = {
+  cup: "cups",
+  clove: "cloves",
+  can: "cans",
+  handful: "handfuls",
+  slice: "slices",
+  piece: "pieces"
+};
+
+export function formatIngredient(ingredient: RecipeIngredient): string {
+  const unit =
+    ingredient.unit && ingredient.quantity !== null && ingredient.quantity > 1
+      ? (PLURAL_UNITS[ingredient.unit] ?? ingredient.unit)
+      : ingredient.unit;
+  return [
+    ingredient.quantity === null
+      ? null
+      : formatQuantity(ingredient.quantity, ingredient.unit),
+    unit,
+    ingredient.item
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
@@ -0,0 +1,33 @@
+import {
+  defaultLocale,
+  translate,
+  translatePlural,
+  type Locale
+} from "@/shared/i18n";
+
+/** "45 seconds", "3 minutes" or "2 hours", rounded up. */
+export function formatRetryAfter(
+  seconds: number,
+  locale: Locale = defaultLocale
+) {
+  if (seconds < 60) {
+    return translatePlural(
+      locale,
+      "duration.seconds",
+      Math.max(1, Math.ceil(seconds))
+    );
+  }
+  if (seconds < 60 * 60) {
+    return translatePlural(locale, "duration.minutes", Math.ceil(seconds / 60));
+  }
+  return translatePlural(locale, "duration.hours", Math.ceil(seconds / 3600));
+}
+
+export function rateLimitMessage(
+  retryAfterSeconds: number,
+  locale: Locale = defaultLocale
+) {
+  return translate(locale, "rateLimit.message", {
+    wait: formatRetryAfter(retryAfterSeconds, locale)
+  });
+}
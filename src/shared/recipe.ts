@@ -0,0 +1,189 @@
+import { z } from "zod";
+import type { ModelErrorCode } from "@/shared/errors";
+import {
+  defaultLocale,
+  localeSchema,
+  translate,
+  type Locale
+} from "@/shared/i18n";
+import type { MenuRef } from "@/shared/menu";
+import { parseIngredientLine } from "@/shared/quantity";
+
+export const RECIPE_SCHEMA_VERSION = 2;
+
+export const difficulties = ["easy", "medium", "hard"] as const;
+
+export type Difficulty = (typeof difficulties)[number];
+
+export const recipeIngredientSchema = z.object({
+  /** Decimal amount; null for "to taste" or uncounted items. */
+  quantity: z.number().positive().max(10000).nullable().default(null),
+  unit: z.string().trim().min(1).max(20).nullable().default(null),
+  item: z.string().trim().min(2),
+  /** True when the ingredient comes from the photo or the confirmed list. */
+  fromLeftovers: z.boolean().default(false)
+});
+
+/** Rough estimate for one serving. */
+export const nutritionSchema = z.object({
+  calories: z.number().min(0).max(5000),
+  proteinGrams: z.number().min(0).max(500),
+  carbsGrams: z.number().min(0).max(1000),
+  fatGrams: z.number().min(0).max(500)
+});
+
+const minutesSchema = z.number().int().min(0).max(1440);
+
+// Timings and servings are nullable so menus saved before schema version 2
+// can be upgraded without inventing numbers; the model must always send them.
+export const recipeSchema = z.object({
+  name: z.string().min(3),
+  description: z.string().min(10),
+  servings: z.number().int().min(1).max(50).nullable(),
+  prepMinutes: minutesSchema.nullable(),
+  cookMinutes: minutesSchema.nullable(),
+  difficulty: z.enum(difficulties).nullable(),
+  ingredients: z.array(recipeIngredientSchema).min(3),
+  steps: z.array(z.string().min(5)).min(3),
+  nutrition: nutritionSchema.optional(),
+  /** Set by the server when the recipe breaks the cook's dietary profile. */
+  violations: z.array(z.string()).optional()
+});
+
+export const generatedRecipeSchema = recipeSchema.extend({
+  servings: z.number().int().min(1).max(50),
+  prepMinutes: minutesSchema,
+  cookMinutes: minutesSchema,
+  difficulty: z.enum(difficulties)
+});
+
+/** What the model must return; the server stamps the schema version. */
+export const generatedPayloadSchema = z.object({
+  summary: z.string().min(10),
+  recipes: z.array(generatedRecipeSchema).min(3).max(5)
+});
+
+export const payloadSchema = z.object({
+  schemaVersion: z.literal(RECIPE_SCHEMA_VERSION),
+  /** The language the menu was written in; absent on older English menus. */
+  locale: localeSchema.optional(),
+  summary: z.string().min(10),
+  recipes: z.array(recipeSchema).min(3).max(5)
+});
+
+export type RecipeIngredient = z.infer<typeof recipeIngredientSchema>;
+
+export type Nutrition = z.infer<typeof nutritionSchema>;
+
+export type Recipe = z.infer<typeof recipeSchema>;
+
+export type GenerateResponse = z.infer<typeof payloadSchema>;
+
+const legacyPayloadSchema = z.object({
+  summary: z.string(),
+  recipes: z.array(
+    z.object({
+      name: z.string(),
+      description: z.string(),
+      ingredients: z.array(z.string()),
+      steps: z.array(z.string()),
+      violations: z.array(z.string()).optional()
+    })
+  )
+});
+
+/**
+ * Reads a stored payload of any schema version. Version 1 payloads had
+ * free-text ingredients; their quantities and units are parsed back out.
+ */
+export function upgradePayload(value: unknown): GenerateResponse {
+  const current = payloadSchema.safeParse(value);
+  if (current.success) {
+    return current.data;
+  }
+
+  const legacy = legacyPayloadSchema.parse(value);
+  return {
+    schemaVersion: RECIPE_SCHEMA_VERSION,
+    summary: legacy.summary,
+    recipes: legacy.recipes.map((recipe) => ({
+      ...recipe,
+      servings: null,
+      prepMinutes: null,
+      cookMinutes: null,
+      difficulty: null,
+      ingredients: recipe.ingredients.map(parseIngredientLine)
+    }))
+  };
+}
+
+/** Prep plus cook time, or null when either is unknown. */
+export function totalMinutes(recipe: Recipe): number | null {
+  return recipe.prepMinutes === null || recipe.cookMinutes === null
+    ? null
+    : recipe.prepMinutes + recipe.cookMinutes;
+}
+
+/** Short facts such as "Serves 2" for card headers and shared text. */
+export function describeRecipeFacts(
+  recipe: Recipe,
+  locale: Locale = defaultLocale
+): string[] {
+  const facts: string[] = [];
+  if (recipe.servings) {
+    facts.push(translate(locale, "recipe.serves", { count: recipe.servings }));
+  }
+  if (recipe.prepMinutes !== null) {
+    facts.push(
+      translate(locale, "recipe.prepMinutes", { minutes: recipe.prepMinutes })
+    );
+  }
+  if (recipe.cookMinutes !== null) {
+    facts.push(
+      translate(locale, "recipe.cookMinutes", { minutes: recipe.cookMinutes })
+    );
+  }
+  if (recipe.difficulty) {
+    facts.push(translate(locale, `difficulty.${recipe.difficulty}`));
+  }
+  return facts;
+}
+
+/** "420 kcal · 30 g protein · 45 g carbs · 12 g fat" */
+export function formatNutrition(
+  nutrition: Nutrition,
+  locale: Locale = defaultLocale
+) {
+  return translate(locale, "recipe.nutrition", {
+    calories: Math.round(nutrition.calories),
+    protein: Math.round(nutrition.proteinGrams),
+    carbs: Math.round(nutrition.carbsGrams),
+    fat: Math.round(nutrition.fatGrams)
+  });
+}
+
+/**
+ * Where `/api/generate` got its result: a recent identical request ("hit"),
+ * an identical request still running ("shared"), or a fresh model call.
+ */
+export type GenerateCacheStatus = "hit" | "shared" | "miss";
+
+/** One line of the `application/x-ndjson` response from `/api/generate`. */
+export type GenerateStreamEvent =
+  | { type: "summary"; summary: string }
+  | { type: "recipe"; index: number; recipe: Recipe }
+  | {
+      type: "done";
+      payload: GenerateResponse;
+      menu: MenuRef | null;
+      cache: GenerateCacheStatus;
+    }
+  | {
+      type: "error";
+      error: string;
+      code: ModelErrorCode;
+      /** Matches the failed generation's server log lines. */
+      requestId?: string;
+    };
+
+export const GENERATE_STREAM_CONTENT_TYPE = "application/x-ndjson";
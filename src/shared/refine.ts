@@ -0,0 +1,17 @@
+import type { Recipe } from "@/shared/recipe";
+
+/** Per-card changes to one recipe, leaving the rest of the menu alone. */
+export const refineActions = [
+  "swap",
+  "vegetarian",
+  "quicker",
+  "custom"
+] as const;
+
+export type RefineAction = (typeof refineActions)[number];
+
+export const MAX_REFINE_INSTRUCTION_LENGTH = 300;
+
+export type RefineResponse = {
+  recipe: Recipe;
+};
@@ -0,0 +1,94 @@
+import { defaultLocale, translate, type Locale } from "@/shared/i18n";
+import { formatIngredient } from "@/shared/quantity";
+import { describeRecipeFacts, type Recipe } from "@/shared/recipe";
+import { formatShoppingItem, type ShoppingList } from "@/shared/shopping";
+
+const messageTitle = (locale: Locale) =>
+  `🍳 *${translate(locale, "share.title")}*`;
+
+/** One recipe as WhatsApp-formatted text (*bold*, _italic_). */
+export function formatRecipeMessage(
+  recipe: Recipe,
+  index: number,
+  locale: Locale = defaultLocale
+) {
+  const lines = [`*${index + 1}. ${recipe.name}*`, recipe.description];
+  const facts = describeRecipeFacts(recipe, locale);
+  if (facts.length) lines.push(`_${facts.join(" · ")}_`);
+  lines.push(`_${translate(locale, "share.ingredients")}_:`);
+  recipe.ingredients.forEach((ingredient) =>
+    lines.push(`• ${formatIngredient(ingredient)}`)
+  );
+  lines.push(`_${translate(locale, "share.steps")}_:`);
+  recipe.steps.forEach((step, stepIndex) =>
+    lines.push(`${stepIndex + 1}. ${step}`)
+  );
+  return lines.join("\n");
+}
+
+/**
+ * The full menu as WhatsApp-formatted text. Recipes are separated by blank
+ * lines, which is where long messages get split.
+ */
+export function formatMenuMessage(
+  summary: string | null,
+  recipes: Recipe[],
+  locale: Locale = defaultLocale
+) {
+  if (!recipes.length) return "";
+  const title = messageTitle(locale);
+  return [
+    summary ? `${title}\n${summary}` : title,
+    ...recipes.map((recipe, index) =>
+      formatRecipeMessage(recipe, index, locale)
+    )
+  ].join("\n\n");
+}
+
+/** Recipe names plus a link to the full menu page. */
+export function formatMenuLinkMessage(
+  summary: string | null,
+  recipes: Recipe[],
+  permalink: string,
+  locale: Locale = defaultLocale
+) {
+  return [
+    messageTitle(locale),
+    summary ? `${summary}\n` : "",
+    ...recipes.map((recipe, index) => `${index + 1}. ${recipe.name}`),
+    "",
+    `${translate(locale, "share.fullRecipes")}: ${permalink}`
+  ]
+    .join("\n")
+    .trim();
+}
+
+/**
+ * A shopping list as WhatsApp-formatted text. `period` says which days it
+ * covers, e.g. "Mon 20 Oct – Sun 26 Oct".
+ */
+export function formatShoppingListMessage(
+  list: ShoppingList,
+  period: string,
+  locale: Locale = defaultLocale
+) {
+  const lines = [
+    `🛒 *${translate(locale, "share.shoppingList")}*`,
+    `_${period}_`,
+    ""
+  ];
+  if (list.items.length) {
+    lines.push(...list.items.map((item) => `• ${formatShoppingItem(item)}`));
+  } else {
+    lines.push(translate(locale, "share.nothingToBuy"));
+  }
+  if (list.covered.length) {
+    lines.push(
+      "",
+      `_${translate(locale, "share.alreadyHave")}_: ${list.covered
+        .map((item) => item.name)
+        .join(", ")}`
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,213 @@
+import {
+  daysUntil,
+  findPantryMatch,
+  pantryKey,
+  type Pantry
+} from "@/shared/pantry";
+import { formatIngredient } from "@/shared/quantity";
+import type { Recipe } from "@/shared/recipe";
+import {
+  convertAmount,
+  convertIngredient,
+  type UnitSystem
+} from "@/shared/units";
+
+export type ShoppingAmount = {
+  quantity: number;
+  unit: string | null;
+};
+
+export type ShoppingItem = {
+  name: string;
+  /**
+   * What is left to buy, one entry per unit that cannot be added to the
+   * others ("2 cups" and "1 handful"). Empty when no recipe said how much.
+   */
+  amounts: ShoppingAmount[];
+  /** The recipes that call for it. */
+  recipes: string[];
+};
+
+export const shoppingSources = ["pantry", "staples", "leftovers"] as const;
+
+export type ShoppingSource = (typeof shoppingSources)[number];
+
+/** An ingredient the cook already has enough of. */
+export type CoveredItem = {
+  name: string;
+  coveredBy: ShoppingSource;
+  recipes: string[];
+};
+
+export type ShoppingList = {
+  items: ShoppingItem[];
+  covered: CoveredItem[];
+};
+
+type Group = {
+  name: string;
+  amounts: ShoppingAmount[];
+  /** False when every recipe takes it from the leftovers. */
+  needed: boolean;
+  recipes: Set<string>;
+};
+
+// Below this an amount is rounding noise rather than something to buy.
+const EPSILON = 0.01;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** "Bell peppers, diced (about 2)" is shopped for as "Bell peppers". */
+function shoppingName(item: string) {
+  return (
+    item
+      .replace(/\(.*?\)/g, " ")
+      .split(",")[0]
+      .trim() || item
+  );
+}
+
+/** Adds `amount` to the first entry in a unit it converts to, or appends it. */
+function addAmount(amounts: ShoppingAmount[], amount: ShoppingAmount) {
+  for (const existing of amounts) {
+    const converted = convertAmount(
+      amount.quantity,
+      amount.unit,
+      existing.unit
+    );
+    if (converted !== null) {
+      existing.quantity += converted;
+      return;
+    }
+  }
+  amounts.push({ ...amount });
+}
+
+/** Takes what the pantry holds off each amount it can be measured against. */
+function subtractStock(
+  amounts: ShoppingAmount[],
+  stock: { quantity: number; unit: string | null }
+) {
+  let available = stock.quantity;
+  return amounts
+    .map((amount) => {
+      const have = convertAmount(available, stock.unit, amount.unit);
+      if (have === null || have <= 0) return amount;
+      const used = Math.min(have, amount.quantity);
+      available -= convertAmount(used, amount.unit, stock.unit) ?? 0;
+      return { ...amount, quantity: amount.quantity - used };
+    })
+    .filter((amount) => amount.quantity > EPSILON);
+}
+
+function toSystem(amount: ShoppingAmount, system: UnitSystem | undefined) {
+  const rounded = { ...amount, quantity: round(amount.quantity) };
+  if (!system) return rounded;
+  const converted = convertIngredient(
+    { ...rounded, item: "", fromLeftovers: false },
+    system
+  );
+  return {
+    quantity: converted.quantity ?? rounded.quantity,
+    unit: converted.unit
+  };
+}
+
+/**
+ * One list for a set of recipes, already scaled to the servings being
+ * cooked. The same ingredient across recipes becomes one line with its
+ * amounts summed where the units allow. Staples, leftovers the recipes draw
+ * on and pantry stock that has not expired are taken off; anything they
+ * cover in full is listed separately.
+ */
+export function buildShoppingList(
+  recipes: Recipe[],
+  pantry: Pantry | null,
+  options: { system?: UnitSystem; today?: Date } = {}
+): ShoppingList {
+  const groups = new Map<string, Group>();
+  for (const recipe of recipes) {
+    for (const ingredient of recipe.ingredients) {
+      // Names without letters still get a line of their own.
+      const key = pantryKey(ingredient.item) || ingredient.item.trim();
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          name: shoppingName(ingredient.item),
+          amounts: [],
+          needed: false,
+          recipes: new Set()
+        };
+        groups.set(key, group);
+      }
+      group.recipes.add(recipe.name);
+      if (ingredient.fromLeftovers) continue;
+      group.needed = true;
+      if (ingredient.quantity !== null) {
+        addAmount(group.amounts, {
+          quantity: ingredient.quantity,
+          unit: ingredient.unit
+        });
+      }
+    }
+  }
+
+  const staples = (pantry?.staples ?? []).map((name) => ({ name }));
+  const stock = (pantry?.items ?? []).filter(
+    (item) => !item.expiresOn || daysUntil(item.expiresOn, options.today) >= 0
+  );
+  const items: ShoppingItem[] = [];
+  const covered: CoveredItem[] = [];
+  for (const group of groups.values()) {
+    const recipeNames = Array.from(group.recipes);
+    const cover = (coveredBy: ShoppingSource) =>
+      covered.push({ name: group.name, coveredBy, recipes: recipeNames });
+
+    if (!group.needed) {
+      cover("leftovers");
+      continue;
+    }
+    if (findPantryMatch(staples, group.name)) {
+      cover("staples");
+      continue;
+    }
+
+    let amounts = group.amounts;
+    const match = findPantryMatch(stock, group.name);
+    if (match) {
+      // "Some rice" in the pantry is taken to be enough.
+      if (match.quantity === null || !amounts.length) {
+        cover("pantry");
+        continue;
+      }
+      amounts = subtractStock(amounts, {
+        quantity: match.quantity,
+        unit: match.unit
+      });
+      if (!amounts.length) {
+        cover("pantry");
+        continue;
+      }
+    }
+    items.push({
+      name: group.name,
+      amounts: amounts.map((amount) => toSystem(amount, options.system)),
+      recipes: recipeNames
+    });
+  }
+
+  const byName = (left: { name: string }, right: { name: string }) =>
+    left.name.localeCompare(right.name);
+  return { items: items.sort(byName), covered: covered.sort(byName) };
+}
+
+/** "2 cups + 1 handful rice", or just "rice" when no amount was given. */
+export function formatShoppingItem(item: ShoppingItem) {
+  if (!item.amounts.length) return item.name;
+  const amounts = item.amounts
+    .map((amount) =>
+      formatIngredient({ ...amount, item: "", fromLeftovers: false })
+    )
+    .join(" + ");
+  return `${amounts} ${item.name}`;
+}
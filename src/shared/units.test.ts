@@ -0,0 +1,169 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Recipe, RecipeIngredient } from "@/shared/recipe";
+import {
+  adaptRecipe,
+  convertAmount,
+  convertIngredient,
+  convertTemperatures,
+  normalizeUnit,
+  scaleIngredient
+} from "@/shared/units";
+
+const ingredient = (
+  quantity: number | null,
+  unit: string | null,
+  item = "flour"
+): RecipeIngredient => ({ quantity, unit, item, fromLeftovers: false });
+
+describe("normalizeUnit", () => {
+  it("reads aliases, plurals, case and a trailing dot", () => {
+    assert.equal(normalizeUnit("Grams"), "g");
+    assert.equal(normalizeUnit("cups"), "cup");
+    assert.equal(normalizeUnit("tbsp."), "tbsp");
+    assert.equal(normalizeUnit("fluid ounces"), "fl oz");
+  });
+
+  it("returns null for units it cannot convert", () => {
+    assert.equal(normalizeUnit("clove"), null);
+  });
+});
+
+describe("convertAmount", () => {
+  it("converts within a dimension", () => {
+    assert.equal(convertAmount(2, "kg", "g"), 2000);
+    assert.ok(Math.abs(convertAmount(1, "lb", "oz")! - 16) < 0.001);
+  });
+
+  it("refuses to mix mass and volume", () => {
+    assert.equal(convertAmount(1, "cup", "g"), null);
+  });
+
+  it("matches unknown units only against themselves", () => {
+    assert.equal(convertAmount(3, "cloves", "clove"), 3);
+    assert.equal(convertAmount(3, "bunches", "bunch"), 3);
+    assert.equal(convertAmount(3, "clove", "can"), null);
+    assert.equal(convertAmount(3, null, null), 3);
+    assert.equal(convertAmount(3, null, "g"), null);
+  });
+});
+
+describe("scaleIngredient", () => {
+  it("multiplies quantities and leaves unquantified items alone", () => {
+    assert.equal(scaleIngredient(ingredient(2, "cup"), 1.5).quantity, 3);
+    const pinch = ingredient(null, "pinch", "salt");
+    assert.equal(scaleIngredient(pinch, 2), pinch);
+  });
+});
+
+describe("convertIngredient", () => {
+  it("rounds metric results to a step that suits the size", () => {
+    assert.deepEqual(convertIngredient(ingredient(12, "oz"), "metric"), {
+      ...ingredient(340, "g")
+    });
+    assert.deepEqual(convertIngredient(ingredient(2, "cup"), "metric"), {
+      ...ingredient(470, "ml")
+    });
+  });
+
+  it("moves to kilograms and litres from 1000 up", () => {
+    assert.deepEqual(convertIngredient(ingredient(3, "lb"), "metric"), {
+      ...ingredient(1.35, "kg")
+    });
+    assert.deepEqual(convertIngredient(ingredient(5, "cups"), "metric"), {
+      ...ingredient(1.2, "l")
+    });
+  });
+
+  it("rounds imperial results to quarters and picks a fitting unit", () => {
+    assert.deepEqual(convertIngredient(ingredient(500, "g"), "imperial"), {
+      ...ingredient(1, "lb")
+    });
+    assert.deepEqual(convertIngredient(ingredient(100, "g"), "imperial"), {
+      ...ingredient(3.5, "oz")
+    });
+    assert.deepEqual(convertIngredient(ingredient(30, "ml"), "imperial"), {
+      ...ingredient(2, "tbsp")
+    });
+    assert.deepEqual(convertIngredient(ingredient(250, "ml"), "imperial"), {
+      ...ingredient(1, "cup")
+    });
+  });
+
+  it("leaves spoons, counts and the target system as they are", () => {
+    const spoon = ingredient(2, "tbsp");
+    assert.equal(convertIngredient(spoon, "metric"), spoon);
+    const cloves = ingredient(3, "cloves", "garlic");
+    assert.equal(convertIngredient(cloves, "imperial"), cloves);
+    const grams = ingredient(200, "g");
+    assert.equal(convertIngredient(grams, "metric"), grams);
+  });
+});
+
+describe("convertTemperatures", () => {
+  it("converts oven settings to the dial", () => {
+    assert.equal(
+      convertTemperatures("Bake at 200°C for 20 minutes.", "imperial"),
+      "Bake at 400°F for 20 minutes."
+    );
+    assert.equal(
+      convertTemperatures("Heat the oven to 350 degrees F.", "metric"),
+      "Heat the oven to 180°C."
+    );
+  });
+
+  it("keeps low readings precise", () => {
+    assert.equal(
+      convertTemperatures("Cook to 165°F inside.", "metric"),
+      "Cook to 74°C inside."
+    );
+  });
+
+  it("reads a bare capital C or F after the number", () => {
+    assert.equal(
+      convertTemperatures("Bake at 200C.", "imperial"),
+      "Bake at 400°F."
+    );
+    assert.equal(
+      convertTemperatures("Roast at 425 F until golden.", "metric"),
+      "Roast at 220°C until golden."
+    );
+  });
+
+  it("leaves cups, other words and the target scale alone", () => {
+    const text = "Add 200 c of stock, then 100 Cook at 180°C.";
+    assert.equal(convertTemperatures(text, "metric"), text);
+    assert.equal(
+      convertTemperatures("Add 250 c stock.", "imperial"),
+      "Add 250 c stock."
+    );
+  });
+});
+
+describe("adaptRecipe", () => {
+  const recipe = {
+    name: "Rice bake",
+    description: "",
+    servings: 2,
+    ingredients: [ingredient(200, "g", "rice"), ingredient(1, null, "egg")],
+    steps: ["Bake at 180°C."]
+  } as unknown as Recipe;
+
+  it("scales to the servings asked for and converts units and steps", () => {
+    const adapted = adaptRecipe(recipe, { servings: 4, system: "imperial" });
+    assert.equal(adapted.servings, 4);
+    assert.deepEqual(adapted.ingredients, [
+      ingredient(14, "oz", "rice"),
+      ingredient(2, null, "egg")
+    ]);
+    assert.deepEqual(adapted.steps, ["Bake at 350°F."]);
+  });
+
+  it("ignores servings when the recipe does not say how many it serves", () => {
+    const adapted = adaptRecipe(
+      { ...recipe, servings: null } as unknown as Recipe,
+      { servings: 4, system: "metric" }
+    );
+    assert.equal(adapted.ingredients[0].quantity, 200);
+  });
+});
@@ -0,0 +1,226 @@
+import type { Recipe, RecipeIngredient } from "@/shared/recipe";
+
+export const unitSystems = ["metric", "imperial"] as const;
+
+export type UnitSystem = (typeof unitSystems)[number];
+
+type Dimension = "mass" | "volume";
+
+type UnitDefinition = {
+  dimension: Dimension;
+  /** Size of one unit in grams (mass) or millilitres (volume). */
+  base: number;
+  system: UnitSystem | "both";
+};
+
+const UNITS: Record<string, UnitDefinition> = {
+  g: { dimension: "mass", base: 1, system: "metric" },
+  kg: { dimension: "mass", base: 1000, system: "metric" },
+  oz: { dimension: "mass", base: 28.3495, system: "imperial" },
+  lb: { dimension: "mass", base: 453.592, system: "imperial" },
+  ml: { dimension: "volume", base: 1, system: "metric" },
+  l: { dimension: "volume", base: 1000, system: "metric" },
+  cup: { dimension: "volume", base: 236.588, system: "imperial" },
+  "fl oz": { dimension: "volume", base: 29.5735, system: "imperial" },
+  // Spoons are read the same way in both systems, so they are never converted.
+  tbsp: { dimension: "volume", base: 14.787, system: "both" },
+  tsp: { dimension: "volume", base: 4.929, system: "both" }
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  gram: "g",
+  grams: "g",
+  kilogram: "kg",
+  kilograms: "kg",
+  ounce: "oz",
+  ounces: "oz",
+  pound: "lb",
+  pounds: "lb",
+  lbs: "lb",
+  millilitre: "ml",
+  millilitres: "ml",
+  milliliter: "ml",
+  milliliters: "ml",
+  litre: "l",
+  litres: "l",
+  liter: "l",
+  liters: "l",
+  cups: "cup",
+  "fluid ounce": "fl oz",
+  "fluid ounces": "fl oz",
+  tablespoon: "tbsp",
+  tablespoons: "tbsp",
+  teaspoon: "tsp",
+  teaspoons: "tsp"
+};
+
+/** Maps "Grams", "cups" or "tbsp." to a key of `UNITS`, or null if unknown. */
+export function normalizeUnit(unit: string): string | null {
+  const key = unit.trim().toLowerCase().replace(/\.$/, "");
+  const canonical = UNIT_ALIASES[key] ?? key;
+  return canonical in UNITS ? canonical : null;
+}
+
+/** Whether `unit` is a gram or litre measure, which is written in decimals. */
+export function isMetricUnit(unit: string) {
+  const key = normalizeUnit(unit);
+  return key !== null && UNITS[key].system === "metric";
+}
+
+/** Rounds to a step that suits the size, so 347 g reads as 350 g. */
+function roundMetric(value: number) {
+  if (value >= 1000) return Math.round(value / 50) * 50;
+  if (value >= 100) return Math.round(value / 10) * 10;
+  if (value >= 20) return Math.round(value / 5) * 5;
+  return Math.max(1, Math.round(value));
+}
+
+/** Rounds to the nearest quarter, the finest split on imperial measures. */
+function roundImperial(value: number) {
+  return Math.max(0.25, Math.round(value * 4) / 4);
+}
+
+function toMetric(amount: number, dimension: Dimension) {
+  if (dimension === "mass") {
+    return amount >= 1000
+      ? { quantity: roundMetric(amount) / 1000, unit: "kg" }
+      : { quantity: roundMetric(amount), unit: "g" };
+  }
+  return amount >= 1000
+    ? { quantity: roundMetric(amount) / 1000, unit: "l" }
+    : { quantity: roundMetric(amount), unit: "ml" };
+}
+
+function toImperial(amount: number, dimension: Dimension) {
+  if (dimension === "mass") {
+    const ounces = amount / UNITS.oz.base;
+    return ounces >= 16
+      ? { quantity: roundImperial(ounces / 16), unit: "lb" }
+      : { quantity: roundImperial(ounces), unit: "oz" };
+  }
+  if (amount < UNITS.tbsp.base) {
+    return { quantity: roundImperial(amount / UNITS.tsp.base), unit: "tsp" };
+  }
+  if (amount < UNITS.cup.base / 4) {
+    return { quantity: roundImperial(amount / UNITS.tbsp.base), unit: "tbsp" };
+  }
+  return { quantity: roundImperial(amount / UNITS.cup.base), unit: "cup" };
+}
+
+/**
+ * `quantity` of `from` expressed in `to`, or null when the two measure
+ * different things. Units this module does not know ("clove", "can") only
+ * match themselves, and two missing units are both plain counts.
+ */
+export function convertAmount(
+  quantity: number,
+  from: string | null,
+  to: string | null
+): number | null {
+  if (!from || !to) return !from && !to ? quantity : null;
+  const source = normalizeUnit(from);
+  const target = normalizeUnit(to);
+  if (!source || !target) {
+    const singular = (unit: string) =>
+      unit
+        .trim()
+        .toLowerCase()
+        .replace(/\.$/, "")
+        .replace(/(ch|sh|x)es$/, "$1")
+        .replace(/s$/, "");
+    return singular(from) === singular(to) ? quantity : null;
+  }
+  if (UNITS[source].dimension !== UNITS[target].dimension) return null;
+  return (quantity * UNITS[source].base) / UNITS[target].base;
+}
+
+/** Multiplies the quantity by `factor`; unquantified items are unchanged. */
+export function scaleIngredient(
+  ingredient: RecipeIngredient,
+  factor: number
+): RecipeIngredient {
+  return ingredient.quantity === null || factor === 1
+    ? ingredient
+    : { ...ingredient, quantity: ingredient.quantity * factor };
+}
+
+/**
+ * Expresses the ingredient in `system`. Units the module does not know
+ * ("clove", "handful") and spoons are left as they are.
+ */
+export function convertIngredient(
+  ingredient: RecipeIngredient,
+  system: UnitSystem
+): RecipeIngredient {
+  if (ingredient.quantity === null || !ingredient.unit) return ingredient;
+  const unit = normalizeUnit(ingredient.unit);
+  if (!unit) return ingredient;
+
+  const definition = UNITS[unit];
+  if (definition.system === "both" || definition.system === system) {
+    return ingredient;
+  }
+
+  const amount = ingredient.quantity * definition.base;
+  return {
+    ...ingredient,
+    ...(system === "metric"
+      ? toMetric(amount, definition.dimension)
+      : toImperial(amount, definition.dimension))
+  };
+}
+
+// "200°C", "400 degrees F", or a bare capital letter as in "200C" or "350 F";
+// a lowercase "c" right after a number is more often cups than Celsius.
+const TEMPERATURE_PATTERN =
+  /(\d{2,3})(?:\s*(?:°\s*|[Dd]egrees?\s+)([CcFf]|[Cc]elsius|[Ff]ahrenheit)|\s?([CF]))\b/g;
+
+// Oven settings snap to the dial (25°F or 10°C steps); lower readings such as
+// a safe internal meat temperature must stay precise.
+function roundTemperature(degrees: number, scale: "C" | "F") {
+  if (scale === "F") {
+    return degrees >= 250
+      ? Math.round(degrees / 25) * 25
+      : Math.round(degrees / 5) * 5;
+  }
+  return degrees >= 120 ? Math.round(degrees / 10) * 10 : Math.round(degrees);
+}
+
+/** Rewrites temperatures such as "200°C", "350F" or "400 degrees F" in steps. */
+export function convertTemperatures(text: string, system: UnitSystem) {
+  return text.replace(
+    TEMPERATURE_PATTERN,
+    (match, value: string, scale?: string, bareScale?: string) => {
+      const isCelsius = (scale ?? bareScale ?? "")
+        .toUpperCase()
+        .startsWith("C");
+      if (isCelsius === (system === "metric")) return match;
+      const degrees = Number(value);
+      return isCelsius
+        ? `${roundTemperature((degrees * 9) / 5 + 32, "F")}°F`
+        : `${roundTemperature(((degrees - 32) * 5) / 9, "C")}°C`;
+    }
+  );
+}
+
+export type RecipeView = {
+  /** Target servings; ignored when the recipe does not say how many it serves. */
+  servings?: number | null;
+  system: UnitSystem;
+};
+
+/** Scales and converts a recipe for display or sharing. */
+export function adaptRecipe(recipe: Recipe, view: RecipeView): Recipe {
+  const servings =
+    recipe.servings && view.servings ? view.servings : recipe.servings;
+  const factor = recipe.servings && servings ? servings / recipe.servings : 1;
+
+  return {
+    ...recipe,
+    servings,
+    ingredients: recipe.ingredients.map((ingredient) =>
+      convertIngredient(scaleIngredient(ingredient, factor), view.system)
+    ),
+    steps: recipe.steps.map((step) => convertTemperatures(step, view.system))
+  };
+}
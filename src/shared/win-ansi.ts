@@ -0,0 +1,54 @@
+// The WinAnsi character set, the only one the PDF export's built-in
+// Helvetica fonts can draw. Shared so the client can tell which menus the
+// PDF export can print before offering it.
+
+// WinAnsi codes 0x80-0x9F that differ from Latin-1.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99
+};
+
+/** Emoji and joiners have no WinAnsi equivalent and are dropped silently. */
+function isDroppable(codePoint: number) {
+  return (
+    codePoint > 0xffff ||
+    (codePoint >= 0x2600 && codePoint <= 0x27bf) ||
+    (codePoint >= 0xfe00 && codePoint <= 0xfe0f) ||
+    codePoint === 0x200d
+  );
+}
+
+/** The WinAnsi byte for `character`, "" when dropped, null when it has none. */
+function encodeCharacter(character: string) {
+  const codePoint = character.codePointAt(0) ?? 0;
+  if (codePoint === 0x09) return " ";
+  if (codePoint >= 0x20 && codePoint <= 0x7e) return character;
+  if (codePoint >= 0xa0 && codePoint <= 0xff) return character;
+  if (character in WIN_ANSI_EXTRAS) {
+    return String.fromCharCode(WIN_ANSI_EXTRAS[character]);
+  }
+  return isDroppable(codePoint) ? "" : null;
+}
+
+/** Converts text to WinAnsi bytes, stored one per character. */
+export function toWinAnsi(text: string) {
+  let encoded = "";
+  for (const character of text) encoded += encodeCharacter(character) ?? "?";
+  return encoded.replace(/ {2,}/g, " ");
+}
+
+/** Whether `text` fits WinAnsi without any character turning into "?". */
+export function isWinAnsiText(text: string) {
+  for (const character of text) {
+    if (encodeCharacter(character) === null) return false;
+  }
+  return true;
+}